@@ -89,15 +89,12 @@ export class BaseCmd {
     const jobQueueConfig = this._config.jobQueue;
     assert(jobQueueConfig, 'Missing job queue config');
 
-    const { dbConnectionString, maxCompletionLagInSecs } = jobQueueConfig;
-    assert(dbConnectionString, 'Missing job queue db connection string');
-
-    this._jobQueue = new JobQueue({ dbConnectionString, maxCompletionLag: maxCompletionLagInSecs });
+    this._jobQueue = new JobQueue({ ...jobQueueConfig, maxCompletionLag: jobQueueConfig.maxCompletionLagInSecs });
     await this._jobQueue.start();
 
-    const { ethClient, ethProvider } = await initClients(this._config);
+    const { ethClient, ethProvider, tracingClient, ipfsContentFetcher } = await initClients(this._config);
     this._ethProvider = ethProvider;
-    this._clients = { ethClient, ...clients };
+    this._clients = { ethClient, tracingClient, ipfsContentFetcher, ...clients };
   }
 
   async initIndexer (
@@ -127,6 +124,7 @@ export class BaseCmd {
   }
 
   async initEventWatcher (): Promise<void> {
+    assert(this._config);
     assert(this._clients?.ethClient);
     assert(this._indexer);
     assert(this._jobQueue);
@@ -134,6 +132,12 @@ export class BaseCmd {
     // Note: In-memory pubsub works fine for now, as each watcher is a single process anyway.
     // Later: https://www.apollographql.com/docs/apollo-server/data/subscriptions/#production-pubsub-libraries
     const pubsub = new PubSub();
-    this._eventWatcher = new EventWatcher(this._clients.ethClient, this._indexer, pubsub, this._jobQueue);
+    this._eventWatcher = new EventWatcher(
+      this._clients.ethClient,
+      this._indexer,
+      pubsub,
+      this._jobQueue,
+      this._config.upstream.ethServer.rpcProviderWsEndpoint
+    );
   }
 }
@@ -0,0 +1,126 @@
+//
+// Copyright 2023 Vulcanize, Inc.
+//
+
+import debug from 'debug';
+import 'reflect-metadata';
+import assert from 'assert';
+import { ConnectionOptions } from 'typeorm';
+import { utils } from 'ethers';
+
+import { JsonRpcProvider } from '@ethersproject/providers';
+import {
+  JobQueue,
+  DatabaseInterface,
+  IndexerInterface,
+  ServerConfig,
+  Clients,
+  GraphWatcherInterface,
+  Config,
+  StateCompactionResult
+} from '@cerc-io/util';
+
+import { BaseCmd } from '../base';
+
+const log = debug('vulcanize:checkpoint-compact');
+
+interface Arguments {
+  configFile: string;
+  startBlock: number;
+  endBlock: number;
+  address?: string;
+  dryRun: boolean;
+}
+
+export class CompactStateCmd {
+  _argv?: Arguments;
+  _baseCmd: BaseCmd;
+
+  constructor () {
+    this._baseCmd = new BaseCmd();
+  }
+
+  get config (): Config {
+    return this._baseCmd.config;
+  }
+
+  get clients (): Clients {
+    return this._baseCmd.clients;
+  }
+
+  get ethProvider (): JsonRpcProvider {
+    return this._baseCmd.ethProvider;
+  }
+
+  get database (): DatabaseInterface {
+    return this._baseCmd.database;
+  }
+
+  async initConfig<ConfigType> (configFile: string): Promise<ConfigType> {
+    return this._baseCmd.initConfig(configFile);
+  }
+
+  async init (
+    argv: any,
+    Database: new (
+      config: ConnectionOptions,
+      serverConfig?: ServerConfig
+    ) => DatabaseInterface,
+    clients: { [key: string]: any } = {}
+  ): Promise<void> {
+    this._argv = argv;
+    await this.initConfig(argv.configFile);
+
+    await this._baseCmd.init(Database, clients);
+  }
+
+  async initIndexer (
+    Indexer: new (
+      serverConfig: ServerConfig,
+      db: DatabaseInterface,
+      clients: Clients,
+      ethProvider: JsonRpcProvider,
+      jobQueue: JobQueue,
+      graphWatcher?: GraphWatcherInterface
+    ) => IndexerInterface,
+    graphWatcher?: GraphWatcherInterface
+  ): Promise<void> {
+    return this._baseCmd.initIndexer(Indexer, graphWatcher);
+  }
+
+  /**
+   * Merge diffs in the block range into checkpoints at the end block and remove them.
+   * Prints the diff rows and bytes reclaimed (or to be reclaimed with dry-run) per contract.
+   */
+  async exec (): Promise<StateCompactionResult[]> {
+    assert(this._argv);
+
+    const database = this._baseCmd.database;
+    const indexer = this._baseCmd.indexer;
+
+    assert(database);
+    assert(indexer);
+    assert(indexer.compactStateDiffs, 'State compaction not supported by the watcher');
+
+    const { startBlock, endBlock, dryRun } = this._argv;
+    assert(startBlock <= endBlock, 'endBlock should be greater than or equal to startBlock');
+
+    // Use checksum address if a contract address is passed instead of an identifier.
+    const contractAddress = this._argv.address && utils.isAddress(this._argv.address) ? utils.getAddress(this._argv.address) : this._argv.address;
+
+    const results = await indexer.compactStateDiffs(startBlock, endBlock, contractAddress, dryRun);
+
+    results.forEach(result => {
+      const checkpointMessage = result.checkpointCreated ? ` into new checkpoint at block ${result.checkpointBlockNumber}` : '';
+      log(`${dryRun ? '[dry-run] ' : ''}Contract ${result.contractAddress}: ${result.removedDiffCount} diffs (${result.reclaimedBytes} bytes) compacted${checkpointMessage}`);
+    });
+
+    const removedDiffCount = results.reduce((acc, result) => acc + result.removedDiffCount, 0);
+    const reclaimedBytes = results.reduce((acc, result) => acc + result.reclaimedBytes, 0);
+    console.log(JSON.stringify({ dryRun, startBlock, endBlock, removedDiffCount, reclaimedBytes, contracts: results }, null, 2));
+
+    await database.close();
+
+    return results;
+  }
+}
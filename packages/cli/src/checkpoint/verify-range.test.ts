@@ -0,0 +1,99 @@
+//
+// Copyright 2023 Vulcanize, Inc.
+//
+
+import { expect } from 'chai';
+import 'mocha';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { utils } from 'ethers';
+
+import { DatabaseInterface, GraphDatabase, IndexerInterface, StateInterface, StateKind } from '@cerc-io/util';
+
+import { VerifyCheckpointRangeCmd } from './verify-range';
+
+const CONTRACT_ADDRESS = '0xca6d29232d1435d8198e3e5302495417dd073d61';
+
+describe('checkpoint verify-range', () => {
+  let dir: string;
+  let cmd: VerifyCheckpointRangeCmd;
+  let isDatabaseClosed: boolean;
+  let stateWhere: { [key: string]: any };
+
+  // Checkpoint state data and entities in the database at each block.
+  const checkpoints: { [blockNumber: number]: { state: { [entityName: string]: { [id: string]: any } } } } = {
+    10: { state: { Author: { '0x1': { id: '0x1', name: 'abc', paramInt: '1' } } } },
+    20: { state: { Author: { '0x1': { id: '0x1', name: 'abc', paramInt: '2' }, '0x2': { id: '0x2', name: 'xyz', paramInt: '3' } } } }
+  };
+
+  const dbEntities: { [blockHash: string]: { [id: string]: any } } = {
+    '0xb10': { '0x1': { id: '0x1', name: 'abc', paramInt: BigInt(1) } },
+    '0xb20': { '0x1': { id: '0x1', name: 'abc', paramInt: BigInt(5) } }
+  };
+
+  const getState = (blockNumber: number): StateInterface => ({
+    cid: `cid${blockNumber}`,
+    block: { blockNumber, blockHash: `0xb${blockNumber}` },
+    kind: StateKind.Checkpoint
+  }) as StateInterface;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'verify-range-'));
+    isDatabaseClosed = false;
+
+    cmd = new VerifyCheckpointRangeCmd();
+    cmd._baseCmd._database = { close: async () => { isDatabaseClosed = true; } } as unknown as DatabaseInterface;
+    cmd._baseCmd._indexer = {
+      getStates: async (where: { [key: string]: any }) => {
+        stateWhere = where;
+        return [getState(20), getState(10)];
+      },
+      getStateData: (state: StateInterface) => checkpoints[state.block.blockNumber]
+    } as unknown as IndexerInterface;
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should report mismatches of all checkpoints in the range', async () => {
+    const output = path.join(dir, 'report.json');
+    cmd._argv = { configFile: '', address: CONTRACT_ADDRESS, startBlock: 1, endBlock: 30, output };
+
+    const graphDb = {
+      getEntity: async (entityName: string, id: string, blockHash: string) => dbEntities[blockHash][id]
+    } as unknown as GraphDatabase;
+
+    const report = await cmd.exec(graphDb);
+
+    // Checkpoints are queried with the checksum address.
+    expect(stateWhere.contractAddress).to.equal(utils.getAddress(CONTRACT_ADDRESS));
+
+    expect(report.verified).to.equal(false);
+    expect(report.checkpoints).to.deep.equal([
+      { cid: 'cid10', blockNumber: 10, blockHash: '0xb10', mismatchCount: 0 },
+      { cid: 'cid20', blockNumber: 20, blockHash: '0xb20', mismatchCount: 2 }
+    ]);
+    expect(report.mismatches).to.deep.equal([
+      { cid: 'cid20', blockNumber: 20, entityName: 'Author', id: '0x1', field: 'paramInt', stateValue: '2', dbValue: '5' },
+      { cid: 'cid20', blockNumber: 20, entityName: 'Author', id: '0x2' }
+    ]);
+
+    expect(JSON.parse(fs.readFileSync(output).toString())).to.deep.equal(report);
+    expect(isDatabaseClosed).to.equal(true);
+  });
+
+  it('should verify checkpoints matching the database', async () => {
+    cmd._argv = { configFile: '', address: CONTRACT_ADDRESS, startBlock: 1, endBlock: 30, output: path.join(dir, 'report.json') };
+
+    const graphDb = {
+      getEntity: async (entityName: string, id: string, blockHash: string) => checkpoints[Number(blockHash.slice(3))].state[entityName][id]
+    } as unknown as GraphDatabase;
+
+    const report = await cmd.exec(graphDb);
+
+    expect(report.verified).to.equal(true);
+    expect(report.mismatches).to.have.lengthOf(0);
+  });
+});
@@ -0,0 +1,191 @@
+//
+// Copyright 2023 Vulcanize, Inc.
+//
+
+import debug from 'debug';
+import 'reflect-metadata';
+import assert from 'assert';
+import fs from 'fs';
+import path from 'path';
+import { Between, ConnectionOptions } from 'typeorm';
+import { utils } from 'ethers';
+
+import { JsonRpcProvider } from '@ethersproject/providers';
+import {
+  JobQueue,
+  DatabaseInterface,
+  IndexerInterface,
+  ServerConfig,
+  Clients,
+  GraphDatabase,
+  GraphWatcherInterface,
+  Config,
+  StateKind,
+  EntityMismatch,
+  getCheckpointDataMismatches,
+  getEntityMismatchMessage
+} from '@cerc-io/util';
+
+import { BaseCmd } from '../base';
+
+const log = debug('vulcanize:checkpoint-verify-range');
+
+interface Arguments {
+  configFile: string;
+  address: string;
+  startBlock: number;
+  endBlock: number;
+  output?: string;
+}
+
+interface CheckpointVerification {
+  cid: string;
+  blockNumber: number;
+  blockHash: string;
+  mismatchCount: number;
+}
+
+interface CheckpointMismatch extends EntityMismatch {
+  cid: string;
+  blockNumber: number;
+}
+
+export interface CheckpointRangeReport {
+  contractAddress: string;
+  startBlock: number;
+  endBlock: number;
+  verified: boolean;
+  checkpoints: CheckpointVerification[];
+  mismatches: CheckpointMismatch[];
+}
+
+export class VerifyCheckpointRangeCmd {
+  _argv?: Arguments;
+  _baseCmd: BaseCmd;
+
+  constructor () {
+    this._baseCmd = new BaseCmd();
+  }
+
+  get config (): Config {
+    return this._baseCmd.config;
+  }
+
+  get clients (): Clients {
+    return this._baseCmd.clients;
+  }
+
+  get ethProvider (): JsonRpcProvider {
+    return this._baseCmd.ethProvider;
+  }
+
+  get database (): DatabaseInterface {
+    return this._baseCmd.database;
+  }
+
+  async initConfig<ConfigType> (configFile: string): Promise<ConfigType> {
+    return this._baseCmd.initConfig(configFile);
+  }
+
+  async init (
+    argv: any,
+    Database: new (
+      config: ConnectionOptions,
+      serverConfig?: ServerConfig
+    ) => DatabaseInterface,
+    clients: { [key: string]: any } = {}
+  ): Promise<void> {
+    this._argv = argv;
+    await this.initConfig(argv.configFile);
+
+    await this._baseCmd.init(Database, clients);
+  }
+
+  async initIndexer (
+    Indexer: new (
+      serverConfig: ServerConfig,
+      db: DatabaseInterface,
+      clients: Clients,
+      ethProvider: JsonRpcProvider,
+      jobQueue: JobQueue,
+      graphWatcher?: GraphWatcherInterface
+    ) => IndexerInterface,
+    graphWatcher?: GraphWatcherInterface
+  ): Promise<void> {
+    return this._baseCmd.initIndexer(Indexer, graphWatcher);
+  }
+
+  /**
+   * Verify all checkpoints of the contract in the block range and write a JSON report.
+   * Mismatches are collected for all checkpoints instead of stopping at the first one.
+   */
+  async exec (graphDb: GraphDatabase): Promise<CheckpointRangeReport> {
+    assert(this._argv);
+
+    const database = this._baseCmd.database;
+    const indexer = this._baseCmd.indexer;
+
+    assert(database);
+    assert(indexer);
+
+    const { startBlock, endBlock } = this._argv;
+    assert(startBlock <= endBlock, 'endBlock should be greater than or equal to startBlock');
+
+    // Use checksum address if a contract address is passed instead of an identifier.
+    const contractAddress = utils.isAddress(this._argv.address) ? utils.getAddress(this._argv.address) : this._argv.address;
+
+    const states = await indexer.getStates({
+      contractAddress,
+      kind: StateKind.Checkpoint,
+      block: {
+        isPruned: false,
+        blockNumber: Between(startBlock, endBlock)
+      }
+    });
+
+    states.sort((a, b) => a.block.blockNumber - b.block.blockNumber);
+    log(`Verifying ${states.length} checkpoints for contract ${contractAddress} from block ${startBlock} to ${endBlock}`);
+
+    const report: CheckpointRangeReport = {
+      contractAddress,
+      startBlock,
+      endBlock,
+      verified: true,
+      checkpoints: [],
+      mismatches: []
+    };
+
+    for (const state of states) {
+      const { cid, block: { blockNumber, blockHash } } = state;
+      const data = indexer.getStateData(state);
+
+      const mismatches = await getCheckpointDataMismatches(graphDb, state.block, data);
+
+      mismatches.forEach(mismatch => {
+        log(`Diff found for checkpoint ${cid} at block ${blockNumber} in ${getEntityMismatchMessage(mismatch)}`);
+      });
+
+      report.checkpoints.push({ cid, blockNumber, blockHash, mismatchCount: mismatches.length });
+      report.mismatches.push(...mismatches.map(mismatch => ({ cid, blockNumber, ...mismatch })));
+    }
+
+    report.verified = report.mismatches.length === 0;
+
+    const reportJSON = JSON.stringify(report, null, 2);
+
+    if (this._argv.output) {
+      const filePath = path.resolve(this._argv.output);
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, reportJSON);
+      log(`Verification report written to ${filePath}`);
+    } else {
+      // Write only the report to stdout (logs are written to stderr) for it to be piped.
+      console.log(reportJSON);
+    }
+
+    log(`Verified ${report.checkpoints.length} checkpoints with ${report.mismatches.length} mismatching entity fields`);
+    await database.close();
+
+    return report;
+  }
+}
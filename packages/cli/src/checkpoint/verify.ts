@@ -5,6 +5,7 @@
 import debug from 'debug';
 import 'reflect-metadata';
 import assert from 'assert';
+import path from 'path';
 import { ConnectionOptions } from 'typeorm';
 
 import { JsonRpcProvider } from '@ethersproject/providers';
@@ -17,7 +18,14 @@ import {
   verifyCheckpointData,
   GraphDatabase,
   GraphWatcherInterface,
-  Config
+  Config,
+  SnapshotChunkKind,
+  getCheckpointDataMismatches,
+  getEntityMismatchMessage,
+  getSchemaHash,
+  readSnapshotChunk,
+  readSnapshotManifest,
+  verifySnapshot
 } from '@cerc-io/util';
 
 import { BaseCmd } from '../base';
@@ -26,7 +34,8 @@ const log = debug('vulcanize:checkpoint-verify');
 
 interface Arguments {
   configFile: string;
-  cid: string;
+  cid?: string;
+  snapshot?: string;
 }
 
 export class VerifyCheckpointCmd {
@@ -85,7 +94,7 @@ export class VerifyCheckpointCmd {
     return this._baseCmd.initIndexer(Indexer, graphWatcher);
   }
 
-  async exec (graphDb: GraphDatabase): Promise<void> {
+  async exec (graphDb: GraphDatabase, schema?: string): Promise<void> {
     assert(this._argv);
 
     const database = this._baseCmd.database;
@@ -94,14 +103,69 @@ export class VerifyCheckpointCmd {
     assert(database);
     assert(indexer);
 
-    const state = await indexer.getStateByCID(this._argv.cid);
-    assert(state, 'State for the provided CID doesn\'t exist.');
-    const data = indexer.getStateData(state);
+    if (this._argv.snapshot) {
+      await this._verifySnapshot(graphDb, this._argv.snapshot, schema);
+    } else {
+      assert(this._argv.cid, 'Either checkpoint CID or snapshot path is required');
 
-    log(`Verifying checkpoint data for contract ${state.contractAddress}`);
-    await verifyCheckpointData(graphDb, state.block, data);
-    log('Checkpoint data verified');
+      const state = await indexer.getStateByCID(this._argv.cid);
+      assert(state, 'State for the provided CID doesn\'t exist.');
+      const data = indexer.getStateData(state);
+
+      log(`Verifying checkpoint data for contract ${state.contractAddress}`);
+      await verifyCheckpointData(graphDb, state.block, data);
+      log('Checkpoint data verified');
+    }
 
     await database.close();
   }
+
+  async _verifySnapshot (graphDb: GraphDatabase, snapshotPath: string, schema?: string): Promise<void> {
+    const config = this._baseCmd.config;
+    const indexer = this._baseCmd.indexer;
+    assert(indexer);
+
+    const snapshotDir = path.resolve(snapshotPath);
+    const manifest = readSnapshotManifest(snapshotDir);
+
+    log(`Verifying snapshot manifest with Merkle root ${manifest.merkleRoot}`);
+    const { chainId } = await this._baseCmd.ethProvider.getNetwork();
+    await verifySnapshot(snapshotDir, manifest, {
+      chainId,
+      schemaHash: schema && getSchemaHash(schema),
+      trustedSigners: config.server.snapshot?.trustedSigners
+    });
+    log(`Snapshot manifest verified${manifest.signer ? `, signed by ${manifest.signer}` : ''}`);
+
+    // Compare snapshot entities with entities indexed by the watcher at the snapshot block.
+    const block = await indexer.getBlockProgress(manifest.snapshotBlock.blockHash);
+    assert(block, `Snapshot block ${manifest.snapshotBlock.blockHash} is not indexed by the watcher`);
+
+    let mismatchCount = 0;
+
+    for (const chunk of manifest.chunks) {
+      if (chunk.kind !== SnapshotChunkKind.Entities) {
+        continue;
+      }
+
+      assert(chunk.entityType);
+      const records = await readSnapshotChunk(snapshotDir, manifest, chunk);
+
+      const mismatches = await getCheckpointDataMismatches(graphDb, block, {
+        state: { [chunk.entityType]: Object.fromEntries(records) }
+      });
+
+      mismatches.forEach(mismatch => {
+        log(`Diff found for snapshot contract ${chunk.contractAddress} in ${getEntityMismatchMessage(mismatch)}`);
+      });
+
+      mismatchCount += mismatches.length;
+    }
+
+    if (mismatchCount) {
+      throw new Error(`Diff found for snapshot at block ${block.blockNumber} in ${mismatchCount} entity fields`);
+    }
+
+    log('Snapshot data verified');
+  }
 }
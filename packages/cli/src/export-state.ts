@@ -20,17 +20,29 @@ import {
   StateKind,
   Clients,
   GraphWatcherInterface,
-  Config
+  Config,
+  SnapshotBlock,
+  SnapshotCheckpoint,
+  SnapshotContract,
+  SnapshotWriter,
+  DEFAULT_SNAPSHOT_CHUNK_SIZE,
+  getSchemaHash
 } from '@cerc-io/util';
 
 import { BaseCmd } from './base';
 
 const log = debug('vulcanize:export-state');
 
+const EXPORT_FORMAT_NDJSON = 'ndjson';
+const EXPORT_FORMAT_CBOR = 'cbor';
+
 interface Arguments {
   configFile: string;
   exportFile: string;
   blockNumber: number;
+  format: string;
+  compress: boolean;
+  chunkSize: number;
 }
 
 export class ExportStateCmd {
@@ -90,20 +102,18 @@ export class ExportStateCmd {
     return this._baseCmd.initIndexer(Indexer, graphWatcher);
   }
 
-  async exec (): Promise<void> {
+  async exec (schema?: string): Promise<void> {
     assert(this._argv);
 
+    const config = this._baseCmd.config;
     const database = this._baseCmd.database;
     const indexer = this._baseCmd.indexer;
+    const ethProvider = this._baseCmd.ethProvider;
 
+    assert(config);
     assert(database);
     assert(indexer);
-
-    const exportData: any = {
-      snapshotBlock: {},
-      contracts: [],
-      stateCheckpoints: []
-    };
+    assert(ethProvider);
 
     const contracts = await database.getContracts();
     let block = await indexer.getLatestStateIndexedBlock();
@@ -126,22 +136,34 @@ export class ExportStateCmd {
     log(`Creating export snapshot at block height ${block.blockNumber}`);
 
     // Export snapshot block.
-    exportData.snapshotBlock = {
+    const snapshotBlock: SnapshotBlock = {
       blockNumber: block.blockNumber,
       blockHash: block.blockHash
     };
 
+    const exportContracts: SnapshotContract[] = [];
+    const stateCheckpoints: SnapshotCheckpoint[] = [];
+    let snapshotWriter: SnapshotWriter | undefined;
+
+    // Checkpoints are streamed to the snapshot directory one contract at a time in the NDJSON format.
+    if (this._argv.exportFile && this._argv.format === EXPORT_FORMAT_NDJSON) {
+      snapshotWriter = new SnapshotWriter(this._argv.exportFile, this._argv.compress, this._argv.chunkSize);
+      await snapshotWriter.init();
+    }
+
     // Export contracts and checkpoints.
     for (const contract of contracts) {
       if (contract.startingBlock > block.blockNumber) {
         continue;
       }
 
-      exportData.contracts.push({
+      exportContracts.push({
         address: contract.address,
         kind: contract.kind,
         checkpoint: contract.checkpoint,
-        startingBlock: block.blockNumber
+        startingBlock: block.blockNumber,
+        // Data source context of contracts created from subgraph templates.
+        context: contract.context ?? null
       });
 
       // Create and export checkpoint if checkpointing is on for the contract.
@@ -153,27 +175,54 @@ export class ExportStateCmd {
 
         const data = indexer.getStateData(state);
 
-        exportData.stateCheckpoints.push({
+        const checkpoint = {
           contractAddress: state.contractAddress,
           cid: state.cid,
           kind: state.kind,
           data
-        });
+        };
+
+        if (snapshotWriter) {
+          await snapshotWriter.writeCheckpoint(checkpoint);
+        } else {
+          stateCheckpoints.push(checkpoint);
+        }
       }
     }
 
-    if (this._argv.exportFile) {
-      const codec = await import('@ipld/dag-cbor');
-      const encodedExportData = codec.encode(exportData);
+    if (snapshotWriter) {
+      const { chainId } = await ethProvider.getNetwork();
 
-      const filePath = path.resolve(this._argv.exportFile);
-      const fileDir = path.dirname(filePath);
+      // Sign the manifest if a signing key is configured.
+      const manifest = await snapshotWriter.finalize(
+        snapshotBlock,
+        exportContracts,
+        { chainId, schemaHash: schema && getSchemaHash(schema) },
+        config.server.snapshot?.signingKey
+      );
 
-      if (!fs.existsSync(fileDir)) fs.mkdirSync(fileDir, { recursive: true });
-
-      fs.writeFileSync(filePath, encodedExportData);
+      log(`Exported snapshot with ${manifest.chunks.length} chunks to ${path.resolve(this._argv.exportFile)}`);
+      log(`Snapshot Merkle root ${manifest.merkleRoot}${manifest.signer ? `, signed by ${manifest.signer}` : ''}`);
     } else {
-      log(exportData);
+      const exportData = {
+        snapshotBlock,
+        contracts: exportContracts,
+        stateCheckpoints
+      };
+
+      if (this._argv.exportFile) {
+        const codec = await import('@ipld/dag-cbor');
+        const encodedExportData = codec.encode(exportData);
+
+        const filePath = path.resolve(this._argv.exportFile);
+        const fileDir = path.dirname(filePath);
+
+        if (!fs.existsSync(fileDir)) fs.mkdirSync(fileDir, { recursive: true });
+
+        fs.writeFileSync(filePath, encodedExportData);
+      } else {
+        log(exportData);
+      }
     }
 
     log(`Export completed at height ${block.blockNumber}`);
@@ -195,11 +244,27 @@ export class ExportStateCmd {
       exportFile: {
         alias: 'o',
         type: 'string',
-        describe: 'Export file path'
+        describe: 'Export file path (directory for ndjson format)'
       },
       blockNumber: {
         type: 'number',
         describe: 'Block number to create snapshot at'
+      },
+      format: {
+        type: 'string',
+        choices: [EXPORT_FORMAT_NDJSON, EXPORT_FORMAT_CBOR],
+        default: EXPORT_FORMAT_CBOR,
+        describe: 'Snapshot format (single dag-cbor file or chunked ndjson with manifest for large states)'
+      },
+      compress: {
+        type: 'boolean',
+        default: true,
+        describe: 'Gzip snapshot chunks (ndjson format)'
+      },
+      chunkSize: {
+        type: 'number',
+        default: DEFAULT_SNAPSHOT_CHUNK_SIZE,
+        describe: 'Max number of entities in a snapshot chunk (ndjson format)'
       }
     }).argv;
   }
@@ -20,7 +20,8 @@ import {
   Clients,
   fillBlocks,
   GraphWatcherInterface,
-  Config
+  Config,
+  DEFAULT_FILL_RANGE_SIZE
 } from '@cerc-io/util';
 
 import { BaseCmd } from './base';
@@ -34,6 +35,8 @@ interface Arguments {
   prefetch: boolean;
   batchBlocks: number;
   state: boolean;
+  parallel: boolean;
+  rangeSize: number;
 }
 
 export class FillCmd {
@@ -163,6 +166,16 @@ export class FillCmd {
         type: 'boolean',
         default: false,
         describe: 'Fill state for subgraph entities'
+      },
+      parallel: {
+        type: 'boolean',
+        default: false,
+        describe: 'Fill block ranges in parallel using the running job-runner workers (only for watchers without state and subgraph)'
+      },
+      rangeSize: {
+        type: 'number',
+        default: DEFAULT_FILL_RANGE_SIZE,
+        describe: 'Number of blocks in each range for parallel fill'
       }
     }).argv;
   }
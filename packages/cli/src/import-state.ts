@@ -23,7 +23,22 @@ import {
   GraphWatcherInterface,
   GraphDatabase,
   updateEntitiesFromState,
-  Config
+  updateEntitiesFromStateEntries,
+  Config,
+  BlockProgressInterface,
+  StateInterface,
+  SnapshotBlock,
+  SnapshotCheckpoint,
+  SnapshotContract,
+  SnapshotChunkKind,
+  SnapshotCheckpointEncoder,
+  readSnapshotManifest,
+  readSnapshotChunk,
+  verifySnapshot,
+  getSchemaHash,
+  StateIPFSStatus,
+  getIPFSBlockStore,
+  fetchStateData
 } from '@cerc-io/util';
 
 import { BaseCmd } from './base';
@@ -32,7 +47,16 @@ const log = debug('vulcanize:import-state');
 
 interface Arguments {
   configFile: string;
-  importFile: string;
+  importFile?: string;
+  progressFile?: string;
+  cid?: string[];
+  kind?: string;
+}
+
+interface ImportProgress {
+  blockHash: string;
+  importedChunks: string[];
+  importedContracts: string[];
 }
 
 export class ImportStateCmd {
@@ -93,23 +117,33 @@ export class ImportStateCmd {
     await this._baseCmd.initEventWatcher();
   }
 
-  async exec (State: new() => any, graphDb?: GraphDatabase): Promise<void> {
+  async exec (State: new() => any, graphDb?: GraphDatabase, schema?: string): Promise<void> {
     assert(this._argv);
 
-    const config = this._baseCmd.config;
-    const jobQueue = this._baseCmd.jobQueue;
     const database = this._baseCmd.database;
-    const indexer = this._baseCmd.indexer;
-    const eventWatcher = this._baseCmd.eventWatcher;
-
-    assert(config);
-    assert(jobQueue);
     assert(database);
+
+    if (this._argv.cid) {
+      await this._importFromIPFS(State, this._argv.cid, graphDb);
+    } else {
+      assert(this._argv.importFile, 'Either import-file or cid is required');
+      const importPath = path.resolve(this._argv.importFile);
+
+      if (fs.statSync(importPath).isDirectory()) {
+        await this._importSnapshot(State, importPath, graphDb, schema);
+      } else {
+        await this._importFile(State, importPath, graphDb);
+      }
+    }
+
+    await database.close();
+  }
+
+  async _importFile (State: new() => any, importFilePath: string, graphDb?: GraphDatabase): Promise<void> {
+    const indexer = this._baseCmd.indexer;
     assert(indexer);
-    assert(eventWatcher);
 
     // Import data.
-    const importFilePath = path.resolve(this._argv.importFile);
     const encodedImportData = fs.readFileSync(importFilePath);
     const codec = await import('@ipld/dag-cbor');
     const importData = codec.decode(Buffer.from(encodedImportData)) as any;
@@ -123,6 +157,208 @@ export class ImportStateCmd {
       return;
     }
 
+    block = await this._fillSnapshotBlock(importData.snapshotBlock);
+    await this._watchContracts(importData.contracts);
+
+    // Fill the States.
+    for (const checkpoint of importData.stateCheckpoints) {
+      const state = await this._saveCheckpoint(State, block, checkpoint);
+
+      // Fill entities using State if:
+      //  relationsMap defined for the watcher,
+      //  graphDb instance is avaiable
+      // TODO: Fill latest entity tables
+      if (indexer.getRelationsMap && graphDb) {
+        await updateEntitiesFromState(graphDb, indexer, state);
+      }
+    }
+
+    await this._completeImport(block);
+  }
+
+  async _importSnapshot (State: new() => any, snapshotDir: string, graphDb?: GraphDatabase, schema?: string): Promise<void> {
+    const config = this._baseCmd.config;
+    const indexer = this._baseCmd.indexer;
+    const ethProvider = this._baseCmd.ethProvider;
+
+    assert(this._argv);
+    assert(config);
+    assert(indexer);
+    assert(ethProvider);
+
+    const manifest = readSnapshotManifest(snapshotDir);
+
+    // Verify manifest signature and snapshot data before importing.
+    const { chainId } = await ethProvider.getNetwork();
+    await verifySnapshot(snapshotDir, manifest, {
+      chainId,
+      schemaHash: schema && getSchemaHash(schema),
+      trustedSigners: config.server.snapshot?.trustedSigners
+    });
+    log(`Verified snapshot with Merkle root ${manifest.merkleRoot}${manifest.signer ? ` signed by ${manifest.signer}` : ''}`);
+
+    // Progress is recorded outside the snapshot directory, which can be read-only.
+    const progressFilePath = path.resolve(this._argv.progressFile ?? `import-progress-${manifest.snapshotBlock.blockHash}.json`);
+    let progress: ImportProgress = { blockHash: manifest.snapshotBlock.blockHash, importedChunks: [], importedContracts: [] };
+
+    let block = await indexer.getBlockProgress(manifest.snapshotBlock.blockHash);
+    const isResumed = fs.existsSync(progressFilePath);
+
+    // Check if block already present in DB and the import is not interrupted
+    if (block && !isResumed) {
+      // Exit CLI if it already exists
+      log(`block ${block.blockHash} is already indexed. Exiting import-state CLI.`);
+      return;
+    }
+
+    if (isResumed) {
+      progress = JSON.parse(fs.readFileSync(progressFilePath, 'utf-8'));
+      assert(progress.blockHash === manifest.snapshotBlock.blockHash, `Import progress file ${progressFilePath} is for a different snapshot block`);
+      log(`Resuming import with ${progress.importedContracts.length} of ${manifest.contracts.length} contracts imported`);
+    }
+
+    this._saveImportProgress(progressFilePath, progress);
+
+    if (!block) {
+      block = await this._fillSnapshotBlock(manifest.snapshotBlock);
+    }
+
+    // Watching contracts again on resume is a no-op for already saved contracts.
+    await this._watchContracts(manifest.contracts);
+
+    const importedChunks = new Set(progress.importedChunks);
+    const importedContracts = new Set(progress.importedContracts);
+
+    // Import checkpoints one contract at a time.
+    for (const contract of manifest.contracts) {
+      if (importedContracts.has(contract.address)) {
+        continue;
+      }
+
+      const chunks = manifest.chunks.filter(chunk => chunk.contractAddress === contract.address);
+
+      if (!chunks.length) {
+        continue;
+      }
+
+      let checkpoint: SnapshotCheckpoint | undefined;
+      let checkpointEncoder: SnapshotCheckpointEncoder | undefined;
+
+      for (const chunk of chunks) {
+        const records = await readSnapshotChunk(snapshotDir, manifest, chunk);
+
+        if (chunk.kind === SnapshotChunkKind.Checkpoint) {
+          const [{ cid, kind, data }] = records;
+          checkpoint = { contractAddress: contract.address, cid, kind, data };
+          checkpointEncoder = new SnapshotCheckpointEncoder(data);
+          continue;
+        }
+
+        assert(checkpointEncoder, `Missing checkpoint chunk for contract ${contract.address}`);
+        assert(chunk.entityType);
+
+        // Entities are added to the checkpoint data in encoded form to not rebuild the checkpoint state in memory.
+        checkpointEncoder.addEntities(chunk.entityType, records);
+
+        // Fill entities from chunk entries if relationsMap is defined for the watcher and graphDb instance is avaiable.
+        if (indexer.getRelationsMap && graphDb && !importedChunks.has(chunk.file)) {
+          await updateEntitiesFromStateEntries(graphDb, indexer, block, chunk.entityType, records);
+
+          progress.importedChunks.push(chunk.file);
+          this._saveImportProgress(progressFilePath, progress);
+        }
+      }
+
+      assert(checkpoint && checkpointEncoder);
+      await this._saveCheckpoint(State, block, checkpoint, undefined, checkpointEncoder.encode());
+
+      progress.importedContracts.push(contract.address);
+      this._saveImportProgress(progressFilePath, progress);
+      log(`Imported checkpoint for contract ${contract.address}`);
+    }
+
+    await this._completeImport(block);
+    fs.rmSync(progressFilePath, { force: true });
+  }
+
+  async _importFromIPFS (State: new() => any, cids: string[], graphDb?: GraphDatabase): Promise<void> {
+    assert(this._argv);
+
+    const config = this._baseCmd.config;
+    const indexer = this._baseCmd.indexer;
+    const ethProvider = this._baseCmd.ethProvider;
+
+    assert(config);
+    assert(indexer);
+    assert(ethProvider);
+
+    // Fetch from the State publication endpoint if configured, else the upstream IPFS endpoint.
+    const blockStore = getIPFSBlockStore(config.server.statePublication ?? config.upstream.ipfs);
+    assert(blockStore, 'IPFS endpoint not configured');
+
+    const checkpoints: SnapshotCheckpoint[] = [];
+
+    for (const cid of cids) {
+      const data = await fetchStateData(blockStore, cid);
+      const { meta } = data;
+
+      assert(meta && meta.kind === StateKind.Checkpoint, `State ${cid} is not a checkpoint`);
+      checkpoints.push({ contractAddress: meta.id, cid, kind: meta.kind, data });
+    }
+
+    // Checkpoints of all the contracts should be at the same block to be used as the snapshot block.
+    const blockNumber: number = checkpoints[0].data.meta.ethBlock.num;
+    assert(checkpoints.every(({ data }) => data.meta.ethBlock.num === blockNumber), 'Checkpoints should be at the same block');
+
+    const { hash: blockHash } = await ethProvider.getBlock(blockNumber);
+    let block = await indexer.getBlockProgress(blockHash);
+
+    // Check if block already present in DB
+    if (block) {
+      // Exit CLI if it already exists
+      log(`block ${block.blockHash} is already indexed. Exiting import-state CLI.`);
+      return;
+    }
+
+    // Contracts already watched are not updated.
+    const { kind } = this._argv;
+    const contracts = checkpoints
+      .filter(({ contractAddress }) => !indexer.isWatchedContract(contractAddress))
+      .map(({ contractAddress }) => {
+        assert(kind, `Contract kind is required to watch contract ${contractAddress}`);
+
+        return { address: contractAddress, kind, checkpoint: true, startingBlock: blockNumber, context: undefined };
+      });
+
+    block = await this._fillSnapshotBlock({ blockHash, blockNumber });
+    await this._watchContracts(contracts);
+
+    for (const checkpoint of checkpoints) {
+      // Checkpoint is already available in IPFS.
+      const state = await this._saveCheckpoint(State, block, checkpoint, StateIPFSStatus.Published);
+
+      // Fill entities using State if relationsMap is defined for the watcher and graphDb instance is avaiable.
+      if (indexer.getRelationsMap && graphDb) {
+        await updateEntitiesFromState(graphDb, indexer, state);
+      }
+
+      log(`Imported checkpoint ${checkpoint.cid} for contract ${checkpoint.contractAddress}`);
+    }
+
+    await this._completeImport(block);
+  }
+
+  async _fillSnapshotBlock (snapshotBlock: SnapshotBlock): Promise<BlockProgressInterface> {
+    const config = this._baseCmd.config;
+    const jobQueue = this._baseCmd.jobQueue;
+    const indexer = this._baseCmd.indexer;
+    const eventWatcher = this._baseCmd.eventWatcher;
+
+    assert(config);
+    assert(jobQueue);
+    assert(indexer);
+    assert(eventWatcher);
+
     // Fill the snapshot block.
     await fillBlocks(
       jobQueue,
@@ -131,38 +367,52 @@ export class ImportStateCmd {
       config.jobQueue.blockDelayInMilliSecs,
       {
         prefetch: true,
-        startBlock: importData.snapshotBlock.blockNumber,
-        endBlock: importData.snapshotBlock.blockNumber
+        startBlock: snapshotBlock.blockNumber,
+        endBlock: snapshotBlock.blockNumber
       }
     );
 
+    // Get the snapshot block.
+    const block = await indexer.getBlockProgress(snapshotBlock.blockHash);
+    assert(block);
+
+    return block;
+  }
+
+  async _watchContracts (contracts: SnapshotContract[]): Promise<void> {
+    const indexer = this._baseCmd.indexer;
+    assert(indexer);
+
     // Fill the Contracts.
-    for (const contract of importData.contracts) {
-      indexer.watchContract(contract.address, contract.kind, contract.checkpoint, contract.startingBlock);
+    for (const contract of contracts) {
+      await indexer.watchContract(contract.address, contract.kind, contract.checkpoint, contract.startingBlock, contract.context ?? undefined);
     }
+  }
 
-    // Get the snapshot block.
-    block = await indexer.getBlockProgress(importData.snapshotBlock.blockHash);
-    assert(block);
+  async _saveCheckpoint (
+    State: new() => any,
+    block: BlockProgressInterface,
+    checkpoint: SnapshotCheckpoint,
+    ipfsStatus?: StateIPFSStatus,
+    encodedData?: Buffer
+  ): Promise<StateInterface> {
+    const indexer = this._baseCmd.indexer;
+    assert(indexer);
 
-    // Fill the States.
-    for (const checkpoint of importData.stateCheckpoints) {
-      let state = new State();
+    const codec = await import('@ipld/dag-cbor');
+    let state = new State();
 
-      state = Object.assign(state, checkpoint);
-      state.block = block;
-      state.data = Buffer.from(codec.encode(state.data));
+    state = Object.assign(state, checkpoint);
+    state.block = block;
+    state.data = encodedData ?? Buffer.from(codec.encode(state.data));
+    state.ipfsStatus = ipfsStatus ?? null;
 
-      state = await indexer.saveOrUpdateState(state);
+    return indexer.saveOrUpdateState(state);
+  }
 
-      // Fill entities using State if:
-      //  relationsMap defined for the watcher,
-      //  graphDb instance is avaiable
-      // TODO: Fill latest entity tables
-      if (indexer.getRelationsMap && graphDb) {
-        await updateEntitiesFromState(graphDb, indexer, state);
-      }
-    }
+  async _completeImport (block: BlockProgressInterface): Promise<void> {
+    const indexer = this._baseCmd.indexer;
+    assert(indexer);
 
     // Mark snapshot block as completely processed.
     block.isComplete = true;
@@ -177,7 +427,10 @@ export class ImportStateCmd {
     await indexer.removeStates(block.blockNumber, StateKind.DiffStaged);
 
     log(`Import completed for snapshot block at height ${block.blockNumber}`);
-    await database.close();
+  }
+
+  _saveImportProgress (progressFilePath: string, progress: ImportProgress): void {
+    fs.writeFileSync(progressFilePath, JSON.stringify(progress));
   }
 
   _getArgv (): any {
@@ -195,8 +448,21 @@ export class ImportStateCmd {
       importFile: {
         alias: 'i',
         type: 'string',
-        demandOption: true,
-        describe: 'Import file path (JSON)'
+        describe: 'Import file path (snapshot directory or dag-cbor file)'
+      },
+      progressFile: {
+        type: 'string',
+        describe: 'File to record progress of a snapshot directory import for resuming (default: import-progress-<snapshot-block-hash>.json in the working directory)'
+      },
+      cid: {
+        type: 'array',
+        string: true,
+        describe: 'CIDs of checkpoints at the same block to fetch from IPFS and import (instead of import-file)'
+      },
+      kind: {
+        alias: 'k',
+        type: 'string',
+        describe: 'Contract kind for watching the contracts of checkpoints imported from IPFS'
       }
     }).argv;
   }
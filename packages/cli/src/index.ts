@@ -7,12 +7,15 @@ export * from './reset/watcher';
 export * from './reset/state';
 export * from './checkpoint/create';
 export * from './checkpoint/verify';
+export * from './checkpoint/verify-range';
+export * from './checkpoint/compact';
 export * from './inspect-cid';
 export * from './import-state';
 export * from './export-state';
 export * from './server';
 export * from './job-runner';
 export * from './index-block';
+export * from './webhook-replay';
 export * from './fill';
 export * from './create-state-gql';
 export * from './peer';
@@ -18,7 +18,9 @@ import {
   ServerConfig,
   Clients,
   GraphWatcherInterface,
-  Config
+  Config,
+  getIPFSBlockStore,
+  fetchStateData
 } from '@cerc-io/util';
 
 import { BaseCmd } from './base';
@@ -28,6 +30,7 @@ const log = debug('vulcanize:inspect-cid');
 interface Arguments {
   configFile: string;
   cid: string;
+  fromIpfs: boolean;
 }
 
 export class InspectCIDCmd {
@@ -96,10 +99,24 @@ export class InspectCIDCmd {
     assert(database);
     assert(indexer);
 
-    const state = await indexer.getStateByCID(this._argv.cid);
-    assert(state, 'State for the provided CID doesn\'t exist.');
+    let stateData: any;
+
+    if (this._argv.fromIpfs) {
+      const config = this._baseCmd.config;
+      assert(config);
+
+      // Fetch from the State publication endpoint if configured, else the upstream IPFS endpoint.
+      const blockStore = getIPFSBlockStore(config.server.statePublication ?? config.upstream.ipfs);
+      assert(blockStore, 'IPFS endpoint not configured');
+
+      stateData = await fetchStateData(blockStore, this._argv.cid);
+    } else {
+      const state = await indexer.getStateByCID(this._argv.cid);
+      assert(state, 'State for the provided CID doesn\'t exist.');
+
+      stateData = await indexer.getStateData(state);
+    }
 
-    const stateData = await indexer.getStateData(state);
     log(util.inspect(stateData, false, null));
 
     await database.close();
@@ -122,6 +139,11 @@ export class InspectCIDCmd {
         type: 'string',
         demandOption: true,
         describe: 'CID to be inspected'
+      },
+      fromIpfs: {
+        type: 'boolean',
+        default: false,
+        describe: 'Fetch the State block from IPFS instead of the database'
       }
     }).argv;
   }
@@ -74,6 +74,10 @@ export class ResetStateCmd {
         if (stateSyncStatus.latestCheckpointBlockNumber > blockNumber) {
           await this._database.updateStateSyncStatusCheckpointBlock(dbTx, blockNumber, true);
         }
+
+        if (stateSyncStatus.latestCompactedBlockNumber > blockNumber) {
+          await this._database.updateStateSyncStatusCompactedBlock(dbTx, blockNumber, true);
+        }
       }
 
       dbTx.commitTransaction();
@@ -26,7 +26,9 @@ import {
   GraphWatcherInterface,
   Config,
   P2PConfig,
-  PaymentsManager
+  PaymentsManager,
+  JobRunner,
+  startMetricsServer
 } from '@cerc-io/util';
 import { TypeSource } from '@graphql-tools/utils';
 import {
@@ -50,6 +52,7 @@ export class ServerCmd {
   _argv?: Arguments;
   _baseCmd: BaseCmd;
   _peer?: Peer;
+  _jobRunner?: JobRunner;
 
   constructor () {
     this._baseCmd = new BaseCmd();
@@ -75,6 +78,10 @@ export class ServerCmd {
     return this._peer;
   }
 
+  get jobRunner (): JobRunner | undefined {
+    return this._jobRunner;
+  }
+
   async initConfig<ConfigType> (): Promise<ConfigType> {
     this._argv = this._getArgv();
     assert(this._argv);
@@ -109,6 +116,35 @@ export class ServerCmd {
     await this._baseCmd.initEventWatcher();
   }
 
+  /**
+   * Start job-runner in the server process for running the watcher as a single process.
+   * Required with the in-process job queue backend, as jobs are only processed in the process creating them.
+   * @param startJobRunner Callback to subscribe the job-runner to the job queues
+   */
+  async initJobRunner (startJobRunner: (jobRunner: JobRunner) => Promise<void>): Promise<void> {
+    const config = this._baseCmd.config;
+    const jobQueue = this._baseCmd.jobQueue;
+    const indexer = this._baseCmd.indexer;
+
+    assert(config);
+    assert(jobQueue);
+    assert(indexer);
+
+    if (indexer.addContracts) {
+      await indexer.addContracts();
+    }
+
+    this._jobRunner = new JobRunner(config.jobQueue, indexer, jobQueue);
+
+    await jobQueue.deleteAllJobs();
+    await this._jobRunner.resetToPrevIndexedBlock();
+
+    await startJobRunner(this._jobRunner);
+    this._jobRunner.handleShutdown();
+
+    await startMetricsServer(config, indexer);
+  }
+
   async exec (
     createResolvers: (indexer: IndexerInterface, eventWatcher: EventWatcher) => Promise<any>,
     typeDefs: TypeSource,
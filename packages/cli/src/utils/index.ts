@@ -9,10 +9,11 @@ import { providers } from 'ethers';
 
 // @ts-expect-error https://github.com/microsoft/TypeScript/issues/49721#issuecomment-1319854183
 import { PeerIdObj } from '@cerc-io/peer';
-import { Config, EthClient, getCustomProvider } from '@cerc-io/util';
+import { Config, EthClient, IPFSContentFetcher, getCustomProvider, getIPFSContentFetcher, getRpcEndpoints } from '@cerc-io/util';
 import { getCache } from '@cerc-io/cache';
 import { EthClient as GqlEthClient } from '@cerc-io/ipld-eth-client';
 import { EthClient as RpcEthClient } from '@cerc-io/rpc-eth-client';
+import { TracingClient } from '@cerc-io/tracing-client';
 
 export function readPeerId (filePath: string): PeerIdObj {
   const peerIdFilePath = path.resolve(filePath);
@@ -24,7 +25,9 @@ export function readPeerId (filePath: string): PeerIdObj {
 
 export const initClients = async (config: Config): Promise<{
   ethClient: EthClient,
-  ethProvider: providers.JsonRpcProvider
+  ethProvider: providers.JsonRpcProvider,
+  tracingClient?: TracingClient,
+  ipfsContentFetcher?: IPFSContentFetcher
 }> => {
   const { database: dbConfig, upstream: upstreamConfig, server: serverConfig } = config;
 
@@ -32,18 +35,23 @@ export const initClients = async (config: Config): Promise<{
   assert(dbConfig, 'Missing database config');
   assert(upstreamConfig, 'Missing upstream config');
 
-  const { ethServer: { gqlApiEndpoint, rpcProviderEndpoint, rpcClient = false }, cache: cacheConfig } = upstreamConfig;
+  const { ethServer: { gqlApiEndpoint, rpcProviderOptions, rpcClient = false }, cache: cacheConfig } = upstreamConfig;
 
-  assert(rpcProviderEndpoint, 'Missing upstream ethServer.rpcProviderEndpoint');
+  const rpcEndpoints = getRpcEndpoints(upstreamConfig.ethServer);
 
   const cache = await getCache(cacheConfig);
 
+  // Provider (a failover provider for multiple RPC endpoints) is shared with the RPC eth client.
+  const ethProvider = getCustomProvider(rpcEndpoints, undefined, rpcProviderOptions);
+
   let ethClient: EthClient;
 
   if (rpcClient) {
     ethClient = new RpcEthClient({
-      rpcEndpoint: rpcProviderEndpoint,
-      cache
+      rpcEndpoint: rpcEndpoints,
+      rpcProviderOptions,
+      cache,
+      provider: ethProvider
     });
   } else {
     assert(gqlApiEndpoint, 'Missing upstream ethServer.gqlApiEndpoint');
@@ -54,10 +62,16 @@ export const initClients = async (config: Config): Promise<{
     });
   }
 
-  const ethProvider = getCustomProvider(rpcProviderEndpoint);
+  // Tracing client is required for running subgraph call handlers.
+  const tracingClient = upstreamConfig.traceProviderEndpoint ? new TracingClient(upstreamConfig.traceProviderEndpoint) : undefined;
+
+  // IPFS content fetcher is required for subgraph file data sources and ipfs host functions.
+  const ipfsContentFetcher = getIPFSContentFetcher(upstreamConfig.ipfs);
 
   return {
     ethClient,
-    ethProvider
+    ethProvider,
+    tracingClient,
+    ipfsContentFetcher
   };
 };
@@ -0,0 +1,141 @@
+//
+// Copyright 2023 Vulcanize, Inc.
+//
+
+import yargs from 'yargs';
+import 'reflect-metadata';
+import assert from 'assert';
+import debug from 'debug';
+import { ConnectionOptions } from 'typeorm';
+
+import { JsonRpcProvider } from '@ethersproject/providers';
+import {
+  DEFAULT_CONFIG_PATH,
+  JobQueue,
+  DatabaseInterface,
+  IndexerInterface,
+  ServerConfig,
+  Clients,
+  GraphWatcherInterface,
+  Config
+} from '@cerc-io/util';
+
+import { BaseCmd } from './base';
+
+const log = debug('vulcanize:webhook-replay');
+
+interface Arguments {
+  configFile: string;
+  fromBlock: number;
+  toBlock: number;
+  url?: string;
+}
+
+export class WebhookReplayCmd {
+  _argv?: Arguments;
+  _baseCmd: BaseCmd;
+
+  constructor () {
+    this._baseCmd = new BaseCmd();
+  }
+
+  get config (): Config {
+    return this._baseCmd.config;
+  }
+
+  get clients (): Clients {
+    return this._baseCmd.clients;
+  }
+
+  get ethProvider (): JsonRpcProvider {
+    return this._baseCmd.ethProvider;
+  }
+
+  get database (): DatabaseInterface {
+    return this._baseCmd.database;
+  }
+
+  async initConfig<ConfigType> (): Promise<ConfigType> {
+    this._argv = this._getArgv();
+    assert(this._argv);
+
+    return this._baseCmd.initConfig(this._argv.configFile);
+  }
+
+  async init (
+    Database: new (
+      config: ConnectionOptions,
+      serverConfig?: ServerConfig
+    ) => DatabaseInterface,
+    clients: { [key: string]: any } = {}
+  ): Promise<void> {
+    await this.initConfig();
+
+    await this._baseCmd.init(Database, clients);
+  }
+
+  async initIndexer (
+    Indexer: new (
+      serverConfig: ServerConfig,
+      db: DatabaseInterface,
+      clients: Clients,
+      ethProvider: JsonRpcProvider,
+      jobQueue: JobQueue,
+      graphWatcher?: GraphWatcherInterface
+    ) => IndexerInterface,
+    graphWatcher?: GraphWatcherInterface
+  ): Promise<void> {
+    return this._baseCmd.initIndexer(Indexer, graphWatcher);
+  }
+
+  async exec (): Promise<void> {
+    assert(this._argv);
+
+    const database = this._baseCmd.database;
+    const indexer = this._baseCmd.indexer;
+
+    assert(database);
+    assert(indexer);
+    assert(indexer.replayWebhookDeliveries, 'Webhook deliveries not supported by the watcher');
+
+    const { fromBlock, toBlock, url } = this._argv;
+    assert(fromBlock <= toBlock, 'fromBlock should be less than or equal to toBlock');
+
+    // Deliveries are reset to pending and sent by the running job-runner.
+    const replayedCount = await indexer.replayWebhookDeliveries(fromBlock, toBlock, url);
+    log(`Replaying ${replayedCount} webhook deliveries from block ${fromBlock} to ${toBlock}`);
+
+    await database.close();
+  }
+
+  _getArgv (): any {
+    return yargs.parserConfiguration({
+      'parse-numbers': false
+    }).options({
+      configFile: {
+        alias: 'f',
+        type: 'string',
+        require: true,
+        demandOption: true,
+        describe: 'Configuration file path (toml)',
+        default: DEFAULT_CONFIG_PATH
+      },
+      fromBlock: {
+        type: 'number',
+        require: true,
+        demandOption: true,
+        describe: 'Block number to replay deliveries from'
+      },
+      toBlock: {
+        type: 'number',
+        require: true,
+        demandOption: true,
+        describe: 'Block number to replay deliveries till'
+      },
+      url: {
+        type: 'string',
+        describe: 'Webhook endpoint url to replay deliveries for (all endpoints if not set)'
+      }
+    }).argv;
+  }
+}
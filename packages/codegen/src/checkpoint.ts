@@ -10,12 +10,20 @@ import { Writable } from 'stream';
 const CHECKPOINT_TEMPLATE_FILE = './templates/checkpoint-template.handlebars';
 const CREATE_TEMPLATE_FILE = './templates/checkpoint-create-template.handlebars';
 const VERIFY_TEMPLATE_FILE = './templates/checkpoint-verify-template.handlebars';
+const VERIFY_RANGE_TEMPLATE_FILE = './templates/checkpoint-verify-range-template.handlebars';
+const COMPACT_TEMPLATE_FILE = './templates/checkpoint-compact-template.handlebars';
 
 /**
  * Writes the checkpoint file generated from a template to a stream.
  * @param outStream A writable output stream to write the checkpoint file to.
  */
-export function exportCheckpoint (checkpointOutStream: Writable, checkpointCreateOutStream: Writable, checkpointVerifyOutStream: Writable | undefined): void {
+export function exportCheckpoint (
+  checkpointOutStream: Writable,
+  checkpointCreateOutStream: Writable,
+  checkpointCompactOutStream: Writable,
+  checkpointVerifyOutStream: Writable | undefined,
+  checkpointVerifyRangeOutStream: Writable | undefined
+): void {
   const checkpointTemplateString = fs.readFileSync(path.resolve(__dirname, CHECKPOINT_TEMPLATE_FILE)).toString();
   const checkpointTemplate = Handlebars.compile(checkpointTemplateString);
   const checkpoint = checkpointTemplate({});
@@ -26,10 +34,22 @@ export function exportCheckpoint (checkpointOutStream: Writable, checkpointCreat
   const createCheckpoint = createCheckpointTemplate({});
   checkpointCreateOutStream.write(createCheckpoint);
 
+  const compactTemplateString = fs.readFileSync(path.resolve(__dirname, COMPACT_TEMPLATE_FILE)).toString();
+  const compactTemplate = Handlebars.compile(compactTemplateString);
+  const compact = compactTemplate({});
+  checkpointCompactOutStream.write(compact);
+
   if (checkpointVerifyOutStream) {
     const verifyCheckpointTemplateString = fs.readFileSync(path.resolve(__dirname, VERIFY_TEMPLATE_FILE)).toString();
     const verifyCheckpointTemplate = Handlebars.compile(verifyCheckpointTemplateString);
     const verifyCheckpointString = verifyCheckpointTemplate({});
     checkpointVerifyOutStream.write(verifyCheckpointString);
   }
+
+  if (checkpointVerifyRangeOutStream) {
+    const verifyRangeTemplateString = fs.readFileSync(path.resolve(__dirname, VERIFY_RANGE_TEMPLATE_FILE)).toString();
+    const verifyRangeTemplate = Handlebars.compile(verifyRangeTemplateString);
+    const verifyRangeString = verifyRangeTemplate({});
+    checkpointVerifyRangeOutStream.write(verifyRangeString);
+  }
 }
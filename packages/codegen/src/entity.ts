@@ -8,12 +8,13 @@ import assert from 'assert';
 import yaml from 'js-yaml';
 import Handlebars from 'handlebars';
 import { Writable } from 'stream';
+import _ from 'lodash';
 
 import { VariableDeclaration } from '@solidity-parser/parser/dist/src/ast-types';
 
 import { getPgForTs, getTsForGql, getGqlForSol } from './utils/type-mappings';
 import { Param } from './utils/types';
-import { getFieldType } from './utils/subgraph';
+import { getFieldType, FulltextSearch } from './utils/subgraph';
 import { getBaseType, isArrayType } from './utils/helpers';
 
 const TEMPLATE_FILE = './templates/entity-template.handlebars';
@@ -209,12 +210,16 @@ export class Entity {
     this._addSyncStatusEntity();
     this._addContractEntity();
     this._addBlockProgressEntity();
+    this._addBlockRangeProgressEntity();
     this._addStateEntity();
     this._addStateSyncStatusEntity();
+    this._addWebhookDeliveryEntity();
 
-    // Add FrothyEntity table only for subgraph watchers
+    // Add FrothyEntity, FileDataSource and IndexingError tables only for subgraph watchers
     if (subgraphPath) {
       this._addFrothyEntity();
+      this._addFileDataSourceEntity();
+      this._addIndexingErrorEntity();
     }
 
     const template = Handlebars.compile(this._templateString);
@@ -284,6 +289,9 @@ export class Entity {
       // Add subgraph entity specific columns.
       entityObject = this._addSubgraphColumns(subgraphTypeDefs, entityObject, def);
 
+      // Add tsvector columns for fulltext searches on the entity.
+      entityObject = this._addFulltextColumns(entityObject, def);
+
       // Add is_pruned column.
       entityObject.columns.push({
         name: 'isPruned',
@@ -298,6 +306,20 @@ export class Entity {
         ]
       });
 
+      // Add is_removed column for tombstone versions of removed entities.
+      entityObject.columns.push({
+        name: 'isRemoved',
+        pgType: 'boolean',
+        tsType: 'boolean',
+        columnType: 'Column',
+        columnOptions: [
+          {
+            option: 'default',
+            value: false
+          }
+        ]
+      });
+
       // Add decimalTransformer column option if required.
       this._addDecimalTransformerOption(entityObject);
 
@@ -328,6 +350,16 @@ export class Entity {
     this._entities.push(entity);
   }
 
+  _addBlockRangeProgressEntity (): void {
+    const entity = yaml.load(fs.readFileSync(path.resolve(__dirname, TABLES_DIR, 'BlockRangeProgress.yaml'), 'utf8'));
+    this._entities.push(entity);
+  }
+
+  _addWebhookDeliveryEntity (): void {
+    const entity = yaml.load(fs.readFileSync(path.resolve(__dirname, TABLES_DIR, 'WebhookDelivery.yaml'), 'utf8'));
+    this._entities.push(entity);
+  }
+
   _addStateEntity (): void {
     const entity = yaml.load(fs.readFileSync(path.resolve(__dirname, TABLES_DIR, 'State.yaml'), 'utf8'));
     this._entities.push(entity);
@@ -343,6 +375,16 @@ export class Entity {
     this._entities.push(entity);
   }
 
+  _addFileDataSourceEntity (): void {
+    const entity = yaml.load(fs.readFileSync(path.resolve(__dirname, TABLES_DIR, 'FileDataSource.yaml'), 'utf8'));
+    this._entities.push(entity);
+  }
+
+  _addIndexingErrorEntity (): void {
+    const entity = yaml.load(fs.readFileSync(path.resolve(__dirname, TABLES_DIR, 'IndexingError.yaml'), 'utf8'));
+    this._entities.push(entity);
+  }
+
   _addBigIntTransformerOption (entityObject: any): void {
     let importObject = entityObject.imports.find((element: any) => {
       return element.from === '@cerc-io/util';
@@ -458,6 +500,51 @@ export class Entity {
     }
   }
 
+  _addFulltextColumns (entityObject: any, def: any): any {
+    const fulltextSearches: FulltextSearch[] = def.fulltextSearches ?? [];
+
+    fulltextSearches.forEach(fulltextSearch => {
+      const document = fulltextSearch.fields.map(field => {
+        // Handle column with existing name.
+        const name = ['blockHash', 'blockNumber'].includes(field) ? `_${_.snakeCase(field)}` : _.snakeCase(field);
+
+        return `coalesce(${name}, '')`;
+      }).join(" || ' ' || ");
+
+      // Generated column for the fulltext document.
+      entityObject.columns.push({
+        name: fulltextSearch.name,
+        pgType: 'tsvector',
+        tsType: 'string',
+        columnType: 'Column',
+        columnOptions: [
+          {
+            option: 'generatedType',
+            value: "'STORED'"
+          },
+          {
+            option: 'asExpression',
+            value: `"to_tsvector('${fulltextSearch.language}', ${document})"`
+          },
+          {
+            option: 'select',
+            value: false
+          }
+        ]
+      });
+
+      // GIN index for the fulltext document (like graph-node).
+      // The index is not synchronized by TypeORM as it does not support GIN indexes and is created in GraphDatabase init.
+      entityObject.indexOn.push({
+        name: `fulltext_${_.snakeCase(fulltextSearch.name)}`,
+        columns: [fulltextSearch.name],
+        gin: true
+      });
+    });
+
+    return entityObject;
+  }
+
   _addSubgraphColumns (subgraphTypeDefs: any, entityObject: any, def: any): any {
     def.fields.forEach((field: any) => {
       if (field.directives.some((directive: any) => directive.name.value === 'derivedFrom')) {
@@ -26,6 +26,7 @@ import { exportPackage } from './package';
 import { exportTSConfig } from './tsconfig';
 import { exportReadme } from './readme';
 import { exportJobRunner } from './job-runner';
+import { exportSingleProcess } from './single-process';
 import { exportWatchContract } from './watch-contract';
 import { exportLint } from './lint';
 import { registerHandlebarHelpers } from './utils/handlebar-helpers';
@@ -37,6 +38,7 @@ import { importState } from './import-state';
 import { exportInspectCID } from './inspect-cid';
 import { getSubgraphConfig } from './utils/subgraph';
 import { exportIndexBlock } from './index-block';
+import { exportWebhookReplay } from './webhook-replay';
 import { exportSubscriber } from './subscriber';
 import { exportReset } from './reset';
 import { filterInheritedContractNodes, writeFileToStream } from './utils/helpers';
@@ -296,6 +298,11 @@ function generateWatcher (visitor: Visitor, contracts: any[], config: any, overW
     : process.stdout;
   exportJobRunner(outStream);
 
+  outStream = outputDir
+    ? fs.createWriteStream(path.join(outputDir, 'src/single-process.ts'))
+    : process.stdout;
+  exportSingleProcess(outStream);
+
   outStream = outputDir
     ? fs.createWriteStream(path.join(outputDir, 'src/cli/watch-contract.ts'))
     : process.stdout;
@@ -308,23 +315,27 @@ function generateWatcher (visitor: Visitor, contracts: any[], config: any, overW
 
   exportReset(resetOutStream, resetJQOutStream, resetWatcherOutStream, resetStateOutStream);
 
-  let checkpointOutStream, checkpointCreateOutStream, checkpointVerifyOutStream;
+  let checkpointOutStream, checkpointCreateOutStream, checkpointCompactOutStream, checkpointVerifyOutStream, checkpointVerifyRangeOutStream;
 
   if (outputDir) {
     checkpointOutStream = fs.createWriteStream(path.join(outputDir, 'src/cli/checkpoint.ts'));
     checkpointCreateOutStream = fs.createWriteStream(path.join(outputDir, 'src/cli/checkpoint-cmds/create.ts'));
+    checkpointCompactOutStream = fs.createWriteStream(path.join(outputDir, 'src/cli/checkpoint-cmds/compact.ts'));
     if (config.subgraphPath) {
       checkpointVerifyOutStream = fs.createWriteStream(path.join(outputDir, 'src/cli/checkpoint-cmds/verify.ts'));
+      checkpointVerifyRangeOutStream = fs.createWriteStream(path.join(outputDir, 'src/cli/checkpoint-cmds/verify-range.ts'));
     }
   } else {
     checkpointOutStream = process.stdout;
     checkpointCreateOutStream = process.stdout;
+    checkpointCompactOutStream = process.stdout;
     if (config.subgraphPath) {
       checkpointVerifyOutStream = process.stdout;
+      checkpointVerifyRangeOutStream = process.stdout;
     }
   }
 
-  exportCheckpoint(checkpointOutStream, checkpointCreateOutStream, checkpointVerifyOutStream);
+  exportCheckpoint(checkpointOutStream, checkpointCreateOutStream, checkpointCompactOutStream, checkpointVerifyOutStream, checkpointVerifyRangeOutStream);
 
   outStream = outputDir
     ? fs.createWriteStream(path.join(outputDir, 'src/hooks.ts'))
@@ -378,6 +389,11 @@ function generateWatcher (visitor: Visitor, contracts: any[], config: any, overW
     : process.stdout;
   exportIndexBlock(outStream);
 
+  outStream = outputDir
+    ? fs.createWriteStream(path.join(outputDir, 'src/cli/webhook-replay.ts'))
+    : process.stdout;
+  exportWebhookReplay(outStream);
+
   if (config.subgraphPath) {
     outStream = outputDir
       ? fs.createWriteStream(path.join(outputDir, 'src/entity/Subscriber.ts'))
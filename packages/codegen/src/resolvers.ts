@@ -11,17 +11,20 @@ import _ from 'lodash';
 
 import { getGqlForSol, getTsForGql } from './utils/type-mappings';
 import { Param } from './utils/types';
+import { getPluralQueryName, FulltextSearch } from './utils/subgraph';
 
 const TEMPLATE_FILE = './templates/resolvers-template.handlebars';
 
 export class Resolvers {
   _queries: Array<any>;
   _subgraphQueries: Array<any>;
+  _fulltextQueries: Array<any>;
   _templateString: string;
 
   constructor () {
     this._queries = [];
     this._subgraphQueries = [];
+    this._fulltextQueries = [];
     this._templateString = fs.readFileSync(path.resolve(__dirname, TEMPLATE_FILE)).toString();
   }
 
@@ -66,10 +69,22 @@ export class Resolvers {
 
       const queryObject = {
         entityName,
-        queryName
+        queryName,
+        pluralQueryName: getPluralQueryName(queryName)
       };
 
       this._subgraphQueries.push(queryObject);
+
+      const fulltextSearches: FulltextSearch[] = subgraphTypeDef.fulltextSearches ?? [];
+
+      fulltextSearches.forEach(fulltextSearch => {
+        this._fulltextQueries.push({
+          entityName,
+          queryName: fulltextSearch.name,
+          language: fulltextSearch.language,
+          algorithm: fulltextSearch.algorithm
+        });
+      });
     }
   }
 
@@ -81,7 +96,8 @@ export class Resolvers {
     const template = Handlebars.compile(this._templateString);
     const obj = {
       queries: this._queries,
-      subgraphQueries: this._subgraphQueries
+      subgraphQueries: this._subgraphQueries,
+      fulltextQueries: this._fulltextQueries
     };
     const resolvers = template(obj);
     outStream.write(resolvers);
@@ -0,0 +1,90 @@
+//
+// Copyright 2023 Vulcanize, Inc.
+//
+
+import { expect } from 'chai';
+import 'mocha';
+import { GraphQLInputObjectType, GraphQLSchema, parse, validate } from 'graphql';
+
+import { Schema } from './schema';
+
+const SUBGRAPH_SCHEMA = `
+  enum Role {
+    Admin
+    User
+  }
+
+  type Author @entity {
+    id: ID!
+    name: String!
+    role: Role!
+    tags: [String!]!
+    scores: [BigInt!]!
+    friends: [Author!]!
+    books: [Book!]! @derivedFrom(field: "author")
+  }
+
+  type Book @entity {
+    id: ID!
+    title: String!
+    author: Author!
+  }
+`;
+
+describe('subgraph schema filters', () => {
+  let schema: GraphQLSchema;
+  let authorFilterFields: string[];
+
+  before(() => {
+    const schemaBuilder = new Schema();
+    schemaBuilder.addSubgraphSchema(parse(SUBGRAPH_SCHEMA));
+    schema = schemaBuilder.buildSchema();
+
+    const authorFilter = schema.getType('Author_filter') as GraphQLInputObjectType;
+    authorFilterFields = Object.keys(authorFilter.getFields());
+  });
+
+  it('should add filters for scalar fields', () => {
+    expect(authorFilterFields).to.include.members(['name', 'name_not', 'name_gt', 'name_in', 'name_contains', 'name_not_ends_with']);
+    expect(authorFilterFields).to.include.members(['role', 'role_not', 'role_in', 'role_not_in']);
+    expect(authorFilterFields).to.not.include('role_gt');
+  });
+
+  it('should add filters for list fields', () => {
+    expect(authorFilterFields).to.include.members([
+      'tags', 'tags_not', 'tags_contains', 'tags_not_contains',
+      'scores', 'scores_not', 'scores_contains', 'scores_not_contains',
+      'friends', 'friends_not', 'friends_contains', 'friends_not_contains', 'friends_'
+    ]);
+    expect(authorFilterFields).to.not.include.members(['tags_in', 'tags_gt', 'tags_starts_with']);
+
+    const authorFilter = schema.getType('Author_filter') as GraphQLInputObjectType;
+    const fields = authorFilter.getFields();
+    expect(fields.tags_contains.type.toString()).to.equal('[String!]');
+    expect(fields.scores.type.toString()).to.equal('[BigInt!]');
+    expect(fields.friends_contains.type.toString()).to.equal('[String!]');
+    expect(fields.friends_.type.toString()).to.equal('Author_filter');
+  });
+
+  it('should only add child filter for derived fields', () => {
+    expect(authorFilterFields).to.include('books_');
+    expect(authorFilterFields.filter(field => field.startsWith('books'))).to.deep.equal(['books_']);
+  });
+
+  it('should validate queries using list and derived field filters', () => {
+    const query = parse(`
+      query {
+        authors(where: {
+          tags_contains: ["a", "b"],
+          friends_not_contains: ["0x1"],
+          books_: { title_starts_with: "The" },
+          or: [{ scores: ["1", "2"] }, { role: Admin }]
+        }) {
+          id
+        }
+      }
+    `);
+
+    expect(validate(schema, query)).to.have.lengthOf(0);
+  });
+});
@@ -12,6 +12,23 @@ import { VariableDeclaration } from '@solidity-parser/parser/dist/src/ast-types'
 import { getGqlForTs, getGqlForSol } from './utils/type-mappings';
 import { Param } from './utils/types';
 import { getBaseType, isArrayType } from './utils/helpers';
+import { getFieldType, getPluralQueryName, FulltextSearch } from './utils/subgraph';
+
+const DEFAULT_ENTITIES_LIMIT = 100;
+
+// Filter suffixes for subgraph entity fields.
+const BASIC_FILTER_SUFFIXES = ['', '_not', '_in', '_not_in'];
+const COMPARISON_FILTER_SUFFIXES = [...BASIC_FILTER_SUFFIXES, '_gt', '_lt', '_gte', '_lte'];
+const STRING_FILTER_SUFFIXES = [
+  ...COMPARISON_FILTER_SUFFIXES,
+  '_contains',
+  '_not_contains',
+  '_starts_with',
+  '_not_starts_with',
+  '_ends_with',
+  '_not_ends_with'
+];
+const LIST_FILTER_SUFFIXES = ['', '_not', '_contains', '_not_contains'];
 
 export class Schema {
   _composer: SchemaComposer;
@@ -156,6 +173,32 @@ export class Schema {
     });
     this._composer.addSchemaMustHaveType(typeComposer);
 
+    // Create the OrderDirection enum needed in subgraph plural queries.
+    const enumComposer = this._composer.createEnumTC({
+      name: 'OrderDirection',
+      values: {
+        asc: {},
+        desc: {}
+      }
+    });
+    this._composer.addSchemaMustHaveType(enumComposer);
+
+    // Create the _SubgraphErrorPolicy_ enum for querying subgraphs with indexing errors.
+    const errorPolicyComposer = this._composer.createEnumTC({
+      name: '_SubgraphErrorPolicy_',
+      values: {
+        allow: {},
+        deny: {}
+      }
+    });
+    this._composer.addSchemaMustHaveType(errorPolicyComposer);
+
+    // Add _meta query for indexing status of the subgraph.
+    this._addMetaQuery();
+
+    // Add queries and subscription for per block entity changesets.
+    this._addChangesetQueries();
+
     // Add subgraph-schema entity queries to the schema composer.
     this._addSubgraphSchemaQueries(subgraphTypeDefs);
   }
@@ -178,14 +221,162 @@ export class Schema {
         type: this._composer.getAnyTC(subgraphType).NonNull,
         args: {
           id: 'ID!',
-          block: 'Block_height'
+          block: 'Block_height',
+          subgraphError: { type: '_SubgraphErrorPolicy_!', defaultValue: 'deny' }
+        }
+      };
+
+      // Create the filter and orderBy input types needed in plural query.
+      const filterTypeName = this._addSubgraphFilterType(subgraphTypeDefs, subgraphTypeDef);
+      const orderByTypeName = this._addSubgraphOrderByType(subgraphTypeDef);
+
+      queryObject[getPluralQueryName(queryName)] = {
+        type: this._composer.getAnyTC(subgraphType).NonNull.List.NonNull,
+        args: {
+          block: 'Block_height',
+          where: filterTypeName,
+          orderBy: orderByTypeName,
+          orderDirection: 'OrderDirection',
+          first: { type: 'Int', defaultValue: DEFAULT_ENTITIES_LIMIT },
+          skip: { type: 'Int', defaultValue: 0 },
+          subgraphError: { type: '_SubgraphErrorPolicy_!', defaultValue: 'deny' }
         }
       };
 
+      // Add fulltext search queries for the entity.
+      const fulltextSearches: FulltextSearch[] = subgraphTypeDef.fulltextSearches ?? [];
+
+      fulltextSearches.forEach(fulltextSearch => {
+        queryObject[fulltextSearch.name] = {
+          type: this._composer.getAnyTC(subgraphType).NonNull.List.NonNull,
+          args: {
+            text: 'String!',
+            first: { type: 'Int', defaultValue: DEFAULT_ENTITIES_LIMIT },
+            skip: { type: 'Int', defaultValue: 0 },
+            block: 'Block_height',
+            where: filterTypeName,
+            subgraphError: { type: '_SubgraphErrorPolicy_!', defaultValue: 'deny' }
+          }
+        };
+      });
+
       this._composer.Query.addFields(queryObject);
+
+      // Add subscription for changes to the entity.
+      this._addSubgraphEntityChangeSubscription(subgraphType, filterTypeName);
     }
   }
 
+  _addSubgraphEntityChangeSubscription (subgraphType: string, filterTypeName: string): void {
+    const changeTypeName = `${subgraphType}_change`;
+
+    const typeComposer = this._composer.createObjectTC({
+      name: changeTypeName,
+      fields: {
+        block: this._composer.getOTC('_Block_').NonNull,
+        id: 'String!',
+        operation: '_EntityChangeOperation_!',
+        // Entity after the change, null if the entity is removed.
+        entity: subgraphType
+      }
+    });
+    this._composer.addSchemaMustHaveType(typeComposer);
+
+    this._composer.Subscription.addFields({
+      [`on${subgraphType}Changed`]: {
+        type: typeComposer.NonNull,
+        args: {
+          where: filterTypeName,
+          // Number of blocks on top of the changed block before the change is delivered.
+          confirmations: { type: 'Int', defaultValue: 0 }
+        }
+      }
+    });
+  }
+
+  _addSubgraphFilterType (subgraphTypeDefs: any, subgraphTypeDef: any): string {
+    const subgraphType = subgraphTypeDef.name.value;
+    const filterTypeName = `${subgraphType}_filter`;
+
+    const entityTypes = subgraphTypeDefs.filter((def: any) => def.kind === 'ObjectTypeDefinition')
+      .map((def: any) => def.name.value);
+    const enumTypes = subgraphTypeDefs.filter((def: any) => def.kind === 'EnumTypeDefinition')
+      .map((def: any) => def.name.value);
+
+    const fields: { [key: string]: string } = {};
+
+    subgraphTypeDef.fields.forEach((field: any) => {
+      const { typeName, array } = getFieldType(field.type);
+      const isDerived = field.directives.some((directive: any) => directive.name.value === 'derivedFrom');
+
+      if (entityTypes.includes(typeName)) {
+        // Add child filter on fields of the related entity.
+        fields[`${field.name.value}_`] = `${typeName}_filter`;
+      }
+
+      // Derived fields are only filtered using the child filter.
+      if (isDerived) {
+        return;
+      }
+
+      let filterType = typeName;
+      let suffixes = COMPARISON_FILTER_SUFFIXES;
+
+      if (entityTypes.includes(typeName)) {
+        // Filter on id of the related entity.
+        filterType = 'String';
+        suffixes = STRING_FILTER_SUFFIXES;
+      } else if (enumTypes.includes(typeName) || typeName === 'Boolean') {
+        suffixes = BASIC_FILTER_SUFFIXES;
+      } else if (['ID', 'String', 'Bytes'].includes(typeName)) {
+        suffixes = STRING_FILTER_SUFFIXES;
+      }
+
+      if (array) {
+        // Filter on values in list fields.
+        suffixes = LIST_FILTER_SUFFIXES;
+      }
+
+      suffixes.forEach(suffix => {
+        const isListFilter = array || suffix.endsWith('_in');
+        fields[`${field.name.value}${suffix}`] = isListFilter ? `[${filterType}!]` : filterType;
+      });
+    });
+
+    // Add logical operators for combining filters.
+    fields.and = `[${filterTypeName}]`;
+    fields.or = `[${filterTypeName}]`;
+
+    const typeComposer = this._composer.createInputTC({
+      name: filterTypeName,
+      fields
+    });
+    this._composer.addSchemaMustHaveType(typeComposer);
+
+    return filterTypeName;
+  }
+
+  _addSubgraphOrderByType (subgraphTypeDef: any): string {
+    const orderByTypeName = `${subgraphTypeDef.name.value}_orderBy`;
+
+    const values = subgraphTypeDef.fields.reduce((acc: { [key: string]: any }, field: any) => {
+      // Derived fields do not have a column to order by.
+      if (!field.directives.some((directive: any) => directive.name.value === 'derivedFrom')) {
+        acc[field.name.value] = {};
+      }
+
+      return acc;
+    }, {});
+
+    const typeComposer = this._composer.createEnumTC({
+      name: orderByTypeName,
+      values
+    });
+    this._composer.addSchemaMustHaveType(typeComposer);
+
+    return orderByTypeName;
+  }
+
   /**
    * Adds basic types to the schema and typemapping.
    */
@@ -411,6 +602,83 @@ export class Schema {
     });
   }
 
+  _addMetaQuery (): void {
+    const typeComposer = this._composer.createObjectTC({
+      name: '_Meta_',
+      fields: {
+        block: this._composer.getOTC('_Block_').NonNull,
+        deployment: 'String!',
+        hasIndexingErrors: 'Boolean!'
+      }
+    });
+
+    this._composer.addSchemaMustHaveType(typeComposer);
+
+    this._composer.Query.addFields({
+      _meta: {
+        type: this._composer.getOTC('_Meta_'),
+        args: {
+          block: 'Block_height'
+        }
+      }
+    });
+  }
+
+  _addChangesetQueries (): void {
+    const operationComposer = this._composer.createEnumTC({
+      name: '_EntityChangeOperation_',
+      values: {
+        create: {},
+        update: {},
+        remove: {}
+      }
+    });
+    this._composer.addSchemaMustHaveType(operationComposer);
+
+    // Entity values before and after the change are JSON strings.
+    const changeComposer = this._composer.createObjectTC({
+      name: '_EntityChange_',
+      fields: {
+        entityType: 'String!',
+        id: 'String!',
+        operation: '_EntityChangeOperation_!',
+        before: 'String',
+        after: 'String'
+      }
+    });
+    this._composer.addSchemaMustHaveType(changeComposer);
+
+    const changesetComposer = this._composer.createObjectTC({
+      name: '_BlockChangeset_',
+      fields: {
+        block: this._composer.getOTC('_Block_').NonNull,
+        changes: this._composer.getOTC('_EntityChange_').NonNull.List.NonNull,
+        reverted: 'Boolean!'
+      }
+    });
+    this._composer.addSchemaMustHaveType(changesetComposer);
+
+    this._composer.Query.addFields({
+      _changeset: {
+        type: this._composer.getOTC('_BlockChangeset_').NonNull,
+        args: {
+          block: 'Block_height!'
+        }
+      },
+      _changesets: {
+        type: this._composer.getOTC('_BlockChangeset_').NonNull.List.NonNull,
+        args: {
+          fromBlockNumber: 'Int!',
+          toBlockNumber: 'Int!'
+        }
+      }
+    });
+
+    this._composer.Subscription.addFields({
+      _onBlockChangeset: () => this._composer.getOTC('_BlockChangeset_').NonNull
+    });
+  }
+
   _addStateType (): void {
     const typeComposer = this._composer.createObjectTC({
       name: 'ResultState',
@@ -0,0 +1,21 @@
+//
+// Copyright 2023 Vulcanize, Inc.
+//
+
+import fs from 'fs';
+import path from 'path';
+import Handlebars from 'handlebars';
+import { Writable } from 'stream';
+
+const TEMPLATE_FILE = './templates/single-process-template.handlebars';
+
+/**
+ * Writes the single-process (server with job-runner) file generated from a template to a stream.
+ * @param outStream A writable output stream to write the single-process file to.
+ */
+export function exportSingleProcess (outStream: Writable): void {
+  const templateString = fs.readFileSync(path.resolve(__dirname, TEMPLATE_FILE)).toString();
+  const template = Handlebars.compile(templateString);
+  const singleProcess = template({});
+  outStream.write(singleProcess);
+}
@@ -0,0 +1,126 @@
+//
+// Copyright 2023 Vulcanize, Inc.
+//
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { expect } from 'chai';
+import 'mocha';
+
+import { parseSubgraphSchema } from './subgraph';
+import { registerHandlebarHelpers } from './handlebar-helpers';
+import { Entity } from '../entity';
+
+const AUTHOR_TYPE = `
+  type Author @entity {
+    id: ID!
+    name: String!
+    bio: String
+  }
+`;
+
+const BOOK_TYPE = `
+  type Book @entity {
+    id: ID!
+    title: String!
+  }
+`;
+
+// Wait for the file written using a stream to be available.
+const readGeneratedFile = async (filePath: string): Promise<string> => {
+  for (let retry = 0; retry < 50; retry++) {
+    if (fs.existsSync(filePath) && fs.statSync(filePath).size) {
+      return fs.readFileSync(filePath).toString();
+    }
+
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+
+  throw new Error(`File ${filePath} not written`);
+};
+
+describe('subgraph fulltext search', () => {
+  let tmpDir: string;
+
+  const writeSchema = (schema: string): string => {
+    const subgraphPath = fs.mkdtempSync(path.join(tmpDir, 'subgraph-'));
+    fs.writeFileSync(path.join(subgraphPath, 'schema.graphql'), schema);
+
+    return subgraphPath;
+  };
+
+  before(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'codegen-fulltext-'));
+  });
+
+  after(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should add fulltext searches to the included entity', () => {
+    const subgraphPath = writeSchema(`
+      type _Schema_
+        @fulltext(
+          name: "authorSearch"
+          language: en
+          algorithm: rank
+          include: [{ entity: "Author", fields: [{ name: "name" }, { name: "bio" }] }]
+        )
+      ${AUTHOR_TYPE}
+    `);
+
+    const subgraphSchemaDocument = parseSubgraphSchema(subgraphPath);
+    const authorDef = subgraphSchemaDocument.definitions.find((def: any) => def.name.value === 'Author');
+
+    expect(subgraphSchemaDocument.definitions.map((def: any) => def.name.value)).to.not.include('_Schema_');
+    expect(authorDef.fulltextSearches).to.deep.equal([{
+      name: 'authorSearch',
+      language: 'english',
+      algorithm: 'rank',
+      fields: ['name', 'bio']
+    }]);
+  });
+
+  it('should reject fulltext searches across multiple entities', () => {
+    const subgraphPath = writeSchema(`
+      type _Schema_
+        @fulltext(
+          name: "search"
+          language: en
+          algorithm: rank
+          include: [{ entity: "Author", fields: [{ name: "name" }] }, { entity: "Book", fields: [{ name: "title" }] }]
+        )
+      ${AUTHOR_TYPE}
+      ${BOOK_TYPE}
+    `);
+
+    expect(() => parseSubgraphSchema(subgraphPath)).to.throw('Fulltext search search should include exactly one entity, found 2');
+  });
+
+  it('should generate a GIN indexed document column for the entity', async () => {
+    const subgraphPath = writeSchema(`
+      type _Schema_
+        @fulltext(
+          name: "authorSearch"
+          language: en
+          algorithm: proximityRank
+          include: [{ entity: "Author", fields: [{ name: "name" }] }]
+        )
+      ${AUTHOR_TYPE}
+    `);
+
+    const entityDir = fs.mkdtempSync(path.join(tmpDir, 'entity-'));
+    registerHandlebarHelpers({ subgraphPath });
+
+    const entity = new Entity();
+    entity.addSubgraphEntities(parseSubgraphSchema(subgraphPath));
+    entity.exportEntities(entityDir, subgraphPath);
+
+    const authorEntity = await readGeneratedFile(path.join(entityDir, 'Author.ts'));
+
+    expect(authorEntity).to.include("@Index('fulltext_author_search', ['authorSearch'], { synchronize: false })");
+    expect(authorEntity).to.include("@Column('tsvector', { generatedType: 'STORED', asExpression: \"to_tsvector('english', coalesce(name, ''))\", select: false })");
+    expect(authorEntity).to.not.include('spatial');
+  });
+});
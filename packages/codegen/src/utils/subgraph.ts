@@ -2,9 +2,41 @@ import path from 'path';
 import assert from 'assert';
 import fs from 'fs';
 import yaml from 'js-yaml';
+import pluralize from 'pluralize';
+import { valueFromASTUntyped } from 'graphql';
 
 import { loadFilesSync } from '@graphql-tools/load-files';
 
+// Type in subgraph schema used for declaring fulltext search fields.
+const SCHEMA_TYPE_NAME = '_Schema_';
+
+// Postgres text search configs for the fulltext languages supported in graph-node.
+const FULLTEXT_LANGUAGES: { [key: string]: string } = {
+  simple: 'simple',
+  da: 'danish',
+  nl: 'dutch',
+  en: 'english',
+  fi: 'finnish',
+  fr: 'french',
+  de: 'german',
+  hu: 'hungarian',
+  it: 'italian',
+  no: 'norwegian',
+  pt: 'portuguese',
+  ro: 'romanian',
+  ru: 'russian',
+  es: 'spanish',
+  sv: 'swedish',
+  tr: 'turkish'
+};
+
+export interface FulltextSearch {
+  name: string;
+  language: string;
+  algorithm: string;
+  fields: string[];
+}
+
 export function parseSubgraphSchema (subgraphPath: string): any {
   const subgraphSchemaPath = path.join(path.resolve(subgraphPath), '/schema.graphql');
 
@@ -24,7 +56,9 @@ export function parseSubgraphSchema (subgraphPath: string): any {
     }
   });
 
-  subgraphSchemaDocument.definitions = subgraphTypeDefs;
+  // Add fulltext searches to the entity types and remove the _Schema_ type.
+  addFulltextSearches(subgraphTypeDefs);
+  subgraphSchemaDocument.definitions = subgraphTypeDefs.filter((def: any) => def.name.value !== SCHEMA_TYPE_NAME);
 
   // Return a modified subgraph-schema DocumentNode.
   return subgraphSchemaDocument;
@@ -45,6 +79,13 @@ export function getFieldType (typeNode: any): { typeName: string, array: boolean
   return { typeName: typeNode.name.value, array: false, nullable: true };
 }
 
+export function getPluralQueryName (queryName: string): string {
+  const pluralQueryName = pluralize(queryName);
+
+  // Use collection suffix if plural is same as singular (like graph-node).
+  return (pluralQueryName === queryName) ? `${queryName}_collection` : pluralQueryName;
+}
+
 export function getSubgraphConfig (subgraphPath: string): any {
   const subgraphConfigPath = path.join(path.resolve(subgraphPath), '/subgraph.yaml');
 
@@ -60,3 +101,42 @@ function parseType (typeNode: any): any {
 
   return typeNode;
 }
+
+function addFulltextSearches (subgraphTypeDefs: any): void {
+  const schemaTypeDef = subgraphTypeDefs.find((def: any) => def.name.value === SCHEMA_TYPE_NAME);
+
+  if (!schemaTypeDef) {
+    return;
+  }
+
+  schemaTypeDef.directives.filter((directive: any) => directive.name.value === 'fulltext')
+    .forEach((directive: any) => {
+      const args = directive.arguments.reduce((acc: { [key: string]: any }, arg: any) => {
+        acc[arg.name.value] = valueFromASTUntyped(arg.value);
+
+        return acc;
+      }, {});
+
+      const language = FULLTEXT_LANGUAGES[args.language];
+      assert(language, `Fulltext language ${args.language} not supported`);
+
+      // Fulltext search across multiple entities is not supported (same as graph-node).
+      if (args.include.length !== 1) {
+        throw new Error(`Fulltext search ${args.name} should include exactly one entity, found ${args.include.length}`);
+      }
+
+      const [{ entity, fields }] = args.include;
+
+      const entityTypeDef = subgraphTypeDefs.find((def: any) => def.kind === 'ObjectTypeDefinition' && def.name.value === entity);
+      assert(entityTypeDef, `Entity ${entity} for fulltext search ${args.name} not found`);
+
+      const fulltextSearch: FulltextSearch = {
+        name: args.name,
+        language,
+        algorithm: args.algorithm,
+        fields: fields.map((field: { name: string }) => field.name)
+      };
+
+      entityTypeDef.fulltextSearches = [...(entityTypeDef.fulltextSearches ?? []), fulltextSearch];
+    });
+}
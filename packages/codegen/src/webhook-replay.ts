@@ -0,0 +1,21 @@
+//
+// Copyright 2023 Vulcanize, Inc.
+//
+
+import fs from 'fs';
+import path from 'path';
+import Handlebars from 'handlebars';
+import { Writable } from 'stream';
+
+const TEMPLATE_FILE = './templates/webhook-replay-template.handlebars';
+
+/**
+ * Writes the webhook-replay file generated from a template to a stream.
+ * @param outStream A writable output stream to write the webhook-replay file to.
+ */
+export function exportWebhookReplay (outStream: Writable): void {
+  const templateString = fs.readFileSync(path.resolve(__dirname, TEMPLATE_FILE)).toString();
+  const template = Handlebars.compile(templateString);
+  const webhookReplay = template({});
+  outStream.write(webhookReplay);
+}
@@ -0,0 +1,82 @@
+//
+// Copyright 2023 Vulcanize, Inc.
+//
+
+import { expect } from 'chai';
+import { utils } from 'ethers';
+
+import { Block, ContractInterface, EthClient, ServerConfig } from '@cerc-io/util';
+
+import { GraphWatcher } from './watcher';
+import { getDummyBlockData, getTestDatabase, getTestIndexer, getTestProvider, ZERO_ADDRESS, ZERO_HASH } from '../test/utils';
+
+const CONTRACT_ADDRESS = '0xca6d29232d1435d8198e3e5302495417dd073d61';
+const BLOCK_HASH = '0x' + 'a'.repeat(64);
+
+const getBlockData = (blockNumber: number): Block => getDummyBlockData(blockNumber, BLOCK_HASH);
+
+describe('block handler filters', () => {
+  let watcher: GraphWatcher;
+  let watchedContracts: ContractInterface[];
+
+  const pollingHandler = { handler: 'handlePolling', filter: { kind: 'polling', every: 10 } };
+  const onceHandler = { handler: 'handleOnce', filter: { kind: 'once' } };
+  const callHandler = { handler: 'handleCall', filter: { kind: 'call' } };
+
+  before(() => {
+    watcher = new GraphWatcher(getTestDatabase(), {} as EthClient, getTestProvider(), {} as ServerConfig);
+
+    const indexer = getTestIndexer();
+    indexer.getContractsByKind = () => watchedContracts;
+    watcher.setIndexer(indexer);
+  });
+
+  beforeEach(() => {
+    watchedContracts = [];
+  });
+
+  it('should default to the genesis block for data sources without a start block', async () => {
+    const dataSource = { name: 'Example1', source: { address: CONTRACT_ADDRESS } };
+
+    const contractList = watcher._getBlockHandlerContracts(dataSource, 20);
+    expect(contractList).to.deep.equal([{ address: CONTRACT_ADDRESS, startBlock: 0 }]);
+
+    const [{ address, startBlock }] = contractList;
+    const blockHandlers = await watcher._getTriggeredBlockHandlers([pollingHandler, onceHandler], getBlockData(20), address, startBlock);
+    expect(blockHandlers).to.deep.equal([pollingHandler]);
+  });
+
+  it('should only return contracts with the start block reached', async () => {
+    const dataSource = { name: 'Example1', source: { address: CONTRACT_ADDRESS, startBlock: 100 } };
+    expect(watcher._getBlockHandlerContracts(dataSource, 99)).to.have.lengthOf(0);
+    expect(watcher._getBlockHandlerContracts(dataSource, 100)).to.deep.equal([{ address: CONTRACT_ADDRESS, startBlock: 100 }]);
+
+    watchedContracts = [
+      { address: CONTRACT_ADDRESS, startingBlock: 15 },
+      { address: ZERO_ADDRESS, startingBlock: 30 }
+    ] as ContractInterface[];
+
+    const template = { name: 'Template1', source: {} };
+    expect(watcher._getBlockHandlerContracts(template, 20)).to.deep.equal([{ address: CONTRACT_ADDRESS, startBlock: 15 }]);
+  });
+
+  it('should trigger polling and once handlers relative to the start block', async () => {
+    const blockHandlers = [pollingHandler, onceHandler];
+
+    expect(await watcher._getTriggeredBlockHandlers(blockHandlers, getBlockData(15), CONTRACT_ADDRESS, 15)).to.deep.equal(blockHandlers);
+    expect(await watcher._getTriggeredBlockHandlers(blockHandlers, getBlockData(20), CONTRACT_ADDRESS, 15)).to.have.lengthOf(0);
+    expect(await watcher._getTriggeredBlockHandlers(blockHandlers, getBlockData(25), CONTRACT_ADDRESS, 15)).to.deep.equal([pollingHandler]);
+  });
+
+  it('should trigger call handlers for calls to an unchecksummed contract address', async () => {
+    // Calls of the block are already fetched.
+    watcher._blockCalls = {
+      blockHash: BLOCK_HASH,
+      calls: [{ txHash: ZERO_HASH, txIndex: 0, from: ZERO_ADDRESS, to: utils.getAddress(CONTRACT_ADDRESS), input: '0x', output: '0x' }],
+      numHandled: 0
+    };
+
+    expect(await watcher._getTriggeredBlockHandlers([callHandler], getBlockData(20), CONTRACT_ADDRESS, 0)).to.deep.equal([callHandler]);
+    expect(await watcher._getTriggeredBlockHandlers([callHandler], getBlockData(20), ZERO_ADDRESS, 0)).to.have.lengthOf(0);
+  });
+});
@@ -8,11 +8,12 @@ import spies from 'chai-spies';
 import { utils } from 'ethers';
 
 import { BaseProvider } from '@ethersproject/providers';
-import { GraphDatabase, createEvent, createBlock, Block, EventData } from '@cerc-io/util';
+import { GraphDatabase, createEvent, createBlock, createCall, fromEntityValue, Block, EventData, ContractInterface, EthClient, ServerConfig } from '@cerc-io/util';
 
-import { getDummyEventData, getDummyGraphData, getTestDatabase, getTestIndexer, getTestProvider } from '../test/utils';
+import { getDummyBlockData, getDummyEventData, getDummyGraphData, getTestDatabase, getTestIndexer, getTestProvider, ZERO_ADDRESS } from '../test/utils';
 import abi from '../test/subgraph/example1/build/Example1/abis/Example1.json';
 import { instantiate } from './loader';
+import { GraphWatcher } from './watcher';
 import { Indexer } from '../test/utils/indexer';
 
 chai.use(spies);
@@ -127,3 +128,157 @@ xdescribe('call handler in mapping code', () => {
     sandbox.restore();
   });
 });
+
+describe('call handlers in mapping code', () => {
+  const callSandbox = chai.spy.sandbox();
+
+  let exports: any;
+  let db: GraphDatabase;
+  let indexer: Indexer;
+  let provider: BaseProvider;
+
+  const dummyGraphData = getDummyGraphData();
+  const txHash = '0x' + '1'.repeat(64);
+
+  const blockData = getDummyBlockData(100, '0x' + 'a'.repeat(64));
+
+  // Entities saved by the mapping code with their field values.
+  let savedEntities: { entityName: string, values: { [key: string]: any } }[];
+
+  before(async () => {
+    db = getTestDatabase();
+    indexer = getTestIndexer();
+    provider = getTestProvider();
+
+    callSandbox.on(db, 'fromGraphEntity', async (instanceExports: any, block: Block, entityName: string, entityInstance: any) => {
+      const values: { [key: string]: any } = {};
+
+      for (const key of ['id', 'name', 'count']) {
+        values[key] = await fromEntityValue(instanceExports, entityInstance, key);
+      }
+
+      savedEntities.push({ entityName, values });
+
+      return values;
+    });
+
+    callSandbox.on(db, 'saveEntity', (entityName: string, data: any) => data);
+    callSandbox.on(db, 'cacheUpdatedEntityByName', () => undefined);
+
+    const filePath = path.resolve(__dirname, '../test/subgraph/example1/build/Example1/Example1.wasm');
+    const instance = await instantiate(
+      db,
+      indexer,
+      provider,
+      {
+        block: blockData,
+        contractAddress: dummyGraphData.dataSource.address
+      },
+      filePath,
+      dummyGraphData
+    );
+
+    exports = instance.exports;
+    exports._start();
+  });
+
+  beforeEach(() => {
+    savedEntities = [];
+  });
+
+  it('should execute the call handler with the decoded call data', async () => {
+    const { handleAddMethod } = exports;
+
+    const contractInterface = new utils.Interface(abi);
+    const functionFragment = contractInterface.getFunction('addMethod(uint128,uint128)');
+
+    // Create an ethereum call to be passed to the handler.
+    const call = await createCall(exports, {
+      block: blockData,
+      tx: {
+        hash: txHash,
+        index: 0,
+        from: ZERO_ADDRESS,
+        to: dummyGraphData.dataSource.address,
+        value: '0',
+        gasLimit: '0',
+        gasPrice: '0',
+        input: '0x'
+      },
+      from: ZERO_ADDRESS,
+      to: dummyGraphData.dataSource.address,
+      inputs: functionFragment.inputs,
+      outputs: functionFragment.outputs ?? [],
+      inputValues: {
+        bidAmount1: BigInt(10),
+        bidAmount2: BigInt(20)
+      },
+      outputValues: [BigInt(30)]
+    });
+
+    await handleAddMethod(call);
+
+    expect(db.saveEntity).to.have.been.called.exactly(1);
+    expect(savedEntities).to.deep.equal([{
+      entityName: 'Category',
+      values: {
+        id: txHash,
+        name: dummyGraphData.dataSource.address.toLowerCase(),
+        count: BigInt(30)
+      }
+    }]);
+  });
+
+  after(() => {
+    callSandbox.restore();
+  });
+});
+
+describe('call handler decoding', () => {
+  let watcher: GraphWatcher;
+  let handledCalls: number;
+
+  const contractAddress = getDummyGraphData().dataSource.address;
+  const contractInterface = new utils.Interface(abi);
+  const blockData = getDummyBlockData(100, '0x' + 'a'.repeat(64));
+
+  const getCall = (input: string, output: string) => ({ txHash: '0x' + '1'.repeat(64), txIndex: 0, from: ZERO_ADDRESS, to: contractAddress, input, output });
+
+  before(() => {
+    watcher = new GraphWatcher(getTestDatabase(), {} as EthClient, getTestProvider(), {} as ServerConfig);
+
+    const indexer = getTestIndexer();
+    indexer.isWatchedContract = () => ({ address: contractAddress, kind: 'Example1', startingBlock: 0 }) as ContractInterface;
+    watcher.setIndexer(indexer);
+
+    watcher._dataSources = [{
+      name: 'Example1',
+      mapping: { callHandlers: [{ function: 'addMethod(uint128,uint128)', handler: 'handleAddMethod' }] }
+    }];
+
+    const instance = { exports: { handleAddMethod: async () => { handledCalls++; } } };
+    watcher._dataSourceMap = { Example1: { instance, contractInterface } } as unknown as GraphWatcher['_dataSourceMap'];
+  });
+
+  beforeEach(() => {
+    handledCalls = 0;
+  });
+
+  it('should skip calls with input not matching the function', async () => {
+    // Input with function selector and a missing argument.
+    const input = contractInterface.encodeFunctionData('addMethod', [10, 20]).slice(0, 74);
+    const output = contractInterface.encodeFunctionResult('addMethod', [30]);
+
+    await watcher._handleCall(getCall(input, output), blockData);
+
+    expect(handledCalls).to.equal(0);
+  });
+
+  it('should skip calls with output not matching the function', async () => {
+    const input = contractInterface.encodeFunctionData('addMethod', [10, 20]);
+
+    await watcher._handleCall(getCall(input, '0x'), blockData);
+
+    expect(handledCalls).to.equal(0);
+  });
+});
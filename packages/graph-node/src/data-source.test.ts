@@ -0,0 +1,70 @@
+//
+// Copyright 2021 Vulcanize, Inc.
+//
+
+import path from 'path';
+import { expect } from 'chai';
+
+import { BaseProvider } from '@ethersproject/providers';
+import { GraphDatabase, fromDataSourceContext, toDataSourceContext } from '@cerc-io/util';
+
+import { instantiate } from './loader';
+import { getDummyGraphData, getTestDatabase, getTestIndexer, getTestProvider } from '../test/utils';
+import { Indexer } from '../test/utils/indexer';
+
+describe('data source context', () => {
+  let exports: any;
+  let db: GraphDatabase;
+  let indexer: Indexer;
+  let provider: BaseProvider;
+
+  const expectedContextData = {
+    stringValue: { type: 'String', data: 'abc' },
+    intValue: { type: 'Int', data: 123 },
+    bigIntValue: { type: 'BigInt', data: '1000000000000000000' },
+    boolValue: { type: 'Bool', data: true }
+  };
+
+  before(async () => {
+    db = getTestDatabase();
+    indexer = getTestIndexer();
+    provider = getTestProvider();
+  });
+
+  it('should load the subgraph example wasm', async () => {
+    const dummyGraphData = getDummyGraphData();
+    const filePath = path.resolve(__dirname, '../test/subgraph/example1/build/Example1/Example1.wasm');
+
+    const instance = await instantiate(
+      db,
+      indexer,
+      provider,
+      {},
+      filePath,
+      dummyGraphData
+    );
+
+    exports = instance.exports;
+    const { _start } = exports;
+
+    // Important to call _start for built subgraphs on instantiation!
+    // TODO: Check api version https://github.com/graphprotocol/graph-node/blob/6098daa8955bdfac597cec87080af5449807e874/runtime/wasm/src/module/mod.rs#L533
+    _start();
+  });
+
+  it('should convert data source context to JSON data', async () => {
+    const { testDataSourceContext } = exports;
+
+    const contextPtr = await testDataSourceContext();
+    const contextData = await fromDataSourceContext(exports, contextPtr);
+
+    expect(contextData).to.deep.equal(expectedContextData);
+  });
+
+  it('should create data source context from JSON data', async () => {
+    const context = await toDataSourceContext(exports, expectedContextData);
+    const contextData = await fromDataSourceContext(exports, context);
+
+    expect(contextData).to.deep.equal(expectedContextData);
+  });
+});
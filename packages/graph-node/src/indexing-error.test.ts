@@ -0,0 +1,174 @@
+//
+// Copyright 2021 Vulcanize, Inc.
+//
+
+import path from 'path';
+import { expect } from 'chai';
+
+import { BaseProvider } from '@ethersproject/providers';
+import { QueryRunner } from 'typeorm';
+import { Block, EthClient, GraphDatabase, IndexingErrorInterface, ServerConfig } from '@cerc-io/util';
+
+import { instantiate } from './loader';
+import { GraphWatcher } from './watcher';
+import { getDummyBlockData, getDummyGraphData, getTestDatabase, getTestIndexer, getTestProvider } from '../test/utils';
+import { Indexer } from '../test/utils/indexer';
+
+describe('deterministic indexing errors', () => {
+  let exports: any;
+  let db: GraphDatabase;
+  let indexer: Indexer;
+  let provider: BaseProvider;
+
+  before(async () => {
+    db = getTestDatabase();
+    indexer = getTestIndexer();
+    provider = getTestProvider();
+  });
+
+  it('should load the subgraph example wasm', async () => {
+    const dummyGraphData = getDummyGraphData();
+    const filePath = path.resolve(__dirname, '../test/subgraph/example1/build/Example1/Example1.wasm');
+
+    const instance = await instantiate(
+      db,
+      indexer,
+      provider,
+      {},
+      filePath,
+      dummyGraphData
+    );
+
+    exports = instance.exports;
+    const { _start } = exports;
+
+    // Important to call _start for built subgraphs on instantiation!
+    // TODO: Check api version https://github.com/graphprotocol/graph-node/blob/6098daa8955bdfac597cec87080af5449807e874/runtime/wasm/src/module/mod.rs#L533
+    _start();
+  });
+
+  it('should not throw if assertion passes', async () => {
+    const { testAssertion, __newString } = exports;
+
+    await testAssertion(await __newString('abc'));
+  });
+
+  it('should abort if assertion fails', async () => {
+    const { testAssertion, __newString } = exports;
+
+    try {
+      await testAssertion(await __newString('xyz'));
+      expect.fail('wasm code should throw error');
+    } catch (error) {
+      // Aborts are handled as deterministic errors by the GraphWatcher.
+      expect((error as Error).message).to.match(/^abort: Value is not abc/);
+    }
+  });
+});
+
+describe('non-fatal indexing errors', () => {
+  let watcher: GraphWatcher;
+  let db: GraphDatabase;
+  let revertedBlocks: { entityNames: string[], blockHash: string, parentHash: string }[];
+  let indexingErrors: IndexingErrorInterface[];
+  let txStatus: string[];
+
+  const blockData: Block = { ...getDummyBlockData(10, '0x' + 'a'.repeat(64)), parentHash: '0x' + 'b'.repeat(64) };
+
+  beforeEach(() => {
+    revertedBlocks = [];
+    indexingErrors = [];
+    txStatus = [];
+
+    db = getTestDatabase();
+    db.createTransactionRunner = async () => ({
+      commitTransaction: async () => { txStatus.push('commit'); },
+      rollbackTransaction: async () => { txStatus.push('rollback'); },
+      release: async () => { txStatus.push('release'); }
+    }) as unknown as QueryRunner;
+    db.revertBlockEntities = async (queryRunner, entityNames, blockHash, parentHash) => {
+      revertedBlocks.push({ entityNames, blockHash, parentHash });
+    };
+    db.saveIndexingError = async (queryRunner, indexingError) => {
+      const savedIndexingError = { ...indexingError, id: indexingErrors.length + 1 };
+      indexingErrors.push(savedIndexingError);
+
+      return savedIndexingError;
+    };
+    db.getIndexingErrors = async (blockHash: string) => indexingErrors.filter(indexingError => indexingError.blockHash === blockHash);
+
+    watcher = new GraphWatcher(db, {} as EthClient, getTestProvider(), {} as ServerConfig);
+    watcher._nonFatalErrors = true;
+
+    const indexer = getTestIndexer();
+    indexer.getEntityTypesMap = () => new Map([['Author', {}], ['Blog', {}]]);
+    watcher.setIndexer(indexer);
+  });
+
+  it('should revert block entities and save deterministic errors', async () => {
+    expect(await watcher._hasIndexingError(blockData.blockHash)).to.equal(false);
+
+    await watcher._handleIndexingError(new Error('abort: Value is not abc'), blockData, 'Example1', 'handleBlock');
+
+    expect(revertedBlocks).to.deep.equal([{ entityNames: ['Author', 'Blog'], blockHash: blockData.blockHash, parentHash: blockData.parentHash }]);
+    expect(indexingErrors).to.deep.equal([{
+      id: 1,
+      blockHash: blockData.blockHash,
+      blockNumber: 10,
+      dataSource: 'Example1',
+      handler: 'handleBlock',
+      message: 'abort: Value is not abc'
+    }]);
+    expect(txStatus).to.deep.equal(['commit', 'release']);
+    expect(await watcher._hasIndexingError(blockData.blockHash)).to.equal(true);
+  });
+
+  it('should throw non-deterministic errors', async () => {
+    try {
+      await watcher._handleIndexingError(new Error('connection refused'), blockData, 'Example1', 'handleBlock');
+      expect.fail('should throw error');
+    } catch (error) {
+      expect((error as Error).message).to.equal('connection refused');
+    }
+
+    expect(revertedBlocks).to.have.lengthOf(0);
+    expect(indexingErrors).to.have.lengthOf(0);
+  });
+
+  it('should throw deterministic errors without the nonFatalErrors feature', async () => {
+    watcher._nonFatalErrors = false;
+
+    try {
+      await watcher._handleIndexingError(new Error('abort: Value is not abc'), blockData, 'Example1', 'handleBlock');
+      expect.fail('should throw error');
+    } catch (error) {
+      expect((error as Error).message).to.equal('abort: Value is not abc');
+    }
+
+    expect(indexingErrors).to.have.lengthOf(0);
+  });
+
+  it('should skip the remaining handlers of a block with an indexing error', async () => {
+    const handledDataSources: string[] = [];
+    let fileDataSourcesHandled = false;
+
+    watcher._context.block = blockData;
+    watcher._dataSources = [{ name: 'Example1' }, { name: 'Example2' }];
+    watcher._handleCalls = async () => undefined;
+    watcher._handleFileDataSources = async () => { fileDataSourcesHandled = true; };
+    watcher._handleBlockHandlers = async (dataSource: any, blockData: Block) => {
+      handledDataSources.push(dataSource.name);
+      await watcher._handleIndexingError(new Error('abort: Value is not abc'), blockData, dataSource.name, 'handleBlock');
+    };
+
+    await watcher.handleBlock(blockData.blockHash, Number(blockData.blockNumber));
+
+    expect(handledDataSources).to.deep.equal(['Example1']);
+    expect(fileDataSourcesHandled).to.equal(false);
+    expect(indexingErrors).to.have.lengthOf(1);
+
+    // Block handlers are not run when the block is processed again.
+    await watcher.handleBlock(blockData.blockHash, Number(blockData.blockNumber));
+    expect(handledDataSources).to.deep.equal(['Example1']);
+  });
+});
@@ -0,0 +1,129 @@
+//
+// Copyright 2021 Vulcanize, Inc.
+//
+
+import path from 'path';
+import os from 'os';
+import fs from 'fs';
+import chai, { expect } from 'chai';
+import spies from 'chai-spies';
+
+import { BaseProvider } from '@ethersproject/providers';
+import { Block, GraphDatabase, LocalIPFSContentFetcher, fromEntityValue } from '@cerc-io/util';
+
+import { instantiate } from './loader';
+import { getDummyBlockData, getDummyGraphData, getTestDatabase, getTestIndexer, getTestProvider } from '../test/utils';
+import { Indexer } from '../test/utils/indexer';
+
+const CAT_CID = 'QmTestIpfsCatContent';
+const MAP_CID = 'QmTestIpfsMapContent';
+const MISSING_CID = 'QmTestIpfsMissingContent';
+
+chai.use(spies);
+
+const sandbox = chai.spy.sandbox();
+
+describe('ipfs host api', () => {
+  let exports: any;
+  let db: GraphDatabase;
+  let indexer: Indexer;
+  let provider: BaseProvider;
+  let ipfsDirectory: string;
+
+  // Entities saved by the mapping code with their field values.
+  let savedEntities: { entityName: string, values: { [key: string]: any } }[];
+
+  before(async () => {
+    db = getTestDatabase();
+    indexer = getTestIndexer();
+    provider = getTestProvider();
+
+    sandbox.on(db, 'fromGraphEntity', async (instanceExports: any, block: Block, entityName: string, entityInstance: any) => {
+      const values: { [key: string]: any } = {};
+
+      for (const key of ['id', 'name']) {
+        values[key] = await fromEntityValue(instanceExports, entityInstance, key);
+      }
+
+      savedEntities.push({ entityName, values });
+
+      return values;
+    });
+
+    sandbox.on(db, 'saveEntity', (entityName: string, data: any) => data);
+    sandbox.on(db, 'cacheUpdatedEntityByName', () => undefined);
+
+    // Use a local directory as IPFS stand-in.
+    ipfsDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'ipfs-'));
+    fs.writeFileSync(path.join(ipfsDirectory, CAT_CID), 'abc');
+    fs.writeFileSync(path.join(ipfsDirectory, MAP_CID), '{ "id": "1" }\n{ "id": "2" }\n');
+  });
+
+  it('should load the subgraph example wasm', async () => {
+    const dummyGraphData = getDummyGraphData();
+    const filePath = path.resolve(__dirname, '../test/subgraph/example1/build/Example1/Example1.wasm');
+
+    const instance = await instantiate(
+      db,
+      indexer,
+      provider,
+      { block: getDummyBlockData(1, '0x' + 'a'.repeat(64)) },
+      filePath,
+      dummyGraphData,
+      new LocalIPFSContentFetcher(ipfsDirectory)
+    );
+
+    exports = instance.exports;
+    const { _start } = exports;
+
+    // Important to call _start for built subgraphs on instantiation!
+    // TODO: Check api version https://github.com/graphprotocol/graph-node/blob/6098daa8955bdfac597cec87080af5449807e874/runtime/wasm/src/module/mod.rs#L533
+    _start();
+  });
+
+  it('should get content using ipfs.cat', async () => {
+    const { testIpfsCat, __getString, __newString } = exports;
+
+    const ptr = await testIpfsCat(await __newString(CAT_CID));
+    expect(__getString(ptr)).to.equal('abc');
+  });
+
+  it('should return null for missing content using ipfs.cat', async () => {
+    const { testIpfsCat, __newString } = exports;
+
+    const ptr = await testIpfsCat(await __newString(MISSING_CID));
+    expect(ptr).to.equal(0);
+  });
+
+  it('should call the callback for each JSON value using ipfs.map', async () => {
+    const { testIpfsMap, __newString } = exports;
+
+    savedEntities = [];
+    await testIpfsMap(await __newString(MAP_CID));
+
+    expect(savedEntities).to.deep.equal([
+      { entityName: 'Category', values: { id: '1', name: 'abc' } },
+      { entityName: 'Category', values: { id: '2', name: 'abc' } }
+    ]);
+  });
+
+  it('should throw for missing content using ipfs.map', async () => {
+    const { testIpfsMap, __newString } = exports;
+
+    savedEntities = [];
+
+    try {
+      await testIpfsMap(await __newString(MISSING_CID));
+      expect.fail('wasm code should throw error');
+    } catch (error) {
+      expect((error as Error).message).to.include(`ipfs.map: content not found for ${MISSING_CID}`);
+    }
+
+    expect(savedEntities).to.have.lengthOf(0);
+  });
+
+  after(() => {
+    sandbox.restore();
+    fs.rmSync(ipfsDirectory, { recursive: true, force: true });
+  });
+});
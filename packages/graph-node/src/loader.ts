@@ -28,7 +28,11 @@ import {
   toEthereumValue,
   getEthereumTypes,
   jsonFromBytes,
-  getStorageValueType
+  toJSONValue,
+  fromDataSourceContext,
+  toDataSourceContext,
+  getStorageValueType,
+  IPFSContentFetcher
 } from '@cerc-io/util';
 
 // Endianness of BN used in bigInt store host API.
@@ -44,11 +48,19 @@ export interface GraphData {
     network: string;
     name: string;
   };
+  // File data source templates in the subgraph mapped to the entities they store.
+  fileDataSources?: {[key: string]: string[]};
 }
 
 export interface Context {
   block?: Block
   contractAddress?: string
+  // Set when running a file data source handler.
+  fileDataSource?: {
+    kind: string
+    cid: string
+    context?: any
+  }
 }
 
 const log = debug('vulcanize:graph-node');
@@ -59,9 +71,30 @@ export const instantiate = async (
   provider: BaseProvider,
   context: Context,
   filePathOrModule: string | WebAssembly.Module,
-  data: GraphData
+  data: GraphData,
+  ipfsContentFetcher?: IPFSContentFetcher
 ): Promise<loader.ResultObject & { exports: any }> => {
-  const { abis = {}, dataSource } = data;
+  const { abis = {}, dataSource, fileDataSources = {} } = data;
+
+  // Entities stored by file data sources are not accessible in chain based handlers.
+  const fileDataSourceEntities = new Set(Object.values(fileDataSources).flat());
+
+  const checkEntityAccess = (entityName: string) => {
+    if (context.fileDataSource) {
+      const { kind } = context.fileDataSource;
+
+      // File data source handlers can only access entities declared in their mapping.
+      if (!fileDataSources[kind].includes(entityName)) {
+        throw new Error(`Entity ${entityName} is not accessible in file data source ${kind}`);
+      }
+
+      return;
+    }
+
+    if (fileDataSourceEntities.has(entityName)) {
+      throw new Error(`Entity ${entityName} of file data sources is not accessible in chain based handlers`);
+    }
+  };
 
   let source = filePathOrModule;
 
@@ -69,11 +102,32 @@ export const instantiate = async (
     source = await fs.readFile(filePathOrModule);
   }
 
+  const createDataSource = async (name: number, params: number, dataSourceContext?: any) => {
+    const [addressStringPtr] = __getArray(params);
+    const addressString = __getString(addressStringPtr);
+    const contractKind = __getString(name);
+
+    assert(context.block);
+    assert(!context.fileDataSource, 'Data sources cannot be created in file data source handlers');
+
+    if (fileDataSources[contractKind]) {
+      // Create file data source with the CID param.
+      assert(context.contractAddress);
+      await database.saveFileDataSource(contractKind, addressString, context.contractAddress, context.block, dataSourceContext);
+
+      return;
+    }
+
+    assert(indexer.watchContract);
+    await indexer.watchContract(utils.getAddress(addressString), contractKind, true, Number(context.block.blockNumber), dataSourceContext);
+  };
+
   const imports: WebAssembly.Imports = {
     index: {
       'store.get': async (entity: number, id: number) => {
         const entityName = __getString(entity);
         const entityId = __getString(id);
+        checkEntityAccess(entityName);
 
         assert(context.block);
         const entityData = await database.getEntity(entityName, entityId, context.block.blockHash);
@@ -92,10 +146,22 @@ export const instantiate = async (
       },
       'store.set': async (entity: number, id: number, data: number) => {
         const entityName = __getString(entity);
+        checkEntityAccess(entityName);
 
         const entityInstance = await Entity.wrap(data);
 
         assert(context.block);
+
+        if (context.fileDataSource) {
+          // Entities stored by file data sources are immutable.
+          const entityId = __getString(id);
+          const existingEntity = await database.getEntity(entityName, entityId, context.block.blockHash);
+
+          if (existingEntity && existingEntity.blockHash !== context.block.blockHash) {
+            throw new Error(`Entity ${entityName} with id ${entityId} of file data source ${context.fileDataSource.kind} is immutable`);
+          }
+        }
+
         const dbData = await database.fromGraphEntity(instanceExports, context.block, entityName, entityInstance);
         const dbEntity = await database.saveEntity(entityName, dbData);
         database.cacheUpdatedEntityByName(entityName, dbEntity);
@@ -111,6 +177,79 @@ export const instantiate = async (
           indexer.updateSubgraphState(context.contractAddress, diffData);
         }
       },
+      'store.remove': async (entity: number, id: number) => {
+        const entityName = __getString(entity);
+        const entityId = __getString(id);
+        checkEntityAccess(entityName);
+
+        if (context.fileDataSource) {
+          throw new Error(`Entity ${entityName} with id ${entityId} of file data source ${context.fileDataSource.kind} is immutable`);
+        }
+
+        assert(context.block);
+        const entityData = await database.getEntity(entityName, entityId, context.block.blockHash);
+
+        // Nothing to remove if entity does not exist at the block.
+        if (!entityData) {
+          return;
+        }
+
+        const dbEntity = await database.removeEntity(entityName, entityData, context.block);
+        database.cacheUpdatedEntityByName(entityName, dbEntity);
+
+        // Update the in-memory subgraph state enabled
+        if (indexer.serverConfig.enableState) {
+          // Prepare diff data for the entity removal
+          assert(indexer.getRelationsMap);
+          const diffData = prepareEntityState(dbEntity, entityName, indexer.getRelationsMap());
+
+          assert(indexer.updateSubgraphState);
+          assert(context.contractAddress);
+          indexer.updateSubgraphState(context.contractAddress, diffData);
+        }
+      },
+
+      'ipfs.cat': async (hash: number) => {
+        assert(ipfsContentFetcher, 'IPFS is not configured');
+        const cid = __getString(hash);
+
+        const content = await ipfsContentFetcher.cat(cid);
+
+        if (!content) {
+          log(`ipfs.cat: content not found for ${cid}`);
+          return null;
+        }
+
+        const contentStringPtr = await __newString(utils.hexlify(content));
+        const contentByteArray = await ByteArray.fromHexString(contentStringPtr);
+
+        return Bytes.fromByteArray(contentByteArray);
+      },
+      'ipfs.map': async (hash: number, callback: number, userData: number, flags: number) => {
+        assert(ipfsContentFetcher, 'IPFS is not configured');
+        const cid = __getString(hash);
+        const callbackName = __getString(callback);
+        const flagsList = __getArray(flags).map((flag: number) => __getString(flag));
+
+        // Only JSON values separated by newlines are supported.
+        assert(flagsList.includes('json'), 'ipfs.map requires the json flag');
+
+        const content = await ipfsContentFetcher.cat(cid);
+
+        if (!content) {
+          throw new Error(`ipfs.map: content not found for ${cid}`);
+        }
+
+        const lines = content.toString('utf-8')
+          .split('\n')
+          .filter(line => line.trim());
+
+        // Call the exported callback function for each JSON value.
+        for (const line of lines) {
+          const jsonValue = await toJSONValue(instanceExports, JSON.parse(line));
+          await instanceExports[callbackName](jsonValue, userData);
+        }
+      },
 
       'log.log': (level: number, msg: number) => {
         log('log %s | %s', Level[level], __getString(msg));
@@ -647,28 +786,41 @@ export const instantiate = async (
     },
     datasource: {
       'dataSource.address': async () => {
+        if (context.fileDataSource) {
+          // Return CID bytes for file data sources (used by dataSource.stringParam).
+          const cidStringPtr = await __newString(utils.hexlify(utils.toUtf8Bytes(context.fileDataSource.cid)));
+          const cidByteArray = await ByteArray.fromHexString(cidStringPtr);
+
+          return Bytes.fromByteArray(cidByteArray);
+        }
+
         assert(context.contractAddress);
         const addressStringPtr = await __newString(context.contractAddress);
         return Address.fromString(addressStringPtr);
       },
       'dataSource.context': async () => {
-        // TODO: Implement use in data source templates.
         // https://thegraph.com/docs/en/developer/create-subgraph-hosted/#data-source-context
+        if (context.fileDataSource) {
+          return toDataSourceContext(instanceExports, context.fileDataSource.context ?? {});
+        }
+
+        assert(context.contractAddress);
+        assert(indexer.isWatchedContract);
+        const watchedContract = indexer.isWatchedContract(context.contractAddress);
 
-        return Entity.__new();
+        return toDataSourceContext(instanceExports, watchedContract?.context ?? {});
       },
       'dataSource.network': async () => {
         assert(dataSource);
         return __newString(dataSource.network);
       },
       'dataSource.create': async (name: number, params: number) => {
-        const [addressStringPtr] = __getArray(params);
-        const addressString = __getString(addressStringPtr);
-        const contractKind = __getString(name);
+        await createDataSource(name, params);
+      },
+      'dataSource.createWithContext': async (name: number, params: number, dataSourceContext: number) => {
+        const contextData = await fromDataSourceContext(instanceExports, dataSourceContext);
 
-        assert(indexer.watchContract);
-        assert(context.block);
-        await indexer.watchContract(utils.getAddress(addressString), contractKind, true, Number(context.block.blockNumber));
+        await createDataSource(name, params, contextData);
       }
     },
     json: {
@@ -717,6 +869,7 @@ export const instantiate = async (
   const ethereum: any = instanceExports.ethereum as any;
   const Entity: any = instanceExports.Entity as any;
   const ByteArray: any = instanceExports.ByteArray as any;
+  const Bytes: any = instanceExports.Bytes as any;
   const JSONResult: any = instanceExports.JSONResult as any;
 
   return instance;
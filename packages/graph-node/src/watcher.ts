@@ -11,7 +11,6 @@ import { ContractInterface, utils, providers } from 'ethers';
 import { SelectionNode } from 'graphql';
 
 import { ResultObject } from '@cerc-io/assemblyscript/lib/loader';
-import { EthClient } from '@cerc-io/ipld-eth-client';
 import {
   getFullBlock,
   BlockHeight,
@@ -25,22 +24,62 @@ import {
   resolveEntityFieldConflicts,
   createBlock,
   createEvent,
+  createCall,
   getSubgraphConfig,
   Transaction,
-  DEFAULT_LIMIT
+  DEFAULT_LIMIT,
+  Filter,
+  Where,
+  LOGICAL_OPERATORS,
+  OPERATOR_MAP,
+  NestedFilterValue,
+  FulltextSearch,
+  Block,
+  IPFSContentFetcher,
+  FileDataSourceInterface,
+  EntityChange,
+  Clients,
+  EthClient
 } from '@cerc-io/util';
+import { TracingClient } from '@cerc-io/tracing-client';
 
 import { Context, GraphData, instantiate } from './loader';
 import { ObjectLiteral } from 'typeorm';
 
 const log = debug('vulcanize:graph-watcher');
 
+const BLOCK_HANDLER_FILTER_CALL = 'call';
+const BLOCK_HANDLER_FILTER_POLLING = 'polling';
+const BLOCK_HANDLER_FILTER_ONCE = 'once';
+
+const FILE_DATA_SOURCE_KIND_IPFS = 'file/ipfs';
+
+const SUBGRAPH_FEATURE_NON_FATAL_ERRORS = 'nonFatalErrors';
+
+// Max number of blocks to wait before retrying to fetch missing content of a file data source.
+const MAX_FILE_DATA_SOURCE_RETRY_INTERVAL = 1024;
+
 interface DataSource {
   instance?: ResultObject & { exports: any },
-  contractInterface: utils.Interface,
+  // Not set for file data sources.
+  contractInterface?: utils.Interface,
   data: GraphData,
 }
 
+interface CallTrace {
+  txHash: string;
+  txIndex: number;
+  from: string;
+  to: string;
+  input: string;
+  output: string;
+}
+
+// Errors from aborts in the mapping code (including failed assertions) are deterministic.
+const isDeterministicError = (error: any): boolean => {
+  return error instanceof Error && error.message.startsWith('abort: ');
+};
+
 export class GraphWatcher {
   _database: GraphDatabase;
   _indexer?: IndexerInterface;
@@ -51,25 +90,69 @@ export class GraphWatcher {
   _dataSources: any[] = [];
   _dataSourceMap: { [key: string]: DataSource } = {};
   _transactionsMap: Map<string, Transaction> = new Map();
+  _tracingClient?: TracingClient;
+  _ipfsContentFetcher?: IPFSContentFetcher;
+
+  // File data source templates mapped to the entities they store.
+  _fileDataSources: { [key: string]: string[] } = {};
+
+  // Retry attempts for file data sources with missing content and the block number to retry at.
+  _fileDataSourceRetries: Map<number, { attempts: number, retryBlockNumber: number }> = new Map();
+
+  // Calls of the block being processed and the number of them already handled by call handlers.
+  // Number of handled calls is restored from the event processing progress of the block on restart.
+  _blockCalls: { blockHash?: string, calls: CallTrace[], numHandled: number } = { calls: [], numHandled: 0 };
+
+  // Set if deterministic errors are recorded and indexing continues (nonFatalErrors subgraph feature).
+  _nonFatalErrors = false;
+
+  // Whether an indexing error has been recorded for the block being processed.
+  _blockIndexingError: { blockHash?: string, hasError: boolean } = { hasError: false };
 
   _context: Context = {};
 
-  constructor (database: GraphDatabase, ethClient: EthClient, ethProvider: providers.BaseProvider, serverConfig: ServerConfig) {
+  constructor (
+    database: GraphDatabase,
+    ethClient: EthClient,
+    ethProvider: providers.BaseProvider,
+    serverConfig: ServerConfig,
+    tracingClient?: TracingClient,
+    ipfsContentFetcher?: IPFSContentFetcher
+  ) {
     this._database = database;
     this._ethClient = ethClient;
     this._ethProvider = ethProvider;
     this._subgraphPath = serverConfig.subgraphPath;
     this._wasmRestartBlocksInterval = serverConfig.wasmRestartBlocksInterval;
+    this._tracingClient = tracingClient;
+    this._ipfsContentFetcher = ipfsContentFetcher;
   }
 
   async init () {
-    const { dataSources, templates = [] } = await getSubgraphConfig(this._subgraphPath);
+    const { dataSources, templates = [], features = [] } = await getSubgraphConfig(this._subgraphPath);
     this._dataSources = dataSources.concat(templates);
+    this._nonFatalErrors = features.includes(SUBGRAPH_FEATURE_NON_FATAL_ERRORS);
+
+    if (this._requiresCallTraces() && !this._tracingClient) {
+      throw new Error('Trace provider endpoint required for subgraph call handlers and block handler call filters');
+    }
+
+    this._fileDataSources = templates.reduce((acc: { [key: string]: string[] }, template: any) => {
+      if (template.kind === FILE_DATA_SOURCE_KIND_IPFS) {
+        acc[template.name] = template.mapping.entities;
+      }
+
+      return acc;
+    }, {});
+
+    if (Object.keys(this._fileDataSources).length && !this._ipfsContentFetcher) {
+      throw new Error('IPFS config required for subgraph file data sources');
+    }
 
     // Create wasm instance and contract interface for each dataSource and template in subgraph yaml.
     const dataPromises = this._dataSources.map(async (dataSource: any) => {
-      const { source: { abi }, mapping, network, name } = dataSource;
-      const { abis, file } = mapping;
+      const { source, mapping, network, name } = dataSource;
+      const { abis = [], file } = mapping;
 
       const abisMap = abis.reduce((acc: {[key: string]: ContractInterface}, abi: any) => {
         const { name, file } = abi;
@@ -79,14 +162,16 @@ export class GraphWatcher {
         return acc;
       }, {});
 
-      const contractInterface = new utils.Interface(abisMap[abi]);
+      // File data sources do not have a contract source.
+      const contractInterface = source?.abi ? new utils.Interface(abisMap[source.abi]) : undefined;
 
       const data = {
         abis: abisMap,
         dataSource: {
           network,
           name
-        }
+        },
+        fileDataSources: this._fileDataSources
       };
 
       const filePath = path.join(this._subgraphPath, file);
@@ -94,7 +179,7 @@ export class GraphWatcher {
       assert(this._indexer);
 
       return {
-        instance: await instantiate(this._database, this._indexer, this._ethProvider, this._context, filePath, data),
+        instance: await instantiate(this._database, this._indexer, this._ethProvider, this._context, filePath, data, this._ipfsContentFetcher),
         contractInterface,
         data
       };
@@ -121,6 +206,10 @@ export class GraphWatcher {
     return this._dataSources;
   }
 
+  get nonFatalErrors (): boolean {
+    return this._nonFatalErrors;
+  }
+
   async addContracts () {
     assert(this._indexer);
     assert(this._indexer.watchContract);
@@ -135,7 +224,7 @@ export class GraphWatcher {
         const watchedContract = await this._indexer.isWatchedContract(address);
 
         if (!watchedContract) {
-          await this._indexer.watchContract(address, name, true, startBlock);
+          await this._indexer.watchContract(address, name, true, startBlock ?? 0);
         }
       }
     }
@@ -152,6 +241,18 @@ export class GraphWatcher {
     const blockData = this._context.block;
     assert(blockData);
 
+    // Skip handlers for the rest of the block after an indexing error.
+    if (await this._hasIndexingError(blockData.blockHash)) {
+      return;
+    }
+
+    // Call handlers for calls in transactions up to and including that of the event are run before the event handler.
+    await this._handleCalls(blockData, eventData.tx.index);
+
+    if (await this._hasIndexingError(blockData.blockHash)) {
+      return;
+    }
+
     assert(this._indexer && this._indexer.isWatchedContract);
     const watchedContract = this._indexer.isWatchedContract(contract);
     assert(watchedContract);
@@ -168,6 +269,7 @@ export class GraphWatcher {
 
     const { instance, contractInterface } = this._dataSourceMap[watchedContract.kind];
     assert(instance);
+    assert(contractInterface);
     const { exports: instanceExports } = instance;
 
     // Get event handler based on event topic (from event signature).
@@ -204,8 +306,7 @@ export class GraphWatcher {
     try {
       await this._handleMemoryError(instanceExports[eventHandler.handler](ethereumEvent), dataSource.name);
     } catch (error) {
-      this._clearCachedEntities();
-      throw error;
+      await this._handleIndexingError(error, blockData, dataSource.name, eventHandler.handler);
     }
   }
 
@@ -218,62 +319,78 @@ export class GraphWatcher {
     const blockData = this._context.block;
     assert(blockData);
 
+    // Call handlers for the remaining calls in the block are run before the block handlers.
+    await this._handleCalls(blockData);
+
     // Clear transactions map on handling new block.
     this._transactionsMap.clear();
 
+    if (await this._hasIndexingError(blockHash)) {
+      log(`Skipping block handlers and file data sources at block ${blockNumber} with indexing error`);
+      return;
+    }
+
     // Call block handler(s) for each contract.
     for (const dataSource of this._dataSources) {
-      // Reinstantiate WASM after every N blocks.
-      if (Number(blockData.blockNumber) % this._wasmRestartBlocksInterval === 0) {
-        // The WASM instance allocates memory as required and the limit is 4GB.
-        // https://stackoverflow.com/a/40453962
-        // https://github.com/AssemblyScript/assemblyscript/pull/1268#issue-618411291
-        // https://github.com/WebAssembly/memory64/blob/main/proposals/memory64/Overview.md#motivation
-        await this._reInitWasm(dataSource.name);
-      }
+      await this._handleBlockHandlers(dataSource, blockData);
 
-      // Check if block handler(s) are configured.
-      if (!dataSource.mapping.blockHandlers) {
-        continue;
+      // Entity changes of the block are reverted on an indexing error, so the remaining handlers of the block are not run.
+      if (await this._hasIndexingError(blockHash)) {
+        log(`Skipping remaining block handlers and file data sources at block ${blockNumber} after indexing error in ${dataSource.name}`);
+        return;
       }
+    }
 
-      const { instance } = this._dataSourceMap[dataSource.name];
-      assert(instance);
-      const { exports: instanceExports } = instance;
+    // Run handlers of file data sources with available content.
+    await this._handleFileDataSources(blockData);
+  }
 
-      // Create ethereum block to be passed to a wasm block handler.
-      const ethereumBlock = await createBlock(instanceExports, blockData);
+  async _handleBlockHandlers (dataSource: any, blockData: Block): Promise<void> {
+    // Reinstantiate WASM after every N blocks.
+    if (Number(blockData.blockNumber) % this._wasmRestartBlocksInterval === 0) {
+      // The WASM instance allocates memory as required and the limit is 4GB.
+      // https://stackoverflow.com/a/40453962
+      // https://github.com/AssemblyScript/assemblyscript/pull/1268#issue-618411291
+      // https://github.com/WebAssembly/memory64/blob/main/proposals/memory64/Overview.md#motivation
+      await this._reInitWasm(dataSource.name);
+    }
 
-      let contractAddressList: string[] = [];
+    // Check if block handler(s) are configured.
+    if (!dataSource.mapping.blockHandlers) {
+      return;
+    }
 
-      if (dataSource.source.address) {
-        // Check if start block has been reached.
-        if (blockData.blockNumber >= dataSource.source.startBlock) {
-          contractAddressList.push(dataSource.source.address);
-        }
-      } else {
-        // Data source templates will have multiple watched contracts.
-        assert(this._indexer?.getContractsByKind);
-        const watchedContracts = this._indexer.getContractsByKind(dataSource.name);
+    const { instance } = this._dataSourceMap[dataSource.name];
+    assert(instance);
+    const { exports: instanceExports } = instance;
+
+    // Create ethereum block to be passed to a wasm block handler.
+    const ethereumBlock = await createBlock(instanceExports, blockData);
+
+    const contractList = this._getBlockHandlerContracts(dataSource, Number(blockData.blockNumber));
 
-        contractAddressList = watchedContracts.filter(contract => Number(blockData.blockNumber) >= contract.startingBlock)
-          .map(contract => contract.address);
+    for (const { address: contractAddress, startBlock } of contractList) {
+      // Get the block handlers to be triggered for the contract based on their filters.
+      const blockHandlers = await this._getTriggeredBlockHandlers(dataSource.mapping.blockHandlers, blockData, contractAddress, startBlock);
+
+      if (!blockHandlers.length) {
+        continue;
       }
 
-      for (const contractAddress of contractAddressList) {
-        this._context.contractAddress = contractAddress;
+      this._context.contractAddress = contractAddress;
 
-        // Call all the block handlers one after another for a contract.
-        const blockHandlerPromises = dataSource.mapping.blockHandlers.map(async (blockHandler: any): Promise<void> => {
-          await instanceExports[blockHandler.handler](ethereumBlock);
-        });
+      // Call all the block handlers one after another for a contract.
+      const blockHandlerPromises = blockHandlers.map(async (blockHandler: any): Promise<void> => {
+        await instanceExports[blockHandler.handler](ethereumBlock);
+      });
 
-        try {
-          await this._handleMemoryError(Promise.all(blockHandlerPromises), dataSource.name);
-        } catch (error) {
-          this._clearCachedEntities();
-          throw error;
-        }
+      try {
+        await this._handleMemoryError(Promise.all(blockHandlerPromises), dataSource.name);
+      } catch (error) {
+        const handlers = blockHandlers.map((blockHandler: any) => blockHandler.handler).join(', ');
+        await this._handleIndexingError(error, blockData, dataSource.name, handlers);
+
+        return;
       }
     }
   }
@@ -317,41 +434,45 @@ export class GraphWatcher {
     const dbTx = await this._database.createTransactionRunner();
 
     try {
-      where = Object.entries(where).reduce((acc: { [key: string]: any }, [fieldWithSuffix, value]) => {
-        const [field, ...suffix] = fieldWithSuffix.split('_');
-
-        if (!acc[field]) {
-          acc[field] = [];
-        }
-
-        const filter = {
-          value,
-          not: false,
-          operator: 'equals'
-        };
+      where = this._buildFilter(relationsMap, entity, where);
 
-        let operator = suffix.shift();
+      if (!queryOptions.limit) {
+        queryOptions.limit = DEFAULT_LIMIT;
+      }
 
-        if (operator === 'not') {
-          filter.not = true;
-          operator = suffix.shift();
-        }
+      // Get entities from the database.
+      const entities = await this._database.getEntities(dbTx, entity, relationsMap, block, where, queryOptions, selections);
+      await dbTx.commitTransaction();
 
-        if (operator) {
-          filter.operator = operator;
-        }
+      return entities;
+    } catch (error) {
+      await dbTx.rollbackTransaction();
+      throw error;
+    } finally {
+      await dbTx.release();
+    }
+  }
 
-        acc[field].push(filter);
+  async searchEntities<Entity extends ObjectLiteral> (
+    entity: new () => Entity,
+    relationsMap: Map<any, { [key: string]: any }>,
+    fulltextSearch: FulltextSearch,
+    block: BlockHeight,
+    where: { [key: string]: any } = {},
+    queryOptions: QueryOptions,
+    selections: ReadonlyArray<SelectionNode> = []
+  ): Promise<any> {
+    const dbTx = await this._database.createTransactionRunner();
 
-        return acc;
-      }, {});
+    try {
+      where = this._buildFilter(relationsMap, entity, where);
 
       if (!queryOptions.limit) {
         queryOptions.limit = DEFAULT_LIMIT;
       }
 
-      // Get entities from the database.
-      const entities = await this._database.getEntities(dbTx, entity, relationsMap, block, where, queryOptions, selections);
+      // Get entities matching the fulltext search from the database.
+      const entities = await this._database.searchEntities(dbTx, entity, relationsMap, fulltextSearch, block, where, queryOptions, selections);
       await dbTx.commitTransaction();
 
       return entities;
@@ -363,6 +484,32 @@ export class GraphWatcher {
     }
   }
 
+  async hasIndexingErrors (blockNumber: number): Promise<boolean> {
+    return this._database.hasIndexingErrors(blockNumber);
+  }
+
+  async getBlockEntityChanges (block: BlockProgressInterface): Promise<EntityChange[]> {
+    assert(this._indexer && this._indexer.getEntityTypesMap);
+    const entityNames = Array.from(this._indexer.getEntityTypesMap().keys());
+
+    // Previous entity versions are looked up through the parent block if it has been indexed.
+    const parentBlock = await this._indexer.getBlockProgress(block.parentHash);
+
+    const dbTx = await this._database.createTransactionRunner();
+
+    try {
+      const changes = await this._database.getBlockEntityChanges(dbTx, entityNames, block, Boolean(parentBlock));
+      await dbTx.commitTransaction();
+
+      return changes;
+    } catch (error) {
+      await dbTx.rollbackTransaction();
+      throw error;
+    } finally {
+      await dbTx.release();
+    }
+  }
+
   updateEntityCacheFrothyBlocks (blockProgress: BlockProgressInterface): void {
     assert(this._indexer);
     this._database.updateEntityCacheFrothyBlocks(blockProgress, this._indexer.serverConfig.clearEntitiesCacheInterval);
@@ -373,6 +520,11 @@ export class GraphWatcher {
 
     try {
       await this._database.pruneEntities(frothyEntityType, dbTx, prunedBlocks, entityTypes);
+
+      if (Object.keys(this._fileDataSources).length) {
+        await this._database.pruneFileDataSources(dbTx, prunedBlocks.map(block => block.blockHash));
+      }
+
       await dbTx.commitTransaction();
     } catch (error) {
       await dbTx.rollbackTransaction();
@@ -401,6 +553,10 @@ export class GraphWatcher {
     try {
       await this._database.resetLatestEntities(dbTx, blockNumber);
 
+      if (Object.keys(this._fileDataSources).length) {
+        await this._database.resetFileDataSources(dbTx, blockNumber);
+      }
+
       dbTx.commitTransaction();
     } catch (error) {
       await dbTx.rollbackTransaction();
@@ -414,11 +570,481 @@ export class GraphWatcher {
     this._database.pruneEntityCacheFrothyBlocks(canonicalBlockHash, canonicalBlockNumber);
   }
 
-  _clearCachedEntities () {
+  clearCachedEntities () {
     this._database.cachedEntities.frothyBlocks.clear();
     this._database.cachedEntities.latestPrunedEntities.clear();
   }
 
+  _buildFilter (relationsMap: Map<any, { [key: string]: any }>, entity: new () => any, where: { [key: string]: any } = {}): Where {
+    return Object.entries(where).reduce((acc: Where, [fieldWithSuffix, value]) => {
+      if (LOGICAL_OPERATORS.includes(fieldWithSuffix)) {
+        // Build filters for each nested where in and / or operators.
+        acc[fieldWithSuffix] = (value as { [key: string]: any }[]).map(subWhere => this._buildFilter(relationsMap, entity, subWhere));
+
+        return acc;
+      }
+
+      if (fieldWithSuffix.endsWith('_')) {
+        // Child entity filter on a relation field.
+        const field = fieldWithSuffix.slice(0, -1);
+        const relation = relationsMap.get(entity)?.[field];
+        assert(relation, `Relation field ${field} not found in entity ${entity.name}`);
+
+        if (!acc[field]) {
+          acc[field] = [];
+        }
+
+        const nestedFilterValue: NestedFilterValue = {
+          relation,
+          where: this._buildFilter(relationsMap, relation.entity, value)
+        };
+
+        (acc[field] as Filter[]).push({
+          value: nestedFilterValue,
+          not: false,
+          operator: 'nested'
+        });
+
+        return acc;
+      }
+
+      const [field, ...suffix] = fieldWithSuffix.split('_');
+
+      if (!acc[field]) {
+        acc[field] = [];
+      }
+
+      const filter: Filter = {
+        value,
+        not: false,
+        operator: 'equals'
+      };
+
+      let operator = suffix.shift();
+
+      if (operator === 'not') {
+        filter.not = true;
+        operator = suffix.shift();
+      }
+
+      if (operator) {
+        filter.operator = operator as keyof typeof OPERATOR_MAP;
+      }
+
+      (acc[field] as Filter[]).push(filter);
+
+      return acc;
+    }, {});
+  }
+
+  /**
+   * Method to run handlers for pending file data sources whose content is available.
+   * File data sources with missing content are retried in later blocks with backoff.
+   * @param blockData
+   */
+  async _handleFileDataSources (blockData: Block): Promise<void> {
+    if (!Object.keys(this._fileDataSources).length) {
+      return;
+    }
+
+    const blockNumber = Number(blockData.blockNumber);
+    const pendingFileDataSources = await this._database.getPendingFileDataSources();
+
+    for (const fileDataSource of pendingFileDataSources) {
+      // Skip file data sources created after the block or waiting for retry.
+      const retry = this._fileDataSourceRetries.get(fileDataSource.id);
+
+      if (fileDataSource.blockNumber > blockNumber || (retry && retry.retryBlockNumber > blockNumber)) {
+        continue;
+      }
+
+      assert(this._ipfsContentFetcher);
+      const content = await this._ipfsContentFetcher.cat(fileDataSource.cid);
+
+      if (!content) {
+        const attempts = (retry?.attempts ?? 0) + 1;
+        const retryInterval = Math.min(2 ** attempts, MAX_FILE_DATA_SOURCE_RETRY_INTERVAL);
+        this._fileDataSourceRetries.set(fileDataSource.id, { attempts, retryBlockNumber: blockNumber + retryInterval });
+
+        log(`Content not found for file data source ${fileDataSource.kind} with CID ${fileDataSource.cid}, retrying after ${retryInterval} blocks`);
+        continue;
+      }
+
+      await this._handleFileDataSource(fileDataSource, content, blockData);
+
+      if (await this._hasIndexingError(blockData.blockHash)) {
+        return;
+      }
+
+      await this._database.updateFileDataSourceProcessed(fileDataSource, blockNumber);
+      this._fileDataSourceRetries.delete(fileDataSource.id);
+    }
+  }
+
+  async _handleFileDataSource (fileDataSource: FileDataSourceInterface, content: Buffer, blockData: Block): Promise<void> {
+    const { kind, cid, contractAddress, context } = fileDataSource;
+    const dataSource = this._dataSources.find(dataSource => dataSource.name === kind);
+    assert(dataSource, `Subgraph doesn't have configuration for file data source ${kind}`);
+
+    const { instance } = this._dataSourceMap[kind];
+    assert(instance);
+    const { exports: instanceExports } = instance;
+    const { __newString, ByteArray, Bytes } = instanceExports;
+
+    // Create bytes of the file content to be passed to the wasm handler.
+    const contentStringPtr = await __newString(utils.hexlify(content));
+    const contentByteArray = await ByteArray.fromHexString(contentStringPtr);
+    const contentBytes = await Bytes.fromByteArray(contentByteArray);
+
+    // Use the contract which created the file data source for state updates.
+    this._context.contractAddress = contractAddress;
+    this._context.fileDataSource = { kind, cid, context };
+
+    try {
+      await this._handleMemoryError(instanceExports[dataSource.mapping.handler](contentBytes), kind);
+    } catch (error) {
+      await this._handleIndexingError(error, blockData, kind, dataSource.mapping.handler);
+    } finally {
+      delete this._context.fileDataSource;
+    }
+  }
+
+  _requiresCallTraces (): boolean {
+    return this._dataSources.some(dataSource => {
+      const { callHandlers = [], blockHandlers = [] } = dataSource.mapping;
+
+      return callHandlers.length || blockHandlers.some((blockHandler: any) => blockHandler.filter?.kind === BLOCK_HANDLER_FILTER_CALL);
+    });
+  }
+
+  /**
+   * Method to get the contracts of a dataSource for which block handlers are to be called at the block.
+   * @param dataSource
+   * @param blockNumber
+   */
+  _getBlockHandlerContracts (dataSource: any, blockNumber: number): { address: string, startBlock: number }[] {
+    if (dataSource.source.address) {
+      // Data sources without a start block are indexed from the genesis block.
+      const startBlock = dataSource.source.startBlock ?? 0;
+
+      // Check if start block has been reached.
+      return blockNumber >= startBlock
+        ? [{ address: dataSource.source.address, startBlock }]
+        : [];
+    }
+
+    // Data source templates will have multiple watched contracts.
+    assert(this._indexer?.getContractsByKind);
+    const watchedContracts = this._indexer.getContractsByKind(dataSource.name);
+
+    return watchedContracts.filter(contract => blockNumber >= contract.startingBlock)
+      .map(contract => ({ address: contract.address, startBlock: contract.startingBlock }));
+  }
+
+  /**
+   * Method to filter block handlers of a contract to be called at the block.
+   * @param blockHandlers
+   * @param blockData
+   * @param contractAddress
+   * @param startBlock Start block of the contract dataSource
+   */
+  async _getTriggeredBlockHandlers (blockHandlers: any[], blockData: Block, contractAddress: string, startBlock: number): Promise<any[]> {
+    const blockNumber = Number(blockData.blockNumber);
+    const triggeredBlockHandlers = [];
+
+    // Addresses in the subgraph yaml may not be checksummed like the addresses in calls.
+    const address = utils.getAddress(contractAddress);
+
+    for (const blockHandler of blockHandlers) {
+      const { filter } = blockHandler;
+
+      switch (filter?.kind) {
+        case undefined:
+          triggeredBlockHandlers.push(blockHandler);
+          break;
+
+        case BLOCK_HANDLER_FILTER_CALL: {
+          // Trigger if the block contains a call to the contract.
+          const calls = await this._getBlockCalls(blockData.blockHash);
+
+          if (calls.some(call => call.to === address)) {
+            triggeredBlockHandlers.push(blockHandler);
+          }
+
+          break;
+        }
+
+        case BLOCK_HANDLER_FILTER_POLLING:
+          // Trigger every N blocks starting from the start block.
+          assert(filter.every > 0, `Invalid polling interval for block handler ${blockHandler.handler}`);
+
+          if ((blockNumber - startBlock) % filter.every === 0) {
+            triggeredBlockHandlers.push(blockHandler);
+          }
+
+          break;
+
+        case BLOCK_HANDLER_FILTER_ONCE:
+          // Trigger only at the start block.
+          if (blockNumber === startBlock) {
+            triggeredBlockHandlers.push(blockHandler);
+          }
+
+          break;
+
+        default:
+          throw new Error(`Unsupported block handler filter kind ${filter.kind} for handler ${blockHandler.handler}`);
+      }
+    }
+
+    return triggeredBlockHandlers;
+  }
+
+  /**
+   * Method to run call handlers for pending calls in the block.
+   * @param blockData
+   * @param maxTxIndex Only calls in transactions up to this index are handled if specified
+   */
+  async _handleCalls (blockData: Block, maxTxIndex?: number): Promise<void> {
+    if (!this._dataSources.some(dataSource => dataSource.mapping.callHandlers?.length)) {
+      return;
+    }
+
+    const calls = await this._getBlockCalls(blockData.blockHash);
+
+    while (this._blockCalls.numHandled < calls.length) {
+      const call = calls[this._blockCalls.numHandled];
+
+      if (maxTxIndex !== undefined && call.txIndex > maxTxIndex) {
+        break;
+      }
+
+      // Mark call as handled before running the handler.
+      this._blockCalls.numHandled++;
+      await this._handleCall(call, blockData);
+
+      if (await this._hasIndexingError(blockData.blockHash)) {
+        break;
+      }
+    }
+  }
+
+  async _handleCall (call: CallTrace, blockData: Block): Promise<void> {
+    assert(this._indexer && this._indexer.isWatchedContract);
+    const watchedContract = this._indexer.isWatchedContract(call.to);
+
+    if (!watchedContract || Number(blockData.blockNumber) < watchedContract.startingBlock) {
+      return;
+    }
+
+    const dataSource = this._dataSources.find(dataSource => dataSource.name === watchedContract.kind);
+
+    if (!dataSource || !dataSource.mapping.callHandlers) {
+      return;
+    }
+
+    const { instance, contractInterface } = this._dataSourceMap[watchedContract.kind];
+    assert(instance);
+    assert(contractInterface);
+    const { exports: instanceExports } = instance;
+
+    // Get call handler based on function selector in the call input.
+    const sighash = call.input.slice(0, 10);
+    const callHandler = dataSource.mapping.callHandlers.find((callHandler: any) => {
+      return contractInterface.getSighash(callHandler.function) === sighash;
+    });
+
+    if (!callHandler) {
+      return;
+    }
+
+    const functionFragment = contractInterface.getFunction(callHandler.function);
+    let inputValues: utils.Result;
+    let outputValues: utils.Result | [];
+
+    // Skip calls with input or output not matching the function ABI (same as graph-node).
+    try {
+      inputValues = contractInterface.decodeFunctionData(functionFragment, call.input);
+      outputValues = functionFragment.outputs?.length
+        ? contractInterface.decodeFunctionResult(functionFragment, call.output)
+        : [];
+    } catch (error) {
+      log(`Skipping call to ${callHandler.function} of ${call.to} in tx ${call.txHash} that failed to decode: ${(error as Error).message}`);
+      return;
+    }
+
+    this._context.contractAddress = call.to;
+
+    const tx = await this._getTransactionData(call.txHash, Number(blockData.blockNumber));
+
+    // Create ethereum call to be passed to the wasm call handler.
+    const ethereumCall = await createCall(instanceExports, {
+      block: blockData,
+      tx,
+      from: call.from,
+      to: call.to,
+      inputs: functionFragment.inputs,
+      outputs: functionFragment.outputs ?? [],
+      inputValues,
+      outputValues
+    });
+
+    try {
+      await this._handleMemoryError(instanceExports[callHandler.handler](ethereumCall), dataSource.name);
+    } catch (error) {
+      await this._handleIndexingError(error, blockData, dataSource.name, callHandler.handler);
+    }
+  }
+
+  /**
+   * Method to get successful calls in a block using call traces of its transactions.
+   * Calls are ordered by transaction index and then by execution order within a transaction.
+   * @param blockHash
+   */
+  async _getBlockCalls (blockHash: string): Promise<CallTrace[]> {
+    // Return calls if already fetched for the block.
+    if (this._blockCalls.blockHash === blockHash) {
+      return this._blockCalls.calls;
+    }
+
+    assert(this._tracingClient);
+
+    const [txTraces, { transactions }] = await Promise.all([
+      this._tracingClient.getBlockTrace(blockHash),
+      this._ethProvider.getBlock(blockHash)
+    ]);
+
+    const calls: CallTrace[] = [];
+
+    const addCalls = (frame: any, txHash: string, txIndex: number) => {
+      // Skip reverted calls along with their nested calls.
+      if (frame.error) {
+        return;
+      }
+
+      if (frame.type === 'CALL' && frame.to) {
+        calls.push({
+          txHash,
+          txIndex,
+          from: utils.getAddress(frame.from),
+          to: utils.getAddress(frame.to),
+          input: frame.input ?? '0x',
+          output: frame.output ?? '0x'
+        });
+      }
+
+      (frame.calls ?? []).forEach((nestedFrame: any) => addCalls(nestedFrame, txHash, txIndex));
+    };
+
+    txTraces.forEach((txTrace: any, txIndex: number) => {
+      addCalls(txTrace.result, txTrace.txHash ?? transactions[txIndex], txIndex);
+    });
+
+    // Skip calls handled before a restart in the middle of the block.
+    const numHandled = await this._getNumHandledCalls(blockHash, calls);
+    this._blockCalls = { blockHash, calls, numHandled };
+
+    return calls;
+  }
+
+  /**
+   * Method to get the number of calls in a block already handled, using the last processed event of the block.
+   * Calls are handled before the events in their transaction, so calls up to the last processed event transaction are done.
+   * @param blockHash
+   * @param calls
+   */
+  async _getNumHandledCalls (blockHash: string, calls: CallTrace[]): Promise<number> {
+    assert(this._indexer);
+    const blockProgress = await this._indexer.getBlockProgress(blockHash);
+
+    if (!blockProgress || blockProgress.lastProcessedEventIndex < 0) {
+      return 0;
+    }
+
+    const [lastProcessedEvent] = await this._indexer.getBlockEvents(
+      blockHash,
+      { index: [{ value: blockProgress.lastProcessedEventIndex, not: false, operator: 'equals' }] },
+      {}
+    );
+
+    if (!lastProcessedEvent) {
+      return 0;
+    }
+
+    const { tx } = this._indexer.getResultEvent(lastProcessedEvent);
+
+    return calls.filter(call => call.txIndex <= tx.index).length;
+  }
+
+  /**
+   * Method to handle an error thrown by a subgraph handler.
+   * With the nonFatalErrors feature, deterministic errors are recorded and the entity changes of the block are rolled back.
+   * Other errors are thrown for the job to be retried.
+   * @param error
+   * @param blockData
+   * @param dataSourceName
+   * @param handler
+   */
+  async _handleIndexingError (error: any, blockData: Block, dataSourceName: string, handler: string): Promise<void> {
+    this.clearCachedEntities();
+
+    if (!this._nonFatalErrors || !isDeterministicError(error)) {
+      throw error;
+    }
+
+    const { blockHash, blockNumber, parentHash } = blockData;
+    log(`Indexing error in handler ${handler} of ${dataSourceName} at block ${blockNumber}: ${error.message}`);
+
+    const dbTx = await this._database.createTransactionRunner();
+
+    try {
+      assert(this._indexer && this._indexer.getEntityTypesMap);
+      const entityNames = Array.from(this._indexer.getEntityTypesMap().keys());
+      await this._database.revertBlockEntities(dbTx, entityNames, blockHash, parentHash);
+
+      if (Object.keys(this._fileDataSources).length) {
+        await this._database.revertFileDataSources(dbTx, blockHash, Number(blockNumber));
+      }
+
+      await this._database.saveIndexingError(dbTx, {
+        blockHash,
+        blockNumber: Number(blockNumber),
+        dataSource: dataSourceName,
+        handler,
+        message: error.message
+      });
+
+      await dbTx.commitTransaction();
+    } catch (error) {
+      await dbTx.rollbackTransaction();
+      throw error;
+    } finally {
+      await dbTx.release();
+    }
+
+    // Discard the subgraph state updates of the block.
+    if (this._indexer.serverConfig.enableState) {
+      assert(this._indexer.resetSubgraphState);
+      this._indexer.resetSubgraphState();
+    }
+
+    this._blockIndexingError = { blockHash, hasError: true };
+  }
+
+  async _hasIndexingError (blockHash: string): Promise<boolean> {
+    if (!this._nonFatalErrors) {
+      return false;
+    }
+
+    // Check the DB as the block may be processed again after a restart.
+    if (this._blockIndexingError.blockHash !== blockHash) {
+      const indexingErrors = await this._database.getIndexingErrors(blockHash);
+      this._blockIndexingError = { blockHash, hasError: indexingErrors.length > 0 };
+    }
+
+    return this._blockIndexingError.hasError;
+  }
+
   /**
    * Method to reinstantiate WASM instance for specified dataSource.
    * @param dataSourceName
@@ -439,7 +1065,8 @@ export class GraphWatcher {
       this._ethProvider,
       this._context,
       module,
-      data
+      data,
+      this._ipfsContentFetcher
     );
 
     // Important to call _start for built subgraphs on instantiation!
@@ -481,7 +1108,7 @@ export class GraphWatcher {
 
 export const getGraphDbAndWatcher = async (
   serverConfig: ServerConfig,
-  ethClient: EthClient,
+  clients: Clients,
   ethProvider: providers.BaseProvider,
   baseDatabase: BaseDatabase,
   entityQueryTypeMap?: Map<any, any>,
@@ -490,7 +1117,9 @@ export const getGraphDbAndWatcher = async (
   const graphDb = new GraphDatabase(serverConfig, baseDatabase, entityQueryTypeMap, entityToLatestEntityMap);
   await graphDb.init();
 
-  const graphWatcher = new GraphWatcher(graphDb, ethClient, ethProvider, serverConfig);
+  // Tracing client and IPFS content fetcher (created from the upstream config) are required for running
+  // subgraph call handlers and file data sources respectively.
+  const graphWatcher = new GraphWatcher(graphDb, clients.ethClient, ethProvider, serverConfig, clients.tracingClient, clients.ipfsContentFetcher);
 
   return {
     graphDb,
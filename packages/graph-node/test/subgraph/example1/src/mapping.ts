@@ -1,10 +1,11 @@
 /* eslint-disable @typescript-eslint/no-non-null-assertion */
 
-import { Address, log, BigInt, BigDecimal, ByteArray, dataSource, ethereum, Bytes, crypto, json, JSONValueKind } from '@graphprotocol/graph-ts';
+import { Address, log, BigInt, BigDecimal, ByteArray, dataSource, ethereum, Bytes, crypto, json, JSONValueKind, ipfs, JSONValue, Value, DataSourceContext } from '@graphprotocol/graph-ts';
 
 import {
   Example1,
-  Test
+  Test,
+  AddMethodCall
 } from '../generated/Example1/Example1';
 import { Author, Blog, Category } from '../generated/schema';
 
@@ -89,6 +90,22 @@ export function handleTest (event: Test): void {
   // - contract.getMethod(...)
 }
 
+export function handleAddMethod (call: AddMethodCall): void {
+  log.debug('call.from: {}', [call.from.toHexString()]);
+  log.debug('call.to: {}', [call.to.toHexString()]);
+  log.debug('call.transaction.hash: {}', [call.transaction.hash.toHexString()]);
+  log.debug('call.block.hash: {}', [call.block.hash.toHexString()]);
+  log.debug('call.inputs.bidAmount1: {}', [call.inputs.bidAmount1.toString()]);
+  log.debug('call.inputs.bidAmount2: {}', [call.inputs.bidAmount2.toString()]);
+  log.debug('call.outputs.value0: {}', [call.outputs.value0.toString()]);
+
+  // Save an entity with the call data to check the handler in tests.
+  const category = new Category(call.transaction.hash.toHexString());
+  category.name = call.to.toHexString();
+  category.count = call.inputs.bidAmount1 + call.inputs.bidAmount2;
+  category.save();
+}
+
 export function handleBlock (block: ethereum.Block): void {
   log.debug('block.hash: {}', [block.hash.toHexString()]);
   log.debug('block.parentHash: {}', [block.parentHash.toHexString()]);
@@ -614,3 +631,50 @@ export function testJsonTryFromBytes (): void {
   // eslint-disable-next-line eqeqeq
   assert(objectValue.toString() == 'abc', 'JSON object values are not equal');
 }
+
+export function testIpfsCat (hash: string): string | null {
+  const data = ipfs.cat(hash);
+
+  if (!data) {
+    return null;
+  }
+
+  return data.toString();
+}
+
+export function testIpfsMap (hash: string): void {
+  ipfs.map(hash, 'ipfsMapCallback', Value.fromString('abc'), ['json']);
+}
+
+export function ipfsMapCallback (value: JSONValue, userData: Value): void {
+  assert(value.kind === JSONValueKind.OBJECT, 'JSON value is not an object');
+
+  // https://www.assemblyscript.org/basics.html#triple-equals
+  // eslint-disable-next-line eqeqeq
+  assert(userData.toString() == 'abc', 'User data values are not equal');
+
+  const id = value.toObject().get('id')!;
+  log.debug('ipfs.map value id: {}', [id.toString()]);
+
+  // Save an entity for each value to check the callback in tests.
+  const category = new Category(id.toString());
+  category.name = userData.toString();
+  category.count = BigInt.fromI32(0);
+  category.save();
+}
+
+export function testDataSourceContext (): DataSourceContext {
+  const context = new DataSourceContext();
+  context.setString('stringValue', 'abc');
+  context.setI32('intValue', 123);
+  context.setBigInt('bigIntValue', BigInt.fromString('1000000000000000000'));
+  context.setBoolean('boolValue', true);
+
+  return context;
+}
+
+export function testAssertion (value: string): void {
+  // https://www.assemblyscript.org/basics.html#triple-equals
+  // eslint-disable-next-line eqeqeq
+  assert(value == 'abc', 'Value is not abc');
+}
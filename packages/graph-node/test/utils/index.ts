@@ -3,7 +3,7 @@
 //
 
 import { BaseProvider } from '@ethersproject/providers';
-import { getCustomProvider, Database as BaseDatabase, ServerConfig, GraphDatabase, EventData } from '@cerc-io/util';
+import { getCustomProvider, Database as BaseDatabase, ServerConfig, GraphDatabase, EventData, Block } from '@cerc-io/util';
 import { EthClient } from '@cerc-io/ipld-eth-client';
 import { StorageLayout } from '@cerc-io/solidity-mapper';
 
@@ -59,6 +59,26 @@ export const getDummyEventData = async (): Promise<EventData> => {
   };
 };
 
+export const getDummyBlockData = (blockNumber: number, blockHash: string): Block => {
+  return {
+    headerId: 0,
+    blockHash,
+    blockNumber: blockNumber.toString(),
+    timestamp: '0',
+    parentHash: ZERO_HASH,
+    stateRoot: ZERO_HASH,
+    td: ZERO_HASH,
+    txRoot: ZERO_HASH,
+    receiptRoot: ZERO_HASH,
+    uncleHash: ZERO_HASH,
+    difficulty: '0',
+    gasLimit: '0',
+    gasUsed: '0',
+    author: ZERO_ADDRESS,
+    size: '0'
+  };
+};
+
 export const getDummyGraphData = (): any => {
   return {
     dataSource: {
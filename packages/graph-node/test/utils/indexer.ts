@@ -106,6 +106,12 @@ export class Indexer implements IndexerInterface {
     return '';
   }
 
+  async getPruningDepth (latestIndexedBlockNumber: number): Promise<number> {
+    assert(latestIndexedBlockNumber);
+
+    return 0;
+  }
+
   async saveBlockAndFetchEvents (block: BlockProgressInterface): Promise<[BlockProgressInterface, DeepPartial<EventInterface>[]]> {
     return [block, []];
   }
@@ -195,10 +201,14 @@ export class Indexer implements IndexerInterface {
     return undefined;
   }
 
-  async watchContract (address: string, kind: string, checkpoint: boolean, startingBlock: number): Promise<void> {
+  async watchContract (address: string, kind: string, checkpoint: boolean, startingBlock: number, context?: any): Promise<void> {
     return undefined;
   }
 
+  getContractsByKind (kind: string): ContractInterface[] {
+    return [];
+  }
+
   async processBlock (blockProgress: BlockProgressInterface): Promise<void> {
     return undefined;
   }
@@ -7,12 +7,15 @@ import { errors, providers, utils } from 'ethers';
 import { TransactionReceipt } from '@ethersproject/abstract-provider';
 
 import { Cache } from '@cerc-io/cache';
-import { encodeHeader, escapeHexString, getRawTransaction } from '@cerc-io/util';
+import { encodeHeader, escapeHexString, getRawTransaction, FailoverProvider, RpcEndpointConfig, RpcProviderOptions } from '@cerc-io/util';
 import { padKey } from '@cerc-io/ipld-eth-client';
 
 export interface Config {
   cache: Cache | undefined;
-  rpcEndpoint: string;
+  rpcEndpoint: string | RpcEndpointConfig[];
+  rpcProviderOptions?: RpcProviderOptions;
+  // Provider to share with the watcher instead of creating one for the endpoint(s).
+  provider?: providers.JsonRpcProvider;
 }
 
 interface Vars {
@@ -21,6 +24,8 @@ interface Vars {
   contract?: string;
   slot?: string;
   addresses?: string[];
+  fromBlock?: number;
+  toBlock?: number;
 }
 
 export class EthClient {
@@ -28,9 +33,17 @@ export class EthClient {
   _cache: Cache | undefined;
 
   constructor (config: Config) {
-    const { rpcEndpoint, cache } = config;
+    const { rpcEndpoint, rpcProviderOptions, cache, provider } = config;
     assert(rpcEndpoint, 'Missing RPC endpoint');
-    this._provider = new providers.JsonRpcProvider(rpcEndpoint);
+
+    if (provider) {
+      this._provider = provider;
+    } else {
+      // Use failover provider if multiple RPC endpoints are configured.
+      this._provider = Array.isArray(rpcEndpoint)
+        ? new FailoverProvider(rpcEndpoint, undefined, rpcProviderOptions)
+        : new providers.JsonRpcProvider(rpcEndpoint);
+    }
 
     this._cache = cache;
   }
@@ -261,7 +274,63 @@ export class EthClient {
       }
     );
 
-    const txHashesSet = result.reduce((acc, log) => {
+    const logs = await this._formatLogs(result);
+    console.timeEnd(`time:eth-client#getLogs-${JSON.stringify(vars)}`);
+
+    return { logs };
+  }
+
+  async getLogsForBlockRange (vars: { fromBlock: number, toBlock: number, addresses?: string[] }): Promise<any> {
+    const { fromBlock, toBlock, addresses = [] } = vars;
+
+    console.time(`time:eth-client#getLogsForBlockRange-${JSON.stringify(vars)}`);
+
+    // Logs of a range can change on reorgs until the range is finalized.
+    const isFinalized = Boolean(this._cache) && toBlock <= await this._getFinalizedBlockNumber();
+
+    const result = await this._getCachedOrFetch(
+      'getLogsForBlockRange',
+      vars,
+      async () => {
+        let logs: providers.Log[];
+
+        if (addresses.length) {
+          const logsByAddress = await Promise.all(addresses.map(address => this._provider.getLogs({
+            fromBlock,
+            toBlock,
+            address
+          })));
+
+          // Logs fetched per address need to be ordered for the whole range.
+          logs = logsByAddress.flat().sort((a, b) => (a.blockNumber - b.blockNumber) || (a.logIndex - b.logIndex));
+        } else {
+          logs = await this._provider.getLogs({ fromBlock, toBlock });
+        }
+
+        return logs.map(log => {
+          log.address = log.address.toLowerCase();
+          return log;
+        });
+      },
+      isFinalized
+    );
+
+    const logs = await this._formatLogs(result);
+    console.timeEnd(`time:eth-client#getLogsForBlockRange-${JSON.stringify(vars)}`);
+
+    return {
+      logs: logs.map((log, index) => ({
+        ...log,
+        block: {
+          hash: result[index].blockHash,
+          number: result[index].blockNumber
+        }
+      }))
+    };
+  }
+
+  async _formatLogs (logs: providers.Log[]): Promise<any[]> {
+    const txHashesSet = logs.reduce((acc, log) => {
       acc.add(log.transactionHash);
       return acc;
     }, new Set<string>());
@@ -272,30 +341,43 @@ export class EthClient {
       acc.set(txReceipt.transactionHash, txReceipt);
       return acc;
     }, new Map<string, providers.TransactionReceipt>());
-    console.timeEnd(`time:eth-client#getLogs-${JSON.stringify(vars)}`);
 
-    return {
-      logs: result.map((log) => ({
-        account: {
-          address: log.address
-        },
-        transaction: {
-          hash: log.transactionHash
-        },
-        topics: log.topics,
-        data: log.data,
-        index: log.logIndex,
-        status: txReceiptMap.get(log.transactionHash)?.status
-      }))
-    };
+    return logs.map((log) => ({
+      account: {
+        address: log.address
+      },
+      transaction: {
+        hash: log.transactionHash
+      },
+      topics: log.topics,
+      data: log.data,
+      index: log.logIndex,
+      status: txReceiptMap.get(log.transactionHash)?.status
+    }));
+  }
+
+  async _getFinalizedBlockNumber (): Promise<number> {
+    try {
+      const block = await this._provider.getBlock('finalized');
+
+      return block ? block.number : -1;
+    } catch (error) {
+      // Finalized block tag is not supported by the node.
+      return -1;
+    }
   }
 
-  async _getCachedOrFetch<Result> (queryName: string, vars: Vars, fetch: () => Promise<Result>): Promise<Result> {
+  async _getCachedOrFetch<Result> (queryName: string, vars: Vars, fetch: () => Promise<Result>, cacheResult = true): Promise<Result> {
     const keyObj = {
       queryName,
       vars
     };
 
+    // Results that can change are not cached.
+    if (!cacheResult) {
+      return fetch();
+    }
+
     // Check if request cached in db, if cache is enabled.
     if (this._cache) {
       const [value, found] = await this._cache.get(keyObj) || [undefined, false];
@@ -35,4 +35,12 @@ export class TracingClient {
   async getCallTrace (block: string, txData: any, tracer: string | undefined): Promise<any> {
     return this._provider.send('debug_traceCall', [txData, block, { tracer }]);
   }
+
+  async getBlockTrace (blockHash: string, tracer = 'callTracer', timeout?: string): Promise<any[]> {
+    if (tracer === 'callTraceWithAddresses') {
+      tracer = callTracerWithAddresses;
+    }
+
+    return this._provider.send('debug_traceBlockByHash', [blockHash, { tracer, timeout }]);
+  }
 }
@@ -202,6 +202,23 @@ export const _fetchBatchBlocks = async (
     await wait(jobQueueConfig.jobDelayInMilliSecs);
   }
 
+  if (jobQueueConfig.blockRangeLogs) {
+    assert(indexer.fetchEventsAndSaveBlocks);
+
+    // Fetch logs for the whole range at once; empty blocks are saved without fetching transactions.
+    console.time('time:common#fetchBatchBlocks-fetchEventsAndSaveBlocks');
+    const blockAndEventsList = await indexer.fetchEventsAndSaveBlocks(blocks.map(block => ({
+      cid: block.cid,
+      blockHash: block.blockHash,
+      blockNumber: block.blockNumber,
+      blockTimestamp: block.timestamp,
+      parentHash: block.parentHash
+    })));
+    console.timeEnd('time:common#fetchBatchBlocks-fetchEventsAndSaveBlocks');
+
+    return blockAndEventsList;
+  }
+
   console.time('time:common#fetchBatchBlocks-saveBlockAndFetchEvents');
   const blockAndEventsPromises = blocks.map(async block => {
     block.blockTimestamp = block.timestamp;
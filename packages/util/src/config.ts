@@ -10,6 +10,8 @@ import { ConnectionOptions } from 'typeorm';
 
 import { Config as CacheConfig } from '@cerc-io/cache';
 
+import { JobQueueBackendKind } from './types';
+
 const log = debug('vulcanize:config');
 
 export interface JobQueueConfig {
@@ -22,6 +24,34 @@ export interface JobQueueConfig {
   blockDelayInMilliSecs: number;
   prefetchBlocksInMem: boolean;
   prefetchBlockCount: number;
+
+  // Boolean to fetch events for prefetched blocks using eth_getLogs over the block range (instead of per block hash).
+  blockRangeLogs?: boolean;
+
+  // Max number of indexed blocks to roll back automatically on a reorg deeper than pruning depth (0 to disable).
+  maxReorgRollbackDepth?: number;
+
+  // Job queue backend to use (defaults to pg-boss).
+  // The in-process backend does not persist jobs and requires job producers and consumers to run in the same process.
+  backend?: JobQueueBackendKind;
+
+  // Num of retries for failed jobs (defaults to 15).
+  retryLimit?: number;
+
+  // Delay before retrying a failed job (defaults to 1).
+  retryDelayInSecs?: number;
+
+  // Boolean to increase retry delay exponentially (defaults to true).
+  retryBackoff?: boolean;
+
+  // Time before an active job fails by expiration (defaults to 24).
+  expireInHours?: number;
+
+  // Time to keep jobs which have not been processed (defaults to 1).
+  retentionDays?: number;
+
+  // Time to keep completed jobs before deleting them (defaults to 1).
+  deleteAfterHours?: number;
 }
 
 export interface GQLCacheConfig {
@@ -167,6 +197,58 @@ export interface P2PConfig {
   nitro: NitroConfig
 }
 
+export interface WebhookConfig {
+  url: string;
+
+  // Secret for HMAC-SHA256 signature of the payload sent in X-Webhook-Signature header.
+  secret?: string;
+
+  // Event names to deliver (all events if not set).
+  events?: string[];
+
+  // Contract addresses to deliver events of (all watched contracts if not set).
+  contracts?: string[];
+
+  // Max delivery retries with backoff (defaults to 10).
+  retryLimit?: number;
+
+  // Delay before the first retry (in seconds, defaults to 5).
+  retryDelayInSecs?: number;
+
+  // Request timeout (in milliseconds, defaults to 10000).
+  timeoutInMs?: number;
+}
+
+export interface IPFSConfig {
+  // IPFS HTTP API endpoint to fetch content from.
+  apiEndpoint?: string;
+
+  // Local directory with content files named by CID, used instead of the IPFS API if set.
+  localDirectory?: string;
+
+  // Timeout for fetching content (in milliseconds).
+  timeout?: number;
+}
+
+export interface StatePublicationConfig extends IPFSConfig {
+  // Pin published State blocks (defaults to true).
+  pin?: boolean;
+
+  // Max publication retries with backoff (defaults to 10).
+  retryLimit?: number;
+
+  // Delay before the first retry (in seconds, defaults to 5).
+  retryDelayInSecs?: number;
+}
+
+export interface SnapshotConfig {
+  // Private key to sign exported snapshot manifests with.
+  signingKey?: string;
+
+  // Addresses of signers trusted for importing and verifying snapshots (unsigned snapshots are accepted if not set).
+  trustedSigners?: string[];
+}
+
 export interface ServerConfig {
   host: string;
   port: number;
@@ -174,11 +256,17 @@ export interface ServerConfig {
   kind: string;
   checkpointing: boolean;
   checkpointInterval: number;
+
+  // Number of latest blocks to keep diff States for (diffs are kept for all blocks if not set).
+  // Older diffs are merged into a checkpoint and removed every checkpointInterval blocks by job-runner.
+  stateDiffRetentionBlocks?: number;
+
   subgraphPath: string;
   enableState: boolean;
   wasmRestartBlocksInterval: number;
   filterLogs: boolean;
   maxEventsBlockRange: number;
+  maxChangesetsBlockRange?: number;
   clearEntitiesCacheInterval: number;
 
   // Boolean to skip updating entity fields required in state creation and not required in the frontend.
@@ -201,6 +289,43 @@ export interface ServerConfig {
   // Flag to specify whether RPC endpoint supports block hash as block tag parameter
   // https://ethereum.org/en/developers/docs/apis/json-rpc/#default-block
   rpcSupportsBlockHashParam: boolean;
+
+  // Upstream block tag ('finalized' or 'safe') to follow for pruning instead of the fixed max reorg depth.
+  finalityBlockTag?: string;
+
+  // Pruning depth used when the finality block tag is unavailable upstream (defaults to max reorg depth).
+  finalityFallbackDepth?: number;
+
+  // Minimum pruning depth when following the finality block tag (defaults to 8).
+  // Keeps a margin for reorgs at the head and for chain pruning to catch up with indexing.
+  finalityMinDepth?: number;
+
+  // Webhook endpoints to deliver watched events to.
+  webhooks?: WebhookConfig[];
+
+  // Signing and verification of exported state snapshots.
+  snapshot?: SnapshotConfig;
+
+  // Publication of State entries to IPFS (by job-runner).
+  statePublication?: StatePublicationConfig;
+}
+
+export interface RpcEndpointConfig {
+  url: string;
+
+  // Relative weight for distributing requests across endpoints (defaults to 1).
+  weight?: number;
+
+  // Max requests per second to the endpoint (not limited if not set).
+  maxRequestsPerSecond?: number;
+}
+
+export interface RpcProviderOptions {
+  // Interval for endpoint health checks (defaults to 15 secs, 0 to disable).
+  healthCheckIntervalInSecs?: number;
+
+  // Timeout for a request to an endpoint before failing over (defaults to 30 secs).
+  requestTimeoutInMs?: number;
 }
 
 export interface UpstreamConfig {
@@ -208,9 +333,18 @@ export interface UpstreamConfig {
   ethServer: {
     gqlApiEndpoint: string;
     rpcProviderEndpoint: string;
+
+    // Multiple RPC endpoints with failover and load balancing (used instead of rpcProviderEndpoint if set).
+    rpcProviderEndpoints?: RpcEndpointConfig[];
+    rpcProviderOptions?: RpcProviderOptions;
+
+    // Websocket RPC endpoint to track chain head using newHeads subscription (falls back to polling if unavailable).
+    rpcProviderWsEndpoint?: string;
+
     rpcClient: boolean;
   }
   traceProviderEndpoint: string;
+  ipfs?: IPFSConfig;
 }
 
 export interface GQLMetricsConfig {
@@ -3,6 +3,8 @@
 //
 
 export const MAX_REORG_DEPTH = 16;
+export const DEFAULT_MIN_PRUNING_DEPTH = 8;
+export const DEFAULT_MAX_REORG_ROLLBACK_DEPTH = 128;
 export const DIFF_MERGE_BATCH_SIZE = 10000;
 
 export const QUEUE_BLOCK_PROCESSING = 'block-processing';
@@ -10,12 +12,16 @@ export const QUEUE_EVENT_PROCESSING = 'event-processing';
 export const QUEUE_CHAIN_PRUNING = 'chain-pruning';
 export const QUEUE_BLOCK_CHECKPOINT = 'block-checkpoint';
 export const QUEUE_HOOKS = 'hooks';
+export const QUEUE_BLOCK_RANGE_PROCESSING = 'block-range-processing';
+export const QUEUE_WEBHOOK_DELIVERY = 'webhook-delivery';
+export const QUEUE_STATE_PUBLICATION = 'state-publication';
 
 export const JOB_KIND_INDEX = 'index';
 export const JOB_KIND_PRUNE = 'prune';
 
 export const JOB_KIND_EVENTS = 'events';
 export const JOB_KIND_CONTRACT = 'contract';
+export const JOB_KIND_RESET = 'reset';
 
 export const DEFAULT_CONFIG_PATH = 'environments/local.toml';
 
@@ -25,5 +31,6 @@ export const KIND_ACTIVE = 'active';
 export const KIND_LAZY = 'lazy';
 
 export const DEFAULT_PREFETCH_BATCH_SIZE = 10;
+export const DEFAULT_FILL_RANGE_SIZE = 10000;
 
 export const DEFAULT_MAX_GQL_CACHE_SIZE = Math.pow(2, 20) * 8; // 8 MB
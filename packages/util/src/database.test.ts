@@ -0,0 +1,100 @@
+//
+// Copyright 2023 Vulcanize, Inc.
+//
+
+import { expect } from 'chai';
+import 'mocha';
+import { EntitySchema, ObjectLiteral, Repository } from 'typeorm';
+
+import { Database, Where } from './database';
+import { getTestConnection } from '../test/utils';
+
+const AuthorSchema = new EntitySchema({
+  name: 'author',
+  columns: {
+    id: { type: 'varchar', primary: true },
+    name: { type: 'varchar' },
+    tags: { type: 'varchar', array: true },
+    scores: { type: 'numeric', array: true }
+  }
+});
+
+describe('database where conditions', () => {
+  let database: Database;
+  let repo: Repository<ObjectLiteral>;
+
+  before(async () => {
+    database = new Database({ type: 'postgres' });
+
+    const conn = await getTestConnection([AuthorSchema]);
+    repo = conn.getRepository(AuthorSchema);
+  });
+
+  after(async () => {
+    await database._pgPool.end();
+  });
+
+  const buildQuery = (where: Where) => {
+    const selectQueryBuilder = repo.createQueryBuilder('author');
+
+    return database._buildWhereConditions(repo, selectQueryBuilder, where, 'author');
+  };
+
+  it('should build conditions for scalar fields', () => {
+    const query = buildQuery({
+      name: [
+        { value: 'abc', not: false, operator: 'contains' },
+        { value: 'xyz', not: true, operator: 'equals' }
+      ]
+    });
+
+    expect(query.getQuery()).to.include('"author"."name" LIKE :name0');
+    expect(query.getQuery()).to.include('"author"."name" != :name1');
+    expect(query.getParameters()).to.deep.equal({ name0: '%abc%', name1: 'xyz' });
+  });
+
+  it('should build equality conditions for list fields', () => {
+    const query = buildQuery({
+      tags: [
+        { value: ['a', 'b'], not: false, operator: 'equals' },
+        { value: ['c'], not: true, operator: 'equals' }
+      ]
+    });
+
+    expect(query.getQuery()).to.include('"author"."tags" = :tags0');
+    expect(query.getQuery()).to.include('NOT ("author"."tags" = :tags1)');
+    expect(query.getParameters()).to.deep.equal({ tags0: ['a', 'b'], tags1: ['c'] });
+  });
+
+  it('should build containment conditions for list fields', () => {
+    const query = buildQuery({
+      scores: [
+        { value: [BigInt(1), BigInt(2)], not: false, operator: 'contains' },
+        { value: [BigInt(3)], not: true, operator: 'contains' }
+      ]
+    });
+
+    expect(query.getQuery()).to.include('"author"."scores" @> :scores0');
+    expect(query.getQuery()).to.include('NOT ("author"."scores" @> :scores1)');
+    expect(query.getParameters()).to.deep.equal({ scores0: ['1', '2'], scores1: ['3'] });
+  });
+
+  it('should combine conditions with logical operators', () => {
+    const query = buildQuery({
+      or: [
+        { tags: [{ value: ['a'], not: false, operator: 'contains' }] },
+        { name: [{ value: 'abc', not: false, operator: 'equals' }] }
+      ]
+    });
+
+    expect(query.getQuery()).to.include('"author"."tags" @> :or0_tags0');
+    expect(query.getQuery()).to.include('OR');
+    expect(query.getQuery()).to.include('"author"."name" = :or1_name0');
+  });
+
+  it('should reject unsupported operators for list fields', () => {
+    expect(() => buildQuery({
+      tags: [{ value: ['a'], not: false, operator: 'gt' }]
+    })).to.throw('Operator gt not supported for list field tags');
+  });
+});
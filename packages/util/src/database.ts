@@ -5,6 +5,7 @@
 import assert from 'assert';
 import {
   Between,
+  Brackets,
   Connection,
   ConnectionOptions,
   createConnection,
@@ -16,13 +17,14 @@ import {
   ObjectLiteral,
   QueryRunner,
   Repository,
-  SelectQueryBuilder
+  SelectQueryBuilder,
+  WhereExpression
 } from 'typeorm';
 import { SnakeNamingStrategy } from 'typeorm-naming-strategies';
 import _ from 'lodash';
 import { Pool } from 'pg';
 
-import { BlockProgressInterface, ContractInterface, EventInterface, StateInterface, StateSyncStatusInterface, StateKind, SyncStatusInterface } from './types';
+import { BlockProgressInterface, BlockRangeProgressInterface, ContractInterface, EventInterface, StateInterface, StateSyncStatusInterface, StateKind, StateIPFSStatus, SyncStatusInterface, WebhookDeliveryInterface } from './types';
 import { MAX_REORG_DEPTH, UNKNOWN_EVENT_NAME } from './constants';
 import { blockProgressCount, eventCount } from './metrics';
 
@@ -45,11 +47,22 @@ export interface BlockHeight {
   hash?: string;
 }
 
+export interface CanonicalBlockHeight extends BlockHeight {
+  // Frothy region at the block hash.
+  canonicalBlockNumber?: number;
+  blockHashes?: string[];
+}
+
 export enum OrderDirection {
   asc = 'asc',
   desc = 'desc'
 }
 
+export enum SubgraphErrorPolicy {
+  allow = 'allow',
+  deny = 'deny'
+}
+
 export interface QueryOptions {
   limit?: number;
   skip?: number;
@@ -57,14 +70,37 @@ export interface QueryOptions {
   orderDirection?: OrderDirection;
 }
 
+export interface FulltextSearch {
+  // Property name of the tsvector column.
+  field: string;
+  text: string;
+  language: string;
+  algorithm: string;
+}
+
+export interface Filter {
+  value: any;
+  not: boolean;
+  operator: keyof typeof OPERATOR_MAP | 'nested';
+}
+
 export interface Where {
-  [key: string]: [{
-    value: any;
-    not: boolean;
-    operator: keyof typeof OPERATOR_MAP;
-  }]
+  // Where[] in case of and / or operators.
+  [key: string]: Filter[] | Where[];
 }
 
+export interface NestedFilterValue {
+  relation: {
+    entity: new () => any;
+    isArray: boolean;
+    isDerived: boolean;
+    field?: string;
+  };
+  where: Where;
+}
+
+export const LOGICAL_OPERATORS = ['and', 'or'];
+
 export type Relation = string | { property: string, alias: string }
 
 export class Database {
@@ -209,6 +245,37 @@ export class Database {
     return generatedMaps[0] as BlockProgressInterface;
   }
 
+  async getBlockRangeProgressEntities (repo: Repository<BlockRangeProgressInterface>, where: FindConditions<BlockRangeProgressInterface>, options: FindManyOptions<BlockRangeProgressInterface>): Promise<BlockRangeProgressInterface[]> {
+    options.where = where;
+
+    return repo.find(options);
+  }
+
+  async saveBlockRangeProgress (repo: Repository<BlockRangeProgressInterface>, blockRange: DeepPartial<BlockRangeProgressInterface>): Promise<BlockRangeProgressInterface> {
+    return repo.save(blockRange);
+  }
+
+  async updateBlockRangeProgress (repo: Repository<BlockRangeProgressInterface>, blockRange: BlockRangeProgressInterface, blockNumber: number): Promise<BlockRangeProgressInterface> {
+    if (blockNumber <= blockRange.lastProcessedBlockNumber) {
+      throw new Error(`Blocks processed out of order in range [${blockRange.startBlock}, ${blockRange.endBlock}], was ${blockRange.lastProcessedBlockNumber}, got ${blockNumber}`);
+    }
+
+    blockRange.lastProcessedBlockNumber = blockNumber;
+    blockRange.isComplete = blockNumber >= blockRange.endBlock;
+
+    return repo.save(blockRange);
+  }
+
+  async getWebhookDeliveries (repo: Repository<WebhookDeliveryInterface>, where: FindConditions<WebhookDeliveryInterface>, options: FindManyOptions<WebhookDeliveryInterface>): Promise<WebhookDeliveryInterface[]> {
+    options.where = where;
+
+    return repo.find(options);
+  }
+
+  async saveWebhookDelivery (repo: Repository<WebhookDeliveryInterface>, delivery: DeepPartial<WebhookDeliveryInterface>): Promise<WebhookDeliveryInterface> {
+    return repo.save(delivery);
+  }
+
   async markBlocksAsPruned (repo: Repository<BlockProgressInterface>, blocks: BlockProgressInterface[]): Promise<void> {
     const ids = blocks.map(({ id }) => id);
 
@@ -552,13 +619,13 @@ export class Database {
       .getMany();
   }
 
-  async saveContract (repo: Repository<ContractInterface>, address: string, kind: string, checkpoint: boolean, startingBlock: number): Promise<ContractInterface> {
+  async saveContract (repo: Repository<ContractInterface>, address: string, kind: string, checkpoint: boolean, startingBlock: number, context?: any): Promise<ContractInterface> {
     const contract = await repo
       .createQueryBuilder()
       .where('address = :address', { address })
       .getOne();
 
-    const entity = repo.create({ address, kind, checkpoint, startingBlock });
+    const entity = repo.create({ address, kind, checkpoint, startingBlock, context });
 
     // If contract already present, overwrite fields.
     if (contract) {
@@ -715,18 +782,18 @@ export class Database {
       // Using pg query as workaround for typeorm memory issue when saving checkpoint with large sized data.
       const { rows } = await this._pgPool.query(`
         UPDATE state
-        SET block_id = $1, contract_address = $2, cid = $3, kind = $4, data = $5
-        WHERE id = $6
+        SET block_id = $1, contract_address = $2, cid = $3, kind = $4, data = $5, ipfs_status = $6
+        WHERE id = $7
         RETURNING *
-      `, [state.block.id, state.contractAddress, state.cid, state.kind, state.data, state.id]);
+      `, [state.block.id, state.contractAddress, state.cid, state.kind, state.data, state.ipfsStatus ?? null, state.id]);
 
       updatedData = rows[0];
     } else {
       const { rows } = await this._pgPool.query(`
-        INSERT INTO state(block_id, contract_address, cid, kind, data)
-        VALUES($1, $2, $3, $4, $5)
+        INSERT INTO state(block_id, contract_address, cid, kind, data, ipfs_status)
+        VALUES($1, $2, $3, $4, $5, $6)
         RETURNING *
-      `, [state.block.id, state.contractAddress, state.cid, state.kind, state.data]);
+      `, [state.block.id, state.contractAddress, state.cid, state.kind, state.data, state.ipfsStatus ?? null]);
 
       updatedData = rows[0];
     }
@@ -739,10 +806,15 @@ export class Database {
       cid: updatedData.cid,
       kind: updatedData.kind,
       data: updatedData.data,
+      ipfsStatus: updatedData.ipfs_status,
       id: updatedData.id
     };
   }
 
+  async updateStateIPFSStatus (repo: Repository<StateInterface>, cid: string, ipfsStatus: StateIPFSStatus): Promise<void> {
+    await repo.update({ cid }, { ipfsStatus });
+  }
+
   async removeStates (repo: Repository<StateInterface>, blockNumber: number, kind: string): Promise<void> {
     const entities = await repo.find({ relations: ['block'], where: { block: { blockNumber }, kind } });
 
@@ -766,6 +838,35 @@ export class Database {
     await repo.query(deleteQuery, [blockNumber]);
   }
 
+  async getDiffStatesSize (repo: Repository<StateInterface>, contractAddress: string, startBlock: number, endBlock: number): Promise<{ count: number, bytes: number }> {
+    const { count, bytes } = await repo.createQueryBuilder('state')
+      .leftJoin('state.block', 'block')
+      .select('COUNT(state.id)', 'count')
+      .addSelect('COALESCE(SUM(OCTET_LENGTH(state.data)), 0)', 'bytes')
+      .where('state.contract_address = :contractAddress', { contractAddress })
+      .andWhere('state.kind = :kind', { kind: StateKind.Diff })
+      .andWhere('block.block_number BETWEEN :startBlock AND :endBlock', { startBlock, endBlock })
+      .getRawOne();
+
+    return { count: Number(count), bytes: Number(bytes) };
+  }
+
+  async removeDiffStatesInRange (repo: Repository<StateInterface>, contractAddress: string, startBlock: number, endBlock: number): Promise<void> {
+    // Use raw SQL as TypeORM curently doesn't support delete via 'join' or 'using'
+    const deleteQuery = `
+      DELETE FROM
+        state
+      USING block_progress
+      WHERE
+      state.block_id = block_progress.id
+        AND state.contract_address = $1
+        AND state.kind = $2
+        AND block_progress.block_number BETWEEN $3 AND $4;
+    `;
+
+    await repo.query(deleteQuery, [contractAddress, StateKind.Diff, startBlock, endBlock]);
+  }
+
   async getStateSyncStatus (repo: Repository<StateSyncStatusInterface>): Promise<StateSyncStatusInterface | undefined> {
     return repo.findOne();
   }
@@ -776,7 +877,8 @@ export class Database {
     if (!entity) {
       entity = repo.create({
         latestIndexedBlockNumber: blockNumber,
-        latestCheckpointBlockNumber: -1
+        latestCheckpointBlockNumber: -1,
+        latestCompactedBlockNumber: -1
       });
     }
 
@@ -798,22 +900,146 @@ export class Database {
     return repo.save(entity);
   }
 
+  async updateStateSyncStatusCompactedBlock (repo: Repository<StateSyncStatusInterface>, blockNumber: number, force?: boolean): Promise<StateSyncStatusInterface> {
+    const entity = await repo.findOne();
+    assert(entity);
+
+    if (force || blockNumber > entity.latestCompactedBlockNumber) {
+      entity.latestCompactedBlockNumber = blockNumber;
+    }
+
+    return repo.save(entity);
+  }
+
   buildQuery<Entity extends ObjectLiteral> (
     repo: Repository<Entity>,
     selectQueryBuilder: SelectQueryBuilder<Entity>,
     where: Where = {},
+    alias?: string,
+    block: Readonly<CanonicalBlockHeight> = {}
+  ): SelectQueryBuilder<Entity> {
+    if (!alias) {
+      alias = selectQueryBuilder.alias;
+    }
+
+    return this._buildWhereConditions(repo, selectQueryBuilder, where, alias, block);
+  }
+
+  orderQuery<Entity extends ObjectLiteral> (
+    repo: Repository<Entity>,
+    selectQueryBuilder: SelectQueryBuilder<Entity>,
+    orderOptions: { orderBy?: string, orderDirection?: string },
+    columnPrefix = '',
     alias?: string
   ): SelectQueryBuilder<Entity> {
     if (!alias) {
       alias = selectQueryBuilder.alias;
     }
 
+    const { orderBy, orderDirection } = orderOptions;
+    assert(orderBy);
+
+    const columnMetadata = repo.metadata.findColumnWithPropertyName(orderBy);
+    assert(columnMetadata);
+
+    return selectQueryBuilder.addOrderBy(
+      `"${alias}"."${columnPrefix}${columnMetadata.databaseName}"`,
+      orderDirection === 'desc' ? 'DESC' : 'ASC'
+    );
+  }
+
+  buildBlockConstraint<Entity extends ObjectLiteral> (
+    selectQueryBuilder: SelectQueryBuilder<Entity>,
+    alias: string,
+    block: Readonly<CanonicalBlockHeight>
+  ): SelectQueryBuilder<Entity> {
+    if (block.blockHashes) {
+      const { blockHashes, canonicalBlockNumber } = block;
+
+      selectQueryBuilder = selectQueryBuilder
+        .andWhere(new Brackets(qb => {
+          qb.where(`"${alias}".block_hash IN (:...blockHashes)`, { blockHashes })
+            .orWhere(`"${alias}".block_number <= :canonicalBlockNumber`, { canonicalBlockNumber });
+        }));
+    }
+
+    if (block.number) {
+      selectQueryBuilder = selectQueryBuilder.andWhere(`"${alias}".block_number <= :blockNumber`, { blockNumber: block.number });
+    }
+
+    return selectQueryBuilder;
+  }
+
+  _buildWhereConditions<Entity extends ObjectLiteral, WhereBuilder extends WhereExpression> (
+    repo: Repository<Entity>,
+    whereBuilder: WhereBuilder,
+    where: Where,
+    alias: string,
+    block: Readonly<CanonicalBlockHeight> = {},
+    variablePrefix = ''
+  ): WhereBuilder {
     Object.entries(where).forEach(([field, filters]) => {
-      filters.forEach((filter, index) => {
+      if (LOGICAL_OPERATORS.includes(field)) {
+        const subWheres = filters as Where[];
+
+        if (!subWheres.length) {
+          return;
+        }
+
+        // Combine the nested where conditions with the logical operator inside brackets.
+        whereBuilder = whereBuilder.andWhere(new Brackets(qb => {
+          subWheres.forEach((subWhere, index) => {
+            const subBrackets = new Brackets(subQb => {
+              if (!Object.keys(subWhere).length) {
+                // Empty where matches all entities.
+                subQb.where('TRUE');
+                return;
+              }
+
+              // Use unique variable names for conditions in nested wheres.
+              this._buildWhereConditions(repo, subQb, subWhere, alias, block, `${variablePrefix}${field}${index}_`);
+            });
+
+            if (field === 'or') {
+              qb.orWhere(subBrackets);
+            } else {
+              qb.andWhere(subBrackets);
+            }
+          });
+        }));
+
+        return;
+      }
+
+      (filters as Filter[]).forEach((filter, index) => {
         // Form the where clause.
         let { not, operator, value } = filter;
+
+        if (operator === 'nested') {
+          // Filter on fields of the related entity.
+          whereBuilder = this._buildNestedFilterCondition(repo, whereBuilder, field, value, alias, block, `${variablePrefix}${field}${index}_`);
+          return;
+        }
+
         const columnMetadata = repo.metadata.findColumnWithPropertyName(field);
         assert(columnMetadata);
+
+        if (columnMetadata.isArray) {
+          // Filter on list fields using the array equality and containment operators.
+          assert(['equals', 'contains'].includes(operator), `Operator ${operator} not supported for list field ${field}`);
+
+          const variableName = `${variablePrefix}${field}${index}`;
+          let arrayClause = `"${alias}"."${columnMetadata.databaseName}" ${operator === 'contains' ? '@>' : '='} :${variableName}`;
+
+          if (not) {
+            arrayClause = `NOT (${arrayClause})`;
+          }
+
+          // Convert to string type values as bigint type throws error in query.
+          whereBuilder = whereBuilder.andWhere(arrayClause, { [variableName]: (value as any[]).map(element => element.toString()) });
+          return;
+        }
+
         let whereClause = `"${alias}"."${columnMetadata.databaseName}" `;
 
         if (columnMetadata.relationMetadata) {
@@ -842,7 +1068,7 @@ export class Database {
           whereClause += ':';
         }
 
-        const variableName = `${field}${index}`;
+        const variableName = `${variablePrefix}${field}${index}`;
         whereClause += variableName;
 
         if (operator === 'in') {
@@ -861,34 +1087,64 @@ export class Database {
           value += '%';
         }
 
-        selectQueryBuilder = selectQueryBuilder.andWhere(whereClause, { [variableName]: value });
+        whereBuilder = whereBuilder.andWhere(whereClause, { [variableName]: value });
       });
     });
 
-    return selectQueryBuilder;
+    return whereBuilder;
   }
 
-  orderQuery<Entity extends ObjectLiteral> (
+  _buildNestedFilterCondition<Entity extends ObjectLiteral, WhereBuilder extends WhereExpression> (
     repo: Repository<Entity>,
-    selectQueryBuilder: SelectQueryBuilder<Entity>,
-    orderOptions: { orderBy?: string, orderDirection?: string },
-    columnPrefix = '',
-    alias?: string
-  ): SelectQueryBuilder<Entity> {
-    if (!alias) {
-      alias = selectQueryBuilder.alias;
+    whereBuilder: WhereBuilder,
+    field: string,
+    nestedFilter: NestedFilterValue,
+    alias: string,
+    block: Readonly<CanonicalBlockHeight>,
+    variablePrefix: string
+  ): WhereBuilder {
+    const { relation, where } = nestedFilter;
+    const relatedRepo = repo.manager.getRepository(relation.entity);
+    const relatedAlias = `${alias}_${field}`;
+
+    let subQuery = relatedRepo.createQueryBuilder(relatedAlias)
+      .select('1')
+      .where(`"${relatedAlias}".is_pruned = false`);
+
+    // Join condition with the parent entity.
+    if (relation.isDerived) {
+      assert(relation.field);
+      const derivedColumn = relatedRepo.metadata.findColumnWithPropertyName(relation.field);
+      assert(derivedColumn);
+
+      subQuery = derivedColumn.isArray
+        ? subQuery.andWhere(`"${alias}".id = ANY("${relatedAlias}"."${derivedColumn.databaseName}")`)
+        : subQuery.andWhere(`"${relatedAlias}"."${derivedColumn.databaseName}" = "${alias}".id`);
+    } else {
+      const columnMetadata = repo.metadata.findColumnWithPropertyName(field);
+      assert(columnMetadata);
+
+      subQuery = relation.isArray
+        ? subQuery.andWhere(`"${relatedAlias}".id = ANY("${alias}"."${columnMetadata.databaseName}")`)
+        : subQuery.andWhere(`"${relatedAlias}".id = "${alias}"."${columnMetadata.databaseName}"`);
     }
 
-    const { orderBy, orderDirection } = orderOptions;
-    assert(orderBy);
+    // Filter on the latest version of the related entity at the block.
+    const newerAlias = `${relatedAlias}_newer`;
+    let newerVersionQuery = relatedRepo.createQueryBuilder(newerAlias)
+      .select('1')
+      .where(`"${newerAlias}".id = "${relatedAlias}".id`)
+      .andWhere(`"${newerAlias}".is_pruned = false`)
+      .andWhere(`"${newerAlias}".block_number > "${relatedAlias}".block_number`);
 
-    const columnMetadata = repo.metadata.findColumnWithPropertyName(orderBy);
-    assert(columnMetadata);
+    subQuery = this.buildBlockConstraint(subQuery, relatedAlias, block);
+    newerVersionQuery = this.buildBlockConstraint(newerVersionQuery, newerAlias, block);
 
-    return selectQueryBuilder.addOrderBy(
-      `"${alias}"."${columnPrefix}${columnMetadata.databaseName}"`,
-      orderDirection === 'desc' ? 'DESC' : 'ASC'
-    );
+    subQuery = subQuery.andWhere(`NOT EXISTS (${newerVersionQuery.getQuery()})`, newerVersionQuery.getParameters())
+      .andWhere(`"${relatedAlias}".is_removed = false`);
+    subQuery = this._buildWhereConditions(relatedRepo, subQuery, where, relatedAlias, block, variablePrefix);
+
+    return whereBuilder.andWhere(`EXISTS (${subQuery.getQuery()})`, subQuery.getParameters());
   }
 
   async _fetchBlockCount (): Promise<void> {
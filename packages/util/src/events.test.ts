@@ -0,0 +1,219 @@
+//
+// Copyright 2023 Vulcanize, Inc.
+//
+
+import { expect } from 'chai';
+import 'mocha';
+import { PubSub } from 'graphql-subscriptions';
+
+import { EntityChangeBlock, EventWatcher } from './events';
+import { JobQueue } from './job-queue';
+import { BlockProgressInterface, EthClient, IndexerInterface } from './types';
+import { JOB_KIND_RESET, MAX_REORG_DEPTH } from './constants';
+import { BlockHeight } from './database';
+import { EntityChange, EntityChangeOperation } from './graph/database';
+import { getTestBlockProgress, getTestSyncStatus } from '../test/utils';
+
+describe('event watcher job completion', () => {
+  it('should clear cached entities when the watcher is reset', async () => {
+    let clearCount = 0;
+
+    const indexer = {
+      clearCachedEntities: () => { clearCount++; }
+    } as unknown as IndexerInterface;
+
+    const eventWatcher = new EventWatcher({} as EthClient, indexer, new PubSub(), {} as JobQueue);
+
+    await eventWatcher.eventProcessingCompleteHandler({
+      id: '1',
+      data: {
+        request: { data: { kind: JOB_KIND_RESET, blockNumber: 7 } },
+        failed: false,
+        state: 'completed',
+        createdOn: new Date().toISOString()
+      }
+    });
+
+    expect(clearCount).to.equal(1);
+  });
+});
+
+describe('event watcher block changesets', () => {
+  let eventWatcher: EventWatcher;
+  let blocks: BlockProgressInterface[];
+
+  // Changesets published to subscribers.
+  let changesets: { hash: string, reverted: boolean }[];
+
+  const getBlock = (blockHash: string) => blocks.find(block => block.blockHash === blockHash) as BlockProgressInterface;
+
+  beforeEach(() => {
+    // Sibling blocks 0xa3 and 0xb3 at height 3.
+    blocks = [
+      getTestBlockProgress(1, '0xa1', '0xa0'),
+      getTestBlockProgress(2, '0xa2', '0xa1'),
+      getTestBlockProgress(3, '0xa3', '0xa2'),
+      getTestBlockProgress(3, '0xb3', '0xa2'),
+      getTestBlockProgress(4, '0xa4', '0xa3')
+    ];
+
+    changesets = [];
+
+    const indexer = {
+      getBlockProgress: async (blockHash: string) => blocks.find(block => block.blockHash === blockHash),
+      getBlockChangeset: async (block: BlockHeight, reverted = false) => ({ block: { hash: block.hash }, changes: [], reverted })
+    } as unknown as IndexerInterface;
+
+    const pubsub = new PubSub();
+    pubsub.publish = async (trigger: string, { _onBlockChangeset: { block, reverted } }: any) => {
+      changesets.push({ hash: block.hash, reverted });
+    };
+
+    eventWatcher = new EventWatcher({} as EthClient, indexer, pubsub, {} as JobQueue);
+  });
+
+  it('should only publish changesets having subscribers', async () => {
+    await eventWatcher.publishBlockChangesetsToSubscribers(getBlock('0xa1'));
+    expect(changesets).to.have.lengthOf(0);
+
+    const iterator = eventWatcher.getBlockChangesetIterator();
+    await eventWatcher.publishBlockChangesetsToSubscribers(getBlock('0xa2'));
+    expect(changesets).to.deep.equal([{ hash: '0xa2', reverted: false }]);
+
+    await iterator.return?.();
+    await eventWatcher.publishBlockChangesetsToSubscribers(getBlock('0xa3'));
+    expect(changesets).to.have.lengthOf(1);
+  });
+
+  it('should revert changesets of blocks removed in reorgs', async () => {
+    eventWatcher.getBlockChangesetIterator();
+
+    await eventWatcher.publishBlockChangesetsToSubscribers(getBlock('0xa2'));
+    await eventWatcher.publishBlockChangesetsToSubscribers(getBlock('0xa3'));
+
+    // Sibling block completed at the same height.
+    await eventWatcher.publishBlockChangesetsToSubscribers(getBlock('0xb3'));
+
+    // Child of the first sibling block completed.
+    await eventWatcher.publishBlockChangesetsToSubscribers(getBlock('0xa4'));
+
+    expect(changesets).to.deep.equal([
+      { hash: '0xa2', reverted: false },
+      { hash: '0xa3', reverted: false },
+      { hash: '0xa3', reverted: true },
+      { hash: '0xb3', reverted: false },
+      { hash: '0xb3', reverted: true },
+      { hash: '0xa3', reverted: false },
+      { hash: '0xa4', reverted: false }
+    ]);
+  });
+
+  it('should not publish a changeset again for the same block', async () => {
+    eventWatcher.getBlockChangesetIterator();
+
+    await eventWatcher.publishBlockChangesetsToSubscribers(getBlock('0xa2'));
+    await eventWatcher.publishBlockChangesetsToSubscribers(getBlock('0xa2'));
+
+    expect(changesets).to.deep.equal([{ hash: '0xa2', reverted: false }]);
+  });
+});
+
+describe('event watcher entity changes', () => {
+  let eventWatcher: EventWatcher;
+  let blocks: BlockProgressInterface[];
+
+  // Blocks for which entity changes are fetched.
+  let changedBlockHashes: string[];
+
+  const getBlock = (blockHash: string) => blocks.find(block => block.blockHash === blockHash) as BlockProgressInterface;
+
+  const getChanges = (block: BlockProgressInterface): EntityChange[] => [
+    { entityType: 'Author', id: `${block.blockHash}-1`, operation: EntityChangeOperation.create },
+    { entityType: 'Author', id: `${block.blockHash}-2`, operation: EntityChangeOperation.create },
+    { entityType: 'Blog', id: `${block.blockHash}-1`, operation: EntityChangeOperation.create }
+  ];
+
+  beforeEach(() => {
+    // Blocks up to 200 are canonical with sibling blocks 0xa202 and 0xb202 at height 202.
+    blocks = [];
+
+    for (let blockNumber = 1; blockNumber <= 201; blockNumber++) {
+      blocks.push(getTestBlockProgress(blockNumber, `0xa${blockNumber}`, `0xa${blockNumber - 1}`));
+    }
+
+    blocks.push(getTestBlockProgress(202, '0xa202', '0xa201'));
+    blocks.push(getTestBlockProgress(202, '0xb202', '0xa201'));
+
+    changedBlockHashes = [];
+
+    const indexer = {
+      getSyncStatus: async () => getTestSyncStatus(getBlock('0xa202'), { latestCanonicalBlockHash: '0xa200', latestCanonicalBlockNumber: 200 }),
+      getBlockProgress: async (blockHash: string) => blocks.find(block => block.blockHash === blockHash),
+      getBlocksAtHeight: async (height: number) => blocks.filter(block => block.blockNumber === height),
+      getAncestorAtDepth: async (blockHash: string, depth: number) => {
+        let block = getBlock(blockHash);
+
+        for (let i = 0; i < depth; i++) {
+          block = getBlock(block.parentHash);
+        }
+
+        return block.blockHash;
+      },
+      getBlockEntityChanges: async (block: BlockProgressInterface) => {
+        changedBlockHashes.push(block.blockHash);
+
+        return getChanges(block);
+      }
+    } as unknown as IndexerInterface;
+
+    eventWatcher = new EventWatcher({} as EthClient, indexer, new PubSub(), {} as JobQueue);
+  });
+
+  it('should filter the entity changes of a block in a batch', async () => {
+    const filterCalls: { block: EntityChangeBlock, changes: EntityChange[] }[] = [];
+
+    const iterator = eventWatcher.getEntityChangeIterator('Author', 1, async (block, changes) => {
+      filterCalls.push({ block, changes });
+
+      return changes.filter(change => change.id.endsWith('-2'));
+    });
+
+    const nextPayload = iterator.next();
+    await eventWatcher.publishEntityChangesToSubscribers(getBlock('0xa202'));
+    const { value: { block, change } } = await nextPayload;
+
+    expect(block.hash).to.equal('0xa201');
+    expect(change.id).to.equal('0xa201-2');
+    expect(filterCalls).to.have.lengthOf(1);
+    expect(filterCalls[0].changes.map(({ id }) => id)).to.deep.equal(['0xa201-1', '0xa201-2']);
+
+    await iterator.return?.();
+    expect(eventWatcher._entityChangeSubscriptions.size).to.equal(0);
+  });
+
+  it('should publish changes of a block once for sibling blocks', async () => {
+    const iterator = eventWatcher.getEntityChangeIterator('Author', 1);
+
+    await eventWatcher.publishEntityChangesToSubscribers(getBlock('0xa202'));
+    await eventWatcher.publishEntityChangesToSubscribers(getBlock('0xb202'));
+
+    expect(changedBlockHashes).to.deep.equal(['0xa201']);
+
+    await iterator.return?.();
+  });
+
+  it('should publish changes of canonical blocks for confirmations beyond the max reorg depth', async () => {
+    const confirmations = MAX_REORG_DEPTH + 2;
+    const iterator = eventWatcher.getEntityChangeIterator('Author', confirmations);
+
+    await eventWatcher.publishEntityChangesToSubscribers(getBlock('0xb202'));
+
+    expect(changedBlockHashes).to.deep.equal([`0xa${202 - confirmations}`]);
+
+    await iterator.return?.();
+  });
+
+  it('should reject negative confirmations', () => {
+    expect(() => eventWatcher.getEntityChangeIterator('Author', -1)).to.throw('Confirmations should be a non-negative integer');
+  });
+});
@@ -5,33 +5,77 @@
 import assert from 'assert';
 import debug from 'debug';
 import { PubSub } from 'graphql-subscriptions';
+import _ from 'lodash';
 
 import { JobQueue } from './job-queue';
 import { BlockProgressInterface, EventInterface, IndexerInterface, EthClient } from './types';
-import { MAX_REORG_DEPTH, JOB_KIND_PRUNE, JOB_KIND_INDEX, UNKNOWN_EVENT_NAME, JOB_KIND_EVENTS, QUEUE_BLOCK_PROCESSING, QUEUE_EVENT_PROCESSING } from './constants';
+import { JOB_KIND_PRUNE, JOB_KIND_INDEX, UNKNOWN_EVENT_NAME, JOB_KIND_EVENTS, JOB_KIND_RESET, QUEUE_BLOCK_PROCESSING, QUEUE_EVENT_PROCESSING, MAX_REORG_DEPTH } from './constants';
 import { createPruningJob, processBlockByNumber } from './common';
 import { OrderDirection } from './database';
+import { HeadTracker } from './head-tracker';
+import { EntityChange } from './graph/database';
 
 const EVENT = 'event';
+const ENTITY_CHANGE_EVENT = 'entity-change-event';
+const BLOCK_CHANGESET_EVENT = 'block-changeset-event';
 
 const log = debug('vulcanize:events');
 
 export const BlockProgressEvent = 'block-progress-event';
 
+export interface EntityChangeBlock {
+  cid: string;
+  hash: string;
+  number: number;
+  timestamp: number;
+  parentHash: string;
+}
+
+export interface EntityChangePayload {
+  block: EntityChangeBlock;
+  change: EntityChange;
+}
+
+// Changes of an entity type in a block are published together for subscribers to filter them in a batch.
+interface BlockEntityChangesPayload {
+  block: EntityChangeBlock;
+  changes: EntityChange[];
+}
+
 export class EventWatcher {
   _ethClient: EthClient;
   _indexer: IndexerInterface;
   _pubsub: PubSub;
   _jobQueue: JobQueue;
 
+  _headTracker?: HeadTracker;
+
+  // Next block to be processed, waiting for it to be available upstream.
+  _pendingBlockNumber?: number;
+
+  // Number of entity change subscribers for each confirmation depth.
+  _entityChangeSubscriptions: Map<number, number> = new Map();
+
+  // Blocks (hash to number) with entity changes published for each confirmation depth.
+  _entityChangeBlocks: Map<number, Map<string, number>> = new Map();
+
+  // Number of block changeset subscribers and the last block published to them.
+  _blockChangesetSubscriptions = 0;
+  _lastChangesetBlock?: BlockProgressInterface;
+
   _shutDown = false;
   _signalCount = 0;
 
-  constructor (ethClient: EthClient, indexer: IndexerInterface, pubsub: PubSub, jobQueue: JobQueue) {
+  constructor (ethClient: EthClient, indexer: IndexerInterface, pubsub: PubSub, jobQueue: JobQueue, rpcWsEndpoint?: string) {
     this._ethClient = ethClient;
     this._indexer = indexer;
     this._pubsub = pubsub;
     this._jobQueue = jobQueue;
+
+    // Track chain head via newHeads subscription if websocket endpoint is configured.
+    if (rpcWsEndpoint) {
+      this._headTracker = new HeadTracker(rpcWsEndpoint, this._handleNewHead.bind(this), this._handleHeadTrackerDisconnect.bind(this));
+    }
   }
 
   getEventIterator (): AsyncIterator<any> {
@@ -42,6 +86,97 @@ export class EventWatcher {
     return this._pubsub.asyncIterator([BlockProgressEvent]);
   }
 
+  getBlockChangesetIterator (): AsyncIterator<any> {
+    const iterator = this._pubsub.asyncIterator([BLOCK_CHANGESET_EVENT]);
+    this._blockChangesetSubscriptions++;
+
+    // Track subscriber count to only publish changesets having subscribers.
+    let isSubscribed = true;
+    const iteratorReturn = iterator.return?.bind(iterator);
+
+    iterator.return = async (): Promise<IteratorResult<any>> => {
+      if (isSubscribed) {
+        isSubscribed = false;
+        this._blockChangesetSubscriptions--;
+      }
+
+      return iteratorReturn ? iteratorReturn() : { value: undefined, done: true };
+    };
+
+    return iterator;
+  }
+
+  getEntityChangeIterator (
+    entityType: string,
+    confirmations = 0,
+    filter?: (block: EntityChangeBlock, changes: EntityChange[]) => Promise<EntityChange[]>
+  ): AsyncIterator<EntityChangePayload> {
+    if (!Number.isInteger(confirmations) || confirmations < 0) {
+      throw new Error('Confirmations should be a non-negative integer');
+    }
+
+    const iterator = this._pubsub.asyncIterator<BlockEntityChangesPayload>([`${ENTITY_CHANGE_EVENT}-${entityType}-${confirmations}`]);
+    this._entityChangeSubscriptions.set(confirmations, (this._entityChangeSubscriptions.get(confirmations) ?? 0) + 1);
+
+    // Track subscriber count to only publish changes for confirmation depths having subscribers.
+    let isSubscribed = true;
+
+    const unsubscribe = () => {
+      if (isSubscribed) {
+        isSubscribed = false;
+        const count = (this._entityChangeSubscriptions.get(confirmations) ?? 1) - 1;
+
+        if (count) {
+          this._entityChangeSubscriptions.set(confirmations, count);
+        } else {
+          this._entityChangeSubscriptions.delete(confirmations);
+        }
+      }
+    };
+
+    // Changes of a block matching the filter, to be delivered one at a time.
+    const pendingPayloads: EntityChangePayload[] = [];
+
+    return {
+      next: async (): Promise<IteratorResult<EntityChangePayload>> => {
+        while (!pendingPayloads.length) {
+          const result = await iterator.next();
+
+          if (result.done) {
+            return { value: undefined, done: true };
+          }
+
+          const { block, changes } = result.value;
+          const matchingChanges = filter ? await filter(block, changes) : changes;
+          pendingPayloads.push(...matchingChanges.map(change => ({ block, change })));
+        }
+
+        return { value: pendingPayloads.shift() as EntityChangePayload, done: false };
+      },
+      return: async (): Promise<IteratorResult<EntityChangePayload>> => {
+        unsubscribe();
+
+        if (iterator.return) {
+          await iterator.return();
+        }
+
+        return { value: undefined, done: true };
+      },
+      throw: async (error: any): Promise<IteratorResult<EntityChangePayload>> => {
+        unsubscribe();
+
+        if (iterator.throw) {
+          await iterator.throw(error);
+        }
+
+        throw error;
+      },
+      [Symbol.asyncIterator] () {
+        return this;
+      }
+    } as AsyncIterableIterator<EntityChangePayload>;
+  }
+
   async start (): Promise<void> {
     await this.initBlockProcessingOnCompleteHandler();
     await this.initEventProcessingOnCompleteHandler();
@@ -75,7 +210,11 @@ export class EventWatcher {
       startBlockNumber = syncStatus.chainHeadBlockNumber + 1;
     }
 
-    await processBlockByNumber(this._jobQueue, startBlockNumber);
+    if (this._headTracker) {
+      await this._headTracker.start();
+    }
+
+    await this._processBlockByNumber(startBlockNumber);
 
     // Creating an AsyncIterable from AsyncIterator to iterate over the values.
     // https://www.codementor.io/@tiagolopesferreira/asynchronous-iterators-in-javascript-jl1yg8la1#for-wait-of
@@ -95,7 +234,7 @@ export class EventWatcher {
       }
 
       if (isComplete) {
-        await processBlockByNumber(this._jobQueue, blockNumber + 1);
+        await this._processBlockByNumber(blockNumber + 1);
       }
     }
   }
@@ -105,10 +244,44 @@ export class EventWatcher {
     process.on('SIGTERM', this._processShutdown.bind(this));
   }
 
+  async _processBlockByNumber (blockNumber: number): Promise<void> {
+    // Wait for a new head to push the block when subscribed to newHeads.
+    // Job-runner polls for the block (using blockDelayInMilliSecs) if the websocket is disconnected.
+    if (this._headTracker?.connected) {
+      const latestBlockNumber = this._headTracker.latestBlockNumber;
+
+      if (latestBlockNumber === undefined || blockNumber > latestBlockNumber) {
+        this._pendingBlockNumber = blockNumber;
+        return;
+      }
+    }
+
+    this._pendingBlockNumber = undefined;
+    await processBlockByNumber(this._jobQueue, blockNumber);
+  }
+
+  async _handleNewHead (blockNumber: number): Promise<void> {
+    // Push pending block if available at new head; blocks after it are processed in order on completion.
+    if (this._pendingBlockNumber !== undefined && this._pendingBlockNumber <= blockNumber) {
+      await this._processBlockByNumber(this._pendingBlockNumber);
+    }
+  }
+
+  async _handleHeadTrackerDisconnect (): Promise<void> {
+    // Fallback to polling for pending block.
+    if (this._pendingBlockNumber !== undefined) {
+      log(`Falling back to polling for block ${this._pendingBlockNumber}`);
+      await this._processBlockByNumber(this._pendingBlockNumber);
+    }
+  }
+
   async _processShutdown (): Promise<void> {
     this._shutDown = true;
     this._signalCount++;
 
+    // Close the newHeads subscription without reconnecting.
+    this._headTracker?.stop();
+
     if (this._signalCount >= 3 || process.env.YARN_CHILD_PROCESS === 'true') {
       // Forceful exit on receiving signal for the 3rd time or if job-runner is a child process of yarn.
       log('Forceful shutdown');
@@ -149,6 +322,11 @@ export class EventWatcher {
 
     const { data: { kind, blockHash } } = request;
 
+    if (kind === JOB_KIND_RESET) {
+      this._handleResetComplete(request.data);
+      return;
+    }
+
     // Ignore jobs other than JOB_KIND_EVENTS
     if (kind !== JOB_KIND_EVENTS) {
       return;
@@ -161,6 +339,11 @@ export class EventWatcher {
 
     await this.publishBlockProgressToSubscribers(blockProgress);
 
+    if (blockProgress.isComplete) {
+      await this.publishEntityChangesToSubscribers(blockProgress);
+      await this.publishBlockChangesetsToSubscribers(blockProgress);
+    }
+
     const dbEvents = await this._indexer.getBlockEvents(
       blockProgress.blockHash,
       {
@@ -209,6 +392,121 @@ export class EventWatcher {
     });
   }
 
+  async publishEntityChangesToSubscribers (blockProgress: BlockProgressInterface): Promise<void> {
+    if (!this._indexer.getBlockEntityChanges || !this._entityChangeSubscriptions.size) {
+      return;
+    }
+
+    const syncStatus = await this._indexer.getSyncStatus();
+    assert(syncStatus);
+
+    for (const confirmations of this._entityChangeSubscriptions.keys()) {
+      const blockNumber = blockProgress.blockNumber - confirmations;
+      let block: BlockProgressInterface | undefined;
+
+      if (blockNumber <= syncStatus.latestCanonicalBlockNumber) {
+        // Publish changes of the canonical block if the block at confirmation depth is pruned (finalized).
+        [block] = await this._indexer.getBlocksAtHeight(blockNumber, false);
+      } else {
+        // Publish changes of the block at confirmation depth in the branch of the completed block.
+        const blockHash = await this._indexer.getAncestorAtDepth(blockProgress.blockHash, confirmations);
+        block = await this._indexer.getBlockProgress(blockHash);
+      }
+
+      // Skip if the ancestor block is before the starting block.
+      if (!block || block.blockNumber !== blockNumber) {
+        continue;
+      }
+
+      // Skip if changes of the block have been published (completed sibling blocks have the same ancestors).
+      let publishedBlocks = this._entityChangeBlocks.get(confirmations);
+
+      if (!publishedBlocks) {
+        publishedBlocks = new Map();
+        this._entityChangeBlocks.set(confirmations, publishedBlocks);
+      }
+
+      if (publishedBlocks.has(block.blockHash)) {
+        continue;
+      }
+
+      publishedBlocks.set(block.blockHash, block.blockNumber);
+
+      // Forget blocks below the reorg depth as they will not be published again.
+      for (const [blockHash, publishedBlockNumber] of publishedBlocks) {
+        if (publishedBlockNumber < block.blockNumber - MAX_REORG_DEPTH) {
+          publishedBlocks.delete(blockHash);
+        }
+      }
+
+      const changes = await this._indexer.getBlockEntityChanges(block);
+      const entityChangesMap = _.groupBy(changes, change => change.entityType);
+
+      const payloadBlock: EntityChangeBlock = {
+        cid: block.cid,
+        hash: block.blockHash,
+        number: block.blockNumber,
+        timestamp: block.blockTimestamp,
+        parentHash: block.parentHash
+      };
+
+      for (const [entityType, entityChanges] of Object.entries(entityChangesMap)) {
+        const payload: BlockEntityChangesPayload = { block: payloadBlock, changes: entityChanges };
+
+        // Publishing the changes here will result in pushing the matching changes to GQL subscribers for `on<Entity>Changed`.
+        await this._pubsub.publish(`${ENTITY_CHANGE_EVENT}-${entityType}-${confirmations}`, payload);
+      }
+    }
+  }
+
+  async publishBlockChangesetsToSubscribers (blockProgress: BlockProgressInterface): Promise<void> {
+    if (!this._indexer.getBlockChangeset || !this._blockChangesetSubscriptions) {
+      this._lastChangesetBlock = undefined;
+      return;
+    }
+
+    const revertedBlocks: BlockProgressInterface[] = [];
+    let newBlocks: BlockProgressInterface[] = [blockProgress];
+
+    if (this._lastChangesetBlock) {
+      // Walk back the branches of the last published block and the completed block to their common ancestor.
+      // Blocks of the last published branch are reverted and blocks of the new branch are published in order.
+      let oldBranchBlock: BlockProgressInterface | undefined = this._lastChangesetBlock;
+      let newBranchBlock: BlockProgressInterface | undefined = blockProgress;
+      newBlocks = [];
+
+      for (let depth = 0; oldBranchBlock && newBranchBlock && oldBranchBlock.blockHash !== newBranchBlock.blockHash; depth++) {
+        if (depth > MAX_REORG_DEPTH) {
+          log(`Common ancestor of blocks ${this._lastChangesetBlock.blockHash} and ${blockProgress.blockHash} not found within max reorg depth`);
+          break;
+        }
+
+        if (newBranchBlock.blockNumber > oldBranchBlock.blockNumber) {
+          newBlocks.unshift(newBranchBlock);
+          newBranchBlock = await this._indexer.getBlockProgress(newBranchBlock.parentHash);
+        } else {
+          revertedBlocks.push(oldBranchBlock);
+          oldBranchBlock = await this._indexer.getBlockProgress(oldBranchBlock.parentHash);
+        }
+      }
+    }
+
+    for (const block of revertedBlocks) {
+      log(`Reverting changeset of block ${block.blockNumber} hash ${block.blockHash} removed in reorg`);
+      const changeset = await this._indexer.getBlockChangeset({ hash: block.blockHash }, true);
+
+      // Publishing the changeset here will result in pushing the payload to GQL subscribers for `_onBlockChangeset`.
+      await this._pubsub.publish(BLOCK_CHANGESET_EVENT, { _onBlockChangeset: changeset });
+    }
+
+    for (const block of newBlocks) {
+      const changeset = await this._indexer.getBlockChangeset({ hash: block.blockHash });
+      await this._pubsub.publish(BLOCK_CHANGESET_EVENT, { _onBlockChangeset: changeset });
+    }
+
+    this._lastChangesetBlock = blockProgress;
+  }
+
   async publishEventToSubscribers (dbEvent: EventInterface, timeElapsedInSeconds: number): Promise<void> {
     if (dbEvent && dbEvent.eventName !== UNKNOWN_EVENT_NAME) {
       const resultEvent = this._indexer.getResultEvent(dbEvent);
@@ -237,7 +535,9 @@ export class EventWatcher {
     log(`Job onComplete indexing block ${blockProgressEntities[0].blockHash} ${blockNumber}`);
 
     // Create pruning job if required.
-    if (syncStatus && syncStatus.latestIndexedBlockNumber > (syncStatus.latestCanonicalBlockNumber + MAX_REORG_DEPTH)) {
+    const pruningDepth = await this._indexer.getPruningDepth(syncStatus.latestIndexedBlockNumber);
+
+    if (syncStatus.latestIndexedBlockNumber > (syncStatus.latestCanonicalBlockNumber + pruningDepth)) {
       await createPruningJob(this._jobQueue, syncStatus.latestCanonicalBlockNumber, priority);
     }
   }
@@ -246,4 +546,17 @@ export class EventWatcher {
     const { pruneBlockHeight } = jobData;
     log(`Job onComplete pruning at height ${pruneBlockHeight}`);
   }
+
+  _handleResetComplete (jobData: any): void {
+    const { blockNumber } = jobData;
+    log(`Job onComplete watcher reset to block ${blockNumber}`);
+
+    // Entities cached by the server may belong to the rolled back blocks.
+    if (this._indexer.clearCachedEntities) {
+      this._indexer.clearCachedEntities();
+    }
+
+    // Changesets of the rolled back blocks cannot be reverted as their entities are removed.
+    this._lastChangesetBlock = undefined;
+  }
 }
@@ -0,0 +1,156 @@
+//
+// Copyright 2023 Vulcanize, Inc.
+//
+
+import assert from 'assert';
+import { expect } from 'chai';
+import 'mocha';
+import { FindOperator } from 'typeorm';
+
+import { fillBlocks } from './fill';
+import { JobQueue } from './job-queue';
+import { EventWatcher } from './events';
+import { BlockRangeProgressInterface, IndexerInterface, SyncStatusInterface } from './types';
+import { QUEUE_BLOCK_RANGE_PROCESSING } from './constants';
+import { getTestBlockProgress, getTestServerConfig, getTestSyncStatus } from '../test/utils';
+
+// Match a value with a where condition value of the DB query.
+const matchCondition = (value: number, condition: number | FindOperator<any>): boolean => {
+  if (!(condition instanceof FindOperator)) {
+    return value === condition;
+  }
+
+  switch (condition.type) {
+    case 'in':
+      return condition.value.includes(value);
+    case 'lessThanOrEqual':
+      return value <= condition.value;
+    case 'moreThanOrEqual':
+      return value >= condition.value;
+    default:
+      throw new Error(`Unsupported find operator ${condition.type}`);
+  }
+};
+
+describe('parallel fill', () => {
+  let blockRanges: BlockRangeProgressInterface[];
+  let syncStatus: SyncStatusInterface | undefined;
+  let pushedRangeIds: number[];
+  let onRangeComplete: (job: any) => Promise<void>;
+  let indexer: IndexerInterface;
+  let jobQueue: JobQueue;
+
+  const completeRange = async (rangeId: number) => {
+    const blockRange = blockRanges.find(({ id }) => id === rangeId);
+    assert(blockRange);
+    Object.assign(blockRange, { isComplete: true, lastProcessedBlockNumber: blockRange.endBlock });
+
+    await onRangeComplete({ data: { failed: false, request: { data: { rangeId } } } });
+  };
+
+  const waitForPushedJobs = async (count: number) => {
+    while (pushedRangeIds.length < count) {
+      await new Promise(resolve => setImmediate(resolve));
+    }
+  };
+
+  const fill = (startBlock: number, endBlock: number, rangeSize: number) => {
+    return fillBlocks(jobQueue, indexer, {} as EventWatcher, 0, { startBlock, endBlock, parallel: true, rangeSize });
+  };
+
+  beforeEach(() => {
+    blockRanges = [];
+    syncStatus = undefined;
+    pushedRangeIds = [];
+
+    indexer = {
+      serverConfig: getTestServerConfig(),
+      getSyncStatus: async () => syncStatus,
+      getBlockRangeProgressEntities: async (where: { [key: string]: any }, options: { order?: { startBlock: string } }) => {
+        const matchingRanges = blockRanges.filter(blockRange => {
+          return Object.entries(where).every(([key, condition]) => matchCondition((blockRange as any)[key], condition));
+        });
+
+        return options.order ? [...matchingRanges].sort((a, b) => a.startBlock - b.startBlock) : matchingRanges;
+      },
+      saveBlockRangeProgress: async (blockRange: Omit<BlockRangeProgressInterface, 'id'>) => {
+        const savedBlockRange = { ...blockRange, id: blockRanges.length + 1 };
+        blockRanges.push(savedBlockRange);
+
+        return savedBlockRange;
+      },
+      getBlocksAtHeight: async (height: number) => [getTestBlockProgress(height, `0xb${height}`, `0xb${height - 1}`)],
+      updateSyncStatusChainHead: async (blockHash: string, blockNumber: number) => {
+        syncStatus = getTestSyncStatus(getTestBlockProgress(blockNumber, blockHash, ''));
+      },
+      updateSyncStatusIndexedBlock: async (blockHash: string, blockNumber: number) => {
+        assert(syncStatus);
+        Object.assign(syncStatus, { latestIndexedBlockHash: blockHash, latestIndexedBlockNumber: blockNumber });
+      },
+      updateSyncStatusCanonicalBlock: async (blockHash: string, blockNumber: number) => {
+        assert(syncStatus);
+        Object.assign(syncStatus, { latestCanonicalBlockHash: blockHash, latestCanonicalBlockNumber: blockNumber });
+      }
+    } as unknown as IndexerInterface;
+
+    jobQueue = {
+      onComplete: async (queue: string, callback: (job: any) => Promise<void>) => {
+        expect(queue).to.equal(QUEUE_BLOCK_RANGE_PROCESSING);
+        onRangeComplete = callback;
+      },
+      pushJob: async (queue: string, data: { rangeId: number }) => { pushedRangeIds.push(data.rangeId); }
+    } as unknown as JobQueue;
+  });
+
+  it('should split blocks into ranges and save them', async () => {
+    const fillPromise = fill(1, 25, 10);
+    await waitForPushedJobs(3);
+
+    expect(blockRanges.map(({ startBlock, endBlock, lastProcessedBlockNumber }) => [startBlock, endBlock, lastProcessedBlockNumber])).to.deep.equal([
+      [1, 10, 0],
+      [11, 20, 10],
+      [21, 25, 20]
+    ]);
+    expect(pushedRangeIds).to.deep.equal([1, 2, 3]);
+
+    for (const rangeId of pushedRangeIds) {
+      await completeRange(rangeId);
+    }
+
+    await fillPromise;
+  });
+
+  it('should resume skipping completed ranges and blocks covered by saved ranges', async () => {
+    blockRanges = [
+      { id: 1, startBlock: 1, endBlock: 10, lastProcessedBlockNumber: 10, isComplete: true },
+      { id: 2, startBlock: 11, endBlock: 20, lastProcessedBlockNumber: 15, isComplete: false }
+    ];
+
+    // Run again with a different range size.
+    const fillPromise = fill(1, 30, 4);
+    await waitForPushedJobs(4);
+
+    // Only blocks not covered by the saved ranges are split.
+    expect(blockRanges.slice(2).map(({ startBlock, endBlock }) => [startBlock, endBlock])).to.deep.equal([[21, 24], [25, 28], [29, 30]]);
+    expect(pushedRangeIds).to.deep.equal([2, 3, 4, 5]);
+
+    for (const rangeId of pushedRangeIds) {
+      await completeRange(rangeId);
+    }
+
+    await fillPromise;
+  });
+
+  it('should update sync status only after all ranges are complete', async () => {
+    const fillPromise = fill(1, 20, 10);
+    await waitForPushedJobs(2);
+
+    await completeRange(1);
+    expect(syncStatus).to.equal(undefined);
+
+    await completeRange(2);
+    await fillPromise;
+
+    expect(syncStatus).to.deep.include({ chainHeadBlockNumber: 20, latestIndexedBlockNumber: 20, latestCanonicalBlockNumber: 20 });
+  });
+});
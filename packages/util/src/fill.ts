@@ -2,13 +2,15 @@
 // Copyright 2021 Vulcanize, Inc.
 //
 
+import assert from 'assert';
 import debug from 'debug';
+import { In, LessThanOrEqual, MoreThanOrEqual } from 'typeorm';
 
 import { JobQueue } from './job-queue';
-import { IndexerInterface } from './types';
+import { BlockRangeProgressInterface, IndexerInterface } from './types';
 import { wait } from './misc';
 import { processBlockByNumber } from './common';
-import { DEFAULT_PREFETCH_BATCH_SIZE } from './constants';
+import { DEFAULT_FILL_RANGE_SIZE, DEFAULT_PREFETCH_BATCH_SIZE, QUEUE_BLOCK_RANGE_PROCESSING } from './constants';
 import { EventWatcher } from './events';
 
 const log = debug('vulcanize:fill');
@@ -23,14 +25,25 @@ export const fillBlocks = async (
     endBlock: number,
     prefetch?: boolean,
     batchBlocks?: number,
+    parallel?: boolean,
+    rangeSize?: number
   }
 ): Promise<any> => {
-  let { startBlock, endBlock, prefetch = false, batchBlocks = DEFAULT_PREFETCH_BATCH_SIZE } = argv;
+  let { startBlock, endBlock, prefetch = false, batchBlocks = DEFAULT_PREFETCH_BATCH_SIZE, parallel = false, rangeSize = DEFAULT_FILL_RANGE_SIZE } = argv;
 
   if (startBlock > endBlock) {
     throw new Error(`endBlock ${endBlock} should be greater than or equal to startBlock ${startBlock}`);
   }
 
+  if (parallel) {
+    if (prefetch) {
+      throw new Error('Prefetch mode is not supported with parallel fill');
+    }
+
+    await fillBlocksInParallel(jobQueue, indexer, { startBlock, endBlock, rangeSize });
+    return;
+  }
+
   const syncStatus = await indexer.getSyncStatus();
 
   if (prefetch) {
@@ -93,6 +106,158 @@ export const fillBlocks = async (
   console.timeEnd('time:fill#fillBlocks-process_blocks');
 };
 
+/**
+ * Method to fill blocks by splitting them into ranges processed in parallel by job-runner workers.
+ * Progress of the ranges is saved in the DB and running fill again over the same blocks resumes it (with any range size).
+ * @param jobQueue
+ * @param indexer
+ * @param argv
+ */
+const fillBlocksInParallel = async (
+  jobQueue: JobQueue,
+  indexer: IndexerInterface,
+  { startBlock, endBlock, rangeSize }: {
+    startBlock: number,
+    endBlock: number,
+    rangeSize: number
+  }
+): Promise<void> => {
+  // Blocks can be indexed out of order only if indexing a block does not depend on the previous blocks.
+  if (indexer.serverConfig.enableState || indexer.serverConfig.subgraphPath) {
+    throw new Error('Parallel fill is not supported for watchers with state or subgraph');
+  }
+
+  if (rangeSize <= 0) {
+    throw new Error(`Invalid rangeSize ${rangeSize}`);
+  }
+
+  const syncStatus = await indexer.getSyncStatus();
+
+  if (syncStatus && startBlock > syncStatus.latestIndexedBlockNumber + 1) {
+    throw new Error(`Missing blocks between startBlock ${startBlock} and latestIndexedBlockNumber ${syncStatus.latestIndexedBlockNumber}`);
+  }
+
+  assert(indexer.getBlockRangeProgressEntities);
+  assert(indexer.saveBlockRangeProgress);
+  const blockRanges: BlockRangeProgressInterface[] = [];
+
+  // Reuse the ranges saved in a previous run overlapping the blocks to be filled (run with any range size).
+  const savedBlockRanges = await indexer.getBlockRangeProgressEntities(
+    { startBlock: LessThanOrEqual(endBlock), endBlock: MoreThanOrEqual(startBlock) },
+    { order: { startBlock: 'ASC' } }
+  );
+
+  // Split blocks not covered by the saved ranges into new ranges.
+  let nextBlock = startBlock;
+
+  for (const savedBlockRange of [...savedBlockRanges, undefined]) {
+    const gapEndBlock = savedBlockRange ? Math.min(savedBlockRange.startBlock - 1, endBlock) : endBlock;
+
+    for (let rangeStartBlock = nextBlock; rangeStartBlock <= gapEndBlock; rangeStartBlock += rangeSize) {
+      const blockRange = await indexer.saveBlockRangeProgress({
+        startBlock: rangeStartBlock,
+        endBlock: Math.min(rangeStartBlock + rangeSize - 1, gapEndBlock),
+        lastProcessedBlockNumber: rangeStartBlock - 1,
+        isComplete: false
+      });
+
+      blockRanges.push(blockRange);
+    }
+
+    if (savedBlockRange) {
+      blockRanges.push(savedBlockRange);
+      nextBlock = Math.max(nextBlock, savedBlockRange.endBlock + 1);
+    }
+  }
+
+  const blockRangeIds = blockRanges.map(({ id }) => id);
+  const pendingRangeIds = new Set(blockRanges.filter(({ isComplete }) => !isComplete).map(({ id }) => id));
+  log(`Filling blocks in ${blockRanges.length} ranges, ${pendingRangeIds.size} ranges pending`);
+
+  console.time('time:fill#fillBlocksInParallel-process_blocks');
+
+  if (pendingRangeIds.size) {
+    let resolveFill: () => void;
+    let rejectFill: (error: Error) => void;
+
+    const fillComplete = new Promise<void>((resolve, reject) => {
+      resolveFill = resolve;
+      rejectFill = reject;
+    });
+
+    await jobQueue.onComplete(QUEUE_BLOCK_RANGE_PROCESSING, async (job) => {
+      const { data: { failed, request: { data: { rangeId } } } } = job;
+
+      if (failed) {
+        rejectFill(new Error(`Job for block range ${rangeId} failed, run fill again to resume`));
+        return;
+      }
+
+      pendingRangeIds.delete(rangeId);
+      log(`Processed ${blockRanges.length - pendingRangeIds.size} of ${blockRanges.length} block ranges`);
+
+      if (!pendingRangeIds.size) {
+        resolveFill();
+      }
+    });
+
+    // Push a job for each pending range to be picked up by the job-runner workers.
+    for (const rangeId of pendingRangeIds) {
+      await jobQueue.pushJob(QUEUE_BLOCK_RANGE_PROCESSING, { rangeId }, { singletonKey: String(rangeId) });
+    }
+
+    await fillComplete;
+  }
+
+  // SyncStatus is updated only after all the ranges are complete as blocks in a range are indexed out of order with other ranges.
+  await stitchSyncStatus(indexer, blockRangeIds);
+
+  log('Processed all block ranges (100%)');
+  console.timeEnd('time:fill#fillBlocksInParallel-process_blocks');
+};
+
+/**
+ * Method to update SyncStatus to the end of the completed block ranges without gaps from the start.
+ * @param indexer
+ * @param blockRangeIds
+ */
+const stitchSyncStatus = async (indexer: IndexerInterface, blockRangeIds: number[]): Promise<void> => {
+  assert(indexer.getBlockRangeProgressEntities);
+  const blockRanges = await indexer.getBlockRangeProgressEntities({ id: In(blockRangeIds) }, { order: { startBlock: 'ASC' } });
+
+  let stitchedBlockNumber: number | undefined;
+
+  for (const blockRange of blockRanges) {
+    if (!blockRange.isComplete) {
+      break;
+    }
+
+    stitchedBlockNumber = blockRange.endBlock;
+  }
+
+  if (stitchedBlockNumber === undefined) {
+    return;
+  }
+
+  const syncStatus = await indexer.getSyncStatus();
+
+  if (!syncStatus) {
+    // Create SyncStatus with the first filled block as the initial block.
+    const [firstBlock] = await indexer.getBlocksAtHeight(blockRanges[0].startBlock, false);
+    assert(firstBlock, `Block ${blockRanges[0].startBlock} not indexed`);
+    await indexer.updateSyncStatusChainHead(firstBlock.blockHash, firstBlock.blockNumber);
+  }
+
+  const [block] = await indexer.getBlocksAtHeight(stitchedBlockNumber, false);
+  assert(block, `Block ${stitchedBlockNumber} not indexed`);
+
+  // Filled blocks are assumed to be final and are marked canonical.
+  await indexer.updateSyncStatusChainHead(block.blockHash, block.blockNumber);
+  await indexer.updateSyncStatusIndexedBlock(block.blockHash, block.blockNumber);
+  await indexer.updateSyncStatusCanonicalBlock(block.blockHash, block.blockNumber);
+  log(`SyncStatus updated to block ${block.blockNumber}`);
+};
+
 const prefetchBlocks = async (
   indexer: IndexerInterface,
   blockDelayInMilliSecs: number,
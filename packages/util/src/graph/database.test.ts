@@ -0,0 +1,266 @@
+//
+// Copyright 2023 Vulcanize, Inc.
+//
+
+import { expect } from 'chai';
+import 'mocha';
+import _ from 'lodash';
+import { Column, Connection, Entity, FindConditions, FindOperator, PrimaryColumn, QueryRunner } from 'typeorm';
+
+import { Database } from '../database';
+import { EntityChangeOperation, GraphDatabase } from './database';
+import { BlockProgressInterface, FileDataSourceInterface } from '../types';
+import { getTestConnection, getTestServerConfig } from '../../test/utils';
+
+@Entity()
+class Author {
+  @PrimaryColumn('varchar')
+    id!: string;
+
+  @PrimaryColumn('varchar')
+    blockHash!: string;
+
+  @Column('integer')
+    blockNumber!: number;
+
+  @Column('boolean', { default: false })
+    isPruned!: boolean;
+
+  @Column('boolean', { default: false })
+    isRemoved!: boolean;
+
+  @Column('varchar')
+    name!: string;
+
+  @Column('tsvector', { select: false })
+    authorSearch!: string;
+}
+
+@Entity()
+class AuthorLatest {
+  @PrimaryColumn('varchar')
+    id!: string;
+
+  @Column('varchar')
+    blockHash!: string;
+
+  @Column('integer')
+    blockNumber!: number;
+
+  @Column('varchar')
+    name!: string;
+}
+
+const getAuthor = (id: string, blockNumber: number, name: string, isRemoved = false): Author => {
+  return Object.assign(new Author(), { id, blockHash: `0xb${blockNumber}`, blockNumber, isPruned: false, isRemoved, name });
+};
+
+// Get raw result row of an entity selected with the query alias.
+const toRawResult = (alias: string, author: Author): { [key: string]: any } => {
+  return _.mapKeys(author, (value, key) => `${alias}_${_.snakeCase(key)}`);
+};
+
+// Match a value with a where condition value of the repository methods.
+const matchCondition = (value: any, condition: any): boolean => {
+  if (!(condition instanceof FindOperator)) {
+    return value === condition;
+  }
+
+  switch (condition.type) {
+    case 'in':
+      return condition.value.includes(value);
+    case 'moreThan':
+      return value !== null && value > condition.value;
+    default:
+      throw new Error(`Unsupported find operator ${condition.type}`);
+  }
+};
+
+describe('graph database', () => {
+  let conn: Connection;
+  let baseDatabase: Database;
+  let graphDatabase: GraphDatabase;
+  let queryRunner: QueryRunner;
+
+  // Results returned for the queries run in order and the parameters of the queries.
+  let queryResults: any[][];
+  let queryParameters: any[][];
+
+  before(async () => {
+    conn = await getTestConnection([Author, AuthorLatest]);
+
+    // Query runner returning the test results without connecting to the database.
+    queryRunner = conn.createQueryRunner();
+    queryRunner.query = (async (query: string, parameters: any[] = [], useStructuredResult = false) => {
+      queryParameters.push(parameters);
+      const records = queryResults.shift() ?? [];
+
+      // Query builders get structured results.
+      return useStructuredResult ? { records, raw: records } : records;
+    }) as QueryRunner['query'];
+
+    baseDatabase = new Database({ type: 'postgres' });
+    baseDatabase._conn = conn;
+    graphDatabase = new GraphDatabase(getTestServerConfig(), baseDatabase);
+  });
+
+  beforeEach(() => {
+    queryResults = [];
+    queryParameters = [];
+  });
+
+  after(async () => {
+    await baseDatabase._pgPool.end();
+  });
+
+  it('should search fulltext documents with the given web search text', async () => {
+    const author = getAuthor('0x1', 9, 'john doe');
+    queryResults = [[toRawResult('author', author)]];
+
+    const entities = await graphDatabase.searchEntities(
+      queryRunner,
+      Author,
+      new Map(),
+      { field: 'authorSearch', text: '"john doe" or -jane', language: 'english', algorithm: 'proximityRank' },
+      { number: 10 }
+    );
+
+    // Entity block fields are removed for the GQL result.
+    expect(entities).to.deep.equal([_.omit(author, ['blockHash', 'blockNumber'])]);
+
+    // Search text is passed as is to be parsed by the database.
+    expect(queryParameters).to.have.lengthOf(1);
+    expect(queryParameters[0]).to.include.members(['english', '"john doe" or -jane', 10]);
+  });
+
+  it('should return entities at the block from the lateral query columns', async () => {
+    // Raw result columns from the lateral subquery are prefixed with its alias.
+    const author = getAuthor('0x1', 1, 'at block');
+    queryResults = [[{ id: '0x1', block_hash: '0xb2', block_number: 2, name: 'latest', ...toRawResult('subTable', author) }]];
+
+    const entities = await graphDatabase.getEntitiesLateral(queryRunner, Author, AuthorLatest, { number: 1 });
+
+    expect(entities).to.deep.equal([author]);
+  });
+
+  it('should return unique entities at a block in the frothy region', async () => {
+    const authors = [getAuthor('0x1', 8, 'canonical'), getAuthor('0x2', 10, 'frothy')];
+
+    queryResults = [
+      // Blocks in the frothy region.
+      [{ block_hash: '0xb10', block_number: 10 }, { block_hash: '0xb9', block_number: 9 }],
+      authors.map(author => toRawResult('author', author))
+    ];
+
+    const entities = await graphDatabase.getEntitiesUnique(queryRunner, Author, { hash: '0xb10' });
+
+    expect(entities).to.deep.equal(authors);
+    expect(queryParameters[0]).to.deep.equal(['0xb10', 16]);
+  });
+
+  it('should get entity changes of a block with the previous versions fetched in a single query', async () => {
+    const updated = getAuthor('0x1', 10, 'updated');
+    const created = getAuthor('0x2', 10, 'created');
+    const removed = getAuthor('0x3', 10, 'removed', true);
+    const createdAndRemoved = getAuthor('0x4', 10, 'created and removed', true);
+
+    const old = getAuthor('0x1', 9, 'old');
+    const beforeRemoved = getAuthor('0x3', 5, 'removed');
+
+    queryResults = [
+      // Blocks in the frothy region of the parent block.
+      [{ block_hash: '0xb9', block_number: 9 }, { block_hash: '0xb8', block_number: 8 }],
+      // Entities changed in the block.
+      [updated, created, removed, createdAndRemoved].map(author => toRawResult('Author', author)),
+      // Previous versions of the entities.
+      [old, beforeRemoved].map(author => toRawResult('entity', author))
+    ];
+
+    const block = { blockHash: '0xb10', blockNumber: 10, parentHash: '0xb9' } as BlockProgressInterface;
+    const changes = await graphDatabase.getBlockEntityChanges(queryRunner, ['Author'], block, true);
+
+    expect(changes).to.deep.equal([
+      {
+        entityType: 'Author',
+        id: '0x1',
+        operation: EntityChangeOperation.update,
+        before: { id: '0x1', blockHash: '0xb9', blockNumber: 9, name: 'old' },
+        after: { id: '0x1', blockHash: '0xb10', blockNumber: 10, name: 'updated' }
+      },
+      {
+        entityType: 'Author',
+        id: '0x2',
+        operation: EntityChangeOperation.create,
+        before: undefined,
+        after: { id: '0x2', blockHash: '0xb10', blockNumber: 10, name: 'created' }
+      },
+      {
+        entityType: 'Author',
+        id: '0x3',
+        operation: EntityChangeOperation.remove,
+        before: { id: '0x3', blockHash: '0xb5', blockNumber: 5, name: 'removed' }
+      }
+    ]);
+
+    // Queries for the frothy region, the changed entities and their previous versions.
+    expect(queryResults).to.have.lengthOf(0);
+    expect(queryParameters).to.have.lengthOf(3);
+  });
+});
+
+describe('graph database file data sources', () => {
+  let graphDatabase: GraphDatabase;
+  let queryRunner: QueryRunner;
+  let fileDataSources: FileDataSourceInterface[];
+
+  const getFileDataSource = (id: number, blockNumber: number, processedBlockNumber: number | null): FileDataSourceInterface => {
+    return { id, kind: 'file/ipfs', cid: `cid${id}`, contractAddress: '', blockHash: `0xb${blockNumber}`, blockNumber, processedBlockNumber };
+  };
+
+  const matchWhere = (fileDataSource: FileDataSourceInterface, where: FindConditions<FileDataSourceInterface>) => {
+    return Object.entries(where).every(([key, condition]) => matchCondition(fileDataSource[key as keyof FileDataSourceInterface], condition));
+  };
+
+  before(() => {
+    // Repository applying the delete and update conditions on the test file data sources.
+    const repo = {
+      delete: async (where: FindConditions<FileDataSourceInterface>) => {
+        fileDataSources = fileDataSources.filter(fileDataSource => !matchWhere(fileDataSource, where));
+      },
+      update: async (where: FindConditions<FileDataSourceInterface>, values: Partial<FileDataSourceInterface>) => {
+        fileDataSources.filter(fileDataSource => matchWhere(fileDataSource, where))
+          .forEach(fileDataSource => Object.assign(fileDataSource, values));
+      }
+    };
+
+    queryRunner = { manager: { getRepository: () => repo } } as unknown as QueryRunner;
+    graphDatabase = new GraphDatabase(getTestServerConfig(), {} as Database);
+  });
+
+  beforeEach(() => {
+    fileDataSources = [
+      getFileDataSource(1, 5, 8),
+      getFileDataSource(2, 8, 11),
+      getFileDataSource(3, 11, null),
+      getFileDataSource(4, 12, 12)
+    ];
+  });
+
+  it('should remove file data sources created after the reset block and mark the ones processed after it as pending', async () => {
+    await graphDatabase.resetFileDataSources(queryRunner, 10);
+
+    expect(fileDataSources).to.deep.equal([getFileDataSource(1, 5, 8), getFileDataSource(2, 8, null)]);
+  });
+
+  it('should remove file data sources created in pruned blocks', async () => {
+    await graphDatabase.pruneFileDataSources(queryRunner, ['0xb8', '0xb12']);
+
+    expect(fileDataSources.map(({ id }) => id)).to.deep.equal([1, 3]);
+  });
+
+  it('should revert file data sources created or processed in a block', async () => {
+    await graphDatabase.revertFileDataSources(queryRunner, '0xb11', 11);
+
+    expect(fileDataSources).to.deep.equal([getFileDataSource(1, 5, 8), getFileDataSource(2, 8, null), getFileDataSource(4, 12, 12)]);
+  });
+});
@@ -8,6 +8,7 @@ import {
   Connection,
   FindOneOptions,
   In,
+  IsNull,
   LessThanOrEqual,
   MoreThan,
   QueryRunner,
@@ -22,8 +23,8 @@ import { SelectionNode } from 'graphql';
 import _ from 'lodash';
 import debug from 'debug';
 
-import { BlockHeight, Database as BaseDatabase, QueryOptions, Where } from '../database';
-import { BlockProgressInterface } from '../types';
+import { BlockHeight, CanonicalBlockHeight, Database as BaseDatabase, FulltextSearch, QueryOptions, Where } from '../database';
+import { BlockProgressInterface, FileDataSourceInterface, IndexingErrorInterface } from '../types';
 import { cachePrunedEntitiesCount, eventProcessingLoadEntityCacheHitCount, eventProcessingLoadEntityCount, eventProcessingLoadEntityDBQueryDuration } from '../metrics';
 import { ServerConfig } from '../config';
 import { Block, fromEntityValue, getLatestEntityFromEntity, resolveEntityFieldConflicts, toEntityValue } from './utils';
@@ -34,6 +35,10 @@ const log = debug('vulcanize:graph-database');
 export const DEFAULT_LIMIT = 100;
 const DEFAULT_CLEAR_ENTITIES_CACHE_INTERVAL = 1000;
 
+const FILE_DATA_SOURCE_ENTITY = 'FileDataSource';
+const INDEXING_ERROR_ENTITY = 'IndexingError';
+const FROTHY_ENTITY = 'FrothyEntity';
+
 export enum ENTITY_QUERY_TYPE {
   SINGULAR,
   DISTINCT_ON,
@@ -41,6 +46,20 @@ export enum ENTITY_QUERY_TYPE {
   UNIQUE,
 }
 
+export enum EntityChangeOperation {
+  create = 'create',
+  update = 'update',
+  remove = 'remove'
+}
+
+export interface EntityChange {
+  entityType: string;
+  id: string;
+  operation: EntityChangeOperation;
+  before?: { [key: string]: any };
+  after?: { [key: string]: any };
+}
+
 interface CachedEntities {
   frothyBlocks: Map<
     string,
@@ -84,6 +103,8 @@ export class GraphDatabase {
   async init (): Promise<void> {
     this._conn = this._baseDatabase.conn;
     assert(this._conn);
+
+    await this._createFulltextIndexes();
   }
 
   async close (): Promise<void> {
@@ -179,7 +200,9 @@ export class GraphDatabase {
       }
 
       const entity = await this.getModelEntity(repo, whereOptions);
-      return entity;
+
+      // Entity is removed if the latest version is a tombstone.
+      return entity?.isRemoved ? undefined : entity;
     } catch (error) {
       log(error);
       throw error;
@@ -248,6 +271,10 @@ export class GraphDatabase {
       entityData = await this._baseDatabase.getPrevEntityVersion(queryRunner, repo, findOptions);
     }
 
+    if (entityData?.isRemoved) {
+      return undefined;
+    }
+
     // Get relational fields
     if (entityData) {
       entityData = await this.loadEntityRelations(queryRunner, block, relationsMap, entityType, entityData, selections);
@@ -412,6 +439,99 @@ export class GraphDatabase {
     return entities;
   }
 
+  async searchEntities<Entity extends ObjectLiteral> (
+    queryRunner: QueryRunner,
+    entityType: new () => Entity,
+    relationsMap: Map<any, { [key: string]: any }>,
+    fulltextSearch: FulltextSearch,
+    block: BlockHeight = {},
+    where: Where = {},
+    queryOptions: QueryOptions = {},
+    selections: ReadonlyArray<SelectionNode> = []
+  ): Promise<Entity[]> {
+    const repo = queryRunner.manager.getRepository(entityType);
+    const { tableName } = repo.metadata;
+    const latestEntityType = this._entityToLatestEntityMap.get(entityType);
+
+    let selectQueryBuilder = repo.createQueryBuilder(tableName);
+    let canonicalBlock: CanonicalBlockHeight = block;
+
+    if (latestEntityType && !Object.keys(block).length) {
+      // Use latest entity table for latest versions of the entities.
+      selectQueryBuilder = selectQueryBuilder.innerJoin(
+        latestEntityType,
+        'latest',
+        `latest.id = ${tableName}.id AND latest.blockHash = ${tableName}.blockHash`
+      );
+    } else {
+      let subQuery = repo.createQueryBuilder('subTable')
+        .select('subTable.id', 'id')
+        .addSelect('MAX(subTable.block_number)', 'block_number')
+        .where('subTable.is_pruned = :isPruned', { isPruned: false })
+        .groupBy('subTable.id');
+
+      if (block.hash) {
+        const { canonicalBlockNumber, blockHashes } = await this._baseDatabase.getFrothyRegion(queryRunner, block.hash);
+        canonicalBlock = { ...block, canonicalBlockNumber, blockHashes };
+
+        subQuery = subQuery
+          .andWhere(new Brackets(qb => {
+            qb.where('subTable.block_hash IN (:...blockHashes)', { blockHashes })
+              .orWhere('subTable.block_number <= :canonicalBlockNumber', { canonicalBlockNumber });
+          }));
+      }
+
+      if (block.number) {
+        subQuery = subQuery.andWhere('subTable.block_number <= :blockNumber', { blockNumber: block.number });
+      }
+
+      selectQueryBuilder = selectQueryBuilder
+        .innerJoin(
+          `(${subQuery.getQuery()})`,
+          'latestEntities',
+          `${tableName}.id = "latestEntities"."id" AND ${tableName}.block_number = "latestEntities"."block_number"`
+        )
+        .setParameters(subQuery.getParameters());
+    }
+
+    selectQueryBuilder = selectQueryBuilder.andWhere(`${tableName}.is_removed = false`);
+
+    // Match the tsvector column with the search text and order by rank.
+    const columnMetadata = repo.metadata.findColumnWithPropertyName(fulltextSearch.field);
+    assert(columnMetadata);
+    const documentColumn = `"${tableName}"."${columnMetadata.databaseName}"`;
+    // Parse the search text as web search syntax as raw text can be an invalid tsquery.
+    const tsQuery = 'websearch_to_tsquery(:fulltextLanguage, :fulltextText)';
+    const rankFunction = fulltextSearch.algorithm === 'proximityRank' ? 'ts_rank_cd' : 'ts_rank';
+
+    selectQueryBuilder = selectQueryBuilder
+      .andWhere(`${documentColumn} @@ ${tsQuery}`, { fulltextLanguage: fulltextSearch.language, fulltextText: fulltextSearch.text })
+      .addOrderBy(`${rankFunction}(${documentColumn}, ${tsQuery})`, 'DESC');
+
+    selectQueryBuilder = this._baseDatabase.buildQuery(repo, selectQueryBuilder, where, undefined, canonicalBlock);
+    selectQueryBuilder = this._baseDatabase.orderQuery(repo, selectQueryBuilder, { orderBy: 'id' });
+
+    if (queryOptions.skip) {
+      selectQueryBuilder = selectQueryBuilder.offset(queryOptions.skip);
+    }
+
+    if (queryOptions.limit) {
+      selectQueryBuilder = selectQueryBuilder.limit(queryOptions.limit);
+    }
+
+    let entities = await selectQueryBuilder.getMany();
+
+    if (!entities.length) {
+      return [];
+    }
+
+    entities = await this.loadEntitiesRelations(queryRunner, block, relationsMap, entityType, entities, selections);
+    // Resolve any field name conflicts in the entity result.
+    entities = entities.map(entity => resolveEntityFieldConflicts(entity));
+
+    return entities;
+  }
+
   async getEntitiesGroupBy<Entity extends ObjectLiteral> (
     queryRunner: QueryRunner,
     entityType: new () => Entity,
@@ -433,8 +553,11 @@ export class GraphDatabase {
       delete where.id;
     }
 
+    let canonicalBlock: CanonicalBlockHeight = block;
+
     if (block.hash) {
       const { canonicalBlockNumber, blockHashes } = await this._baseDatabase.getFrothyRegion(queryRunner, block.hash);
+      canonicalBlock = { ...block, canonicalBlockNumber, blockHashes };
 
       subQuery = subQuery
         .andWhere(new Brackets(qb => {
@@ -453,9 +576,10 @@ export class GraphDatabase {
         'latestEntities',
         `${tableName}.id = "latestEntities"."id" AND ${tableName}.block_number = "latestEntities"."block_number"`
       )
-      .setParameters(subQuery.getParameters());
+      .setParameters(subQuery.getParameters())
+      .andWhere(`${tableName}.is_removed = false`);
 
-    selectQueryBuilder = this._baseDatabase.buildQuery(repo, selectQueryBuilder, where);
+    selectQueryBuilder = this._baseDatabase.buildQuery(repo, selectQueryBuilder, where, undefined, canonicalBlock);
 
     if (queryOptions.orderBy) {
       selectQueryBuilder = this._baseDatabase.orderQuery(repo, selectQueryBuilder, queryOptions);
@@ -496,8 +620,11 @@ export class GraphDatabase {
       delete where.id;
     }
 
+    let canonicalBlock: CanonicalBlockHeight = block;
+
     if (block.hash) {
       const { canonicalBlockNumber, blockHashes } = await this._baseDatabase.getFrothyRegion(queryRunner, block.hash);
+      canonicalBlock = { ...block, canonicalBlockNumber, blockHashes };
 
       subQuery = subQuery
         .andWhere(new Brackets(qb => {
@@ -510,14 +637,15 @@ export class GraphDatabase {
       subQuery = subQuery.andWhere('subTable.block_number <= :blockNumber', { blockNumber: block.number });
     }
 
-    subQuery = this._baseDatabase.buildQuery(repo, subQuery, where);
+    subQuery = this._baseDatabase.buildQuery(repo, subQuery, where, undefined, canonicalBlock);
 
     let selectQueryBuilder = queryRunner.manager.createQueryBuilder()
       .from(
         `(${subQuery.getQuery()})`,
         'latestEntities'
       )
-      .setParameters(subQuery.getParameters()) as SelectQueryBuilder<Entity>;
+      .setParameters(subQuery.getParameters())
+      .where('"latestEntities"."subTable_is_removed" = false') as SelectQueryBuilder<Entity>;
 
     if (queryOptions.orderBy) {
       selectQueryBuilder = this._baseDatabase.orderQuery(repo, selectQueryBuilder, queryOptions, 'subTable_');
@@ -554,8 +682,11 @@ export class GraphDatabase {
       .addOrderBy(`${tableName}.block_number`, 'DESC')
       .limit(1);
 
+    let canonicalBlock: CanonicalBlockHeight = block;
+
     if (block.hash) {
       const { canonicalBlockNumber, blockHashes } = await this._baseDatabase.getFrothyRegion(queryRunner, block.hash);
+      canonicalBlock = { ...block, canonicalBlockNumber, blockHashes };
 
       selectQueryBuilder = selectQueryBuilder
         .andWhere(new Brackets(qb => {
@@ -568,11 +699,12 @@ export class GraphDatabase {
       selectQueryBuilder = selectQueryBuilder.andWhere(`${tableName}.block_number <= :blockNumber`, { blockNumber: block.number });
     }
 
-    selectQueryBuilder = this._baseDatabase.buildQuery(repo, selectQueryBuilder, where);
+    selectQueryBuilder = this._baseDatabase.buildQuery(repo, selectQueryBuilder, where, undefined, canonicalBlock);
 
     const entities = await selectQueryBuilder.getMany();
 
-    return entities as Entity[];
+    // Exclude entity if the latest version is a tombstone.
+    return entities.filter(entity => !entity.isRemoved) as Entity[];
   }
 
   async getEntitiesUnique<Entity extends ObjectLiteral> (
@@ -588,8 +720,11 @@ export class GraphDatabase {
     let selectQueryBuilder = repo.createQueryBuilder(tableName)
       .where('is_pruned = :isPruned', { isPruned: false });
 
+    let canonicalBlock: CanonicalBlockHeight = block;
+
     if (block.hash) {
       const { canonicalBlockNumber, blockHashes } = await this._baseDatabase.getFrothyRegion(queryRunner, block.hash);
+      canonicalBlock = { ...block, canonicalBlockNumber, blockHashes };
 
       selectQueryBuilder = selectQueryBuilder
         .andWhere(new Brackets(qb => {
@@ -602,7 +737,19 @@ export class GraphDatabase {
       selectQueryBuilder = selectQueryBuilder.andWhere(`${tableName}.block_number <= :blockNumber`, { blockNumber: block.number });
     }
 
-    selectQueryBuilder = this._baseDatabase.buildQuery(repo, selectQueryBuilder, where);
+    // Exclude entities having a tombstone version after the entity version at the block.
+    // Entities re-created after removal have a version newer than the tombstone.
+    let removedQuery = repo.createQueryBuilder('removed')
+      .select('1')
+      .where(`removed.id = ${tableName}.id`)
+      .andWhere('removed.is_removed = true')
+      .andWhere('removed.is_pruned = false')
+      .andWhere(`removed.block_number > ${tableName}.block_number`);
+
+    removedQuery = this._baseDatabase.buildBlockConstraint(removedQuery, 'removed', canonicalBlock);
+    selectQueryBuilder = selectQueryBuilder.andWhere(`NOT EXISTS (${removedQuery.getQuery()})`, removedQuery.getParameters());
+
+    selectQueryBuilder = this._baseDatabase.buildQuery(repo, selectQueryBuilder, where, undefined, canonicalBlock);
 
     if (queryOptions.orderBy) {
       selectQueryBuilder = this._baseDatabase.orderQuery(repo, selectQueryBuilder, queryOptions);
@@ -655,7 +802,17 @@ export class GraphDatabase {
           latestEntity,
           'latest',
           `latest.id = ${repo.metadata.tableName}.id AND latest.blockHash = ${repo.metadata.tableName}.blockHash`
-        );
+        )
+        .where(`${repo.metadata.tableName}.is_removed = false`);
+    } else {
+      // Exclude latest entities which are tombstone versions.
+      const removedQuery = entityRepo.createQueryBuilder('removed')
+        .select('1')
+        .where('removed.id = latest.id')
+        .andWhere('removed.block_hash = latest.block_hash')
+        .andWhere('removed.is_removed = true');
+
+      selectQueryBuilder = selectQueryBuilder.where(`NOT EXISTS (${removedQuery.getQuery()})`);
     }
 
     selectQueryBuilder = this._baseDatabase.buildQuery(repo, selectQueryBuilder, where, 'latest');
@@ -694,8 +851,11 @@ export class GraphDatabase {
       .orderBy('subTable.block_number', 'DESC')
       .limit(1);
 
+    let canonicalBlock: CanonicalBlockHeight = block;
+
     if (block.hash) {
       const { canonicalBlockNumber, blockHashes } = await this._baseDatabase.getFrothyRegion(queryRunner, block.hash);
+      canonicalBlock = { ...block, canonicalBlockNumber, blockHashes };
 
       subQuery = subQuery
         .andWhere(new Brackets(qb => {
@@ -718,9 +878,10 @@ export class GraphDatabase {
           return qb;
         },
         'result'
-      ) as SelectQueryBuilder<Entity>;
+      )
+      .where('"result"."subTable_is_removed" = false') as SelectQueryBuilder<Entity>;
 
-    selectQueryBuilder = this._baseDatabase.buildQuery(latestEntityRepo, selectQueryBuilder, where, 'latest');
+    selectQueryBuilder = this._baseDatabase.buildQuery(latestEntityRepo, selectQueryBuilder, where, 'latest', canonicalBlock);
 
     if (queryOptions.orderBy) {
       selectQueryBuilder = this._baseDatabase.orderQuery(latestEntityRepo, selectQueryBuilder, queryOptions, '', 'latest');
@@ -926,6 +1087,209 @@ export class GraphDatabase {
     return repo.save(dbEntity);
   }
 
+  async removeEntity (entityName: string, entityData: any, block: Block): Promise<any> {
+    const repo = this._conn.getRepository(entityName);
+
+    // Save a tombstone version of the entity at the block.
+    const dbEntity: any = repo.create({
+      ...entityData,
+      blockHash: block.blockHash,
+      blockNumber: block.blockNumber,
+      isRemoved: true
+    });
+
+    return repo.save(dbEntity);
+  }
+
+  async saveFileDataSource (kind: string, cid: string, contractAddress: string, block: Block, context?: any): Promise<FileDataSourceInterface> {
+    const repo = this._conn.getRepository<FileDataSourceInterface>(FILE_DATA_SOURCE_ENTITY);
+
+    // Skip if the file data source has already been created.
+    const fileDataSource = await repo.findOne({ kind, cid });
+
+    if (fileDataSource) {
+      return fileDataSource;
+    }
+
+    const dbEntity = repo.create({
+      kind,
+      cid,
+      contractAddress,
+      context,
+      blockHash: block.blockHash,
+      blockNumber: Number(block.blockNumber),
+      processedBlockNumber: null
+    });
+
+    return repo.save(dbEntity);
+  }
+
+  async getPendingFileDataSources (): Promise<FileDataSourceInterface[]> {
+    const repo = this._conn.getRepository<FileDataSourceInterface>(FILE_DATA_SOURCE_ENTITY);
+
+    return repo.find({
+      where: { processedBlockNumber: IsNull() },
+      order: { id: 'ASC' }
+    });
+  }
+
+  async updateFileDataSourceProcessed (fileDataSource: FileDataSourceInterface, blockNumber: number): Promise<FileDataSourceInterface> {
+    const repo = this._conn.getRepository<FileDataSourceInterface>(FILE_DATA_SOURCE_ENTITY);
+    fileDataSource.processedBlockNumber = blockNumber;
+
+    return repo.save(fileDataSource);
+  }
+
+  async resetFileDataSources (queryRunner: QueryRunner, blockNumber: number): Promise<void> {
+    const repo = queryRunner.manager.getRepository<FileDataSourceInterface>(FILE_DATA_SOURCE_ENTITY);
+
+    // Remove file data sources created after the reset block and mark the ones processed after it as pending.
+    await repo.delete({ blockNumber: MoreThan(blockNumber) });
+    await repo.update({ processedBlockNumber: MoreThan(blockNumber) }, { processedBlockNumber: null });
+  }
+
+  async pruneFileDataSources (queryRunner: QueryRunner, blockHashes: string[]): Promise<void> {
+    const repo = queryRunner.manager.getRepository<FileDataSourceInterface>(FILE_DATA_SOURCE_ENTITY);
+
+    // Remove file data sources created in the pruned blocks.
+    await repo.delete({ blockHash: In(blockHashes) });
+  }
+
+  async revertFileDataSources (queryRunner: QueryRunner, blockHash: string, blockNumber: number): Promise<void> {
+    const repo = queryRunner.manager.getRepository<FileDataSourceInterface>(FILE_DATA_SOURCE_ENTITY);
+
+    // Remove file data sources created in the block and mark the ones processed at the block as pending.
+    await repo.delete({ blockHash });
+    await repo.update({ processedBlockNumber: blockNumber }, { processedBlockNumber: null });
+  }
+
+  async saveIndexingError (queryRunner: QueryRunner, indexingError: Omit<IndexingErrorInterface, 'id'>): Promise<IndexingErrorInterface> {
+    const repo = queryRunner.manager.getRepository<IndexingErrorInterface>(INDEXING_ERROR_ENTITY);
+    const dbEntity = repo.create(indexingError);
+
+    return repo.save(dbEntity);
+  }
+
+  async getIndexingErrors (blockHash: string): Promise<IndexingErrorInterface[]> {
+    const repo = this._conn.getRepository<IndexingErrorInterface>(INDEXING_ERROR_ENTITY);
+
+    return repo.find({
+      where: { blockHash },
+      order: { id: 'ASC' }
+    });
+  }
+
+  async hasIndexingErrors (blockNumber: number): Promise<boolean> {
+    const repo = this._conn.getRepository<IndexingErrorInterface>(INDEXING_ERROR_ENTITY);
+
+    // Skip errors recorded in blocks that have been pruned as non canonical.
+    const count = await repo.createQueryBuilder('indexing_error')
+      .innerJoin('block_progress', 'block', 'block.block_hash = indexing_error.block_hash')
+      .where('indexing_error.block_number <= :blockNumber', { blockNumber })
+      .andWhere('block.is_pruned = false')
+      .getCount();
+
+    return count > 0;
+  }
+
+  async revertBlockEntities (queryRunner: QueryRunner, entityNames: string[], blockHash: string, parentHash: string): Promise<void> {
+    // Reset latest entity tables to the entity versions before the block
+    await Promise.all(
+      Array.from(this._entityToLatestEntityMap.entries()).map(async ([entityType, latestEntityType]) => {
+        const repo = queryRunner.manager.getRepository<ObjectLiteral>(entityType);
+        const latestEntityRepo = queryRunner.manager.getRepository<ObjectLiteral>(latestEntityType);
+        const latestEntities = await this._baseDatabase.getEntities(queryRunner, latestEntityType, { where: { blockHash } });
+
+        await Promise.all(latestEntities.map(async (entity: any) => {
+          const prevVersion = await this._baseDatabase.getPrevEntityVersion(
+            queryRunner,
+            repo,
+            { where: { id: entity.id, blockHash: parentHash }, order: { blockNumber: 'DESC' } }
+          );
+
+          if (prevVersion) {
+            await this.updateEntity(queryRunner, latestEntityType, { id: entity.id }, getLatestEntityFromEntity(latestEntityRepo, prevVersion));
+          } else {
+            await this._baseDatabase.removeEntities(queryRunner, latestEntityType, { where: { id: entity.id } });
+          }
+        }));
+      })
+    );
+
+    // Remove entity versions saved in the block
+    await Promise.all(
+      [...entityNames, FROTHY_ENTITY].map(async (entityName) => {
+        await queryRunner.manager.createQueryBuilder()
+          .delete()
+          .from(entityName)
+          .where('block_hash = :blockHash', { blockHash })
+          .execute();
+      })
+    );
+  }
+
+  async getBlockEntityChanges (queryRunner: QueryRunner, entityNames: string[], block: BlockProgressInterface, isParentIndexed: boolean): Promise<EntityChange[]> {
+    // Entity versions before the block are looked up in the parent block branch.
+    // Fallback to the latest canonical versions if parent block is not indexed (starting block).
+    const { canonicalBlockNumber, blockHashes } = isParentIndexed
+      ? await this._baseDatabase.getFrothyRegion(queryRunner, block.parentHash)
+      : { canonicalBlockNumber: block.blockNumber - 1, blockHashes: [] };
+
+    const changes = await Promise.all(
+      entityNames.map(async (entityName) => {
+        const repo = queryRunner.manager.getRepository<ObjectLiteral>(entityName);
+        const entities = await repo.find({ where: { blockHash: block.blockHash }, order: { id: 'ASC' } });
+
+        if (!entities.length) {
+          return [];
+        }
+
+        // Get the previous versions of all entities changed in the block in a single query.
+        const prevVersions = await repo.createQueryBuilder('entity')
+          .distinctOn(['entity.id'])
+          .where('entity.id IN (:...ids)', { ids: entities.map(entity => entity.id) })
+          .andWhere('entity.is_pruned = :isPruned', { isPruned: false })
+          .andWhere(new Brackets(qb => {
+            qb.where('entity.block_number <= :canonicalBlockNumber', { canonicalBlockNumber });
+
+            if (blockHashes.length) {
+              qb.orWhere('entity.block_hash IN (:...blockHashes)', { blockHashes });
+            }
+          }))
+          .addOrderBy('entity.id', 'ASC')
+          .addOrderBy('entity.block_number', 'DESC')
+          .getMany();
+
+        const prevVersionsMap = new Map(prevVersions.map(prevVersion => [prevVersion.id, prevVersion]));
+
+        return entities.map((entity): EntityChange | undefined => {
+          const prevVersion = prevVersionsMap.get(entity.id);
+          const before = prevVersion && !prevVersion.isRemoved ? prevVersion : undefined;
+
+          if (entity.isRemoved) {
+            // Skip entities created and removed in the same block.
+            return before && {
+              entityType: entityName,
+              id: entity.id,
+              operation: EntityChangeOperation.remove,
+              before: _.omit(before, ['isPruned', 'isRemoved'])
+            };
+          }
+
+          return {
+            entityType: entityName,
+            id: entity.id,
+            operation: before ? EntityChangeOperation.update : EntityChangeOperation.create,
+            before: before && _.omit(before, ['isPruned', 'isRemoved']),
+            after: _.omit(entity, ['isPruned', 'isRemoved'])
+          };
+        });
+      })
+    );
+
+    return changes.flat().filter((change): change is EntityChange => Boolean(change));
+  }
+
   async toGraphEntity (instanceExports: any, entityName: string, data: any, entityTypes: { [key: string]: string }): Promise<any> {
     // TODO: Cache schema/columns.
     const repo = this._conn.getRepository(entityName);
@@ -935,10 +1299,15 @@ export class GraphDatabase {
     const entityInstance = await Entity.__new();
 
     const entityValuePromises = entityFields.filter(field => {
-      const { propertyName } = field;
+      const { propertyName, generatedType } = field;
+
+      // Filter out blockHash, blockNumber and isRemoved from entity fields to fill the entityInstance (wasm).
+      if (['blockHash', 'blockNumber', 'isRemoved'].includes(propertyName)) {
+        return false;
+      }
 
-      // Filter out blockHash and blockNumber from entity fields to fill the entityInstance (wasm).
-      if (propertyName === 'blockHash' || propertyName === 'blockNumber') {
+      // Filter out generated columns like fulltext documents.
+      if (generatedType) {
         return false;
       }
 
@@ -962,7 +1331,8 @@ export class GraphDatabase {
   async fromGraphEntity (instanceExports: any, block: Block, entityName: string, entityInstance: any): Promise<{ [key: string]: any } > {
     // TODO: Cache schema/columns.
     const repo = this._conn.getRepository(entityName);
-    const entityFields = repo.metadata.columns;
+    // Generated column values are computed in the database.
+    const entityFields = repo.metadata.columns.filter(column => !column.generatedType);
 
     return this.getEntityValues(instanceExports, block, entityInstance, entityFields);
   }
@@ -975,6 +1345,11 @@ export class GraphDatabase {
         return undefined;
       }
 
+      // Entity set in the mapping is not removed.
+      if (propertyName === 'isRemoved') {
+        return false;
+      }
+
       // Get blockHash property for db entry from block instance.
       if (propertyName === 'blockHash') {
         return block.blockHash;
@@ -1005,7 +1380,8 @@ export class GraphDatabase {
 
   fromState (block: BlockProgressInterface, entityName: string, stateEntity: any, relations: { [key: string]: any } = {}): any {
     const repo = this._conn.getRepository(entityName);
-    const entityFields = repo.metadata.columns;
+    // Generated column values are computed in the database.
+    const entityFields = repo.metadata.columns.filter(column => !column.generatedType);
 
     return this.getStateEntityValues(block, stateEntity, entityFields, relations);
   }
@@ -1258,4 +1634,24 @@ export class GraphDatabase {
     log(`Total entities in cachedEntities.latestPrunedEntities map: ${totalEntities}`);
     cachePrunedEntitiesCount.set(totalEntities);
   }
+
+  async _createFulltextIndexes (): Promise<void> {
+    // Create GIN indexes for fulltext document columns as TypeORM only creates B-tree and GiST indexes.
+    for (const entityMetadata of this._conn.entityMetadatas) {
+      for (const index of entityMetadata.indices) {
+        // Columns are not built by TypeORM for indexes that are not synchronized.
+        if (index.synchronize || !Array.isArray(index.givenColumnNames) || index.givenColumnNames.length !== 1) {
+          continue;
+        }
+
+        const column = entityMetadata.findColumnWithPropertyName(index.givenColumnNames[0]);
+
+        if (!column || column.type !== 'tsvector') {
+          continue;
+        }
+
+        await this._conn.query(`CREATE INDEX IF NOT EXISTS "${index.name}" ON "${entityMetadata.tableName}" USING GIN ("${column.databaseName}")`);
+      }
+    }
+  }
 }
@@ -9,7 +9,7 @@ import { Between, ValueTransformer } from 'typeorm';
 import { ethers } from 'ethers';
 
 import { jsonBigIntStringReplacer } from '../misc';
-import { IndexerInterface, StateInterface } from '../types';
+import { BlockProgressInterface, IndexerInterface, StateInterface } from '../types';
 import { GraphDatabase } from './database';
 import { resolveEntityFieldConflicts } from './utils';
 
@@ -22,6 +22,15 @@ export const prepareEntityState = (updatedEntity: any, entityName: string, relat
   // Prepare the diff data.
   const diffData: any = { state: {} };
 
+  if (updatedEntity.isRemoved) {
+    // Set null for removed entity to be merged in the state.
+    diffData.state[entityName] = { [updatedEntity.id]: null };
+
+    return diffData;
+  }
+
+  updatedEntity = _.omit(updatedEntity, 'isRemoved');
+
   const result = Array.from(relationsMap.entries())
     .find(([key]) => key.name === entityName);
 
@@ -95,23 +104,38 @@ export const prepareEntityStateFromGQLResponse = (entity: any, entityName: strin
 export const updateEntitiesFromState = async (database: GraphDatabase, indexer: IndexerInterface, state: StateInterface): Promise<void> => {
   const data = indexer.getStateData(state);
 
+  for (const [entityName, entities] of Object.entries(data.state)) {
+    log(`Updating entities from State for entity ${entityName}`);
+    console.time(`time:watcher#GraphWatcher-updateEntitiesFromState-update-entity-${entityName}`);
+    await updateEntitiesFromStateEntries(database, indexer, state.block, entityName, Object.entries(entities as any));
+    console.timeEnd(`time:watcher#GraphWatcher-updateEntitiesFromState-update-entity-${entityName}`);
+  }
+};
+
+export const updateEntitiesFromStateEntries = async (
+  database: GraphDatabase,
+  indexer: IndexerInterface,
+  block: BlockProgressInterface,
+  entityName: string,
+  entries: [string, any][]
+): Promise<void> => {
   // Get relations for subgraph entity
   assert(indexer.getRelationsMap);
   const relationsMap = indexer.getRelationsMap();
 
-  for (const [entityName, entities] of Object.entries(data.state)) {
-    const result = Array.from(relationsMap.entries())
-      .find(([key]) => key.name === entityName);
+  const result = Array.from(relationsMap.entries())
+    .find(([key]) => key.name === entityName);
 
-    const relations = result ? result[1] : {};
+  const relations = result ? result[1] : {};
 
-    log(`Updating entities from State for entity ${entityName}`);
-    console.time(`time:watcher#GraphWatcher-updateEntitiesFromState-update-entity-${entityName}`);
-    for (const [, entityData] of Object.entries(entities as any)) {
-      const dbData = database.fromState(state.block, entityName, entityData, relations);
-      await database.saveEntity(entityName, dbData);
+  for (const [, entityData] of entries) {
+    // Skip entities removed in the state.
+    if (entityData === null) {
+      continue;
     }
-    console.timeEnd(`time:watcher#GraphWatcher-updateEntitiesFromState-update-entity-${entityName}`);
+
+    const dbData = database.fromState(block, entityName, entityData, relations);
+    await database.saveEntity(entityName, dbData);
   }
 };
 
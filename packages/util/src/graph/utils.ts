@@ -7,6 +7,9 @@ import { DeepPartial, EntityTarget, InsertEvent, ObjectLiteral, Repository, Upda
 import { ColumnMetadata } from 'typeorm/metadata/ColumnMetadata';
 import assert from 'assert';
 import _ from 'lodash';
+import { sha256 } from 'multiformats/hashes/sha2';
+import { CID } from 'multiformats/cid';
+import * as raw from 'multiformats/codecs/raw';
 
 import { MappingKey, StorageLayout } from '@cerc-io/solidity-mapper';
 
@@ -70,6 +73,17 @@ export interface EventData {
   eventIndex: number;
 }
 
+export interface CallData {
+  block: Block;
+  tx: Transaction;
+  from: string;
+  to: string;
+  inputs: utils.ParamType[];
+  outputs: utils.ParamType[];
+  inputValues: { [key: string]: any };
+  outputValues: { [key: string]: any };
+}
+
 export const getEthereumTypes = async (instanceExports: any, value: any): Promise<any> => {
   const {
     __getArray,
@@ -350,80 +364,15 @@ export const createEvent = async (instanceExports: any, contractAddress: string,
 
   const {
     __newString,
-    __newArray,
     Address,
     BigInt,
-    ethereum,
-    Bytes,
-    ByteArray,
-    id_of_type: idOfType
+    ethereum
   } = instanceExports;
 
   const block = await createBlock(instanceExports, blockData);
+  const transaction = await createTransaction(instanceExports, tx, blockData);
 
-  // Fill transaction data.
-  const txHashStringPtr = await __newString(tx.hash);
-  const txHashByteArray = await ByteArray.fromHexString(txHashStringPtr);
-  const txHash = await Bytes.fromByteArray(txHashByteArray);
-
-  const txIndex = await BigInt.fromI32(tx.index);
-
-  const txFromStringPtr = await __newString(tx.from);
-  const txFrom = await Address.fromString(txFromStringPtr);
-
-  const txToStringPtr = await __newString(tx.to);
-  const txTo = tx.to && await Address.fromString(txToStringPtr);
-
-  const valueStringPtr = await __newString(tx.value);
-  const txValuePtr = await BigInt.fromString(valueStringPtr);
-
-  const gasLimitStringPtr = await __newString(tx.gasLimit);
-  const txGasLimitPtr = await BigInt.fromString(gasLimitStringPtr);
-
-  let gasPrice = tx.gasPrice;
-
-  if (!gasPrice) {
-    // Compute gasPrice for EIP-1559 transaction
-    // https://ethereum.stackexchange.com/questions/122090/what-does-tx-gasprice-represent-after-eip-1559
-    const feeDifference = BigNumber.from(tx.maxFeePerGas).sub(BigNumber.from(blockData.baseFee));
-    const maxPriorityFeePerGas = BigNumber.from(tx.maxPriorityFeePerGas);
-    const priorityFeePerGas = maxPriorityFeePerGas.lt(feeDifference) ? maxPriorityFeePerGas : feeDifference;
-    gasPrice = BigNumber.from(blockData.baseFee).add(priorityFeePerGas).toString();
-  }
-
-  const gasPriceStringPtr = await __newString(gasPrice);
-  const txGasPricePtr = await BigInt.fromString(gasPriceStringPtr);
-
-  const inputStringPtr = await __newString(tx.input);
-  const txInputByteArray = await ByteArray.fromHexString(inputStringPtr);
-  const txInputPtr = await Bytes.fromByteArray(txInputByteArray);
-
-  const transaction = await ethereum.Transaction.__new(
-    txHash,
-    txIndex,
-    txFrom,
-    txTo,
-    txValuePtr,
-    txGasLimitPtr,
-    txGasPricePtr,
-    txInputPtr
-  );
-
-  const eventParamArrayPromise = inputs.map(async input => {
-    const { name } = input;
-
-    const ethValue = await toEthereumValue(instanceExports, input, event[name]);
-    const namePtr = await __newString(name);
-
-    return ethereum.EventParam.__new(
-      namePtr,
-      ethValue
-    );
-  });
-
-  const eventParamArray = await Promise.all(eventParamArrayPromise);
-  const arrayEventParamId = await idOfType(TypeId.ArrayEventParam);
-  const eventParams = await __newArray(arrayEventParamId, eventParamArray);
+  const eventParams = await createEventParams(instanceExports, inputs, event);
 
   const addStrPtr = await __newString(contractAddress);
   const eventAddressPtr = await Address.fromString(addStrPtr);
@@ -523,6 +472,133 @@ export const createBlock = async (instanceExports: any, blockData: Block): Promi
   );
 };
 
+export const createCall = async (instanceExports: any, callData: CallData): Promise<any> => {
+  const {
+    tx,
+    from,
+    to,
+    inputs,
+    outputs,
+    inputValues,
+    outputValues,
+    block: blockData
+  } = callData;
+
+  const {
+    __newString,
+    Address,
+    ethereum
+  } = instanceExports;
+
+  const block = await createBlock(instanceExports, blockData);
+  const transaction = await createTransaction(instanceExports, tx, blockData);
+
+  const toStringPtr = await __newString(to);
+  const toPtr = await Address.fromString(toStringPtr);
+
+  const fromStringPtr = await __newString(from);
+  const fromPtr = await Address.fromString(fromStringPtr);
+
+  const inputParams = await createEventParams(instanceExports, inputs, inputValues);
+  const outputParams = await createEventParams(instanceExports, outputs, outputValues);
+
+  // Create call to be passed to handler.
+  return ethereum.Call.__new(
+    toPtr,
+    fromPtr,
+    block,
+    transaction,
+    inputParams,
+    outputParams
+  );
+};
+
+const createEventParams = async (instanceExports: any, params: utils.ParamType[], values: { [key: string]: any }): Promise<any> => {
+  const {
+    __newString,
+    __newArray,
+    ethereum,
+    id_of_type: idOfType
+  } = instanceExports;
+
+  // Use param position for values of unnamed params.
+  const eventParamArrayPromise = params.map(async (param, index) => {
+    const { name } = param;
+
+    const ethValue = await toEthereumValue(instanceExports, param, name ? values[name] : values[index]);
+    const namePtr = await __newString(name ?? '');
+
+    return ethereum.EventParam.__new(
+      namePtr,
+      ethValue
+    );
+  });
+
+  const eventParamArray = await Promise.all(eventParamArrayPromise);
+  const arrayEventParamId = await idOfType(TypeId.ArrayEventParam);
+
+  return __newArray(arrayEventParamId, eventParamArray);
+};
+
+const createTransaction = async (instanceExports: any, tx: Transaction, blockData: Block): Promise<any> => {
+  const {
+    __newString,
+    Address,
+    BigInt,
+    ethereum,
+    Bytes,
+    ByteArray
+  } = instanceExports;
+
+  // Fill transaction data.
+  const txHashStringPtr = await __newString(tx.hash);
+  const txHashByteArray = await ByteArray.fromHexString(txHashStringPtr);
+  const txHash = await Bytes.fromByteArray(txHashByteArray);
+
+  const txIndex = await BigInt.fromI32(tx.index);
+
+  const txFromStringPtr = await __newString(tx.from);
+  const txFrom = await Address.fromString(txFromStringPtr);
+
+  const txToStringPtr = await __newString(tx.to);
+  const txTo = tx.to && await Address.fromString(txToStringPtr);
+
+  const valueStringPtr = await __newString(tx.value);
+  const txValuePtr = await BigInt.fromString(valueStringPtr);
+
+  const gasLimitStringPtr = await __newString(tx.gasLimit);
+  const txGasLimitPtr = await BigInt.fromString(gasLimitStringPtr);
+
+  let gasPrice = tx.gasPrice;
+
+  if (!gasPrice) {
+    // Compute gasPrice for EIP-1559 transaction
+    // https://ethereum.stackexchange.com/questions/122090/what-does-tx-gasprice-represent-after-eip-1559
+    const feeDifference = BigNumber.from(tx.maxFeePerGas).sub(BigNumber.from(blockData.baseFee));
+    const maxPriorityFeePerGas = BigNumber.from(tx.maxPriorityFeePerGas);
+    const priorityFeePerGas = maxPriorityFeePerGas.lt(feeDifference) ? maxPriorityFeePerGas : feeDifference;
+    gasPrice = BigNumber.from(blockData.baseFee).add(priorityFeePerGas).toString();
+  }
+
+  const gasPriceStringPtr = await __newString(gasPrice);
+  const txGasPricePtr = await BigInt.fromString(gasPriceStringPtr);
+
+  const inputStringPtr = await __newString(tx.input);
+  const txInputByteArray = await ByteArray.fromHexString(inputStringPtr);
+  const txInputPtr = await Bytes.fromByteArray(txInputByteArray);
+
+  return ethereum.Transaction.__new(
+    txHash,
+    txIndex,
+    txFrom,
+    txTo,
+    txValuePtr,
+    txGasLimitPtr,
+    txGasPricePtr,
+    txInputPtr
+  );
+};
+
 export const getSubgraphConfig = async (subgraphPath: string): Promise<any> => {
   const configFilePath = path.resolve(path.join(subgraphPath, 'subgraph.yaml'));
   const fileExists = await fs.pathExists(configFilePath);
@@ -538,6 +614,16 @@ export const getSubgraphConfig = async (subgraphPath: string): Promise<any> => {
   return config;
 };
 
+export const getSubgraphDeploymentId = async (subgraphPath: string): Promise<string> => {
+  const configFilePath = path.resolve(path.join(subgraphPath, 'subgraph.yaml'));
+  const configFile = await fs.readFile(configFilePath);
+
+  // Use CID of the subgraph manifest as the deployment id.
+  const hash = await sha256.digest(configFile);
+
+  return CID.create(1, raw.code, hash).toString();
+};
+
 export const toEntityValue = async (instanceExports: any, entityInstance: any, data: any, field: ColumnMetadata, type: string): Promise<any> => {
   const { __newString, Value } = instanceExports;
   const { isArray, propertyName, isNullable } = field;
@@ -776,6 +862,112 @@ export const jsonFromBytes = async (instanceExports: any, bytesPtr: number): Pro
   return jsonValue;
 };
 
+export interface DataSourceContextValue {
+  type: string;
+  data: any;
+}
+
+const CONTEXT_VALUE_TYPES: { [key: number]: string } = {
+  [ValueKind.STRING]: 'String',
+  [ValueKind.INT]: 'Int',
+  [ValueKind.BIGDECIMAL]: 'BigDecimal',
+  [ValueKind.BOOL]: 'Bool',
+  [ValueKind.ARRAY]: 'List',
+  [ValueKind.NULL]: 'Null',
+  [ValueKind.BYTES]: 'Bytes',
+  [ValueKind.BIGINT]: 'BigInt'
+};
+
+/**
+ * Method to convert a DataSourceContext instance in wasm to JSON data which can be stored.
+ * @param instanceExports
+ * @param contextPtr
+ */
+export const fromDataSourceContext = async (instanceExports: any, contextPtr: number): Promise<{ [key: string]: DataSourceContextValue }> => {
+  const { __getString, __getArray, Entity, memory } = instanceExports;
+
+  const context = await Entity.wrap(contextPtr);
+  const entryPtrs: number[] = __getArray(await context.entries);
+
+  // Fields key and value of a TypedMapEntry are stored as consecutive pointers in wasm memory.
+  const memoryU32 = new Uint32Array(memory.buffer);
+
+  const contextData: { [key: string]: DataSourceContextValue } = {};
+
+  for (const entryPtr of entryPtrs) {
+    const key = __getString(memoryU32[entryPtr >>> 2]);
+    contextData[key] = await fromDataSourceContextValue(instanceExports, memoryU32[(entryPtr >>> 2) + 1]);
+  }
+
+  return contextData;
+};
+
+/**
+ * Method to create a DataSourceContext instance in wasm from stored JSON data.
+ * @param instanceExports
+ * @param contextData
+ */
+export const toDataSourceContext = async (instanceExports: any, contextData: { [key: string]: DataSourceContextValue } = {}): Promise<any> => {
+  const { __newString, Entity } = instanceExports;
+
+  const context = await Entity.__new();
+
+  for (const [key, value] of Object.entries(contextData)) {
+    const keyPtr = await __newString(key);
+    const valuePtr = await toDataSourceContextValue(instanceExports, value);
+
+    await context.set(keyPtr, valuePtr);
+  }
+
+  return context;
+};
+
+const fromDataSourceContextValue = async (instanceExports: any, valuePtr: number): Promise<DataSourceContextValue> => {
+  const { __getArray, Value } = instanceExports;
+
+  const value = Value.wrap(valuePtr);
+  const kind = await value.kind;
+  const type = CONTEXT_VALUE_TYPES[kind];
+  assert(type, `Unsupported value kind: ${kind}`);
+
+  if (kind === ValueKind.ARRAY) {
+    const arrayPtr = await value.toArray();
+    const arrayDataPromises = __getArray(arrayPtr).map((arrayValuePtr: number) => fromDataSourceContextValue(instanceExports, arrayValuePtr));
+
+    return { type, data: await Promise.all(arrayDataPromises) };
+  }
+
+  const data = await parseEntityValue(instanceExports, valuePtr);
+
+  // Store BigInt values as string in JSON.
+  return { type, data: typeof data === 'bigint' ? data.toString() : data };
+};
+
+const toDataSourceContextValue = async (instanceExports: any, contextValue: DataSourceContextValue): Promise<any> => {
+  const { __newArray, Value, id_of_type: getIdOfType } = instanceExports;
+  const { type, data } = contextValue;
+
+  switch (type) {
+    case 'List': {
+      const arrayValuePromises = data.map((arrayValue: DataSourceContextValue) => toDataSourceContextValue(instanceExports, arrayValue));
+      const arrayValues = await Promise.all(arrayValuePromises);
+      const arrayStoreValueId = await getIdOfType(TypeId.ArrayStoreValue);
+      const valueArray = await __newArray(arrayStoreValueId, arrayValues);
+
+      return Value.fromArray(valueArray);
+    }
+
+    case 'Null':
+      return Value.fromNull();
+
+    case 'Bool':
+      return formatEntityValue(instanceExports, null, 'Boolean', data, false);
+
+    default:
+      return formatEntityValue(instanceExports, null, type, data, false);
+  }
+};
+
 export const getStorageValueType = (storageLayout: StorageLayout, variableString: string, mappingKeys: MappingKey[]): utils.ParamType => {
   const storage = storageLayout.storage.find(({ label }) => label === variableString);
   assert(storage);
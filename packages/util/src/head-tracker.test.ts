@@ -0,0 +1,150 @@
+//
+// Copyright 2023 Vulcanize, Inc.
+//
+
+import { expect } from 'chai';
+import 'mocha';
+import { providers } from 'ethers';
+import { PubSub } from 'graphql-subscriptions';
+
+import { HeadTracker } from './head-tracker';
+import { EventWatcher } from './events';
+import { JobQueue } from './job-queue';
+import { EthClient, IndexerInterface } from './types';
+
+const getTestProvider = (): providers.WebSocketProvider => {
+  return {
+    removeAllListeners: () => undefined,
+    destroy: async () => undefined
+  } as unknown as providers.WebSocketProvider;
+};
+
+describe('head tracker', () => {
+  let headTracker: HeadTracker;
+  let provider: providers.WebSocketProvider;
+
+  // Heads handled and number of disconnects handled by the tracker.
+  let heads: number[];
+  let disconnects: number;
+
+  beforeEach(() => {
+    heads = [];
+    disconnects = 0;
+
+    headTracker = new HeadTracker(
+      'ws://localhost:8546',
+      async (blockNumber: number) => { heads.push(blockNumber); },
+      async () => { disconnects++; }
+    );
+
+    // Set a connected provider without subscribing to the endpoint.
+    provider = getTestProvider();
+    headTracker._provider = provider;
+    headTracker._connected = true;
+  });
+
+  afterEach(() => {
+    // Clear the head timeout.
+    headTracker.stop();
+  });
+
+  it('should handle new heads in order ignoring heads at lower heights', async () => {
+    await headTracker._handleHead(provider, 100);
+    await headTracker._handleHead(provider, 101);
+    await headTracker._handleHead(provider, 101);
+    await headTracker._handleHead(provider, 99);
+
+    expect(heads).to.deep.equal([100, 101]);
+    expect(headTracker.latestBlockNumber).to.equal(101);
+  });
+
+  it('should queue blocks missed in a gap between heads', async () => {
+    await headTracker._handleHead(provider, 100);
+    await headTracker._handleHead(provider, 104);
+    await headTracker._handleHead(provider, 103);
+
+    expect(heads).to.deep.equal([100, 101, 102, 103, 104]);
+    expect(headTracker.latestBlockNumber).to.equal(104);
+  });
+
+  it('should ignore heads from a disconnected provider', async () => {
+    await headTracker._handleHead(getTestProvider(), 100);
+
+    expect(heads).to.have.lengthOf(0);
+  });
+
+  it('should not reconnect after stopping', async () => {
+    await headTracker._handleHead(provider, 100);
+    headTracker.stop();
+
+    expect(headTracker.connected).to.equal(false);
+    expect(headTracker._provider).to.equal(undefined);
+    expect(headTracker._headTimeout).to.equal(undefined);
+    expect(disconnects).to.equal(1);
+
+    // Heads received after stopping are ignored.
+    await headTracker._handleHead(provider, 101);
+    expect(heads).to.deep.equal([100]);
+  });
+});
+
+describe('event watcher head tracking', () => {
+  let eventWatcher: EventWatcher;
+  let headTracker: HeadTracker;
+
+  // Blocks pushed for processing.
+  let blockNumbers: number[];
+
+  beforeEach(() => {
+    blockNumbers = [];
+
+    const jobQueue = {
+      pushJob: async (queue: string, job: { blockNumber: number }) => { blockNumbers.push(job.blockNumber); }
+    } as unknown as JobQueue;
+
+    eventWatcher = new EventWatcher({} as EthClient, {} as IndexerInterface, new PubSub(), jobQueue, 'ws://localhost:8546');
+    headTracker = eventWatcher._headTracker as HeadTracker;
+    headTracker._provider = getTestProvider();
+    headTracker._connected = true;
+  });
+
+  afterEach(() => {
+    headTracker.stop();
+  });
+
+  it('should process pending blocks on new heads', async () => {
+    const provider = headTracker._provider as providers.WebSocketProvider;
+
+    await headTracker._handleHead(provider, 100);
+    expect(headTracker.latestBlockNumber).to.equal(100);
+
+    // Blocks ahead of the chain head wait for the new head.
+    await eventWatcher._processBlockByNumber(101);
+    expect(blockNumbers).to.have.lengthOf(0);
+    expect(eventWatcher._pendingBlockNumber).to.equal(101);
+
+    // Missed heads are handled in order and the pending block is pushed once.
+    await headTracker._handleHead(provider, 103);
+    expect(blockNumbers).to.deep.equal([101]);
+    expect(eventWatcher._pendingBlockNumber).to.equal(undefined);
+  });
+
+  it('should stop the head tracker on shutdown', async () => {
+    const yarnChildProcess = process.env.YARN_CHILD_PROCESS;
+    process.env.YARN_CHILD_PROCESS = 'false';
+
+    try {
+      await eventWatcher._processShutdown();
+    } finally {
+      if (yarnChildProcess === undefined) {
+        delete process.env.YARN_CHILD_PROCESS;
+      } else {
+        process.env.YARN_CHILD_PROCESS = yarnChildProcess;
+      }
+    }
+
+    expect(eventWatcher._shutDown).to.equal(true);
+    expect(headTracker._stopped).to.equal(true);
+    expect(headTracker.connected).to.equal(false);
+  });
+});
@@ -0,0 +1,183 @@
+//
+// Copyright 2023 Vulcanize, Inc.
+//
+
+import debug from 'debug';
+import { providers } from 'ethers';
+
+const log = debug('vulcanize:head-tracker');
+
+const CONNECT_TIMEOUT_IN_MS = 10000;
+const RECONNECT_DELAY_IN_MS = 1000;
+const MAX_RECONNECT_DELAY_IN_MS = 60000;
+
+// Websocket connection is considered stale if no new head is received in this time.
+const HEAD_TIMEOUT_IN_MS = 120000;
+
+/**
+ * Tracks chain head using eth_subscribe('newHeads') on a websocket RPC endpoint.
+ * Reconnects with backoff on disconnection and handles blocks missed in gaps between received heads.
+ */
+export class HeadTracker {
+  _wsEndpoint: string;
+  _onHead: (blockNumber: number) => Promise<void>;
+  _onDisconnect: () => Promise<void>;
+
+  _provider?: providers.WebSocketProvider;
+  _connected = false;
+  _stopped = false;
+  _latestBlockNumber?: number;
+  _reconnectAttempts = 0;
+  _headTimeout?: NodeJS.Timeout;
+
+  constructor (wsEndpoint: string, onHead: (blockNumber: number) => Promise<void>, onDisconnect: () => Promise<void>) {
+    this._wsEndpoint = wsEndpoint;
+    this._onHead = onHead;
+    this._onDisconnect = onDisconnect;
+  }
+
+  get connected (): boolean {
+    return this._connected;
+  }
+
+  get latestBlockNumber (): number | undefined {
+    return this._latestBlockNumber;
+  }
+
+  async start (): Promise<void> {
+    this._stopped = false;
+    await this._connect();
+  }
+
+  stop (): void {
+    this._stopped = true;
+
+    if (this._provider) {
+      this._disconnect(this._provider, 'stopped');
+    }
+  }
+
+  async _connect (): Promise<void> {
+    const provider = new providers.WebSocketProvider(this._wsEndpoint);
+    this._provider = provider;
+
+    // Listen to websocket errors to prevent unhandled error events.
+    provider._websocket.on('error', (error: Error) => {
+      log(`Websocket error: ${error.message}`);
+    });
+
+    provider._websocket.on('close', () => {
+      this._disconnect(provider, 'websocket closed');
+    });
+
+    let connectTimeout: NodeJS.Timeout | undefined;
+
+    try {
+      // Get current head to detect gaps after reconnecting.
+      const blockNumber = await Promise.race([
+        provider.getBlockNumber(),
+        new Promise<number>((resolve, reject) => {
+          connectTimeout = setTimeout(() => reject(new Error('Connection timeout')), CONNECT_TIMEOUT_IN_MS);
+        })
+      ]);
+
+      clearTimeout(connectTimeout);
+
+      // Check if disconnected while waiting.
+      if (this._provider !== provider) {
+        return;
+      }
+
+      // Subscribes to newHeads for block events.
+      provider.on('block', (blockNumber: number) => this._handleHead(provider, blockNumber));
+
+      this._connected = true;
+      this._reconnectAttempts = 0;
+      log(`Subscribed to newHeads on websocket endpoint, current head ${blockNumber}`);
+
+      await this._handleHead(provider, blockNumber);
+    } catch (error) {
+      clearTimeout(connectTimeout);
+      this._disconnect(provider, (error as Error).message);
+    }
+  }
+
+  async _handleHead (provider: providers.WebSocketProvider, blockNumber: number): Promise<void> {
+    if (this._provider !== provider) {
+      return;
+    }
+
+    this._resetHeadTimeout(provider);
+
+    // Ignore heads at lower or same height (reorgs).
+    if (this._latestBlockNumber !== undefined && blockNumber <= this._latestBlockNumber) {
+      return;
+    }
+
+    let fromBlockNumber = blockNumber;
+
+    // Handle heads missed in a gap (on reconnecting or dropped notifications) in order.
+    if (this._latestBlockNumber !== undefined && blockNumber > this._latestBlockNumber + 1) {
+      fromBlockNumber = this._latestBlockNumber + 1;
+      log(`Gap detected in heads, queueing missed blocks from ${fromBlockNumber} to ${blockNumber - 1}`);
+    }
+
+    this._latestBlockNumber = blockNumber;
+
+    for (let headBlockNumber = fromBlockNumber; headBlockNumber <= blockNumber; headBlockNumber++) {
+      try {
+        await this._onHead(headBlockNumber);
+      } catch (error) {
+        log(`Error handling new head ${headBlockNumber}: ${(error as Error).message}`);
+      }
+    }
+  }
+
+  _resetHeadTimeout (provider: providers.WebSocketProvider): void {
+    if (this._headTimeout) {
+      clearTimeout(this._headTimeout);
+    }
+
+    this._headTimeout = setTimeout(() => {
+      this._disconnect(provider, `no new head received in ${HEAD_TIMEOUT_IN_MS / 1000}s`);
+    }, HEAD_TIMEOUT_IN_MS);
+  }
+
+  _disconnect (provider: providers.WebSocketProvider, reason: string): void {
+    // Skip if already disconnected.
+    if (this._provider !== provider) {
+      return;
+    }
+
+    log(`Disconnected from websocket endpoint: ${reason}`);
+
+    const wasConnected = this._connected;
+    this._provider = undefined;
+    this._connected = false;
+
+    if (this._headTimeout) {
+      clearTimeout(this._headTimeout);
+      this._headTimeout = undefined;
+    }
+
+    provider.removeAllListeners();
+    provider.destroy().catch((error: Error) => log(`Error closing websocket: ${error.message}`));
+
+    if (wasConnected) {
+      this._onDisconnect().catch((error: Error) => log(`Error handling websocket disconnect: ${error.message}`));
+    }
+
+    if (!this._stopped) {
+      // Reconnect with exponential backoff.
+      const delay = Math.min(RECONNECT_DELAY_IN_MS * Math.pow(2, this._reconnectAttempts), MAX_RECONNECT_DELAY_IN_MS);
+      this._reconnectAttempts++;
+      log(`Reconnecting to websocket endpoint in ${delay}ms`);
+
+      setTimeout(() => {
+        if (!this._stopped && !this._provider) {
+          this._connect();
+        }
+      }, delay);
+    }
+  }
+}
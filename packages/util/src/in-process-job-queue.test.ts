@@ -0,0 +1,145 @@
+//
+// Copyright 2023 Vulcanize, Inc.
+//
+
+import { expect } from 'chai';
+import 'mocha';
+
+import { InProcessBackend } from './in-process-job-queue';
+
+const QUEUE = 'test-queue';
+
+// Wait for jobs being processed by the workers.
+const waitFor = async (condition: () => boolean, timeoutInMs = 2000): Promise<void> => {
+  const endTime = Date.now() + timeoutInMs;
+
+  while (!condition()) {
+    if (Date.now() > endTime) {
+      throw new Error('Timed out waiting for condition');
+    }
+
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+};
+
+describe('in-process job queue', () => {
+  let backend: InProcessBackend;
+
+  beforeEach(() => {
+    backend = new InProcessBackend({
+      retryLimit: 0,
+      retryDelayInSecs: 0,
+      retryBackoff: false,
+      expireInHours: 1,
+      retentionDays: 1,
+      deleteAfterHours: 1
+    });
+  });
+
+  afterEach(async () => {
+    await backend.stop();
+  });
+
+  it('should delete queued jobs of blocks after a block number', async () => {
+    await backend.pushJob(QUEUE, { kind: 'index', blockNumber: 7 }, {});
+    await backend.pushJob(QUEUE, { kind: 'index', blockNumber: 8 }, {});
+    await backend.pushJob(QUEUE, { kind: 'events', blockHash: '0xb8' }, {});
+    await backend.pushJob(QUEUE, { kind: 'events', blockHash: '0xb7' }, {});
+    await backend.pushJob(`${QUEUE}-other`, { kind: 'index', blockNumber: 8 }, {});
+
+    await backend.deleteJobsAfterBlock(QUEUE, 7, ['0xb8']);
+
+    expect(backend._getQueue(QUEUE).map(job => job.data)).to.deep.equal([
+      { kind: 'index', blockNumber: 7 },
+      { kind: 'events', blockHash: '0xb7' }
+    ]);
+    expect(backend._getQueue(`${QUEUE}-other`)).to.have.lengthOf(1);
+  });
+
+  it('should process jobs by priority and skip duplicate singleton jobs', async () => {
+    await backend.pushJob(QUEUE, { blockNumber: 1 }, {});
+    await backend.pushJob(QUEUE, { blockNumber: 2 }, { priority: 1 });
+    expect(await backend.pushJob(QUEUE, { blockNumber: 3 }, { singletonKey: 'key' })).to.not.equal(null);
+    expect(await backend.pushJob(QUEUE, { blockNumber: 4 }, { singletonKey: 'key' })).to.equal(null);
+
+    const processedBlockNumbers: number[] = [];
+    await backend.subscribe(QUEUE, async ({ data }) => { processedBlockNumbers.push(data.blockNumber); });
+    await backend.start();
+
+    await waitFor(() => processedBlockNumbers.length === 3);
+    expect(processedBlockNumbers).to.deep.equal([2, 1, 3]);
+  });
+
+  it('should retry failed jobs and deliver completion jobs', async () => {
+    let attempts = 0;
+    const completions: any[] = [];
+
+    await backend.subscribe(QUEUE, async () => {
+      attempts++;
+
+      if (attempts === 1) {
+        throw new Error('job failed');
+      }
+    });
+
+    await backend.onComplete(QUEUE, async ({ data }) => { completions.push(data); });
+    await backend.start();
+
+    await backend.pushJob(QUEUE, { blockNumber: 1 }, { retryLimit: 1 });
+    await backend.pushJob(QUEUE, { blockNumber: 2 }, {});
+
+    await waitFor(() => completions.length === 2);
+    expect(attempts).to.equal(3);
+
+    // Job succeeding after the retry completes after the other job.
+    expect(completions.map(({ request, failed, retryCount }) => ({ data: request.data, failed, retryCount }))).to.deep.equal([
+      { data: { blockNumber: 2 }, failed: false, retryCount: 0 },
+      { data: { blockNumber: 1 }, failed: false, retryCount: 1 }
+    ]);
+  });
+
+  it('should fail jobs after the retry limit', async () => {
+    const completions: any[] = [];
+
+    await backend.subscribe(QUEUE, async () => { throw new Error('job failed'); });
+    await backend.onComplete(QUEUE, async ({ data }) => { completions.push(data); });
+    await backend.start();
+
+    await backend.pushJob(QUEUE, { blockNumber: 1 }, {});
+
+    await waitFor(() => completions.length === 1);
+    expect(completions[0]).to.include({ failed: true, state: 'failed', retryCount: 0 });
+    expect(completions[0].response).to.deep.equal({ message: 'job failed' });
+  });
+
+  it('should not retry or complete active jobs after deleting all jobs', async () => {
+    const completions: any[] = [];
+    let attempts = 0;
+    let failJob: (error: Error) => void = () => undefined;
+
+    await backend.subscribe(QUEUE, async ({ data }) => {
+      attempts++;
+
+      if (data.blockNumber === 1) {
+        await new Promise((resolve, reject) => { failJob = reject; });
+      }
+    });
+
+    await backend.onComplete(QUEUE, async ({ data }) => { completions.push(data); });
+    await backend.start();
+
+    await backend.pushJob(QUEUE, { blockNumber: 1 }, { retryLimit: 1 });
+    await waitFor(() => backend._activeJobs.size === 1);
+
+    await backend.deleteAllJobs();
+    expect(backend._activeJobs.size).to.equal(0);
+
+    // Job failing after being deleted is not retried.
+    failJob(new Error('job failed'));
+    await backend.pushJob(QUEUE, { blockNumber: 2 }, {});
+    await waitFor(() => attempts === 2);
+
+    expect(backend._getQueue(QUEUE)).to.have.lengthOf(0);
+    expect(completions).to.have.lengthOf(0);
+  });
+});
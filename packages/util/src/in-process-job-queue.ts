@@ -0,0 +1,317 @@
+//
+// Copyright 2023 Vulcanize, Inc.
+//
+
+import debug from 'debug';
+
+import { jobCount } from './metrics';
+import { JobCallback, JobQueueBackend, JobQueueBackendOptions, PushJobOptions } from './types';
+
+const log = debug('vulcanize:in-process-job-queue');
+
+const NEW_JOB_CHECK_INTERVAL_IN_MS = 100;
+const MONITOR_STATE_INTERVAL_IN_MS = 10000;
+
+// Prefix of internal queues for delivering completed jobs (same as pg-boss).
+const COMPLETION_QUEUE_PREFIX = '__state__completed__';
+
+interface InProcessJob {
+  id: string;
+  name: string;
+  data: any;
+  priority: number;
+  singletonKey?: string;
+  retryLimit: number;
+  retryDelay: number;
+  retryBackoff: boolean;
+  retryCount: number;
+  expireInSeconds: number;
+  startAfter: number;
+  createdOn: Date;
+  startedOn?: Date;
+  completed: boolean;
+}
+
+interface Worker {
+  id: string;
+  queue: string;
+  callback: JobCallback;
+  running: boolean;
+}
+
+/**
+ * Job queue backend keeping jobs in memory for single node deployments and tests.
+ * Jobs are not persisted and are only processed by workers in the same process.
+ * Job and completion shapes, priorities, singleton keys, retries and expiration follow pg-boss.
+ */
+export class InProcessBackend implements JobQueueBackend {
+  _options: JobQueueBackendOptions;
+  _queues: Map<string, InProcessJob[]> = new Map();
+  _activeJobs: Map<string, InProcessJob> = new Map();
+  _workers: Worker[] = [];
+  _completionQueues: Set<string> = new Set();
+  _started = false;
+  _lastId = 0;
+  _monitorInterval?: NodeJS.Timeout;
+
+  constructor (options: JobQueueBackendOptions) {
+    this._options = options;
+  }
+
+  async start (): Promise<void> {
+    if (this._started) {
+      return;
+    }
+
+    this._started = true;
+    this._workers.forEach(worker => this._startWorker(worker));
+
+    this._monitorInterval = setInterval(() => this._monitorStates(), MONITOR_STATE_INTERVAL_IN_MS);
+    this._monitorInterval.unref();
+  }
+
+  async stop (): Promise<void> {
+    this._started = false;
+
+    if (this._monitorInterval) {
+      clearInterval(this._monitorInterval);
+      this._monitorInterval = undefined;
+    }
+  }
+
+  async subscribe (queue: string, callback: JobCallback): Promise<string> {
+    const worker = { id: this._nextId(), queue, callback, running: false };
+    this._workers.push(worker);
+
+    if (this._started) {
+      this._startWorker(worker);
+    }
+
+    return worker.id;
+  }
+
+  async onComplete (queue: string, callback: JobCallback): Promise<string> {
+    this._completionQueues.add(queue);
+
+    return this.subscribe(`${COMPLETION_QUEUE_PREFIX}${queue}`, callback);
+  }
+
+  async markComplete (jobId: string): Promise<void> {
+    const job = this._activeJobs.get(jobId);
+
+    if (job) {
+      this._completeJob(job, false);
+    }
+  }
+
+  async pushJob (queue: string, data: any, options: PushJobOptions): Promise<string | null> {
+    const jobs = this._getQueue(queue);
+
+    // Skip job if another job with the same singleton key is queued or active.
+    if (options.singletonKey) {
+      const isDuplicate = [...jobs, ...this._activeJobs.values()]
+        .some(job => job.name === queue && job.singletonKey === options.singletonKey);
+
+      if (isDuplicate) {
+        return null;
+      }
+    }
+
+    const job: InProcessJob = {
+      id: this._nextId(),
+      name: queue,
+      data,
+      priority: options.priority ?? 0,
+      singletonKey: options.singletonKey,
+      retryLimit: options.retryLimit ?? this._options.retryLimit,
+      retryDelay: options.retryDelay ?? this._options.retryDelayInSecs,
+      retryBackoff: options.retryBackoff ?? this._options.retryBackoff,
+      retryCount: 0,
+      expireInSeconds: options.expireInSeconds ?? this._options.expireInHours * 60 * 60,
+      startAfter: Date.now(),
+      createdOn: new Date(),
+      completed: false
+    };
+
+    this._enqueue(job);
+
+    return job.id;
+  }
+
+  async deleteJobsAfterBlock (queue: string, blockNumber: number, blockHashes: string[]): Promise<void> {
+    const jobs = this._getQueue(queue);
+
+    const remainingJobs = jobs.filter(({ data }) => {
+      return !(Number(data.blockNumber) > blockNumber || blockHashes.includes(data.blockHash));
+    });
+
+    this._queues.set(queue, remainingJobs);
+  }
+
+  async deleteAllJobs (): Promise<void> {
+    this._queues.clear();
+
+    // Mark active jobs complete so that they are not retried and do not create completion jobs (same as pg-boss deleting them).
+    this._activeJobs.forEach(job => {
+      job.completed = true;
+    });
+
+    this._activeJobs.clear();
+  }
+
+  _nextId (): string {
+    this._lastId++;
+
+    return String(this._lastId);
+  }
+
+  _getQueue (queue: string): InProcessJob[] {
+    let jobs = this._queues.get(queue);
+
+    if (!jobs) {
+      jobs = [];
+      this._queues.set(queue, jobs);
+    }
+
+    return jobs;
+  }
+
+  _enqueue (job: InProcessJob): void {
+    const jobs = this._getQueue(job.name);
+
+    // Keep jobs ordered by priority (higher first) and then by creation.
+    const index = jobs.findIndex(queuedJob => queuedJob.priority < job.priority);
+
+    if (index === -1) {
+      jobs.push(job);
+    } else {
+      jobs.splice(index, 0, job);
+    }
+  }
+
+  _fetchJob (queue: string): InProcessJob | undefined {
+    const jobs = this._getQueue(queue);
+    const now = Date.now();
+    const index = jobs.findIndex(job => job.startAfter <= now);
+
+    if (index === -1) {
+      return undefined;
+    }
+
+    const [job] = jobs.splice(index, 1);
+
+    return job;
+  }
+
+  async _startWorker (worker: Worker): Promise<void> {
+    if (worker.running) {
+      return;
+    }
+
+    worker.running = true;
+
+    while (this._started) {
+      const job = this._fetchJob(worker.queue);
+
+      if (!job) {
+        await new Promise(resolve => setTimeout(resolve, NEW_JOB_CHECK_INTERVAL_IN_MS));
+        continue;
+      }
+
+      await this._processJob(worker, job);
+    }
+
+    worker.running = false;
+  }
+
+  async _processJob (worker: Worker, job: InProcessJob): Promise<void> {
+    job.startedOn = new Date();
+    this._activeJobs.set(job.id, job);
+
+    let expiryTimeout: NodeJS.Timeout | undefined;
+
+    try {
+      await Promise.race([
+        worker.callback({ id: job.id, name: job.name, data: job.data }),
+        new Promise((resolve, reject) => {
+          expiryTimeout = setTimeout(() => reject(new Error(`Job ${job.id} expired`)), job.expireInSeconds * 1000);
+        })
+      ]);
+
+      this._completeJob(job, false);
+    } catch (error) {
+      // Skip if the job was already marked complete.
+      if (job.completed) {
+        return;
+      }
+
+      if (job.retryCount < job.retryLimit) {
+        const delay = job.retryBackoff ? job.retryDelay * Math.pow(2, job.retryCount) : job.retryDelay;
+        job.retryCount++;
+        log(`Retrying job ${job.id} in queue ${job.name} after ${delay}s (retry ${job.retryCount})`);
+
+        this._activeJobs.delete(job.id);
+        job.startAfter = Date.now() + delay * 1000;
+        this._enqueue(job);
+
+        return;
+      }
+
+      this._completeJob(job, true, error);
+    } finally {
+      if (expiryTimeout) {
+        clearTimeout(expiryTimeout);
+      }
+    }
+  }
+
+  _completeJob (job: InProcessJob, failed: boolean, error?: any): void {
+    if (job.completed) {
+      return;
+    }
+
+    job.completed = true;
+    this._activeJobs.delete(job.id);
+
+    // Create completion job only if there are onComplete subscribers for the queue.
+    if (!this._completionQueues.has(job.name)) {
+      return;
+    }
+
+    this._enqueue({
+      id: this._nextId(),
+      name: `${COMPLETION_QUEUE_PREFIX}${job.name}`,
+      data: {
+        request: { id: job.id, name: job.name, data: job.data },
+        response: failed ? { message: error?.message } : null,
+        failed,
+        state: failed ? 'failed' : 'completed',
+        retryCount: job.retryCount,
+        createdOn: job.createdOn.toISOString(),
+        startedOn: job.startedOn?.toISOString(),
+        completedOn: new Date().toISOString()
+      },
+      priority: 0,
+      retryLimit: this._options.retryLimit,
+      retryDelay: this._options.retryDelayInSecs,
+      retryBackoff: this._options.retryBackoff,
+      retryCount: 0,
+      expireInSeconds: this._options.expireInHours * 60 * 60,
+      startAfter: Date.now(),
+      createdOn: new Date(),
+      completed: false
+    });
+  }
+
+  _monitorStates (): void {
+    let totalCreated = 0;
+
+    this._queues.forEach((jobs, name) => {
+      jobCount.set({ state: 'created', name }, jobs.length);
+      totalCreated += jobs.length;
+    });
+
+    jobCount.set({ state: 'created' }, totalCreated);
+    jobCount.set({ state: 'active' }, this._activeJobs.size);
+  }
+}
@@ -5,6 +5,7 @@
 export * from './config';
 export * from './database';
 export * from './job-queue';
+export * from './in-process-job-queue';
 export * from './constants';
 export * from './misc';
 export * from './fill';
@@ -25,3 +26,8 @@ export * from './graph/state-utils';
 export * from './graph/types';
 export * from './payments';
 export * from './eth';
+export * from './ipfs';
+export * from './rpc-provider';
+export * from './head-tracker';
+export * from './webhook';
+export * from './snapshot';
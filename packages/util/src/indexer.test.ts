@@ -0,0 +1,345 @@
+//
+// Copyright 2023 Vulcanize, Inc.
+//
+
+import assert from 'assert';
+import { expect } from 'chai';
+import 'mocha';
+import { providers } from 'ethers';
+
+import { Indexer } from './indexer';
+import { SubgraphErrorPolicy } from './database';
+import { ServerConfig } from './config';
+import { DEFAULT_MAX_REORG_ROLLBACK_DEPTH, DEFAULT_MIN_PRUNING_DEPTH, MAX_REORG_DEPTH } from './constants';
+import { BlockProgressInterface, DatabaseInterface, IndexerInterface, StateKind, StateSyncStatusInterface } from './types';
+import { getTestBlockProgress, getTestDatabase, getTestIndexer, getTestSyncStatus } from '../test/utils';
+
+describe('indexer metadata', () => {
+  const blocks = [
+    getTestBlockProgress(10, '0x10', '0x09'),
+    getTestBlockProgress(11, '0x11', '0x10'),
+    getTestBlockProgress(12, '0x12', '0x11')
+  ];
+
+  const db = getTestDatabase({
+    getSyncStatus: async () => getTestSyncStatus(blocks[2], { latestCanonicalBlockHash: '0x10', latestCanonicalBlockNumber: 10 }),
+    getBlockProgress: async (blockHash: string) => blocks.find(block => block.blockHash === blockHash),
+    getBlocksAtHeight: async (height: number) => blocks.filter(block => block.blockNumber === height),
+    getAncestorAtDepth: async (blockHash: string, depth: number) => {
+      const block = blocks.find(block => block.blockHash === blockHash);
+      const ancestor = blocks.find(ancestor => ancestor.blockNumber === Number(block?.blockNumber) - depth);
+      assert(ancestor);
+
+      return ancestor.blockHash;
+    }
+  });
+
+  // Indexing error recorded at block 11.
+  const hasIndexingErrors = async (blockNumber: number) => blockNumber >= 11;
+
+  it('should report no indexing errors without recorded errors', async () => {
+    const indexer = getTestIndexer(db);
+    const metaData = await indexer.getMetaData({});
+
+    expect(metaData?.block.number).to.equal(12);
+    expect(metaData?.hasIndexingErrors).to.equal(false);
+  });
+
+  it('should derive indexing errors from recorded errors for the latest block', async () => {
+    const indexer = getTestIndexer(db);
+    const metaData = await indexer.getMetaData({}, hasIndexingErrors);
+
+    expect(metaData?.block.hash).to.equal('0x12');
+    expect(metaData?.hasIndexingErrors).to.equal(true);
+  });
+
+  it('should derive indexing errors at the requested block', async () => {
+    const indexer = getTestIndexer(db);
+
+    const canonicalMetaData = await indexer.getMetaData({ number: 10 }, hasIndexingErrors);
+    expect(canonicalMetaData?.block.hash).to.equal('0x10');
+    expect(canonicalMetaData?.hasIndexingErrors).to.equal(false);
+
+    const frothyMetaData = await indexer.getMetaData({ hash: '0x11' }, hasIndexingErrors);
+    expect(frothyMetaData?.block.number).to.equal(11);
+    expect(frothyMetaData?.hasIndexingErrors).to.equal(true);
+  });
+
+  it('should deny queries at blocks with indexing errors unless allowed', async () => {
+    const indexer = getTestIndexer(db);
+
+    try {
+      await indexer.checkSubgraphError({ hash: '0x11' }, SubgraphErrorPolicy.deny, hasIndexingErrors);
+      expect.fail('should throw error');
+    } catch (error) {
+      expect((error as Error).message).to.equal('Subgraph has indexing errors at block 11, use subgraphError: allow to query data');
+    }
+
+    await indexer.checkSubgraphError({ hash: '0x11' }, SubgraphErrorPolicy.allow, hasIndexingErrors);
+    await indexer.checkSubgraphError({ number: 10 }, SubgraphErrorPolicy.deny, hasIndexingErrors);
+
+    // Indexing errors are not recorded without the nonFatalErrors feature.
+    await indexer.checkSubgraphError({ hash: '0x11' }, SubgraphErrorPolicy.deny);
+  });
+});
+
+describe('indexer block range events', () => {
+  // Blocks 10 to 12 with a log in block 11.
+  const blocks = [
+    getTestBlockProgress(10, '0x10', '0x09'),
+    getTestBlockProgress(11, '0x11', '0x10'),
+    getTestBlockProgress(12, '0x12', '0x11')
+  ];
+
+  const getTestLog = (blockHash: string, blockNumber: number) => ({
+    topics: [],
+    data: '0x',
+    index: 0,
+    cid: '',
+    ipldBlock: '',
+    account: { address: '0x0000000000000000000000000000000000000001' },
+    transaction: { hash: `${blockHash}-tx` },
+    receiptCID: '',
+    status: true,
+    block: { hash: blockHash, number: blockNumber }
+  });
+
+  const parseEventNameAndArgs = () => ({ eventName: 'Test', eventInfo: {} });
+
+  // Eth client requests made by the indexer.
+  let requests: { method: string, vars: any }[];
+
+  const getEthClientMethods = (canonicalBlockHash: string, rangeLogs: any[]) => ({
+    getBlocks: async (vars: any) => {
+      requests.push({ method: 'getBlocks', vars });
+      return { allEthHeaderCids: { nodes: [{ blockHash: canonicalBlockHash }] } };
+    },
+    getLogsForBlockRange: async (vars: any) => {
+      requests.push({ method: 'getLogsForBlockRange', vars });
+      return { logs: rangeLogs };
+    },
+    getLogs: async (vars: any) => {
+      requests.push({ method: 'getLogs', vars });
+      return { logs: [getTestLog(vars.blockHash, Number(vars.blockNumber))] };
+    },
+    getBlockWithTransactions: async (vars: any) => {
+      requests.push({ method: 'getBlockWithTransactions', vars });
+      return { allEthHeaderCids: { nodes: [{ ethTransactionCidsByHeaderId: { nodes: [] } }] } };
+    }
+  });
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  it('should use range logs for blocks in the chain of the range', async () => {
+    const indexer = getTestIndexer(getTestDatabase(), {}, undefined, getEthClientMethods('0x12', [getTestLog('0x11', 11)]));
+    const eventsMap = await indexer.fetchEventsForBlocks(blocks, parseEventNameAndArgs);
+
+    expect(eventsMap.get('0x10')).to.have.lengthOf(0);
+    expect(eventsMap.get('0x11')).to.have.lengthOf(1);
+    expect(eventsMap.get('0x12')).to.have.lengthOf(0);
+
+    // Transactions are only fetched for the block with logs.
+    expect(requests.map(({ method }) => method)).to.deep.equal(['getLogsForBlockRange', 'getBlocks', 'getBlockWithTransactions']);
+    expect(requests[0].vars).to.deep.equal({ fromBlock: 10, toBlock: 12, addresses: undefined });
+    expect(requests[2].vars).to.deep.equal({ blockHash: '0x11', blockNumber: 11 });
+  });
+
+  it('should fetch events individually for blocks without logs not in the chain of the range', async () => {
+    // Block 12 has been reorged and block 10 is not the parent of block 11.
+    const nonCanonicalBlocks = [
+      getTestBlockProgress(10, '0x10b', '0x09'),
+      ...blocks.slice(1)
+    ];
+
+    const indexer = getTestIndexer(getTestDatabase(), {}, undefined, getEthClientMethods('0x12b', [getTestLog('0x11', 11)]));
+    const eventsMap = await indexer.fetchEventsForBlocks(nonCanonicalBlocks, parseEventNameAndArgs);
+
+    expect(eventsMap.get('0x10b')).to.have.lengthOf(1);
+    expect(eventsMap.get('0x11')).to.have.lengthOf(1);
+    expect(eventsMap.get('0x12')).to.have.lengthOf(1);
+
+    const fetchedBlockHashes = requests.filter(({ method }) => method === 'getLogs')
+      .map(({ vars }) => vars.blockHash);
+
+    expect(fetchedBlockHashes).to.have.members(['0x10b', '0x12']);
+  });
+
+  it('should split the range only for too many results errors', async () => {
+    const indexer = getTestIndexer(getTestDatabase(), {}, undefined, {
+      getLogsForBlockRange: async (vars: any) => {
+        requests.push({ method: 'getLogsForBlockRange', vars });
+
+        if (vars.toBlock - vars.fromBlock >= 5) {
+          throw new Error('query returned more than 10000 results');
+        }
+
+        return { logs: [getTestLog(`0x${vars.fromBlock}`, vars.fromBlock)] };
+      }
+    });
+
+    const logs = await indexer._getLogsForBlockRange(1, 10);
+
+    expect(requests.map(({ vars }) => [vars.fromBlock, vars.toBlock])).to.deep.equal([[1, 10], [1, 5], [6, 10]]);
+    expect(logs.map(logObj => logObj.block.number)).to.deep.equal([1, 6]);
+  });
+
+  it('should not split the range for other errors', async () => {
+    const indexer = getTestIndexer(getTestDatabase(), {}, undefined, {
+      getLogsForBlockRange: async (vars: any) => {
+        requests.push({ method: 'getLogsForBlockRange', vars });
+
+        throw new Error('rate limit exceeded');
+      }
+    });
+
+    try {
+      await indexer._getLogsForBlockRange(1, 10);
+      expect.fail('should throw error');
+    } catch (error) {
+      expect((error as Error).message).to.equal('rate limit exceeded');
+    }
+
+    expect(requests).to.have.lengthOf(1);
+  });
+});
+
+describe('indexer pruning depth', () => {
+  const getIndexer = (config: Partial<ServerConfig>, finalizedBlockNumber?: number) => {
+    const indexer = getTestIndexer(getTestDatabase(), config);
+
+    indexer._ethProvider.getBlock = async () => {
+      if (finalizedBlockNumber === undefined) {
+        throw new Error('unknown block tag');
+      }
+
+      return { number: finalizedBlockNumber } as providers.Block;
+    };
+
+    return indexer;
+  };
+
+  it('should use max reorg depth without a finality block tag', async () => {
+    const indexer = getIndexer({}, 99);
+
+    expect(await indexer.getPruningDepth(100)).to.equal(MAX_REORG_DEPTH);
+  });
+
+  it('should follow the finalized block up to max reorg depth', async () => {
+    expect(await getIndexer({ finalityBlockTag: 'finalized' }, 88).getPruningDepth(100)).to.equal(12);
+    expect(await getIndexer({ finalityBlockTag: 'finalized' }, 50).getPruningDepth(100)).to.equal(MAX_REORG_DEPTH);
+  });
+
+  it('should not drop below the min depth for a finalized block close to the latest block', async () => {
+    expect(await getIndexer({ finalityBlockTag: 'finalized' }, 99).getPruningDepth(100)).to.equal(DEFAULT_MIN_PRUNING_DEPTH);
+    expect(await getIndexer({ finalityBlockTag: 'finalized' }, 100).getPruningDepth(100)).to.equal(DEFAULT_MIN_PRUNING_DEPTH);
+    expect(await getIndexer({ finalityBlockTag: 'safe', finalityMinDepth: 4 }, 98).getPruningDepth(100)).to.equal(4);
+  });
+
+  it('should use the fallback depth if the finality block tag is unavailable', async () => {
+    expect(await getIndexer({ finalityBlockTag: 'finalized' }).getPruningDepth(100)).to.equal(MAX_REORG_DEPTH);
+    expect(await getIndexer({ finalityBlockTag: 'finalized', finalityFallbackDepth: 10 }).getPruningDepth(100)).to.equal(10);
+  });
+
+  it('should reject depths outside the safety margin', async () => {
+    const invalidConfigs: Partial<ServerConfig>[] = [
+      { finalityBlockTag: 'finalized', finalityMinDepth: 0 },
+      { finalityBlockTag: 'finalized', finalityMinDepth: MAX_REORG_DEPTH + 1 },
+      { finalityBlockTag: 'finalized', finalityFallbackDepth: 2 }
+    ];
+
+    for (const config of invalidConfigs) {
+      try {
+        await getIndexer(config, 99).getPruningDepth(100);
+        expect.fail('should throw error');
+      } catch (error) {
+        expect((error as Error).message).to.match(/^finality(Min|Fallback)Depth should be between/);
+      }
+    }
+  });
+});
+
+describe('indexer state compaction', () => {
+  const CONTRACT_ADDRESS = '0xca6d29232d1435d8198e3e5302495417dd073d61';
+
+  let indexer: Indexer;
+  let db: DatabaseInterface;
+
+  // Block heights with multiple blocks (in the frothy region).
+  let forkedBlockNumbers: number[];
+  let removedRanges: [number, number][];
+  let stateSyncStatus: StateSyncStatusInterface;
+
+  const initIndexer = () => {
+    indexer = getTestIndexer(db, { enableState: true, checkpointInterval: 100, stateDiffRetentionBlocks: 50 });
+    indexer._watchedContracts[CONTRACT_ADDRESS] = { id: 1, address: CONTRACT_ADDRESS, startingBlock: 0, kind: 'test', checkpoint: true };
+  };
+
+  beforeEach(() => {
+    forkedBlockNumbers = [];
+    removedRanges = [];
+    stateSyncStatus = { id: 1, latestIndexedBlockNumber: 1000, latestCheckpointBlockNumber: 1000, latestCompactedBlockNumber: -1 };
+
+    db = getTestDatabase({
+      getBlocksAtHeight: async (height: number): Promise<BlockProgressInterface[]> => {
+        const block = getTestBlockProgress(height, `0xb${height}`, `0xb${height - 1}`);
+
+        return forkedBlockNumbers.includes(height) ? [block, { ...block, blockHash: `0xc${height}` }] : [block];
+      },
+      // Checkpoints exist at every block, no new checkpoints are required.
+      getLatestState: async (contractAddress: string, kind: StateKind, blockNumber: number) => ({ block: { blockNumber } }),
+      getDiffStatesSize: async () => ({ count: 1, bytes: 10 }),
+      removeDiffStatesInRange: async (queryRunner: unknown, contractAddress: string, startBlock: number, endBlock: number) => {
+        removedRanges.push([startBlock, endBlock]);
+      },
+      getStateSyncStatus: async () => stateSyncStatus,
+      updateStateSyncStatusCompactedBlock: async (queryRunner: unknown, blockNumber: number) => {
+        stateSyncStatus.latestCompactedBlockNumber = blockNumber;
+        return stateSyncStatus;
+      }
+    });
+
+    initIndexer();
+  });
+
+  it('should keep diffs within the max reorg rollback depth', async () => {
+    await indexer.processStateCompaction({} as IndexerInterface, 1000, DEFAULT_MAX_REORG_ROLLBACK_DEPTH);
+    expect(removedRanges).to.deep.equal([[0, 1000 - DEFAULT_MAX_REORG_ROLLBACK_DEPTH]]);
+
+    // Retention blocks are used if the rollback depth is lower.
+    await indexer.processStateCompaction({} as IndexerInterface, 1100, 0);
+    expect(removedRanges[1]).to.deep.equal([1000 - DEFAULT_MAX_REORG_ROLLBACK_DEPTH + 1, 1050]);
+  });
+
+  it('should compact diffs from the last compacted block', async () => {
+    await indexer.processStateCompaction({} as IndexerInterface, 1000, 0);
+    await indexer.processStateCompaction({} as IndexerInterface, 1100, 0);
+
+    expect(removedRanges).to.deep.equal([[0, 950], [951, 1050]]);
+    expect(stateSyncStatus.latestCompactedBlockNumber).to.equal(1050);
+  });
+
+  it('should resume compaction from the saved last compacted block after a restart', async () => {
+    await indexer.processStateCompaction({} as IndexerInterface, 1000, 0);
+
+    initIndexer();
+    await indexer.processStateCompaction({} as IndexerInterface, 1000, 0);
+    await indexer.processStateCompaction({} as IndexerInterface, 1100, 0);
+
+    expect(removedRanges).to.deep.equal([[0, 950], [951, 1050]]);
+  });
+
+  it('should skip compaction till a block not in the pruned region', async () => {
+    forkedBlockNumbers = [950];
+
+    await indexer.processStateCompaction({} as IndexerInterface, 1000, 0);
+    expect(removedRanges).to.have.lengthOf(0);
+
+    expect(await indexer.compactStateDiffs({} as IndexerInterface, 0, 950)).to.have.lengthOf(0);
+
+    // Skipped diffs are compacted in the next compaction.
+    await indexer.processStateCompaction({} as IndexerInterface, 1100, 0);
+    expect(removedRanges).to.deep.equal([[0, 1050]]);
+  });
+});
@@ -3,7 +3,7 @@
 //
 
 import assert from 'assert';
-import { DeepPartial, EntityTarget, FindConditions, FindManyOptions, MoreThan } from 'typeorm';
+import { Between, DeepPartial, EntityTarget, FindConditions, FindManyOptions, MoreThan } from 'typeorm';
 import debug from 'debug';
 import JSONbig from 'json-bigint';
 import { ethers } from 'ethers';
@@ -14,6 +14,7 @@ import { GetStorageAt, getStorageValue, StorageLayout } from '@cerc-io/solidity-
 
 import {
   BlockProgressInterface,
+  BlockRangeProgressInterface,
   DatabaseInterface,
   IndexerInterface,
   EventInterface,
@@ -21,15 +22,44 @@ import {
   SyncStatusInterface,
   StateInterface,
   StateKind,
-  EthClient
+  StateIPFSStatus,
+  StateCompactionResult,
+  EthClient,
+  WebhookDeliveryInterface,
+  WebhookDeliveryKind,
+  WebhookDeliveryStatus
 } from './types';
-import { UNKNOWN_EVENT_NAME, JOB_KIND_CONTRACT, QUEUE_EVENT_PROCESSING, DIFF_MERGE_BATCH_SIZE } from './constants';
+import { UNKNOWN_EVENT_NAME, JOB_KIND_CONTRACT, QUEUE_EVENT_PROCESSING, DIFF_MERGE_BATCH_SIZE, MAX_REORG_DEPTH, DEFAULT_MAX_REORG_ROLLBACK_DEPTH, DEFAULT_MIN_PRUNING_DEPTH, QUEUE_WEBHOOK_DELIVERY, QUEUE_STATE_PUBLICATION } from './constants';
 import { JobQueue } from './job-queue';
-import { Where, QueryOptions } from './database';
-import { ServerConfig } from './config';
+import { Where, QueryOptions, BlockHeight, OrderDirection, SubgraphErrorPolicy } from './database';
+import { ServerConfig, WebhookConfig } from './config';
 import { createOrUpdateStateData, StateDataMeta } from './state-helper';
+import { getSubgraphDeploymentId } from './graph/utils';
+import { EntityChange, EntityChangeOperation } from './graph/database';
+import { getResultEvent, jsonBigIntStringReplacer } from './misc';
+import {
+  DEFAULT_WEBHOOK_RETRY_DELAY_IN_SECS,
+  DEFAULT_WEBHOOK_RETRY_LIMIT,
+  isWebhookEvent,
+  postWebhook,
+  signWebhookPayload,
+  WEBHOOK_DELIVERY_ID_HEADER,
+  WEBHOOK_SIGNATURE_HEADER
+} from './webhook';
+import {
+  DEFAULT_STATE_PUBLICATION_RETRY_DELAY_IN_SECS,
+  DEFAULT_STATE_PUBLICATION_RETRY_LIMIT,
+  getIPFSBlockStore,
+  IPFSBlockStore
+} from './ipfs';
 
 const DEFAULT_MAX_EVENTS_BLOCK_RANGE = 1000;
+const DEFAULT_MAX_CHANGESETS_BLOCK_RANGE = 100;
+const FINALITY_BLOCK_TAGS = ['finalized', 'safe'];
+const FINALIZED_BLOCK_CACHE_TIME_IN_MS = 5000;
+
+// Errors returned by nodes for eth_getLogs requests with too many results in the range.
+const TOO_MANY_LOGS_ERROR_REGEX = /more than \d+ results|too many results|response size (exceeded|is larger)/i;
 
 const log = debug('vulcanize:indexer');
 const JSONbigNative = JSONbig({ useNativeBigInt: true });
@@ -87,6 +117,39 @@ export type ResultEvent = {
   proof: string;
 };
 
+export type ResultMeta = {
+  block: {
+    cid: string;
+    hash: string;
+    number: number;
+    timestamp: number;
+    parentHash: string;
+  };
+  deployment: string;
+  hasIndexingErrors: boolean;
+};
+
+export type ResultEntityChange = {
+  entityType: string;
+  id: string;
+  operation: EntityChangeOperation;
+  before?: string;
+  after?: string;
+};
+
+export type ResultBlockChangeset = {
+  block: {
+    cid: string;
+    hash: string;
+    number: number;
+    timestamp: number;
+    parentHash: string;
+  };
+  changes: ResultEntityChange[];
+  // Changes of reverted blocks (removed in a reorg) are to be undone by consumers.
+  reverted: boolean;
+};
+
 export class Indexer {
   _serverConfig: ServerConfig;
   _db: DatabaseInterface;
@@ -97,6 +160,9 @@ export class Indexer {
 
   _watchedContracts: { [key: string]: ContractInterface } = {};
   _stateStatusMap: { [key: string]: StateStatus } = {};
+  _deploymentId?: string;
+  _finalizedBlock?: { blockNumber: number, fetchedAt: number };
+  _stateBlockStore?: IPFSBlockStore;
 
   constructor (
     serverConfig: ServerConfig,
@@ -111,6 +177,10 @@ export class Indexer {
     this._ethProvider = ethProvider;
     this._jobQueue = jobQueue;
     this._getStorageAt = this._ethClient.getStorageAt.bind(this._ethClient);
+
+    if (serverConfig.statePublication) {
+      this._stateBlockStore = getIPFSBlockStore(serverConfig.statePublication);
+    }
   }
 
   async fetchContracts (): Promise<void> {
@@ -193,6 +263,111 @@ export class Indexer {
     return res;
   }
 
+  async getMetaData (
+    block: BlockHeight,
+    hasIndexingErrors?: (blockNumber: number) => Promise<boolean>
+  ): Promise<ResultMeta | null> {
+    const syncStatus = await this.getSyncStatus();
+
+    if (!syncStatus) {
+      return null;
+    }
+
+    const blockProgress = await this._getProcessedBlockAtHeight(syncStatus, block);
+
+    if (this._deploymentId === undefined) {
+      this._deploymentId = this._serverConfig.subgraphPath ? await getSubgraphDeploymentId(this._serverConfig.subgraphPath) : '';
+    }
+
+    return {
+      block: {
+        cid: blockProgress.cid,
+        hash: blockProgress.blockHash,
+        number: blockProgress.blockNumber,
+        timestamp: blockProgress.blockTimestamp,
+        parentHash: blockProgress.parentHash
+      },
+      deployment: this._deploymentId,
+      // Derive from the indexing errors recorded up to the block.
+      hasIndexingErrors: hasIndexingErrors ? await hasIndexingErrors(blockProgress.blockNumber) : false
+    };
+  }
+
+  /**
+   * Throw an error for queries at a block with indexing errors, unless the query allows them with subgraphError.
+   * hasIndexingErrors is passed only if indexing errors are recorded (nonFatalErrors subgraph feature).
+   */
+  async checkSubgraphError (
+    block: BlockHeight,
+    subgraphError: SubgraphErrorPolicy,
+    hasIndexingErrors?: (blockNumber: number) => Promise<boolean>
+  ): Promise<void> {
+    if (subgraphError === SubgraphErrorPolicy.allow || !hasIndexingErrors) {
+      return;
+    }
+
+    const metaData = await this.getMetaData(block, hasIndexingErrors);
+
+    if (metaData?.hasIndexingErrors) {
+      throw new Error(`Subgraph has indexing errors at block ${metaData.block.number}, use subgraphError: allow to query data`);
+    }
+  }
+
+  async getBlockChangeset (
+    block: BlockHeight,
+    getEntityChanges: (block: BlockProgressInterface) => Promise<EntityChange[]>,
+    reverted = false
+  ): Promise<ResultBlockChangeset> {
+    const syncStatus = await this.getSyncStatus();
+
+    if (!syncStatus) {
+      throw new Error('No blocks indexed yet');
+    }
+
+    const blockProgress = await this._getProcessedBlockAtHeight(syncStatus, block);
+
+    if (blockProgress.isPruned && !reverted) {
+      throw new Error(`Block ${blockProgress.blockHash} has been pruned as non canonical`);
+    }
+
+    const changes = await getEntityChanges(blockProgress);
+
+    return this._getResultBlockChangeset(blockProgress, changes, reverted);
+  }
+
+  async getBlockChangesetsInRange (
+    fromBlockNumber: number,
+    toBlockNumber: number,
+    getEntityChanges: (block: BlockProgressInterface) => Promise<EntityChange[]>,
+    maxBlockRange: number = DEFAULT_MAX_CHANGESETS_BLOCK_RANGE
+  ): Promise<ResultBlockChangeset[]> {
+    if (toBlockNumber < fromBlockNumber) {
+      throw new Error('toBlockNumber should be greater than or equal to fromBlockNumber');
+    }
+
+    if (maxBlockRange > -1 && (toBlockNumber - fromBlockNumber) > maxBlockRange) {
+      throw new Error(`Max range (${maxBlockRange}) exceeded`);
+    }
+
+    const syncStatus = await this.getSyncStatus();
+
+    if (!syncStatus) {
+      throw new Error('No blocks indexed yet');
+    }
+
+    const changesets: ResultBlockChangeset[] = [];
+
+    // Blocks in the range are taken from the canonical chain of the latest indexed block.
+    for (let blockNumber = fromBlockNumber; blockNumber <= toBlockNumber; blockNumber++) {
+      const blockProgress = await this._getProcessedBlockAtHeight(syncStatus, { number: blockNumber });
+      const changes = await getEntityChanges(blockProgress);
+
+      changesets.push(this._getResultBlockChangeset(blockProgress, changes));
+    }
+
+    return changesets;
+  }
+
   async getBlocks (blockFilter: { blockNumber?: number, blockHash?: string }): Promise<any> {
     assert(blockFilter.blockHash || blockFilter.blockNumber);
     const result = await this._ethClient.getBlocks(blockFilter);
@@ -258,6 +433,43 @@ export class Indexer {
     }
   }
 
+  async getBlockRangeProgressEntities (where: FindConditions<BlockRangeProgressInterface>, options: FindManyOptions<BlockRangeProgressInterface>): Promise<BlockRangeProgressInterface[]> {
+    return this._db.getBlockRangeProgressEntities(where, options);
+  }
+
+  async saveBlockRangeProgress (blockRange: DeepPartial<BlockRangeProgressInterface>): Promise<BlockRangeProgressInterface> {
+    const dbTx = await this._db.createTransactionRunner();
+    let res;
+
+    try {
+      res = await this._db.saveBlockRangeProgress(dbTx, blockRange);
+      await dbTx.commitTransaction();
+    } catch (error) {
+      await dbTx.rollbackTransaction();
+      throw error;
+    } finally {
+      await dbTx.release();
+    }
+
+    return res;
+  }
+
+  async updateBlockRangeProgress (blockRange: BlockRangeProgressInterface, blockNumber: number): Promise<BlockRangeProgressInterface> {
+    const dbTx = await this._db.createTransactionRunner();
+
+    try {
+      const updatedBlockRange = await this._db.updateBlockRangeProgress(dbTx, blockRange, blockNumber);
+      await dbTx.commitTransaction();
+
+      return updatedBlockRange;
+    } catch (error) {
+      await dbTx.rollbackTransaction();
+      throw error;
+    } finally {
+      await dbTx.release();
+    }
+  }
+
   async getEvent (id: string): Promise<EventInterface | undefined> {
     return this._db.getEvent(id);
   }
@@ -282,86 +494,79 @@ export class Indexer {
 
     const transactionsPromise = this._ethClient.getBlockWithTransactions({ blockHash, blockNumber });
 
-    const [
-      { logs },
-      {
-        allEthHeaderCids: {
-          nodes: [
-            {
-              ethTransactionCidsByHeaderId: {
-                nodes: transactions
-              }
-            }
-          ]
-        }
-      }
-    ] = await Promise.all([logsPromise, transactionsPromise]);
+    const [{ logs }, transactions] = await Promise.all([logsPromise, transactionsPromise.then(this._getBlockTransactions)]);
 
-    const transactionMap = transactions.reduce((acc: {[key: string]: any}, transaction: {[key: string]: any}) => {
-      acc[transaction.txHash] = transaction;
-      return acc;
-    }, {});
+    return this._createDbEvents(blockHash, logs, transactions, parseEventNameAndArgs);
+  }
 
-    const dbEvents: Array<DeepPartial<EventInterface>> = [];
+  /**
+   * Method to fetch events for a list of blocks using eth_getLogs over the block range.
+   * Transactions are fetched only for blocks having logs.
+   * @param blocks
+   * @param parseEventNameAndArgs
+   */
+  async fetchEventsForBlocks (blocks: DeepPartial<BlockProgressInterface>[], parseEventNameAndArgs: (kind: string, logObj: any) => any): Promise<Map<string, DeepPartial<EventInterface>[]>> {
+    const eventsMap: Map<string, DeepPartial<EventInterface>[]> = new Map();
 
-    for (let li = 0; li < logs.length; li++) {
-      const logObj = logs[li];
-      const {
-        topics,
-        data,
-        index: logIndex,
-        cid,
-        ipldBlock,
-        account: {
-          address
-        },
-        transaction: {
-          hash: txHash
-        },
-        receiptCID,
-        status
-      } = logObj;
+    if (!blocks.length) {
+      return eventsMap;
+    }
 
-      if (status) {
-        let eventName = UNKNOWN_EVENT_NAME;
-        let eventInfo = {};
-        const tx = transactionMap[txHash];
-        const extraInfo: { [key: string]: any } = { topics, data, tx };
+    const blockNumbers = blocks.map(block => {
+      assert(block.blockNumber);
+      return block.blockNumber;
+    });
 
-        const contract = ethers.utils.getAddress(address);
-        const watchedContract = this.isWatchedContract(contract);
+    const fromBlock = Math.min(...blockNumbers);
+    const toBlock = Math.max(...blockNumbers);
+    let addresses: string[] | undefined;
 
-        if (watchedContract) {
-          const eventDetails = parseEventNameAndArgs(watchedContract.kind, logObj);
-          eventName = eventDetails.eventName;
-          eventInfo = eventDetails.eventInfo;
-          extraInfo.eventSignature = eventDetails.eventSignature;
-        }
+    if (this._serverConfig.filterLogs) {
+      addresses = this.getWatchedContracts().map(watchedContract => watchedContract.address);
+    }
 
-        dbEvents.push({
-          index: logIndex,
-          txHash,
-          contract,
-          eventName,
-          eventInfo: JSONbigNative.stringify(eventInfo),
-          extraInfo: JSONbigNative.stringify(extraInfo),
-          proof: JSONbigNative.stringify({
-            data: JSONbigNative.stringify({
-              blockHash,
-              receiptCID,
-              log: {
-                cid,
-                ipldBlock
-              }
-            })
-          })
-        });
-      } else {
-        log(`Skipping event for receipt ${receiptCID} due to failed transaction.`);
+    const logs = await this._getLogsForBlockRange(fromBlock, toBlock, addresses);
+
+    // Group logs by block hash.
+    const logsByBlockHash: Map<string, any[]> = new Map();
+
+    for (const logObj of logs) {
+      const { hash } = logObj.block;
+
+      if (!logsByBlockHash.has(hash)) {
+        logsByBlockHash.set(hash, []);
       }
+
+      logsByBlockHash.get(hash)?.push(logObj);
     }
 
-    return dbEvents;
+    // Blocks without logs can only be checked to be in the chain the logs were fetched from through their descendants.
+    const chainBlockHashes = await this._getChainBlockHashes(blocks, toBlock, logsByBlockHash);
+
+    await Promise.all(blocks.map(async ({ blockHash, blockNumber }) => {
+      assert(blockHash);
+      assert(blockNumber);
+
+      // Fetch events for the block individually if it is not in the chain of the fetched logs (block not in canonical chain or reorged).
+      if (!chainBlockHashes.has(blockHash)) {
+        log(`fetchEventsForBlocks: block ${blockNumber} not found in chain of range logs, fetching for block ${blockHash}`);
+        eventsMap.set(blockHash, await this.fetchEvents(blockHash, blockNumber, parseEventNameAndArgs));
+        return;
+      }
+
+      const blockLogs = logsByBlockHash.get(blockHash) ?? [];
+
+      // Skip fetching transactions for blocks without logs.
+      if (!blockLogs.length) {
+        eventsMap.set(blockHash, []);
+        return;
+      }
+
+      const transactions = await this._getBlockTransactions(await this._ethClient.getBlockWithTransactions({ blockHash, blockNumber }));
+      eventsMap.set(blockHash, this._createDbEvents(blockHash, blockLogs, transactions, parseEventNameAndArgs));
+    }));
+
+    return eventsMap;
   }
 
   async saveBlockProgress (block: DeepPartial<BlockProgressInterface>): Promise<BlockProgressInterface> {
@@ -446,10 +651,234 @@ export class Indexer {
     }
   }
 
+  async createWebhookDeliveries (block: BlockProgressInterface): Promise<void> {
+    const { webhooks = [] } = this._serverConfig;
+
+    if (!webhooks.length) {
+      return;
+    }
+
+    const events = await this._db.getBlockEvents(
+      block.blockHash,
+      {
+        eventName: [
+          { value: UNKNOWN_EVENT_NAME, not: true, operator: 'equals' }
+        ]
+      },
+      {
+        orderBy: 'index',
+        orderDirection: OrderDirection.asc
+      }
+    );
+
+    for (const webhook of webhooks) {
+      const webhookEvents = events.filter(event => isWebhookEvent(webhook, event));
+
+      if (!webhookEvents.length) {
+        continue;
+      }
+
+      const payload = JSON.stringify({
+        type: WebhookDeliveryKind.Events,
+        block: {
+          hash: block.blockHash,
+          number: block.blockNumber,
+          timestamp: block.blockTimestamp,
+          parentHash: block.parentHash
+        },
+        events: webhookEvents.map(event => getResultEvent(event))
+      }, jsonBigIntStringReplacer);
+
+      await this._createWebhookDelivery(webhook, WebhookDeliveryKind.Events, block, payload);
+    }
+  }
+
+  async createWebhookRetractions (blocks: BlockProgressInterface[]): Promise<void> {
+    const { webhooks = [] } = this._serverConfig;
+
+    for (const block of blocks) {
+      const deliveries = await this._db.getWebhookDeliveries({ blockHash: block.blockHash, kind: WebhookDeliveryKind.Events }, {});
+
+      for (const delivery of deliveries) {
+        // Cancel deliveries not sent yet instead of retracting.
+        if (delivery.status === WebhookDeliveryStatus.Pending) {
+          delivery.status = WebhookDeliveryStatus.Cancelled;
+          await this._saveWebhookDelivery(delivery);
+          continue;
+        }
+
+        // Only retract deliveries received by the endpoint.
+        if (delivery.status !== WebhookDeliveryStatus.Delivered) {
+          continue;
+        }
+
+        const webhook = webhooks.find(({ url }) => url === delivery.url);
+
+        if (!webhook) {
+          log(`Webhook endpoint for delivery ${delivery.id} not configured, skipping retraction`);
+          continue;
+        }
+
+        const payload = JSON.stringify({
+          type: WebhookDeliveryKind.Retraction,
+          block: {
+            hash: block.blockHash,
+            number: block.blockNumber
+          },
+          retractedDeliveryId: delivery.id
+        }, jsonBigIntStringReplacer);
+
+        await this._createWebhookDelivery(webhook, WebhookDeliveryKind.Retraction, block, payload);
+      }
+    }
+  }
+
+  async processWebhookDelivery (deliveryId: number): Promise<void> {
+    const [delivery] = await this._db.getWebhookDeliveries({ id: deliveryId }, {});
+    assert(delivery, `Webhook delivery ${deliveryId} not found`);
+
+    // Skip deliveries already sent or cancelled.
+    if (delivery.status !== WebhookDeliveryStatus.Pending) {
+      await this._pushNextWebhookDeliveryJob(delivery.url);
+      return;
+    }
+
+    // Deliver to an endpoint in order, the next delivery job is pushed after the earliest pending one is done.
+    const [earliestDelivery] = await this._db.getWebhookDeliveries(
+      { url: delivery.url, status: WebhookDeliveryStatus.Pending },
+      { order: { id: 'ASC' }, take: 1 }
+    );
+
+    if (earliestDelivery.id !== delivery.id) {
+      log(`Webhook delivery ${delivery.id} waiting for earlier delivery ${earliestDelivery.id} to the endpoint`);
+      return;
+    }
+
+    const webhook = (this._serverConfig.webhooks ?? []).find(({ url }) => url === delivery.url);
+
+    if (!webhook) {
+      delivery.status = WebhookDeliveryStatus.Failed;
+      delivery.lastError = 'Webhook endpoint not configured';
+      await this._saveWebhookDelivery(delivery);
+      await this._pushNextWebhookDeliveryJob(delivery.url);
+
+      return;
+    }
+
+    const headers: { [key: string]: string } = {
+      [WEBHOOK_DELIVERY_ID_HEADER]: delivery.id.toString()
+    };
+
+    if (webhook.secret) {
+      headers[WEBHOOK_SIGNATURE_HEADER] = signWebhookPayload(webhook.secret, delivery.payload);
+    }
+
+    delivery.attempts++;
+
+    try {
+      await postWebhook(delivery.url, delivery.payload, headers, webhook.timeoutInMs);
+
+      delivery.status = WebhookDeliveryStatus.Delivered;
+      delivery.deliveredAt = new Date();
+      delivery.lastError = null;
+      await this._saveWebhookDelivery(delivery);
+    } catch (error) {
+      const { retryLimit = DEFAULT_WEBHOOK_RETRY_LIMIT } = webhook;
+      delivery.lastError = (error as Error).message;
+
+      if (delivery.attempts > retryLimit) {
+        log(`Webhook delivery ${delivery.id} failed after ${delivery.attempts} attempts: ${delivery.lastError}`);
+        delivery.status = WebhookDeliveryStatus.Failed;
+      }
+
+      await this._saveWebhookDelivery(delivery);
+
+      // Throw error for the job to be retried with backoff.
+      if (delivery.status === WebhookDeliveryStatus.Pending) {
+        throw error;
+      }
+    }
+
+    await this._pushNextWebhookDeliveryJob(delivery.url);
+  }
+
+  async replayWebhookDeliveries (fromBlockNumber: number, toBlockNumber: number, url?: string): Promise<number> {
+    const where: FindConditions<WebhookDeliveryInterface> = {
+      blockNumber: Between(fromBlockNumber, toBlockNumber),
+      kind: WebhookDeliveryKind.Events
+    };
+
+    if (url) {
+      where.url = url;
+    }
+
+    const deliveries = await this._db.getWebhookDeliveries(where, { order: { blockNumber: 'ASC', id: 'ASC' } });
+    let replayedCount = 0;
+
+    for (const delivery of deliveries) {
+      // Skip deliveries of blocks pruned as non canonical.
+      const block = await this.getBlockProgress(delivery.blockHash);
+
+      if (!block || block.isPruned) {
+        continue;
+      }
+
+      const webhook = (this._serverConfig.webhooks ?? []).find(webhookConfig => webhookConfig.url === delivery.url);
+
+      if (!webhook) {
+        log(`Webhook endpoint for delivery ${delivery.id} not configured, skipping replay`);
+        continue;
+      }
+
+      delivery.status = WebhookDeliveryStatus.Pending;
+      delivery.attempts = 0;
+      delivery.lastError = null;
+      delivery.deliveredAt = null;
+      await this._saveWebhookDelivery(delivery);
+
+      await this._pushWebhookDeliveryJob(webhook, delivery.id);
+      replayedCount++;
+    }
+
+    return replayedCount;
+  }
+
   async getAncestorAtDepth (blockHash: string, depth: number): Promise<string> {
     return this._db.getAncestorAtDepth(blockHash, depth);
   }
 
+  /**
+   * Get depth from the latest indexed block up to which blocks are kept unpruned (frothy).
+   * Follows the upstream finality block tag if configured, using the fallback depth if the tag is unavailable.
+   * @param latestIndexedBlockNumber
+   */
+  async getPruningDepth (latestIndexedBlockNumber: number): Promise<number> {
+    const {
+      finalityBlockTag,
+      finalityFallbackDepth = MAX_REORG_DEPTH,
+      finalityMinDepth = DEFAULT_MIN_PRUNING_DEPTH
+    } = this._serverConfig;
+
+    if (!finalityBlockTag) {
+      return MAX_REORG_DEPTH;
+    }
+
+    assert(FINALITY_BLOCK_TAGS.includes(finalityBlockTag), `Invalid finalityBlockTag ${finalityBlockTag}, should be one of ${FINALITY_BLOCK_TAGS.join(', ')}`);
+
+    // Frothy region queries are limited to max reorg depth.
+    assert(finalityMinDepth > 0 && finalityMinDepth <= MAX_REORG_DEPTH, `finalityMinDepth should be between 1 and ${MAX_REORG_DEPTH}`);
+    assert(finalityFallbackDepth >= finalityMinDepth && finalityFallbackDepth <= MAX_REORG_DEPTH, `finalityFallbackDepth should be between finalityMinDepth and ${MAX_REORG_DEPTH}`);
+
+    const finalizedBlockNumber = await this._getFinalizedBlockNumber(finalityBlockTag);
+
+    if (finalizedBlockNumber === undefined) {
+      return finalityFallbackDepth;
+    }
+
+    // Keep a safety margin of unpruned blocks even if the finalized block is close to the latest indexed block.
+    return Math.min(Math.max(latestIndexedBlockNumber - finalizedBlockNumber, finalityMinDepth), MAX_REORG_DEPTH);
+  }
+
   async saveEventEntity (dbEvent: EventInterface): Promise<EventInterface> {
     const dbTx = await this._db.createTransactionRunner();
     let res;
@@ -512,7 +941,7 @@ export class Indexer {
     return Object.values(this._watchedContracts);
   }
 
-  async watchContract (address: string, kind: string, checkpoint: boolean, startingBlock: number): Promise<void> {
+  async watchContract (address: string, kind: string, checkpoint: boolean, startingBlock: number, context?: any): Promise<void> {
     assert(this._db.saveContract);
 
     // Use the checksum address (https://docs.ethers.io/v5/api/utils/address/#utils-getAddress) if input to address is a contract address.
@@ -524,7 +953,7 @@ export class Indexer {
     const dbTx = await this._db.createTransactionRunner();
 
     try {
-      const contract = await this._db.saveContract(dbTx, contractAddress, kind, checkpoint, startingBlock);
+      const contract = await this._db.saveContract(dbTx, contractAddress, kind, checkpoint, startingBlock, context);
       this.cacheContract(contract);
       await dbTx.commitTransaction();
 
@@ -582,53 +1011,193 @@ export class Indexer {
       return;
     }
 
-    // Get all the contracts.
-    const contracts = Object.values(this._watchedContracts);
+    // Get all the contracts.
+    const contracts = Object.values(this._watchedContracts);
+
+    // Getting the block for checkpoint.
+    const block = await this.getBlockProgress(blockHash);
+    assert(block);
+
+    // For each contract, merge the diff till now to create a checkpoint.
+    for (const contract of contracts) {
+      // Get State status for the contract.
+      const stateStatus = this._stateStatusMap[contract.address];
+      assert(stateStatus, `State status for contract ${contract.address} not found`);
+
+      const initBlockNumber = stateStatus.init;
+
+      // Check if contract has checkpointing on.
+      // Check if it's time for a checkpoint or the init is in current block.
+      if (
+        contract.checkpoint &&
+        (block.blockNumber % checkpointInterval === 0 || initBlockNumber === block.blockNumber)
+      ) {
+        await this.createCheckpoint(indexer, contract.address, block);
+      }
+    }
+  }
+
+  async processCLICheckpoint (indexer: IndexerInterface, contractAddress: string, blockHash?: string): Promise<string | undefined> {
+    if (!this._serverConfig.enableState) {
+      return;
+    }
+
+    // Getting the block for checkpoint.
+    let block;
+
+    if (blockHash) {
+      block = await this.getBlockProgress(blockHash);
+    } else {
+      // In case of empty blockHash from checkpoint CLI, get the latest indexed block from stateSyncStatus for the checkpoint.
+      block = await this.getLatestStateIndexedBlock();
+    }
+
+    assert(block);
+
+    const checkpointBlockHash = await this.createCheckpoint(indexer, contractAddress, block);
+    assert(checkpointBlockHash, 'Checkpoint not created');
+
+    return checkpointBlockHash;
+  }
+
+  async processStateCompaction (indexer: IndexerInterface, blockNumber: number, maxReorgRollbackDepth = DEFAULT_MAX_REORG_ROLLBACK_DEPTH): Promise<void> {
+    const { enableState, checkpointInterval, stateDiffRetentionBlocks } = this._serverConfig;
+
+    // Run compaction every checkpointInterval blocks.
+    if (!enableState || !stateDiffRetentionBlocks || checkpointInterval <= 0 || blockNumber % checkpointInterval !== 0) {
+      return;
+    }
+
+    // Keep diffs in the unpruned region and the region a deep reorg can be rolled back to.
+    const endBlockNumber = blockNumber - Math.max(stateDiffRetentionBlocks, maxReorgRollbackDepth, MAX_REORG_DEPTH);
+
+    // Diffs till the last compacted block have been removed in a previous compaction.
+    const stateSyncStatus = await this._db.getStateSyncStatus();
+    const lastCompactedBlockNumber = stateSyncStatus?.latestCompactedBlockNumber ?? -1;
+
+    if (endBlockNumber <= lastCompactedBlockNumber) {
+      return;
+    }
+
+    const startBlockNumber = lastCompactedBlockNumber + 1;
+    const results = await this.compactStateDiffs(indexer, startBlockNumber, endBlockNumber);
+
+    // Compaction is skipped if the end block is not canonical.
+    if (!results.length) {
+      return;
+    }
+
+    const dbTx = await this._db.createTransactionRunner();
+
+    try {
+      await this._db.updateStateSyncStatusCompactedBlock(dbTx, endBlockNumber);
+      await dbTx.commitTransaction();
+    } catch (error) {
+      await dbTx.rollbackTransaction();
+      throw error;
+    } finally {
+      await dbTx.release();
+    }
+
+    const removedDiffCount = results.reduce((acc, result) => acc + result.removedDiffCount, 0);
+    log(`Compacted ${removedDiffCount} diff States from block ${startBlockNumber} till block ${endBlockNumber}`);
+  }
+
+  /**
+   * Merge diffs of contracts in the block range into a checkpoint at the end block (if required) and remove them.
+   * With dryRun, only the diffs to be removed and checkpoints to be created are reported.
+   */
+  async compactStateDiffs (
+    indexer: IndexerInterface,
+    startBlockNumber: number,
+    endBlockNumber: number,
+    contractAddress?: string,
+    dryRun = false
+  ): Promise<StateCompactionResult[]> {
+    if (!this._serverConfig.enableState) {
+      return [];
+    }
+
+    const contracts = Object.values(this._watchedContracts)
+      .filter(contract => contract.checkpoint && (!contractAddress || contract.address === contractAddress));
+
+    if (contractAddress) {
+      assert(contracts.length, `Contract ${contractAddress} not watched with checkpointing`);
+    }
+
+    // Checkpoint should be created at a canonical block.
+    const blocksAtHeight = await this.getBlocksAtHeight(endBlockNumber, false);
+
+    if (blocksAtHeight.length !== 1) {
+      log(`Skipping compaction till block ${endBlockNumber} as it is not a single canonical block (found ${blocksAtHeight.length} blocks)`);
+      return [];
+    }
+
+    const [endBlock] = blocksAtHeight;
 
-    // Getting the block for checkpoint.
-    const block = await this.getBlockProgress(blockHash);
-    assert(block);
+    const results: StateCompactionResult[] = [];
 
-    // For each contract, merge the diff till now to create a checkpoint.
     for (const contract of contracts) {
-      // Get State status for the contract.
-      const stateStatus = this._stateStatusMap[contract.address];
-      assert(stateStatus, `State status for contract ${contract.address} not found`);
+      const result: StateCompactionResult = {
+        contractAddress: contract.address,
+        checkpointBlockNumber: null,
+        checkpointCreated: false,
+        removedDiffCount: 0,
+        reclaimedBytes: 0
+      };
 
-      const initBlockNumber = stateStatus.init;
+      results.push(result);
 
-      // Check if contract has checkpointing on.
-      // Check if it's time for a checkpoint or the init is in current block.
-      if (
-        contract.checkpoint &&
-        (block.blockNumber % checkpointInterval === 0 || initBlockNumber === block.blockNumber)
-      ) {
-        await this.createCheckpoint(indexer, contract.address, block);
+      if (endBlockNumber < contract.startingBlock) {
+        continue;
       }
-    }
-  }
 
-  async processCLICheckpoint (indexer: IndexerInterface, contractAddress: string, blockHash?: string): Promise<string | undefined> {
-    if (!this._serverConfig.enableState) {
-      return;
-    }
+      const checkpoint = await this._db.getLatestState(contract.address, StateKind.Checkpoint, endBlockNumber);
+      result.checkpointBlockNumber = checkpoint ? checkpoint.block.blockNumber : null;
 
-    // Getting the block for checkpoint.
-    let block;
+      // Diffs after the latest checkpoint have not been merged and need a new checkpoint at the end block.
+      if (!checkpoint || checkpoint.block.blockNumber < endBlockNumber) {
+        const unmergedDiffs = await this._db.getDiffStatesSize(contract.address, checkpoint ? checkpoint.block.blockNumber + 1 : 0, endBlockNumber);
 
-    if (blockHash) {
-      block = await this.getBlockProgress(blockHash);
-    } else {
-      // In case of empty blockHash from checkpoint CLI, get the latest indexed block from stateSyncStatus for the checkpoint.
-      block = await this.getLatestStateIndexedBlock();
-    }
+        if (unmergedDiffs.count) {
+          if (!dryRun) {
+            const latestCheckpointBlockNumber = this._stateStatusMap[contract.address]?.checkpoint;
+            await this.createCheckpoint(indexer, contract.address, endBlock);
 
-    assert(block);
+            // Restore State status to the latest checkpoint if the new checkpoint is at an older block.
+            if (latestCheckpointBlockNumber && latestCheckpointBlockNumber > endBlockNumber) {
+              this.updateStateStatusMap(contract.address, { checkpoint: latestCheckpointBlockNumber });
+            }
 
-    const checkpointBlockHash = await this.createCheckpoint(indexer, contractAddress, block);
-    assert(checkpointBlockHash, 'Checkpoint not created');
+            // Checkpoint may not be created if the default checkpoint is disabled in the state checkpoint hook.
+            const newCheckpoint = await this._db.getLatestState(contract.address, StateKind.Checkpoint, endBlockNumber);
 
-    return checkpointBlockHash;
+            if (!newCheckpoint || newCheckpoint.block.blockNumber !== endBlockNumber) {
+              log(`Checkpoint not created at block ${endBlockNumber} for contract ${contract.address}, skipping compaction`);
+              continue;
+            }
+          }
+
+          result.checkpointBlockNumber = endBlockNumber;
+          result.checkpointCreated = true;
+        }
+      }
+
+      if (result.checkpointBlockNumber === null || result.checkpointBlockNumber < startBlockNumber) {
+        continue;
+      }
+
+      // Diffs till the checkpoint block have been merged into it.
+      const { count, bytes } = await this._db.getDiffStatesSize(contract.address, startBlockNumber, result.checkpointBlockNumber);
+      result.removedDiffCount = count;
+      result.reclaimedBytes = bytes;
+
+      if (!dryRun && count) {
+        await this._removeDiffStatesInRange(contract.address, startBlockNumber, result.checkpointBlockNumber);
+      }
+    }
+
+    return results;
   }
 
   async createStateCheckpoint (contractAddress: string, block: BlockProgressInterface, data: any): Promise<void> {
@@ -912,12 +1481,14 @@ export class Indexer {
     assert(meta);
 
     // Update stateEntry with new data.
+    // Staged diffs are not published as they are replaced by diffs on finalizing the block.
     stateEntry = Object.assign(stateEntry, {
       block,
       contractAddress,
       cid: cid.toString(),
       kind: meta.kind,
-      data: Buffer.from(bytes)
+      data: Buffer.from(bytes),
+      ipfsStatus: this._stateBlockStore && meta.kind !== StateKind.DiffStaged ? StateIPFSStatus.Pending : null
     });
 
     console.timeEnd('time:indexer#prepareStateEntry');
@@ -962,9 +1533,60 @@ export class Indexer {
       await dbTx.release();
     }
 
+    if (res.ipfsStatus === StateIPFSStatus.Pending) {
+      // Publish States of blocks in the frothy region after the block is canonical (see publishBlockStates).
+      const syncStatus = await this.getSyncStatus();
+
+      if (syncStatus && res.block.blockNumber <= syncStatus.latestCanonicalBlockNumber) {
+        await this._pushStatePublicationJob(res.cid);
+      }
+    }
+
     return res;
   }
 
+  async publishBlockStates (blockHash: string): Promise<void> {
+    if (!this._stateBlockStore) {
+      return;
+    }
+
+    const block = await this.getBlockProgress(blockHash);
+    assert(block);
+
+    const states = await this._db.getStates({ block, ipfsStatus: StateIPFSStatus.Pending });
+
+    for (const state of states) {
+      await this._pushStatePublicationJob(state.cid);
+    }
+  }
+
+  async publishState (cid: string): Promise<void> {
+    assert(this._stateBlockStore, 'State publication not configured');
+
+    const state = await this.getStateByCID(cid);
+
+    // Skip States removed in a reorg or already published.
+    if (!state || state.ipfsStatus === StateIPFSStatus.Published) {
+      return;
+    }
+
+    const { pin = true } = this._serverConfig.statePublication ?? {};
+
+    try {
+      const publishedCID = await this._stateBlockStore.putBlock(state.data, pin);
+      assert(publishedCID === state.cid, `Published CID ${publishedCID} does not match State CID ${state.cid}`);
+    } catch (error) {
+      // Status is updated again if a retry of the job succeeds.
+      await this._updateStateIPFSStatus(cid, StateIPFSStatus.Failed);
+
+      // Throw error for the job to be retried with backoff.
+      throw error;
+    }
+
+    await this._updateStateIPFSStatus(cid, StateIPFSStatus.Published);
+    log(`Published ${state.kind} State ${cid} for contract ${state.contractAddress} at block ${state.block.blockNumber}`);
+  }
+
   async removeStates (blockNumber: number, kind: StateKind): Promise<void> {
     const dbTx = await this._db.createTransactionRunner();
 
@@ -1018,6 +1640,9 @@ export class Indexer {
 
       await this._db.deleteEntitiesByConditions(dbTx, 'block_progress', { blockNumber: MoreThan(blockNumber) });
 
+      // Block ranges of parallel fill extending beyond the reset block are processed again on the next fill.
+      await this._db.deleteEntitiesByConditions(dbTx, 'block_range_progress', { endBlock: MoreThan(blockNumber) });
+
       const syncStatus = await this.getSyncStatus();
       assert(syncStatus, 'Missing syncStatus');
 
@@ -1039,11 +1664,15 @@ export class Indexer {
         if (stateSyncStatus.latestCheckpointBlockNumber > blockProgress.blockNumber) {
           await this._db.updateStateSyncStatusCheckpointBlock(dbTx, blockNumber, true);
         }
+
+        if (stateSyncStatus.latestCompactedBlockNumber > blockProgress.blockNumber) {
+          await this._db.updateStateSyncStatusCompactedBlock(dbTx, blockNumber, true);
+        }
       }
 
       await this.updateSyncStatusChainHead(blockProgress.blockHash, blockProgress.blockNumber, true);
 
-      dbTx.commitTransaction();
+      await dbTx.commitTransaction();
     } catch (error) {
       await dbTx.rollbackTransaction();
       throw error;
@@ -1116,4 +1745,313 @@ export class Indexer {
 
     return data;
   }
+
+  /**
+   * Method to get hashes of the blocks that are in the chain the range logs were fetched from.
+   * Blocks with logs are in the chain, and blocks without logs are if they are ancestors of a block in the chain.
+   * The canonical block at the end of the range is used as the chain head.
+   * @param blocks
+   * @param toBlock
+   * @param logsByBlockHash
+   */
+  async _getChainBlockHashes (blocks: DeepPartial<BlockProgressInterface>[], toBlock: number, logsByBlockHash: Map<string, any[]>): Promise<Set<string>> {
+    const { allEthHeaderCids: { nodes: [canonicalBlock] } } = await this._ethClient.getBlocks({ blockNumber: toBlock });
+    const chainBlockHashes: Set<string> = new Set();
+
+    // Expected hash of the next block in the chain while walking back from the end of the range.
+    let expectedBlock = canonicalBlock
+      ? { blockHash: canonicalBlock.blockHash, blockNumber: toBlock }
+      : undefined;
+
+    const sortedBlocks = [...blocks].sort((a, b) => Number(b.blockNumber) - Number(a.blockNumber));
+
+    for (const { blockHash, blockNumber, parentHash } of sortedBlocks) {
+      assert(blockHash);
+      assert(blockNumber);
+
+      const isExpectedBlock = expectedBlock?.blockNumber === blockNumber && expectedBlock.blockHash === blockHash;
+
+      if (!isExpectedBlock && !logsByBlockHash.has(blockHash)) {
+        continue;
+      }
+
+      chainBlockHashes.add(blockHash);
+      expectedBlock = parentHash ? { blockHash: parentHash, blockNumber: blockNumber - 1 } : undefined;
+    }
+
+    return chainBlockHashes;
+  }
+
+  async _getLogsForBlockRange (fromBlock: number, toBlock: number, addresses?: string[]): Promise<any[]> {
+    assert(this._ethClient.getLogsForBlockRange, 'Fetching logs for a block range is not supported by the eth client');
+
+    try {
+      const { logs } = await this._ethClient.getLogsForBlockRange({ fromBlock, toBlock, addresses });
+
+      return logs;
+    } catch (error: unknown) {
+      // Split the range only if the node rejects the request for returning too many results.
+      if (fromBlock === toBlock || !(error instanceof Error) || !TOO_MANY_LOGS_ERROR_REGEX.test(error.message)) {
+        throw error;
+      }
+
+      const midBlock = Math.floor((fromBlock + toBlock) / 2);
+      log(`_getLogsForBlockRange: splitting range ${fromBlock}-${toBlock} at ${midBlock} due to error: ${error.message}`);
+
+      const firstHalfLogs = await this._getLogsForBlockRange(fromBlock, midBlock, addresses);
+      const secondHalfLogs = await this._getLogsForBlockRange(midBlock + 1, toBlock, addresses);
+
+      return firstHalfLogs.concat(secondHalfLogs);
+    }
+  }
+
+  _getBlockTransactions ({ allEthHeaderCids: { nodes: [{ ethTransactionCidsByHeaderId: { nodes: transactions } }] } }: any): any[] {
+    return transactions;
+  }
+
+  _createDbEvents (blockHash: string, logs: any[], transactions: any[], parseEventNameAndArgs: (kind: string, logObj: any) => any): DeepPartial<EventInterface>[] {
+    const transactionMap = transactions.reduce((acc: {[key: string]: any}, transaction: {[key: string]: any}) => {
+      acc[transaction.txHash] = transaction;
+      return acc;
+    }, {});
+
+    const dbEvents: Array<DeepPartial<EventInterface>> = [];
+
+    for (let li = 0; li < logs.length; li++) {
+      const logObj = logs[li];
+      const {
+        topics,
+        data,
+        index: logIndex,
+        cid,
+        ipldBlock,
+        account: {
+          address
+        },
+        transaction: {
+          hash: txHash
+        },
+        receiptCID,
+        status
+      } = logObj;
+
+      if (status) {
+        let eventName = UNKNOWN_EVENT_NAME;
+        let eventInfo = {};
+        const tx = transactionMap[txHash];
+        const extraInfo: { [key: string]: any } = { topics, data, tx };
+
+        const contract = ethers.utils.getAddress(address);
+        const watchedContract = this.isWatchedContract(contract);
+
+        if (watchedContract) {
+          const eventDetails = parseEventNameAndArgs(watchedContract.kind, logObj);
+          eventName = eventDetails.eventName;
+          eventInfo = eventDetails.eventInfo;
+          extraInfo.eventSignature = eventDetails.eventSignature;
+        }
+
+        dbEvents.push({
+          index: logIndex,
+          txHash,
+          contract,
+          eventName,
+          eventInfo: JSONbigNative.stringify(eventInfo),
+          extraInfo: JSONbigNative.stringify(extraInfo),
+          proof: JSONbigNative.stringify({
+            data: JSONbigNative.stringify({
+              blockHash,
+              receiptCID,
+              log: {
+                cid,
+                ipldBlock
+              }
+            })
+          })
+        });
+      } else {
+        log(`Skipping event for receipt ${receiptCID} due to failed transaction.`);
+      }
+    }
+
+    return dbEvents;
+  }
+
+  async _createWebhookDelivery (webhook: WebhookConfig, kind: WebhookDeliveryKind, block: BlockProgressInterface, payload: string): Promise<void> {
+    // Skip if delivery already created, as complete handlers can run again for a block.
+    const [existingDelivery] = await this._db.getWebhookDeliveries({ url: webhook.url, kind, blockHash: block.blockHash }, {});
+
+    if (existingDelivery) {
+      return;
+    }
+
+    const delivery = await this._saveWebhookDelivery({
+      url: webhook.url,
+      kind,
+      blockHash: block.blockHash,
+      blockNumber: block.blockNumber,
+      payload,
+      status: WebhookDeliveryStatus.Pending,
+      attempts: 0
+    });
+
+    await this._pushWebhookDeliveryJob(webhook, delivery.id);
+  }
+
+  async _saveWebhookDelivery (delivery: DeepPartial<WebhookDeliveryInterface>): Promise<WebhookDeliveryInterface> {
+    const dbTx = await this._db.createTransactionRunner();
+    let res;
+
+    try {
+      res = await this._db.saveWebhookDelivery(dbTx, delivery);
+      await dbTx.commitTransaction();
+    } catch (error) {
+      await dbTx.rollbackTransaction();
+      throw error;
+    } finally {
+      await dbTx.release();
+    }
+
+    return res;
+  }
+
+  async _pushWebhookDeliveryJob (webhook: WebhookConfig, deliveryId: number): Promise<void> {
+    const {
+      retryLimit = DEFAULT_WEBHOOK_RETRY_LIMIT,
+      retryDelayInSecs = DEFAULT_WEBHOOK_RETRY_DELAY_IN_SECS
+    } = webhook;
+
+    // Singleton key avoids multiple jobs for a delivery being queued.
+    await this._jobQueue.pushJob(
+      QUEUE_WEBHOOK_DELIVERY,
+      { deliveryId },
+      { retryLimit, retryDelay: retryDelayInSecs, retryBackoff: true, singletonKey: String(deliveryId) }
+    );
+  }
+
+  async _pushNextWebhookDeliveryJob (url: string): Promise<void> {
+    // Use default retry options if the endpoint is not configured anymore, for its pending deliveries to be failed.
+    const webhook = (this._serverConfig.webhooks ?? []).find(webhookConfig => webhookConfig.url === url) ?? { url };
+
+    const [nextDelivery] = await this._db.getWebhookDeliveries(
+      { url, status: WebhookDeliveryStatus.Pending },
+      { order: { id: 'ASC' }, take: 1 }
+    );
+
+    if (nextDelivery) {
+      await this._pushWebhookDeliveryJob(webhook, nextDelivery.id);
+    }
+  }
+
+  async _removeDiffStatesInRange (contractAddress: string, startBlockNumber: number, endBlockNumber: number): Promise<void> {
+    const dbTx = await this._db.createTransactionRunner();
+
+    try {
+      await this._db.removeDiffStatesInRange(dbTx, contractAddress, startBlockNumber, endBlockNumber);
+      await dbTx.commitTransaction();
+    } catch (error) {
+      await dbTx.rollbackTransaction();
+      throw error;
+    } finally {
+      await dbTx.release();
+    }
+  }
+
+  async _updateStateIPFSStatus (cid: string, ipfsStatus: StateIPFSStatus): Promise<void> {
+    const dbTx = await this._db.createTransactionRunner();
+
+    try {
+      await this._db.updateStateIPFSStatus(dbTx, cid, ipfsStatus);
+      await dbTx.commitTransaction();
+    } catch (error) {
+      await dbTx.rollbackTransaction();
+      throw error;
+    } finally {
+      await dbTx.release();
+    }
+  }
+
+  async _pushStatePublicationJob (cid: string): Promise<void> {
+    const {
+      retryLimit = DEFAULT_STATE_PUBLICATION_RETRY_LIMIT,
+      retryDelayInSecs = DEFAULT_STATE_PUBLICATION_RETRY_DELAY_IN_SECS
+    } = this._serverConfig.statePublication ?? {};
+
+    await this._jobQueue.pushJob(
+      QUEUE_STATE_PUBLICATION,
+      { cid },
+      { retryLimit, retryDelay: retryDelayInSecs, retryBackoff: true }
+    );
+  }
+
+  async _getProcessedBlockAtHeight (syncStatus: SyncStatusInterface, block: BlockHeight): Promise<BlockProgressInterface> {
+    let blockProgress: BlockProgressInterface | undefined;
+
+    if (block.hash) {
+      blockProgress = await this.getBlockProgress(block.hash);
+    } else if (block.number !== undefined) {
+      if (block.number > syncStatus.latestIndexedBlockNumber) {
+        throw new Error(`Indexed only up to block number ${syncStatus.latestIndexedBlockNumber}, data for block number ${block.number} not available yet`);
+      }
+
+      if (block.number <= syncStatus.latestCanonicalBlockNumber) {
+        [blockProgress] = await this.getBlocksAtHeight(block.number, false);
+      } else {
+        // Get block in frothy region from the latest indexed block branch.
+        const blockHash = await this.getAncestorAtDepth(syncStatus.latestIndexedBlockHash, syncStatus.latestIndexedBlockNumber - block.number);
+        blockProgress = await this.getBlockProgress(blockHash);
+      }
+    } else {
+      blockProgress = await this.getBlockProgress(syncStatus.latestIndexedBlockHash);
+    }
+
+    if (!blockProgress || !blockProgress.isComplete) {
+      throw new Error(`Block ${block.hash ?? block.number} not processed yet`);
+    }
+
+    return blockProgress;
+  }
+
+  _getResultBlockChangeset (blockProgress: BlockProgressInterface, changes: EntityChange[], reverted = false): ResultBlockChangeset {
+    return {
+      block: {
+        cid: blockProgress.cid,
+        hash: blockProgress.blockHash,
+        number: blockProgress.blockNumber,
+        timestamp: blockProgress.blockTimestamp,
+        parentHash: blockProgress.parentHash
+      },
+      changes: changes.map(({ entityType, id, operation, before, after }) => ({
+        entityType,
+        id,
+        operation,
+        before: before && JSON.stringify(before, jsonBigIntStringReplacer),
+        after: after && JSON.stringify(after, jsonBigIntStringReplacer)
+      })),
+      reverted
+    };
+  }
+
+  async _getFinalizedBlockNumber (blockTag: string): Promise<number | undefined> {
+    // Use cached block as finalized block only moves ahead and a stale value is safe for pruning.
+    if (this._finalizedBlock && (Date.now() - this._finalizedBlock.fetchedAt) < FINALIZED_BLOCK_CACHE_TIME_IN_MS) {
+      return this._finalizedBlock.blockNumber;
+    }
+
+    try {
+      const block = await this._ethProvider.getBlock(blockTag);
+
+      if (!block) {
+        return undefined;
+      }
+
+      this._finalizedBlock = { blockNumber: block.number, fetchedAt: Date.now() };
+
+      return block.number;
+    } catch (error) {
+      log(`Block tag ${blockTag} not available upstream, using fallback pruning depth: ${(error as Error).message}`);
+
+      return undefined;
+    }
+  }
 }
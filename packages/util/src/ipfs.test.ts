@@ -0,0 +1,192 @@
+//
+// Copyright 2023 Vulcanize, Inc.
+//
+
+import { expect } from 'chai';
+import 'mocha';
+import assert from 'assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import * as codec from '@ipld/dag-cbor';
+
+import { Indexer } from './indexer';
+import { JobQueue } from './job-queue';
+import { IPFSBlockStore, LocalIPFSBlockStore, fetchStateData, getBlockCID } from './ipfs';
+import { StateInterface, StateIPFSStatus, StateKind } from './types';
+import { QUEUE_STATE_PUBLICATION } from './constants';
+import { getTestBlockProgress, getTestDatabase, getTestIndexer, getTestSyncStatus } from '../test/utils';
+
+const CONTRACT_ADDRESS = '0xca6d29232d1435d8198e3e5302495417dd073d61';
+
+describe('state publication', () => {
+  let dir: string;
+  let blockStore: IPFSBlockStore;
+
+  // Pin option used for the blocks put in the store.
+  let pinnedBlocks: { cid: string, pin: boolean }[];
+  let putBlockError: Error | undefined;
+
+  let states: StateInterface[];
+  let pushedJobs: { queue: string, data: any }[];
+  let indexer: Indexer;
+
+  const canonicalBlock = getTestBlockProgress(10, '0xb10', '0xb9');
+  const frothyBlock = getTestBlockProgress(11, '0xb11', '0xb10');
+
+  const getState = async (block = canonicalBlock, kind = StateKind.Diff): Promise<StateInterface> => {
+    const data = Buffer.from(codec.encode({ meta: { id: CONTRACT_ADDRESS, kind }, state: { totalSupply: String(block.blockNumber) } }));
+
+    return {
+      id: states.length + 1,
+      block,
+      contractAddress: CONTRACT_ADDRESS,
+      cid: await getBlockCID(data),
+      kind,
+      data,
+      ipfsStatus: StateIPFSStatus.Pending
+    };
+  };
+
+  const initIndexer = (pin?: boolean) => {
+    const db = getTestDatabase({
+      getStates: async (where: Partial<StateInterface>) => states.filter(state => {
+        return (!where.cid || state.cid === where.cid) &&
+          (!where.block || state.block.blockHash === where.block.blockHash) &&
+          (!where.ipfsStatus || state.ipfsStatus === where.ipfsStatus);
+      }),
+      saveOrUpdateState: async (queryRunner: unknown, state: StateInterface) => {
+        states.push(state);
+        return state;
+      },
+      updateStateIPFSStatus: async (queryRunner: unknown, cid: string, ipfsStatus: StateIPFSStatus) => {
+        states.filter(state => state.cid === cid).forEach(state => { state.ipfsStatus = ipfsStatus; });
+      },
+      getSyncStatus: async () => getTestSyncStatus(frothyBlock, { latestCanonicalBlockHash: canonicalBlock.blockHash, latestCanonicalBlockNumber: canonicalBlock.blockNumber }),
+      getBlockProgress: async (blockHash: string) => [canonicalBlock, frothyBlock].find(block => block.blockHash === blockHash)
+    });
+
+    const jobQueue = {
+      pushJob: async (queue: string, data: any) => { pushedJobs.push({ queue, data }); }
+    } as unknown as JobQueue;
+
+    indexer = getTestIndexer(db, { statePublication: { localDirectory: dir, pin } }, jobQueue);
+    indexer._stateStatusMap[CONTRACT_ADDRESS] = {};
+
+    // Record the pin option and fail puts if required.
+    assert(indexer._stateBlockStore instanceof LocalIPFSBlockStore);
+    blockStore = indexer._stateBlockStore;
+    const putBlock = blockStore.putBlock.bind(blockStore);
+
+    blockStore.putBlock = async (data: Uint8Array, pin: boolean) => {
+      if (putBlockError) {
+        throw putBlockError;
+      }
+
+      const cid = await putBlock(data, pin);
+      pinnedBlocks.push({ cid, pin });
+
+      return cid;
+    };
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ipfs-'));
+    pinnedBlocks = [];
+    putBlockError = undefined;
+    states = [];
+    pushedJobs = [];
+
+    initIndexer();
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should publish and pin State blocks', async () => {
+    const state = await getState();
+    states.push(state);
+
+    await indexer.publishState(state.cid);
+
+    expect(state.ipfsStatus).to.equal(StateIPFSStatus.Published);
+    expect(pinnedBlocks).to.deep.equal([{ cid: state.cid, pin: true }]);
+    expect(fs.readFileSync(path.join(dir, state.cid)).equals(state.data)).to.equal(true);
+
+    // Published States are skipped.
+    await indexer.publishState(state.cid);
+    expect(pinnedBlocks).to.have.lengthOf(1);
+  });
+
+  it('should not pin State blocks if disabled', async () => {
+    initIndexer(false);
+
+    const state = await getState();
+    states.push(state);
+
+    await indexer.publishState(state.cid);
+
+    expect(pinnedBlocks).to.deep.equal([{ cid: state.cid, pin: false }]);
+  });
+
+  it('should mark failed publications and publish on retry', async () => {
+    const state = await getState();
+    states.push(state);
+
+    putBlockError = new Error('IPFS unavailable');
+
+    // Error is thrown for the job to be retried.
+    try {
+      await indexer.publishState(state.cid);
+      expect.fail('should throw error');
+    } catch (error) {
+      expect((error as Error).message).to.equal('IPFS unavailable');
+    }
+
+    expect(state.ipfsStatus).to.equal(StateIPFSStatus.Failed);
+
+    putBlockError = undefined;
+    await indexer.publishState(state.cid);
+
+    expect(state.ipfsStatus).to.equal(StateIPFSStatus.Published);
+  });
+
+  it('should publish States of frothy blocks only after the block is canonical', async () => {
+    const canonicalState = await indexer.saveOrUpdateState(await getState(canonicalBlock, StateKind.Checkpoint));
+    const frothyState = await indexer.saveOrUpdateState(await getState(frothyBlock));
+
+    expect(pushedJobs).to.deep.equal([{ queue: QUEUE_STATE_PUBLICATION, data: { cid: canonicalState.cid } }]);
+
+    await indexer.publishBlockStates(frothyBlock.blockHash);
+
+    expect(pushedJobs.map(({ data }) => data)).to.deep.equal([{ cid: canonicalState.cid }, { cid: frothyState.cid }]);
+  });
+
+  it('should fetch published State data verifying its CID', async () => {
+    const state = await getState();
+    await blockStore.putBlock(state.data, true);
+
+    expect(await fetchStateData(blockStore, state.cid)).to.deep.equal(codec.decode(state.data));
+
+    // Block with content not matching the CID.
+    const otherState = await getState(frothyBlock);
+    fs.writeFileSync(path.join(dir, otherState.cid), state.data);
+
+    try {
+      await fetchStateData(blockStore, otherState.cid);
+      expect.fail('should throw error');
+    } catch (error) {
+      expect((error as Error).message).to.equal(`CID ${state.cid} of fetched block does not match ${otherState.cid}`);
+    }
+
+    fs.rmSync(path.join(dir, otherState.cid));
+
+    try {
+      await fetchStateData(blockStore, otherState.cid);
+      expect.fail('should throw error');
+    } catch (error) {
+      expect((error as Error).message).to.equal(`State block ${otherState.cid} not found in IPFS`);
+    }
+  });
+});
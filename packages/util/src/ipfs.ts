@@ -2,16 +2,182 @@
 // Copyright 2021 Vulcanize, Inc.
 //
 
-import { create, IPFSHTTPClient } from 'ipfs-http-client';
+import path from 'path';
+import fs from 'fs-extra';
+import assert from 'assert';
+import { create, CID as IPFSCID, IPFSHTTPClient } from 'ipfs-http-client';
+import { sha256 } from 'multiformats/hashes/sha2';
+import { CID } from 'multiformats/cid';
 
-export class IPFSClient {
+import * as codec from '@ipld/dag-cbor';
+
+import { IPFSConfig } from './config';
+
+const DEFAULT_IPFS_TIMEOUT = 30000;
+
+export const DEFAULT_STATE_PUBLICATION_RETRY_LIMIT = 10;
+export const DEFAULT_STATE_PUBLICATION_RETRY_DELAY_IN_SECS = 5;
+
+export interface IPFSContentFetcher {
+  // Returns undefined if the content is not available.
+  cat (cid: string): Promise<Buffer | undefined>;
+}
+
+export interface IPFSBlockStore {
+  // Stores dag-cbor encoded block and returns its CID.
+  putBlock (data: Uint8Array, pin: boolean): Promise<string>;
+
+  // Returns undefined if the block is not available.
+  getBlock (cid: string): Promise<Buffer | undefined>;
+}
+
+export class IPFSClient implements IPFSContentFetcher, IPFSBlockStore {
   _client: IPFSHTTPClient;
+  _timeout: number;
 
-  constructor (url: string) {
+  constructor (url: string, timeout = DEFAULT_IPFS_TIMEOUT) {
     this._client = create({ url });
+    this._timeout = timeout;
   }
 
   async push (data: any): Promise<void> {
     await this._client.dag.put(data, { storeCodec: 'dag-cbor', hashAlg: 'sha2-256' });
   }
+
+  async putBlock (data: Uint8Array, pin: boolean): Promise<string> {
+    const cid = await this._client.block.put(data, { format: 'dag-cbor', mhtype: 'sha2-256', version: 1, pin, timeout: this._timeout });
+
+    return cid.toString();
+  }
+
+  async getBlock (cid: string): Promise<Buffer | undefined> {
+    try {
+      // Use the CID class from the client as its multiformats version can differ.
+      const data = await this._client.block.get(IPFSCID.parse(cid), { timeout: this._timeout });
+
+      return Buffer.from(data);
+    } catch (error: unknown) {
+      // Block could not be found in the network within the timeout.
+      if (error instanceof Error && error.name === 'TimeoutError') {
+        return undefined;
+      }
+
+      throw error;
+    }
+  }
+
+  async cat (cid: string): Promise<Buffer | undefined> {
+    const chunks: Uint8Array[] = [];
+
+    try {
+      for await (const chunk of this._client.cat(cid, { timeout: this._timeout })) {
+        chunks.push(chunk);
+      }
+    } catch (error: unknown) {
+      // Content could not be found in the network within the timeout.
+      if (error instanceof Error && error.name === 'TimeoutError') {
+        return undefined;
+      }
+
+      throw error;
+    }
+
+    return Buffer.concat(chunks);
+  }
 }
+
+/**
+ * Content fetcher reading files named by CID (or CID/path) from a local directory.
+ * Can be used as a stand-in for IPFS in tests and local setups.
+ */
+export class LocalIPFSContentFetcher implements IPFSContentFetcher {
+  _directory: string;
+
+  constructor (directory: string) {
+    this._directory = path.resolve(directory);
+  }
+
+  async cat (cid: string): Promise<Buffer | undefined> {
+    const filePath = path.join(this._directory, cid);
+
+    // Do not allow reading files outside the directory.
+    assert(filePath.startsWith(this._directory), `Invalid IPFS path ${cid}`);
+
+    if (!await fs.pathExists(filePath)) {
+      return undefined;
+    }
+
+    return fs.readFile(filePath);
+  }
+}
+
+/**
+ * Block store writing blocks to files named by CID in a local directory.
+ * Can be used as a stand-in for IPFS state publication in tests and local setups.
+ */
+export class LocalIPFSBlockStore extends LocalIPFSContentFetcher implements IPFSBlockStore {
+  async putBlock (data: Uint8Array): Promise<string> {
+    const cid = await getBlockCID(data);
+    await fs.outputFile(path.join(this._directory, cid), data);
+
+    return cid;
+  }
+
+  async getBlock (cid: string): Promise<Buffer | undefined> {
+    return this.cat(cid);
+  }
+}
+
+export const getBlockCID = async (data: Uint8Array): Promise<string> => {
+  // CID v1 with dag-cbor codec and sha256 hash, same as for State entries.
+  const hash = await sha256.digest(data);
+
+  return CID.create(1, codec.code, hash).toString();
+};
+
+/**
+ * Fetch a State block from IPFS and decode it after verifying its CID.
+ */
+export const fetchStateData = async (blockStore: IPFSBlockStore, cid: string): Promise<any> => {
+  const data = await blockStore.getBlock(cid);
+
+  if (!data) {
+    throw new Error(`State block ${cid} not found in IPFS`);
+  }
+
+  const blockCID = await getBlockCID(data);
+
+  if (blockCID !== cid) {
+    throw new Error(`CID ${blockCID} of fetched block does not match ${cid}`);
+  }
+
+  return codec.decode(data);
+};
+
+export const getIPFSContentFetcher = (ipfsConfig: IPFSConfig = {}): IPFSContentFetcher | undefined => {
+  const { apiEndpoint, localDirectory, timeout } = ipfsConfig;
+
+  if (localDirectory) {
+    return new LocalIPFSContentFetcher(localDirectory);
+  }
+
+  if (apiEndpoint) {
+    return new IPFSClient(apiEndpoint, timeout);
+  }
+
+  return undefined;
+};
+
+export const getIPFSBlockStore = (ipfsConfig: IPFSConfig = {}): IPFSBlockStore | undefined => {
+  const { apiEndpoint, localDirectory, timeout } = ipfsConfig;
+
+  if (localDirectory) {
+    return new LocalIPFSBlockStore(localDirectory);
+  }
+
+  if (apiEndpoint) {
+    return new IPFSClient(apiEndpoint, timeout);
+  }
+
+  return undefined;
+};
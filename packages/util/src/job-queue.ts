@@ -5,43 +5,68 @@
 import assert from 'assert';
 import debug from 'debug';
 import PgBoss from 'pg-boss';
+import { Pool } from 'pg';
 
 import { jobCount, lastJobCompletedOn } from './metrics';
+import { JobCallback, JobQueueBackend, JobQueueBackendKind, JobQueueBackendOptions, PushJobOptions } from './types';
+import { InProcessBackend } from './in-process-job-queue';
 
 interface Config {
   dbConnectionString: string
   maxCompletionLag: number
+  backend?: JobQueueBackendKind
+  retryLimit?: number
+  retryDelayInSecs?: number
+  retryBackoff?: boolean
+  expireInHours?: number
+  retentionDays?: number
+  deleteAfterHours?: number
 }
 
-type JobCallback = (job: any) => Promise<void>;
-
 const JOBS_PER_INTERVAL = 5;
 
+// Schema of pg-boss tables.
+const PG_BOSS_SCHEMA = 'pgboss';
+
+const DEFAULT_RETRY_LIMIT = 15;
+const DEFAULT_RETRY_DELAY_IN_SECS = 1;
+const DEFAULT_EXPIRE_IN_HOURS = 24 * 1; // 1 day
+const DEFAULT_RETENTION_DAYS = 1; // 1 day
+const DEFAULT_DELETE_AFTER_HOURS = 1; // 1 hour
+
 const log = debug('vulcanize:job-queue');
 
-export class JobQueue {
-  _config: Config;
+export class PgBossBackend implements JobQueueBackend {
   _boss: PgBoss;
+  _pgPool: Pool;
+
+  constructor (dbConnectionString: string, options: JobQueueBackendOptions) {
+    assert(dbConnectionString, 'Missing job queue db connection string');
+
+    // Pool used by pg-boss and for queries on jobs not supported by pg-boss.
+    this._pgPool = new Pool({ connectionString: dbConnectionString, application_name: 'pgboss' });
+    this._pgPool.on('error', error => log(error));
 
-  constructor (config: Config) {
-    this._config = config;
     this._boss = new PgBoss({
       // https://github.com/timgit/pg-boss/blob/6.1.0/docs/configuration.md
 
-      connectionString: this._config.dbConnectionString,
+      db: {
+        executeSql: (text: string, values: any[]) => this._pgPool.query(text, values)
+      },
+      schema: PG_BOSS_SCHEMA,
       onComplete: true,
 
       // Num of retries with backoff
-      retryLimit: 15,
-      retryDelay: 1,
-      retryBackoff: true,
+      retryLimit: options.retryLimit,
+      retryDelay: options.retryDelayInSecs,
+      retryBackoff: options.retryBackoff,
 
       // Time before active job fails by expiration.
-      expireInHours: 24 * 1, // 1 day
+      expireInHours: options.expireInHours,
 
-      retentionDays: 1, // 1 day
+      retentionDays: options.retentionDays,
 
-      deleteAfterHours: 1, // 1 hour
+      deleteAfterHours: options.deleteAfterHours,
 
       newJobCheckInterval: 100,
 
@@ -74,10 +99,6 @@ export class JobQueue {
     });
   }
 
-  get maxCompletionLag (): number {
-    return this._config.maxCompletionLag;
-  }
-
   async start (): Promise<void> {
     await this._boss.start();
   }
@@ -93,6 +114,93 @@ export class JobQueue {
         teamSize: JOBS_PER_INTERVAL,
         teamConcurrency: 1
       },
+      callback
+    );
+  }
+
+  async onComplete (queue: string, callback: JobCallback): Promise<string> {
+    return await this._boss.onComplete(
+      queue,
+      {
+        teamSize: JOBS_PER_INTERVAL,
+        teamConcurrency: 1
+      },
+      callback
+    );
+  }
+
+  async markComplete (jobId: string): Promise<void> {
+    this._boss.complete(jobId);
+  }
+
+  async pushJob (queue: string, data: any, options: PushJobOptions): Promise<string | null> {
+    return this._boss.publish(queue, data, options);
+  }
+
+  async deleteJobsAfterBlock (queue: string, blockNumber: number, blockHashes: string[]): Promise<void> {
+    // pg-boss only supports deleting jobs by queue name.
+    // Delete jobs waiting to be processed.
+    await this._pgPool.query(
+      `DELETE FROM ${PG_BOSS_SCHEMA}.job
+        WHERE name = $1 AND state IN ('created', 'retry')
+        AND ((data->>'blockNumber')::numeric > $2 OR data->>'blockHash' = ANY($3))`,
+      [queue, blockNumber, blockHashes]
+    );
+  }
+
+  async deleteAllJobs (): Promise<void> {
+    await this._boss.deleteAllQueues();
+  }
+}
+
+export class JobQueue {
+  _config: Config;
+  _backend: JobQueueBackend;
+
+  constructor (config: Config) {
+    this._config = config;
+
+    const {
+      backend = JobQueueBackendKind.PgBoss,
+      retryLimit = DEFAULT_RETRY_LIMIT,
+      retryDelayInSecs = DEFAULT_RETRY_DELAY_IN_SECS,
+      retryBackoff = true,
+      expireInHours = DEFAULT_EXPIRE_IN_HOURS,
+      retentionDays = DEFAULT_RETENTION_DAYS,
+      deleteAfterHours = DEFAULT_DELETE_AFTER_HOURS
+    } = config;
+
+    const options = { retryLimit, retryDelayInSecs, retryBackoff, expireInHours, retentionDays, deleteAfterHours };
+
+    switch (backend) {
+      case JobQueueBackendKind.PgBoss:
+        this._backend = new PgBossBackend(config.dbConnectionString, options);
+        break;
+
+      case JobQueueBackendKind.InProcess:
+        this._backend = new InProcessBackend(options);
+        break;
+
+      default:
+        throw new Error(`Invalid job queue backend ${backend}`);
+    }
+  }
+
+  get maxCompletionLag (): number {
+    return this._config.maxCompletionLag;
+  }
+
+  async start (): Promise<void> {
+    await this._backend.start();
+  }
+
+  async stop (): Promise<void> {
+    await this._backend.stop();
+  }
+
+  async subscribe (queue: string, callback: JobCallback): Promise<string> {
+    return await this._backend.subscribe(
+      queue,
       async (job: any) => {
         try {
           log(`Processing queue ${queue} job ${job.id}...`);
@@ -108,12 +216,8 @@ export class JobQueue {
   }
 
   async onComplete (queue: string, callback: JobCallback): Promise<string> {
-    return await this._boss.onComplete(
+    return await this._backend.onComplete(
       queue,
-      {
-        teamSize: JOBS_PER_INTERVAL,
-        teamConcurrency: 1
-      },
       async (job: any) => {
         try {
           const { id, data: { failed, createdOn } } = job;
@@ -129,17 +233,28 @@ export class JobQueue {
   }
 
   async markComplete (job: any): Promise<void> {
-    this._boss.complete(job.id);
+    await this._backend.markComplete(job.id);
   }
 
-  async pushJob (queue: string, job: any, options: PgBoss.PublishOptions = {}): Promise<void> {
-    assert(this._boss);
+  async pushJob (queue: string, job: any, options: PushJobOptions = {}): Promise<void> {
+    assert(this._backend);
 
-    const jobId = await this._boss.publish(queue, job, options);
+    const jobId = await this._backend.pushJob(queue, job, options);
     log(`Created job in queue ${queue}: ${jobId}`);
   }
 
+  /**
+   * Delete queued jobs of blocks after the given block number.
+   * Jobs are matched by blockNumber or blockHash in the job data.
+   * @param queue
+   * @param blockNumber
+   * @param blockHashes
+   */
+  async deleteJobsAfterBlock (queue: string, blockNumber: number, blockHashes: string[]): Promise<void> {
+    await this._backend.deleteJobsAfterBlock(queue, blockNumber, blockHashes);
+  }
+
   async deleteAllJobs (): Promise<void> {
-    await this._boss.deleteAllQueues();
+    await this._backend.deleteAllJobs();
   }
 }
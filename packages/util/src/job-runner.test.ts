@@ -0,0 +1,142 @@
+//
+// Copyright 2023 Vulcanize, Inc.
+//
+
+import { expect } from 'chai';
+import 'mocha';
+
+import { JobRunner } from './job-runner';
+import { JobQueue } from './job-queue';
+import { JobQueueConfig } from './config';
+import { BlockProgressInterface, BlockRangeProgressInterface, IndexerInterface } from './types';
+import { JOB_KIND_INDEX, JOB_KIND_RESET, QUEUE_BLOCK_PROCESSING, QUEUE_EVENT_PROCESSING } from './constants';
+import { getTestBlockProgress, getTestSyncStatus } from '../test/utils';
+
+describe('job runner deep reorg recovery', () => {
+  // Blocks 1 to 10 indexed in the watcher.
+  let indexedBlocks: BlockProgressInterface[];
+
+  // Upstream blocks of the new chain branching off after block 7.
+  const upstreamBlocks = [
+    { blockHash: '0xc8', blockNumber: 8, parentHash: '0xb7' },
+    { blockHash: '0xc9', blockNumber: 9, parentHash: '0xc8' }
+  ];
+
+  let resetBlockNumber: number | undefined;
+  let pushedJobs: { queue: string, data: any }[];
+  let deletedJobs: { queue: string, blockNumber: number, blockHashes: string[] }[];
+
+  const getJobRunner = (jobQueueConfig: Partial<JobQueueConfig> = {}): JobRunner => {
+    const indexer = {
+      getSyncStatus: async () => getTestSyncStatus(indexedBlocks[9], { latestCanonicalBlockHash: '0xb8', latestCanonicalBlockNumber: 8 }),
+      getBlockProgress: async (blockHash: string) => indexedBlocks.find(block => block.blockHash === blockHash),
+      getBlockProgressEntities: async () => indexedBlocks.filter(block => block.blockNumber > 7),
+      getBlocks: async ({ blockHash }: { blockHash: string }) => upstreamBlocks.filter(block => block.blockHash === blockHash),
+      resetWatcherToBlock: async (blockNumber: number) => { resetBlockNumber = blockNumber; }
+    } as unknown as IndexerInterface;
+
+    const jobQueue = {
+      pushJob: async (queue: string, data: any) => { pushedJobs.push({ queue, data }); },
+      deleteJobsAfterBlock: async (queue: string, blockNumber: number, blockHashes: string[]) => { deletedJobs.push({ queue, blockNumber, blockHashes }); }
+    } as unknown as JobQueue;
+
+    return new JobRunner(jobQueueConfig as JobQueueConfig, indexer, jobQueue);
+  };
+
+  beforeEach(() => {
+    indexedBlocks = [];
+
+    for (let blockNumber = 1; blockNumber <= 10; blockNumber++) {
+      indexedBlocks.push(getTestBlockProgress(blockNumber, `0xb${blockNumber}`, `0xb${blockNumber - 1}`));
+    }
+
+    resetBlockNumber = undefined;
+    pushedJobs = [];
+    deletedJobs = [];
+  });
+
+  it('should reset the watcher to the common ancestor and clear jobs of the rolled back blocks', async () => {
+    const jobRunner = getJobRunner();
+    await jobRunner._recoverFromDeepReorg(9, '0xc9', '0xc8');
+
+    expect(resetBlockNumber).to.equal(7);
+
+    const rolledBackBlockHashes = ['0xb8', '0xb9', '0xb10'];
+    expect(deletedJobs).to.deep.equal([
+      { queue: QUEUE_BLOCK_PROCESSING, blockNumber: 7, blockHashes: rolledBackBlockHashes },
+      { queue: QUEUE_EVENT_PROCESSING, blockNumber: 7, blockHashes: rolledBackBlockHashes }
+    ]);
+
+    // Jobs to clear the server state and to index blocks again are pushed after removing queued jobs.
+    expect(pushedJobs).to.deep.equal([
+      { queue: QUEUE_EVENT_PROCESSING, data: { kind: JOB_KIND_RESET, blockNumber: 7 } },
+      { queue: QUEUE_BLOCK_PROCESSING, data: { kind: JOB_KIND_INDEX, blockNumber: 8 } }
+    ]);
+  });
+
+  it('should not use pruned blocks as the common ancestor', async () => {
+    // Block indexed at height 8 in a branch pruned earlier.
+    indexedBlocks.push(getTestBlockProgress(8, '0xc8', '0xb7', { isPruned: true }));
+
+    const jobRunner = getJobRunner();
+    await jobRunner._recoverFromDeepReorg(9, '0xc9', '0xc8');
+
+    expect(resetBlockNumber).to.equal(7);
+  });
+
+  it('should not roll back beyond the max rollback depth', async () => {
+    const jobRunner = getJobRunner({ maxReorgRollbackDepth: 2 });
+
+    try {
+      await jobRunner._recoverFromDeepReorg(9, '0xc9', '0xc8');
+      expect.fail('should throw error');
+    } catch (error) {
+      expect((error as Error).message).to.include('Common ancestor not found within max rollback depth 2');
+    }
+
+    expect(resetBlockNumber).to.equal(undefined);
+    expect(deletedJobs).to.have.lengthOf(0);
+    expect(pushedJobs).to.have.lengthOf(0);
+  });
+});
+
+describe('job runner block range processing', () => {
+  it('should index blocks of a range from the last processed block', async () => {
+    let blockRange: BlockRangeProgressInterface = { id: 1, startBlock: 11, endBlock: 13, lastProcessedBlockNumber: 11, isComplete: false };
+
+    // Block 12 was processed before the range progress was updated in a previous run.
+    const blocks = [getTestBlockProgress(12, '0xb12', '0xb11')];
+    const processedBlockNumbers: number[] = [];
+    let isJobComplete = false;
+
+    const indexer = {
+      getBlockRangeProgressEntities: async () => [blockRange],
+      updateBlockRangeProgress: async (range: BlockRangeProgressInterface, blockNumber: number) => {
+        blockRange = { ...range, lastProcessedBlockNumber: blockNumber, isComplete: blockNumber >= range.endBlock };
+        return blockRange;
+      },
+      getBlocks: async ({ blockNumber }: { blockNumber: number }) => [{ cid: '', blockHash: `0xb${blockNumber}`, parentHash: `0xb${blockNumber - 1}`, timestamp: blockNumber }],
+      getBlockProgress: async (blockHash: string) => blocks.find(block => block.blockHash === blockHash),
+      saveBlockAndFetchEvents: async ({ blockHash, blockNumber, parentHash }: BlockProgressInterface) => {
+        const block = getTestBlockProgress(blockNumber, blockHash, parentHash, { isComplete: false });
+        blocks.push(block);
+
+        return [block, []];
+      },
+      processBlock: async (block: BlockProgressInterface) => { processedBlockNumbers.push(block.blockNumber); },
+      updateBlockProgress: async (block: BlockProgressInterface) => block
+    } as unknown as IndexerInterface;
+
+    const jobQueue = {
+      markComplete: async () => { isJobComplete = true; }
+    } as unknown as JobQueue;
+
+    const jobRunner = new JobRunner({} as JobQueueConfig, indexer, jobQueue);
+    await jobRunner.processBlockRange({ data: { rangeId: 1 } });
+
+    expect(processedBlockNumbers).to.deep.equal([13]);
+    expect(blocks[1].isComplete).to.equal(true);
+    expect(blockRange).to.include({ lastProcessedBlockNumber: 13, isComplete: true });
+    expect(isJobComplete).to.equal(true);
+  });
+});
@@ -4,7 +4,7 @@
 
 import assert from 'assert';
 import debug from 'debug';
-import { DeepPartial, In } from 'typeorm';
+import { DeepPartial, In, MoreThan } from 'typeorm';
 
 import { JobQueueConfig } from './config';
 import {
@@ -12,11 +12,15 @@ import {
   JOB_KIND_PRUNE,
   JOB_KIND_EVENTS,
   JOB_KIND_CONTRACT,
-  MAX_REORG_DEPTH,
+  JOB_KIND_RESET,
   QUEUE_BLOCK_PROCESSING,
   QUEUE_EVENT_PROCESSING,
   QUEUE_BLOCK_CHECKPOINT,
-  QUEUE_HOOKS
+  QUEUE_HOOKS,
+  QUEUE_BLOCK_RANGE_PROCESSING,
+  QUEUE_WEBHOOK_DELIVERY,
+  QUEUE_STATE_PUBLICATION,
+  DEFAULT_MAX_REORG_ROLLBACK_DEPTH
 } from './constants';
 import { JobQueue } from './job-queue';
 import { BlockProgressInterface, EventInterface, IndexerInterface } from './types';
@@ -27,9 +31,16 @@ import {
   createCheckpointJob,
   processBatchEvents,
   PrefetchedBlock,
-  fetchBlocksAtHeight
+  fetchBlocksAtHeight,
+  processBlockByNumber
 } from './common';
-import { lastBlockNumEvents, lastBlockProcessDuration, lastProcessedBlockNumber } from './metrics';
+import {
+  lastBlockNumEvents,
+  lastBlockProcessDuration,
+  lastProcessedBlockNumber,
+  deepReorgCount,
+  lastDeepReorgRollbackDepth
+} from './metrics';
 
 const log = debug('vulcanize:job-runner');
 
@@ -74,6 +85,24 @@ export class JobRunner {
     });
   }
 
+  async subscribeBlockRangeProcessingQueue (): Promise<void> {
+    await this.jobQueue.subscribe(QUEUE_BLOCK_RANGE_PROCESSING, async (job) => {
+      await this.processBlockRange(job);
+    });
+  }
+
+  async subscribeWebhookDeliveryQueue (): Promise<void> {
+    await this.jobQueue.subscribe(QUEUE_WEBHOOK_DELIVERY, async (job) => {
+      await this.processWebhookDelivery(job);
+    });
+  }
+
+  async subscribeStatePublicationQueue (): Promise<void> {
+    await this.jobQueue.subscribe(QUEUE_STATE_PUBLICATION, async (job) => {
+      await this.processStatePublication(job);
+    });
+  }
+
   async processBlock (job: any): Promise<void> {
     const { data: { kind } } = job;
 
@@ -135,6 +164,10 @@ export class JobRunner {
         this._updateWatchedContracts(job);
         break;
 
+      case JOB_KIND_RESET:
+        // Job is completed for the server to clear its state of the rolled back blocks.
+        break;
+
       default:
         log(`Invalid Job kind ${kind} in QUEUE_EVENT_PROCESSING.`);
         break;
@@ -212,6 +245,56 @@ export class JobRunner {
     // Update the stateSyncStatus.
     await this._indexer.updateStateSyncStatusCheckpointBlock(blockNumber);
 
+    // Compact diffs older than the retention depth.
+    if (this._indexer.processStateCompaction) {
+      const { maxReorgRollbackDepth = DEFAULT_MAX_REORG_ROLLBACK_DEPTH } = this._jobQueueConfig;
+      await this._indexer.processStateCompaction(blockNumber, maxReorgRollbackDepth);
+    }
+
+    await this.jobQueue.markComplete(job);
+  }
+
+  async processBlockRange (job: any): Promise<void> {
+    const { data: { rangeId } } = job;
+
+    assert(this._indexer.getBlockRangeProgressEntities);
+    assert(this._indexer.updateBlockRangeProgress);
+    let [blockRange] = await this._indexer.getBlockRangeProgressEntities({ id: rangeId }, {});
+    assert(blockRange, `Block range ${rangeId} not found`);
+
+    log(`Processing block range [${blockRange.startBlock}, ${blockRange.endBlock}] from block ${blockRange.lastProcessedBlockNumber + 1}`);
+
+    // Blocks in a range are processed sequentially and the range progress is updated after each block.
+    while (!blockRange.isComplete) {
+      const blockNumber = blockRange.lastProcessedBlockNumber + 1;
+      await this._indexBlockInRange(blockNumber);
+      blockRange = await this._indexer.updateBlockRangeProgress(blockRange, blockNumber);
+
+      if (this._shutDown) {
+        log(`Graceful shutdown after processing block ${blockNumber} in range [${blockRange.startBlock}, ${blockRange.endBlock}]`);
+        this.jobQueue.stop();
+        process.exit(0);
+      }
+    }
+
+    await this.jobQueue.markComplete(job);
+  }
+
+  async processWebhookDelivery (job: any): Promise<void> {
+    const { data: { deliveryId } } = job;
+
+    assert(this._indexer.processWebhookDelivery);
+    await this._indexer.processWebhookDelivery(deliveryId);
+
+    await this.jobQueue.markComplete(job);
+  }
+
+  async processStatePublication (job: any): Promise<void> {
+    const { data: { cid } } = job;
+
+    assert(this._indexer.publishState);
+    await this._indexer.publishState(cid);
+
     await this.jobQueue.markComplete(job);
   }
 
@@ -263,11 +346,14 @@ export class JobRunner {
 
     log(`Processing chain pruning at ${pruneBlockHeight}`);
 
-    // Assert we're at a depth where pruning is safe.
-    assert(syncStatus.latestIndexedBlockNumber >= (pruneBlockHeight + MAX_REORG_DEPTH));
+    const pruningDepth = await this._indexer.getPruningDepth(syncStatus.latestIndexedBlockNumber);
 
-    // Check that we haven't already pruned at this depth.
-    if (syncStatus.latestCanonicalBlockNumber >= pruneBlockHeight) {
+    // Check we're at a depth where pruning is safe.
+    // Pruning depth can increase if finality block tag becomes unavailable upstream.
+    if (syncStatus.latestIndexedBlockNumber < (pruneBlockHeight + pruningDepth)) {
+      log(`Skipping pruning at block height ${pruneBlockHeight}, latestIndexedBlockNumber ${syncStatus.latestIndexedBlockNumber} and pruning depth ${pruningDepth}`);
+    } else if (syncStatus.latestCanonicalBlockNumber >= pruneBlockHeight) {
+      // Check that we haven't already pruned at this depth.
       log(`Already pruned at block height ${pruneBlockHeight}, latestCanonicalBlockNumber ${syncStatus.latestCanonicalBlockNumber}`);
     } else {
       // Check how many branches there are at the given height/block number.
@@ -280,10 +366,10 @@ export class JobRunner {
       // We have more than one node at this height, so prune all nodes not reachable from indexed block at max reorg depth from prune height.
       // This will lead to orphaned nodes, which will get pruned at the next height.
       if (blocksAtHeight.length > 1) {
-        const [indexedBlock] = await this._indexer.getBlocksAtHeight(pruneBlockHeight + MAX_REORG_DEPTH, false);
+        const [indexedBlock] = await this._indexer.getBlocksAtHeight(pruneBlockHeight + pruningDepth, false);
 
         // Get ancestor blockHash from indexed block at prune height.
-        const ancestorBlockHash = await this._indexer.getAncestorAtDepth(indexedBlock.blockHash, MAX_REORG_DEPTH);
+        const ancestorBlockHash = await this._indexer.getAncestorAtDepth(indexedBlock.blockHash, pruningDepth);
         newCanonicalBlockHash = ancestorBlockHash;
 
         const blocksToBePruned = blocksAtHeight.filter(block => ancestorBlockHash !== block.blockHash);
@@ -291,6 +377,11 @@ export class JobRunner {
         if (blocksToBePruned.length) {
           // Mark blocks pruned which are not the ancestor block.
           await this._indexer.markBlocksAsPruned(blocksToBePruned);
+
+          // Retract webhook deliveries of the pruned blocks.
+          if (this._indexer.createWebhookRetractions) {
+            await this._indexer.createWebhookRetractions(blocksToBePruned);
+          }
         }
       } else {
         newCanonicalBlockHash = blocksAtHeight[0].blockHash;
@@ -298,6 +389,11 @@ export class JobRunner {
 
       // Update the canonical block in the SyncStatus.
       await this._indexer.updateSyncStatusCanonicalBlock(newCanonicalBlockHash, pruneBlockHeight);
+
+      // Publish States of the canonical block to IPFS.
+      if (this._indexer.publishBlockStates) {
+        await this._indexer.publishBlockStates(newCanonicalBlockHash);
+      }
     }
 
     console.timeEnd('time:job-runner#_pruneChain');
@@ -326,7 +422,9 @@ export class JobRunner {
     log(`Processing block number ${blockNumber} hash ${blockHash} `);
 
     // Check if chain pruning is caught up.
-    if ((syncStatus.latestIndexedBlockNumber - syncStatus.latestCanonicalBlockNumber) > MAX_REORG_DEPTH) {
+    const pruningDepth = await this._indexer.getPruningDepth(syncStatus.latestIndexedBlockNumber);
+
+    if ((syncStatus.latestIndexedBlockNumber - syncStatus.latestCanonicalBlockNumber) > pruningDepth) {
       await createPruningJob(this.jobQueue, syncStatus.latestCanonicalBlockNumber, priority);
 
       const message = `Chain pruning not caught up yet, latest canonical block number ${syncStatus.latestCanonicalBlockNumber} and latest indexed block number ${syncStatus.latestIndexedBlockNumber}`;
@@ -355,6 +453,14 @@ export class JobRunner {
       const newPriority = (priority || 0) + 1;
 
       if (!parentBlock || parentBlock.blockHash !== parentHash) {
+        // Parent block missing at or below canonical height means the reorg is deeper than pruning depth.
+        if (blockNumber - 1 <= syncStatus.latestCanonicalBlockNumber) {
+          await this._recoverFromDeepReorg(blockNumber, blockHash, parentHash);
+
+          // Complete the job as blocks are indexed again from the rollback point.
+          return;
+        }
+
         const blocks = await this._indexer.getBlocks({ blockHash: parentHash });
 
         if (!blocks.length) {
@@ -440,6 +546,108 @@ export class JobRunner {
     log(`time:job-runner#_indexBlock: ${indexBlockDuration}ms`);
   }
 
+  /**
+   * Method to recover from a reorg deeper than pruning depth.
+   * Finds the common ancestor by walking back parentHash upstream and resets the watcher to it.
+   * @param blockNumber
+   * @param blockHash
+   * @param parentHash
+   */
+  async _recoverFromDeepReorg (blockNumber: number, blockHash: string, parentHash: string): Promise<void> {
+    const { maxReorgRollbackDepth = DEFAULT_MAX_REORG_ROLLBACK_DEPTH } = this._jobQueueConfig;
+
+    const syncStatus = await this._indexer.getSyncStatus();
+    assert(syncStatus);
+
+    log(`ALERT: Reorg deeper than pruning depth detected at block number ${blockNumber} hash ${blockHash}, latest canonical block number ${syncStatus.latestCanonicalBlockNumber}`);
+
+    if (!maxReorgRollbackDepth) {
+      throw new Error(`Reorg deeper than pruning depth at block number ${blockNumber} hash ${blockHash}, automatic rollback is disabled`);
+    }
+
+    let ancestorHash = parentHash;
+    let ancestorNumber = blockNumber - 1;
+    let commonAncestor: BlockProgressInterface | undefined;
+
+    // Walk back parentHash upstream till a block indexed in the watcher is found.
+    while (!commonAncestor) {
+      if ((syncStatus.latestIndexedBlockNumber - ancestorNumber) > maxReorgRollbackDepth || ancestorNumber < syncStatus.initialIndexedBlockNumber) {
+        const message = `Common ancestor not found within max rollback depth ${maxReorgRollbackDepth} from latest indexed block ${syncStatus.latestIndexedBlockNumber}, reset the watcher manually`;
+        log(`ALERT: ${message}`);
+
+        throw new Error(message);
+      }
+
+      const indexedBlock = await this._indexer.getBlockProgress(ancestorHash);
+
+      if (indexedBlock && !indexedBlock.isPruned) {
+        commonAncestor = indexedBlock;
+        continue;
+      }
+
+      const [upstreamBlock] = await this._indexer.getBlocks({ blockHash: ancestorHash });
+      assert(upstreamBlock, `Block ${ancestorHash} not found upstream`);
+
+      ancestorHash = upstreamBlock.parentHash;
+      ancestorNumber--;
+    }
+
+    const rollbackDepth = syncStatus.latestIndexedBlockNumber - commonAncestor.blockNumber;
+    log(`ALERT: Rolling back ${rollbackDepth} blocks to common ancestor block number ${commonAncestor.blockNumber} hash ${commonAncestor.blockHash}`);
+
+    deepReorgCount.inc();
+    lastDeepReorgRollbackDepth.set(rollbackDepth);
+
+    const rolledBackBlocks = await this._indexer.getBlockProgressEntities({ blockNumber: MoreThan(commonAncestor.blockNumber) }, {});
+
+    // Retract webhook deliveries of the blocks being rolled back.
+    if (this._indexer.createWebhookRetractions) {
+      await this._indexer.createWebhookRetractions(rolledBackBlocks);
+    }
+
+    // Roll back entities, events, states and sync status to the common ancestor.
+    await this._indexer.resetWatcherToBlock(commonAncestor.blockNumber);
+    this._blockAndEventsMap.clear();
+
+    // Remove queued jobs of the rolled back blocks.
+    const rolledBackBlockHashes = rolledBackBlocks.map(block => block.blockHash);
+    await this.jobQueue.deleteJobsAfterBlock(QUEUE_BLOCK_PROCESSING, commonAncestor.blockNumber, rolledBackBlockHashes);
+    await this.jobQueue.deleteJobsAfterBlock(QUEUE_EVENT_PROCESSING, commonAncestor.blockNumber, rolledBackBlockHashes);
+
+    // Notify the server to clear its cached entities of the rolled back blocks.
+    await this.jobQueue.pushJob(QUEUE_EVENT_PROCESSING, { kind: JOB_KIND_RESET, blockNumber: commonAncestor.blockNumber }, { priority: 1 });
+
+    // Index blocks again from the common ancestor.
+    await processBlockByNumber(this.jobQueue, commonAncestor.blockNumber + 1);
+  }
+
+  async _indexBlockInRange (blockNumber: number): Promise<void> {
+    let blocks = await this._indexer.getBlocks({ blockNumber });
+
+    // Wait for the block to be available upstream.
+    while (!blocks.length) {
+      log(`No blocks fetched for block number ${blockNumber}, retrying after ${this._jobQueueConfig.blockDelayInMilliSecs} ms delay.`);
+      await wait(this._jobQueueConfig.blockDelayInMilliSecs);
+      blocks = await this._indexer.getBlocks({ blockNumber });
+    }
+
+    // Historical blocks being filled are assumed to be final.
+    const [{ cid, blockHash, parentHash, timestamp }] = blocks;
+    let blockProgress = await this._indexer.getBlockProgress(blockHash);
+
+    if (!blockProgress) {
+      [blockProgress] = await this._indexer.saveBlockAndFetchEvents({ cid, blockHash, blockNumber, parentHash, blockTimestamp: timestamp });
+    }
+
+    // Skip blocks already processed by a previous run.
+    if (blockProgress.isComplete) {
+      return;
+    }
+
+    await this._indexer.processBlock(blockProgress);
+    await processBatchEvents(this._indexer, blockProgress, this._jobQueueConfig.eventsInBatch);
+  }
+
   async _processEvents (job: any): Promise<void> {
     const { blockHash } = job.data;
 
@@ -461,6 +669,11 @@ export class JobRunner {
     await processBatchEvents(this._indexer, block, this._jobQueueConfig.eventsInBatch);
     console.timeEnd('time:job-runner#_processEvents-events');
 
+    // Add events of the block to webhook delivery outbox.
+    if (block.isComplete && this._indexer.createWebhookDeliveries) {
+      await this._indexer.createWebhookDeliveries(block);
+    }
+
     // Update metrics
     lastProcessedBlockNumber.set(block.blockNumber);
     lastBlockNumEvents.set(block.numEvents);
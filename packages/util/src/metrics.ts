@@ -9,7 +9,7 @@ import debug from 'debug';
 import assert from 'assert';
 
 import { Config } from './config';
-import { IndexerInterface } from './types';
+import { IndexerInterface, JobQueueBackendKind } from './types';
 
 const DB_SIZE_QUERY = 'SELECT pg_database_size(current_database())';
 
@@ -78,6 +78,46 @@ export const eventProcessingEthCallDuration = new client.Histogram({
   help: 'Duration of eth_calls made in event processing'
 });
 
+export const rpcRequestCount = new client.Counter({
+  name: 'rpc_requests_total',
+  help: 'Total requests made to RPC endpoints',
+  labelNames: ['endpoint', 'method', 'status'] as const
+});
+
+export const rpcRequestDuration = new client.Histogram({
+  name: 'rpc_request_duration_seconds',
+  help: 'Duration of requests made to RPC endpoints',
+  labelNames: ['endpoint', 'method'] as const
+});
+
+export const rpcEndpointHealth = new client.Gauge({
+  name: 'rpc_endpoint_healthy',
+  help: 'RPC endpoint health (1 for healthy, 0 for unhealthy)',
+  labelNames: ['endpoint'] as const
+});
+
+export const rpcEndpointLatestBlockNumber = new client.Gauge({
+  name: 'rpc_endpoint_latest_block_number',
+  help: 'Latest block number reported by RPC endpoint in health check',
+  labelNames: ['endpoint'] as const
+});
+
+export const rpcEndpointFailoverCount = new client.Counter({
+  name: 'rpc_endpoint_failovers_total',
+  help: 'Total requests failed over from RPC endpoint to another endpoint',
+  labelNames: ['endpoint'] as const
+});
+
+export const deepReorgCount = new client.Counter({
+  name: 'deep_reorgs_total',
+  help: 'Total reorgs deeper than pruning depth recovered by rolling back the watcher'
+});
+
+export const lastDeepReorgRollbackDepth = new client.Gauge({
+  name: 'last_deep_reorg_rollback_depth',
+  help: 'Number of indexed blocks rolled back in the last deep reorg recovery'
+});
+
 // Export metrics on a server
 const app: Application = express();
 
@@ -124,19 +164,21 @@ export const startMetricsServer = async (config: Config, indexer: IndexerInterfa
 };
 
 const registerDBSizeMetrics = async ({ database, jobQueue }: Config): Promise<void> => {
-  const [watcherConn, jobQueueConn] = await Promise.all([
-    createConnection({
-      ...database,
-      name: 'metrics-watcher-connection',
-      synchronize: false
-    }),
-    createConnection({
+  const watcherConn = await createConnection({
+    ...database,
+    name: 'metrics-watcher-connection',
+    synchronize: false
+  });
+
+  // In-process job queue backend does not use a database.
+  const jobQueueConn = jobQueue.backend === JobQueueBackendKind.InProcess
+    ? undefined
+    : await createConnection({
       type: 'postgres',
       url: jobQueue.dbConnectionString,
       name: 'metrics-job-queue-connection',
       synchronize: false
-    })
-  ]);
+    });
 
   // eslint-disable-next-line no-new
   new client.Gauge({
@@ -144,16 +186,13 @@ const registerDBSizeMetrics = async ({ database, jobQueue }: Config): Promise<vo
     help: 'Watcher database sizes in bytes',
     labelNames: ['type'] as const,
     async collect () {
-      const [
-        [{ pg_database_size: watcherDBSize }],
-        [{ pg_database_size: jobQueueDBSize }]
-      ] = await Promise.all([
-        watcherConn.query(DB_SIZE_QUERY),
-        jobQueueConn.query(DB_SIZE_QUERY)
-      ]);
-
+      const [{ pg_database_size: watcherDBSize }] = await watcherConn.query(DB_SIZE_QUERY);
       this.set({ type: 'watcher' }, Number(watcherDBSize));
-      this.set({ type: 'job-queue' }, Number(jobQueueDBSize));
+
+      if (jobQueueConn) {
+        const [{ pg_database_size: jobQueueDBSize }] = await jobQueueConn.query(DB_SIZE_QUERY);
+        this.set({ type: 'job-queue' }, Number(jobQueueDBSize));
+      }
     }
   });
 };
@@ -13,7 +13,7 @@ import { GraphQLResolveInfo } from 'graphql';
 import _ from 'lodash';
 
 import { DEFAULT_CONFIG_PATH } from './constants';
-import { GQLCacheConfig, Config } from './config';
+import { GQLCacheConfig, Config, RpcEndpointConfig, RpcProviderOptions, UpstreamConfig } from './config';
 import { JobQueue } from './job-queue';
 import { GraphDecimal } from './graph/graph-decimal';
 import * as EthDecoder from './eth';
@@ -21,6 +21,7 @@ import { getCachedBlockSize } from './block-size-cache';
 import { ResultEvent } from './indexer';
 import { EventInterface, EthClient } from './types';
 import { BlockHeight } from './database';
+import { FailoverProvider } from './rpc-provider';
 
 const JSONbigNative = JSONbig({ useNativeBigInt: true });
 
@@ -127,10 +128,7 @@ export const decimalArrayTransformer: ValueTransformer = {
 export const resetJobs = async (config: Config): Promise<void> => {
   const { jobQueue: jobQueueConfig } = config;
 
-  const { dbConnectionString, maxCompletionLagInSecs } = jobQueueConfig;
-  assert(dbConnectionString, 'Missing job queue db connection string');
-
-  const jobQueue = new JobQueue({ dbConnectionString, maxCompletionLag: maxCompletionLagInSecs });
+  const jobQueue = new JobQueue({ ...jobQueueConfig, maxCompletionLag: jobQueueConfig.maxCompletionLagInSecs });
   await jobQueue.start();
   await jobQueue.deleteAllJobs();
 };
@@ -151,19 +149,44 @@ export const getResetYargs = (): yargs.Argv => {
     });
 };
 
-export const getCustomProvider = (url?: utils.ConnectionInfo | string, network?: providers.Networkish): providers.JsonRpcProvider => {
-  const provider = new providers.JsonRpcProvider(url, network);
+export const getCustomProvider = (
+  url?: utils.ConnectionInfo | string | RpcEndpointConfig[],
+  network?: providers.Networkish,
+  rpcProviderOptions?: RpcProviderOptions
+): providers.JsonRpcProvider => {
+  // Use failover provider if multiple RPC endpoints are configured.
+  const provider = Array.isArray(url)
+    ? new FailoverProvider(url, network, rpcProviderOptions)
+    : new providers.JsonRpcProvider(url, network);
+
   provider.formatter = new CustomFormatter();
   return provider;
 };
 
+/**
+ * Get RPC endpoints from upstream ethServer config.
+ * Returns list of endpoints if rpcProviderEndpoints is set, else the single rpcProviderEndpoint.
+ * @param ethServerConfig
+ */
+export const getRpcEndpoints = (ethServerConfig: UpstreamConfig['ethServer']): string | RpcEndpointConfig[] => {
+  const { rpcProviderEndpoint, rpcProviderEndpoints = [] } = ethServerConfig;
+
+  if (rpcProviderEndpoints.length) {
+    return rpcProviderEndpoints;
+  }
+
+  assert(rpcProviderEndpoint, 'Missing upstream ethServer.rpcProviderEndpoint');
+
+  return rpcProviderEndpoint;
+};
+
 class CustomFormatter extends providers.Formatter {
   blockTag (blockTag: any): string {
     if (blockTag == null) { return 'latest'; }
 
     if (blockTag === 'earliest') { return '0x0'; }
 
-    if (blockTag === 'latest' || blockTag === 'pending') {
+    if (blockTag === 'latest' || blockTag === 'pending' || blockTag === 'safe' || blockTag === 'finalized') {
       return blockTag;
     }
 
@@ -0,0 +1,119 @@
+//
+// Copyright 2023 Vulcanize, Inc.
+//
+
+import { expect } from 'chai';
+import 'mocha';
+import { errors } from 'ethers';
+
+import { FailoverProvider, RpcEndpoint } from './rpc-provider';
+
+const BLOCK_HASH = '0x' + 'a'.repeat(64);
+const ADDRESS = '0x' + '1'.repeat(40);
+
+describe('failover provider', () => {
+  let provider: FailoverProvider;
+  let endpoints: RpcEndpoint[];
+
+  // Requests sent to the endpoints.
+  let requests: { endpoint: string, method: string }[];
+
+  // Set the response (or error thrown) for requests to an endpoint.
+  const setResponses = (endpoint: RpcEndpoint, responses: { [method: string]: () => any }) => {
+    endpoint.provider.send = async (method: string) => {
+      requests.push({ endpoint: endpoint.label, method });
+
+      return responses[method]();
+    };
+  };
+
+  const getTimeoutError = () => Object.assign(new Error('timeout'), { code: errors.TIMEOUT });
+
+  beforeEach(() => {
+    provider = new FailoverProvider(
+      [{ url: 'http://rpc-a.test:8545' }, { url: 'http://rpc-b.test:8545', maxRequestsPerSecond: 10 }],
+      1,
+      { healthCheckIntervalInSecs: 0 }
+    );
+
+    endpoints = provider._endpoints;
+    requests = [];
+
+    // Order endpoints by their health and capacity only.
+    provider._shuffleByWeight = (endpoints: RpcEndpoint[]) => endpoints;
+  });
+
+  it('should fail over to the next endpoint on timeouts', async () => {
+    setResponses(endpoints[0], { eth_blockNumber: () => { throw getTimeoutError(); } });
+    setResponses(endpoints[1], { eth_blockNumber: () => '0x10' });
+
+    const result = await provider.send('eth_blockNumber', []);
+
+    expect(result).to.equal('0x10');
+    expect(requests).to.deep.equal([
+      { endpoint: 'rpc-a.test:8545', method: 'eth_blockNumber' },
+      { endpoint: 'rpc-b.test:8545', method: 'eth_blockNumber' }
+    ]);
+
+    // Unhealthy endpoint is tried last until the next health check.
+    expect(endpoints[0].healthy).to.equal(false);
+    expect(provider._getOrderedEndpoints()).to.deep.equal([endpoints[1], endpoints[0]]);
+  });
+
+  it('should not fail over on reverted calls', async () => {
+    setResponses(endpoints[0], { eth_call: () => { throw Object.assign(new Error('call failed'), { error: { code: 3, message: 'execution reverted' } }); } });
+    setResponses(endpoints[1], { eth_call: () => '0x' });
+
+    try {
+      await provider.send('eth_call', [{ to: ADDRESS, data: '0x' }, 'latest']);
+      expect.fail('should throw error');
+    } catch (error) {
+      expect((error as Error).message).to.equal('call failed');
+    }
+
+    expect(requests).to.have.lengthOf(1);
+    expect(endpoints[0].healthy).to.equal(true);
+  });
+
+  it('should send block hash pinned requests only to endpoints having the block', async () => {
+    setResponses(endpoints[0], { eth_getBlockByHash: () => null, eth_getStorageAt: () => '0x1' });
+    setResponses(endpoints[1], { eth_getBlockByHash: () => ({ hash: BLOCK_HASH }), eth_getStorageAt: () => '0x2' });
+
+    const result = await provider.send('eth_getStorageAt', [ADDRESS, '0x0', BLOCK_HASH]);
+
+    expect(result).to.equal('0x2');
+    expect(requests.filter(({ method }) => method === 'eth_getStorageAt')).to.deep.equal([
+      { endpoint: 'rpc-b.test:8545', method: 'eth_getStorageAt' }
+    ]);
+    expect(endpoints[1].hasKnownBlockHash(BLOCK_HASH)).to.equal(true);
+
+    // Endpoint with the known block is not checked again.
+    requests = [];
+    await provider.send('eth_getStorageAt', [ADDRESS, '0x0', BLOCK_HASH]);
+    expect(requests.filter(({ endpoint }) => endpoint === 'rpc-b.test:8545')).to.deep.equal([
+      { endpoint: 'rpc-b.test:8545', method: 'eth_getStorageAt' }
+    ]);
+  });
+
+  it('should try other endpoints for blocks not found', async () => {
+    setResponses(endpoints[0], { eth_getBlockByHash: () => null });
+    setResponses(endpoints[1], { eth_getBlockByHash: () => ({ hash: BLOCK_HASH }) });
+
+    const result = await provider.send('eth_getBlockByHash', [BLOCK_HASH, false]);
+
+    expect(result).to.deep.equal({ hash: BLOCK_HASH });
+    expect(requests).to.have.lengthOf(2);
+  });
+
+  it('should order endpoints without request capacity after the others', async () => {
+    setResponses(endpoints[1], { eth_blockNumber: () => '0x10' });
+
+    // Use up the request capacity of the rate limited endpoint.
+    for (let i = 0; i < 10; i++) {
+      await endpoints[1].acquire();
+    }
+
+    expect(endpoints[1].hasCapacity()).to.equal(false);
+    expect(provider._getOrderedEndpoints()).to.deep.equal([endpoints[0], endpoints[1]]);
+  });
+});
@@ -0,0 +1,331 @@
+//
+// Copyright 2023 Vulcanize, Inc.
+//
+
+import assert from 'assert';
+import debug from 'debug';
+import { errors, providers, utils } from 'ethers';
+
+import { RpcEndpointConfig, RpcProviderOptions } from './config';
+import {
+  rpcEndpointFailoverCount,
+  rpcEndpointHealth,
+  rpcEndpointLatestBlockNumber,
+  rpcRequestCount,
+  rpcRequestDuration
+} from './metrics';
+
+const log = debug('vulcanize:rpc-provider');
+
+const DEFAULT_HEALTH_CHECK_INTERVAL_IN_SECS = 15;
+const DEFAULT_REQUEST_TIMEOUT_IN_MS = 30000;
+const MAX_KNOWN_BLOCK_HASHES = 1000;
+
+// Index of the block tag param for methods which can be pinned to a block hash.
+const BLOCK_TAG_PARAM_INDEX: { [method: string]: number } = {
+  eth_getBlockByHash: 0,
+  eth_getBlockTransactionCountByHash: 0,
+  eth_getStorageAt: 2,
+  eth_getBalance: 1,
+  eth_getCode: 1,
+  eth_getTransactionCount: 1,
+  eth_call: 1
+};
+
+export class RpcEndpoint {
+  url: string;
+  label: string;
+  weight: number;
+  provider: providers.JsonRpcProvider;
+  healthy = true;
+  latestBlockNumber?: number;
+
+  _maxRequestsPerSecond?: number;
+  _tokens: number;
+  _lastRefill: number;
+  _knownBlockHashes: Set<string> = new Set();
+
+  constructor ({ url, weight = 1, maxRequestsPerSecond }: RpcEndpointConfig, requestTimeoutInMs: number, network?: providers.Networkish) {
+    assert(url, 'Missing RPC endpoint url');
+    assert(weight > 0, `Invalid weight ${weight} for RPC endpoint`);
+
+    this.url = url;
+    this.weight = weight;
+    this.provider = new providers.StaticJsonRpcProvider({ url, timeout: requestTimeoutInMs }, network);
+
+    // Use only host as label to avoid exposing API keys in url path or params.
+    this.label = new URL(url).host;
+
+    this._maxRequestsPerSecond = maxRequestsPerSecond;
+    this._tokens = maxRequestsPerSecond ?? 0;
+    this._lastRefill = Date.now();
+  }
+
+  hasCapacity (): boolean {
+    this._refillTokens();
+
+    return !this._maxRequestsPerSecond || this._tokens >= 1;
+  }
+
+  async acquire (): Promise<void> {
+    const maxRequestsPerSecond = this._maxRequestsPerSecond;
+
+    if (!maxRequestsPerSecond) {
+      return;
+    }
+
+    while (!this.hasCapacity()) {
+      // Wait for the next token to be available.
+      await new Promise(resolve => setTimeout(resolve, Math.ceil(1000 / maxRequestsPerSecond)));
+    }
+
+    this._tokens -= 1;
+  }
+
+  hasKnownBlockHash (blockHash: string): boolean {
+    return this._knownBlockHashes.has(blockHash);
+  }
+
+  addKnownBlockHash (blockHash: string): void {
+    this._knownBlockHashes.add(blockHash);
+
+    // Remove the oldest entry to limit the size.
+    if (this._knownBlockHashes.size > MAX_KNOWN_BLOCK_HASHES) {
+      const [oldestBlockHash] = this._knownBlockHashes;
+      this._knownBlockHashes.delete(oldestBlockHash);
+    }
+  }
+
+  setHealth (healthy: boolean): void {
+    if (this.healthy !== healthy) {
+      log(`RPC endpoint ${this.label} marked ${healthy ? 'healthy' : 'unhealthy'}`);
+    }
+
+    this.healthy = healthy;
+    rpcEndpointHealth.set({ endpoint: this.label }, Number(healthy));
+  }
+
+  _refillTokens (): void {
+    if (!this._maxRequestsPerSecond) {
+      return;
+    }
+
+    const now = Date.now();
+    const refill = ((now - this._lastRefill) / 1000) * this._maxRequestsPerSecond;
+    this._tokens = Math.min(this._maxRequestsPerSecond, this._tokens + refill);
+    this._lastRefill = now;
+  }
+}
+
+/**
+ * JSON-RPC provider distributing requests across multiple endpoints by weight.
+ * Requests are failed over to other endpoints on timeouts and server errors.
+ * Block hash pinned requests are only sent to endpoints having the block.
+ */
+export class FailoverProvider extends providers.JsonRpcProvider {
+  _endpoints: RpcEndpoint[];
+  _healthCheckInterval?: NodeJS.Timeout;
+
+  constructor (endpoints: RpcEndpointConfig[], network?: providers.Networkish, options: RpcProviderOptions = {}) {
+    assert(endpoints.length, 'Missing RPC endpoints');
+    super(endpoints[0].url, network);
+
+    const {
+      healthCheckIntervalInSecs = DEFAULT_HEALTH_CHECK_INTERVAL_IN_SECS,
+      requestTimeoutInMs = DEFAULT_REQUEST_TIMEOUT_IN_MS
+    } = options;
+
+    this._endpoints = endpoints.map(endpoint => new RpcEndpoint(endpoint, requestTimeoutInMs, network));
+    this._endpoints.forEach(endpoint => endpoint.setHealth(true));
+
+    if (healthCheckIntervalInSecs) {
+      this._healthCheckInterval = setInterval(() => this.checkHealth(), healthCheckIntervalInSecs * 1000);
+
+      // Do not keep the process running for health checks.
+      this._healthCheckInterval.unref();
+    }
+  }
+
+  async send (method: string, params: Array<any>): Promise<any> {
+    const blockHash = this._getPinnedBlockHash(method, params);
+    let endpoints = this._getOrderedEndpoints();
+
+    // Consistency guard: send block hash pinned requests only to endpoints having the block.
+    if (blockHash && method !== 'eth_getBlockByHash') {
+      const endpointsWithBlock = await this._filterEndpointsWithBlock(endpoints, blockHash);
+
+      // Let the request fail as it would for a single endpoint if no endpoint has the block.
+      if (endpointsWithBlock.length) {
+        endpoints = endpointsWithBlock;
+      }
+    }
+
+    let lastError: unknown;
+
+    for (const [index, endpoint] of endpoints.entries()) {
+      try {
+        const result = await this._sendToEndpoint(endpoint, method, params);
+
+        // Try other endpoints if the block is not available in the endpoint.
+        if (method === 'eth_getBlockByHash' && result === null && index < endpoints.length - 1) {
+          rpcEndpointFailoverCount.inc({ endpoint: endpoint.label });
+          continue;
+        }
+
+        if (blockHash && result !== null) {
+          endpoint.addKnownBlockHash(blockHash);
+        }
+
+        return result;
+      } catch (error: unknown) {
+        if (this._isDeterministicError(error)) {
+          throw error;
+        }
+
+        lastError = error;
+
+        if (index < endpoints.length - 1) {
+          log(`RPC request ${method} to endpoint ${endpoint.label} failed, trying next endpoint: ${(error as Error).message}`);
+          rpcEndpointFailoverCount.inc({ endpoint: endpoint.label });
+        }
+      }
+    }
+
+    throw lastError;
+  }
+
+  async checkHealth (): Promise<void> {
+    await Promise.all(this._endpoints.map(async endpoint => {
+      try {
+        const blockNumber = await endpoint.provider.send('eth_blockNumber', []);
+        endpoint.latestBlockNumber = Number(blockNumber);
+        rpcEndpointLatestBlockNumber.set({ endpoint: endpoint.label }, endpoint.latestBlockNumber);
+        endpoint.setHealth(true);
+      } catch (error: unknown) {
+        log(`Health check failed for RPC endpoint ${endpoint.label}: ${(error as Error).message}`);
+        endpoint.setHealth(false);
+      }
+    }));
+  }
+
+  stopHealthChecks (): void {
+    if (this._healthCheckInterval) {
+      clearInterval(this._healthCheckInterval);
+      this._healthCheckInterval = undefined;
+    }
+  }
+
+  async _sendToEndpoint (endpoint: RpcEndpoint, method: string, params: Array<any>): Promise<any> {
+    await endpoint.acquire();
+    const endTimer = rpcRequestDuration.startTimer({ endpoint: endpoint.label, method });
+
+    try {
+      const result = await endpoint.provider.send(method, params);
+      rpcRequestCount.inc({ endpoint: endpoint.label, method, status: 'success' });
+      endpoint.setHealth(true);
+
+      return result;
+    } catch (error) {
+      rpcRequestCount.inc({ endpoint: endpoint.label, method, status: 'error' });
+
+      // Mark endpoint unhealthy (until next health check) on transport errors.
+      if (this._isEndpointError(error)) {
+        endpoint.setHealth(false);
+      }
+
+      throw error;
+    } finally {
+      endTimer();
+    }
+  }
+
+  async _filterEndpointsWithBlock (endpoints: RpcEndpoint[], blockHash: string): Promise<RpcEndpoint[]> {
+    const hasBlockList = await Promise.all(endpoints.map(async endpoint => {
+      if (endpoint.hasKnownBlockHash(blockHash)) {
+        return true;
+      }
+
+      try {
+        const block = await this._sendToEndpoint(endpoint, 'eth_getBlockByHash', [blockHash, false]);
+
+        if (block) {
+          endpoint.addKnownBlockHash(blockHash);
+          return true;
+        }
+      } catch (error: unknown) {
+        log(`Failed to check block ${blockHash} in RPC endpoint ${endpoint.label}: ${(error as Error).message}`);
+      }
+
+      return false;
+    }));
+
+    return endpoints.filter((endpoint, index) => hasBlockList[index]);
+  }
+
+  /**
+   * Order endpoints for a request by weighted random selection.
+   * Healthy endpoints with capacity come first and unhealthy endpoints are tried last.
+   */
+  _getOrderedEndpoints (): RpcEndpoint[] {
+    const groups = [
+      this._endpoints.filter(endpoint => endpoint.healthy && endpoint.hasCapacity()),
+      this._endpoints.filter(endpoint => endpoint.healthy && !endpoint.hasCapacity()),
+      this._endpoints.filter(endpoint => !endpoint.healthy)
+    ];
+
+    return groups.map(group => this._shuffleByWeight(group)).flat();
+  }
+
+  _shuffleByWeight (endpoints: RpcEndpoint[]): RpcEndpoint[] {
+    const remaining = [...endpoints];
+    const ordered: RpcEndpoint[] = [];
+
+    while (remaining.length) {
+      const totalWeight = remaining.reduce((acc, endpoint) => acc + endpoint.weight, 0);
+      let random = Math.random() * totalWeight;
+      let index = remaining.findIndex(endpoint => (random -= endpoint.weight) < 0);
+
+      if (index === -1) {
+        index = remaining.length - 1;
+      }
+
+      ordered.push(...remaining.splice(index, 1));
+    }
+
+    return ordered;
+  }
+
+  _getPinnedBlockHash (method: string, params: Array<any>): string | undefined {
+    let blockTag: any;
+
+    if (method === 'eth_getLogs') {
+      blockTag = params[0]?.blockHash;
+    } else if (method in BLOCK_TAG_PARAM_INDEX) {
+      blockTag = params[BLOCK_TAG_PARAM_INDEX[method]];
+    }
+
+    // Block tag can be an EIP-1898 object.
+    if (blockTag && typeof blockTag === 'object') {
+      blockTag = blockTag.blockHash;
+    }
+
+    if (typeof blockTag === 'string' && utils.isHexString(blockTag, 32)) {
+      return blockTag;
+    }
+
+    return undefined;
+  }
+
+  _isEndpointError (error: any): boolean {
+    // Timeouts, connection failures and bad HTTP responses.
+    // JSON-RPC error responses are wrapped as SERVER_ERROR with the error from the node.
+    return error.code === errors.TIMEOUT || (error.code === errors.SERVER_ERROR && !error.error);
+  }
+
+  _isDeterministicError (error: any): boolean {
+    const rpcError = error.error ?? error;
+
+    // Reverted calls fail the same way on all endpoints.
+    return rpcError.code === 3 || /revert/i.test(rpcError.message ?? '');
+  }
+}
@@ -0,0 +1,159 @@
+//
+// Copyright 2023 Vulcanize, Inc.
+//
+
+import { expect } from 'chai';
+import 'mocha';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import * as codec from '@ipld/dag-cbor';
+
+import {
+  SnapshotChunkKind,
+  SnapshotCheckpointEncoder,
+  SnapshotWriter,
+  SNAPSHOT_MANIFEST_FILE,
+  readSnapshotChunk,
+  readSnapshotManifest,
+  verifySnapshotData
+} from './snapshot';
+import { getBlockCID } from './ipfs';
+
+const CONTRACT_ADDRESS = '0xca6d29232d1435d8198e3e5302495417dd073d61';
+const SNAPSHOT_BLOCK = { blockNumber: 10, blockHash: '0xb10' };
+
+const getCheckpointData = () => ({
+  meta: {
+    id: CONTRACT_ADDRESS,
+    kind: 'checkpoint',
+    parent: { '/': null },
+    ethBlock: { cid: { '/': 'bagiacgza' }, num: 10 }
+  },
+  state: {
+    Author: {
+      '0x1': { id: '0x1', name: 'first', paperCount: '2' },
+      '0x2': { id: '0x2', name: 'second', paperCount: '0' },
+      '0x10': { id: '0x10', name: 'third', paperCount: '1' }
+    },
+    Blog: {},
+    totalSupply: '100'
+  }
+});
+
+describe('state snapshot', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'snapshot-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const writeSnapshot = async (compress: boolean) => {
+    const snapshotWriter = new SnapshotWriter(dir, compress, 2);
+    await snapshotWriter.init();
+    const cid = await getBlockCID(codec.encode(getCheckpointData()));
+    await snapshotWriter.writeCheckpoint({ contractAddress: CONTRACT_ADDRESS, cid, kind: 'checkpoint', data: getCheckpointData() });
+
+    return snapshotWriter.finalize(SNAPSHOT_BLOCK, [], { chainId: 1 });
+  };
+
+  it('should write checkpoint entities in chunks of bounded size', async () => {
+    const manifest = await writeSnapshot(true);
+
+    expect(manifest.compressed).to.equal(true);
+    expect(manifest.chunks.map(({ kind, entityType, count }) => ({ kind, entityType, count }))).to.deep.equal([
+      { kind: SnapshotChunkKind.Checkpoint, entityType: undefined, count: 1 },
+      { kind: SnapshotChunkKind.Entities, entityType: 'Author', count: 2 },
+      { kind: SnapshotChunkKind.Entities, entityType: 'Author', count: 1 }
+    ]);
+    expect(readSnapshotManifest(dir)).to.deep.equal(JSON.parse(JSON.stringify(manifest)));
+
+    // Entity maps are written empty in the checkpoint chunk.
+    const [checkpoint] = await readSnapshotChunk(dir, manifest, manifest.chunks[0]);
+    expect(checkpoint.data.state).to.deep.equal({ Author: {}, Blog: {}, totalSupply: '100' });
+
+    const entries = await readSnapshotChunk(dir, manifest, manifest.chunks[2]);
+    expect(entries).to.deep.equal([['0x10', { id: '0x10', name: 'third', paperCount: '1' }]]);
+  });
+
+  it('should reject chunks not matching the manifest', async () => {
+    const manifest = await writeSnapshot(false);
+    const chunk = manifest.chunks[1];
+    const chunkPath = path.join(dir, chunk.file);
+
+    expect(await readSnapshotChunk(dir, manifest, chunk)).to.have.lengthOf(2);
+
+    fs.writeFileSync(chunkPath, fs.readFileSync(chunkPath, 'utf-8').replace('first', 'other'));
+
+    try {
+      await readSnapshotChunk(dir, manifest, chunk);
+      expect.fail('should throw error');
+    } catch (error) {
+      expect((error as Error).message).to.equal(`Snapshot chunk ${chunk.file} is corrupted, content does not match manifest`);
+    }
+  });
+
+  it('should verify snapshot data against the manifest', async () => {
+    const manifest = await writeSnapshot(true);
+
+    expect(Object.keys(manifest.checkpoints[0].entityMerkleRoots)).to.deep.equal(['Author', 'Blog']);
+    expect(await verifySnapshotData(dir, manifest)).to.have.lengthOf(0);
+  });
+
+  it('should report mismatches for the entity type', async () => {
+    const manifest = await writeSnapshot(false);
+    const [checkpoint] = manifest.checkpoints;
+    const { Author: authorMerkleRoot, Blog: blogMerkleRoot } = checkpoint.entityMerkleRoots;
+
+    checkpoint.entityMerkleRoots.Blog = authorMerkleRoot;
+
+    expect(await verifySnapshotData(dir, manifest)).to.deep.equal([
+      { contractAddress: CONTRACT_ADDRESS, entityType: 'Blog', reason: `Entity Merkle root ${blogMerkleRoot} does not match manifest Merkle root ${authorMerkleRoot}` },
+      { contractAddress: CONTRACT_ADDRESS, reason: `Checkpoint Merkle root ${checkpoint.merkleRoot} does not match entity Merkle roots` }
+    ]);
+  });
+
+  it('should recompute checkpoint CID from the snapshot data', async () => {
+    const manifest = await writeSnapshot(false);
+    const [checkpoint] = manifest.checkpoints;
+    const { cid } = checkpoint;
+
+    checkpoint.cid = await getBlockCID(codec.encode({}));
+
+    expect(await verifySnapshotData(dir, manifest)).to.deep.equal([
+      { contractAddress: CONTRACT_ADDRESS, reason: `Checkpoint CID ${cid} computed from data does not match manifest CID ${checkpoint.cid}` }
+    ]);
+  });
+
+  it('should not read snapshots without a manifest', async () => {
+    await writeSnapshot(true);
+
+    fs.rmSync(path.join(dir, SNAPSHOT_MANIFEST_FILE));
+    expect(() => readSnapshotManifest(dir)).to.throw('Snapshot manifest not found');
+  });
+
+  it('should encode checkpoint data from chunks same as the full checkpoint data', async () => {
+    const manifest = await writeSnapshot(true);
+
+    const [checkpoint] = await readSnapshotChunk(dir, manifest, manifest.chunks[0]);
+    const checkpointEncoder = new SnapshotCheckpointEncoder(checkpoint.data);
+
+    for (const chunk of manifest.chunks.slice(1)) {
+      checkpointEncoder.addEntities('Author', await readSnapshotChunk(dir, manifest, chunk));
+    }
+
+    // Entity map with a multi-byte CBOR map header.
+    const posts = Array.from({ length: 30 }, (value, index): [string, any] => [`0x${index}`, { id: `0x${index}` }]);
+    checkpointEncoder.addEntities('Post', posts);
+
+    const checkpointData: any = getCheckpointData();
+    checkpointData.state.Post = Object.fromEntries(posts);
+
+    const encodedData = checkpointEncoder.encode();
+    expect(encodedData.equals(Buffer.from(codec.encode(checkpointData)))).to.equal(true);
+  });
+});
@@ -0,0 +1,556 @@
+//
+// Copyright 2023 Vulcanize, Inc.
+//
+
+import assert from 'assert';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import { Writable } from 'stream';
+import _ from 'lodash';
+import { Wallet, constants, utils } from 'ethers';
+import * as codec from '@ipld/dag-cbor';
+
+import { jsonBigIntStringReplacer } from './misc';
+import { getBlockCID } from './ipfs';
+
+export const SNAPSHOT_VERSION = 1;
+export const SNAPSHOT_MANIFEST_FILE = 'manifest.json';
+export const DEFAULT_SNAPSHOT_CHUNK_SIZE = 10000;
+
+const SNAPSHOT_CHUNKS_DIR = 'chunks';
+
+export enum SnapshotChunkKind {
+  // Checkpoint State fields with data other than the entity maps in data.state.
+  Checkpoint = 'checkpoint',
+  // [id, value] entries of an entity map in checkpoint data.state.
+  Entities = 'entities'
+}
+
+export interface SnapshotBlock {
+  blockNumber: number;
+  blockHash: string;
+}
+
+export interface SnapshotContract {
+  address: string;
+  kind: string;
+  checkpoint: boolean;
+  startingBlock: number;
+  context: any;
+}
+
+export interface SnapshotCheckpoint {
+  contractAddress: string;
+  cid: string;
+  kind: string;
+  data: any;
+}
+
+export interface SnapshotChunk {
+  file: string;
+  kind: SnapshotChunkKind;
+  contractAddress: string;
+  entityType?: string;
+  count: number;
+  // SHA-256 hash of the uncompressed chunk content.
+  hash: string;
+}
+
+export interface SnapshotManifestCheckpoint {
+  contractAddress: string;
+  cid: string;
+  // Merkle roots over hashes of the entities of each entity type in checkpoint data.state.
+  entityMerkleRoots: { [entityType: string]: string };
+  // Merkle root over the entity type Merkle roots.
+  merkleRoot: string;
+}
+
+export interface SnapshotManifest {
+  version: number;
+  snapshotBlock: SnapshotBlock;
+  chainId: number;
+  // Hash of the watcher GQL schema.
+  schemaHash?: string;
+  compressed: boolean;
+  contracts: SnapshotContract[];
+  checkpoints: SnapshotManifestCheckpoint[];
+  // Merkle root over the checkpoint Merkle roots.
+  merkleRoot: string;
+  chunks: SnapshotChunk[];
+  signer?: string;
+  // Signature of the manifest digest by the signer.
+  signature?: string;
+}
+
+export interface SnapshotManifestOptions {
+  chainId: number;
+  schemaHash?: string;
+  trustedSigners?: string[];
+}
+
+export interface SnapshotMismatch {
+  contractAddress: string;
+  // Entity type with mismatching data (not set for checkpoint level mismatches).
+  entityType?: string;
+  reason: string;
+}
+
+/**
+ * Writes a state snapshot as a directory of NDJSON chunks (optionally gzipped) and a manifest.
+ * Checkpoints are written one contract at a time, with entity maps split into chunks of bounded size.
+ * The manifest is written last, so a snapshot directory without one is an incomplete export.
+ */
+export class SnapshotWriter {
+  _dir: string;
+  _compress: boolean;
+  _chunkSize: number;
+  _chunks: SnapshotChunk[] = [];
+  _checkpoints: SnapshotManifestCheckpoint[] = [];
+
+  constructor (dir: string, compress = true, chunkSize = DEFAULT_SNAPSHOT_CHUNK_SIZE) {
+    assert(chunkSize > 0, `Invalid snapshot chunk size ${chunkSize}`);
+
+    this._dir = path.resolve(dir);
+    this._compress = compress;
+    this._chunkSize = chunkSize;
+  }
+
+  async init (): Promise<void> {
+    // Remove manifest and chunks of any previous export in the directory.
+    fs.rmSync(path.join(this._dir, SNAPSHOT_MANIFEST_FILE), { force: true });
+    fs.rmSync(path.join(this._dir, SNAPSHOT_CHUNKS_DIR), { recursive: true, force: true });
+    fs.mkdirSync(path.join(this._dir, SNAPSHOT_CHUNKS_DIR), { recursive: true });
+  }
+
+  async writeCheckpoint ({ contractAddress, cid, kind, data }: SnapshotCheckpoint): Promise<void> {
+    const { state = {}, ...rest } = data;
+
+    // Entity maps in data.state are written as separate chunks.
+    const entityTypes = Object.keys(state).filter(key => _.isPlainObject(state[key]));
+    const entityMerkleRoots: { [entityType: string]: string } = {};
+
+    // Entity maps are kept empty in the checkpoint chunk for entity types without entities.
+    await this._writeChunk(
+      { kind: SnapshotChunkKind.Checkpoint, contractAddress },
+      [{ cid, kind, data: { ...rest, state: _.mapValues(state, (value, key) => entityTypes.includes(key) ? {} : value) } }]
+    );
+
+    for (const entityType of entityTypes) {
+      const entries = Object.entries(state[entityType]);
+      entityMerkleRoots[entityType] = getMerkleRoot(entries.map(([id, value]) => getSnapshotEntityHash(entityType, id, value)));
+
+      for (let i = 0; i < entries.length; i += this._chunkSize) {
+        await this._writeChunk(
+          { kind: SnapshotChunkKind.Entities, contractAddress, entityType },
+          entries.slice(i, i + this._chunkSize)
+        );
+      }
+    }
+
+    this._checkpoints.push({ contractAddress, cid, entityMerkleRoots, merkleRoot: getMerkleRoot(Object.values(entityMerkleRoots)) });
+  }
+
+  async finalize (
+    snapshotBlock: SnapshotBlock,
+    contracts: SnapshotContract[],
+    { chainId, schemaHash }: SnapshotManifestOptions,
+    signingKey?: string
+  ): Promise<SnapshotManifest> {
+    const manifest: SnapshotManifest = {
+      version: SNAPSHOT_VERSION,
+      snapshotBlock,
+      chainId,
+      schemaHash,
+      compressed: this._compress,
+      contracts,
+      checkpoints: this._checkpoints,
+      merkleRoot: getMerkleRoot(this._checkpoints.map(checkpoint => checkpoint.merkleRoot)),
+      chunks: this._chunks
+    };
+
+    if (signingKey) {
+      const wallet = new Wallet(signingKey);
+      manifest.signer = wallet.address;
+      manifest.signature = await wallet.signMessage(utils.arrayify(getSnapshotManifestDigest(manifest)));
+    }
+
+    // Write to a temporary file and rename to not leave a partial manifest.
+    const manifestPath = path.join(this._dir, SNAPSHOT_MANIFEST_FILE);
+    fs.writeFileSync(`${manifestPath}.tmp`, JSON.stringify(manifest, null, 2));
+    fs.renameSync(`${manifestPath}.tmp`, manifestPath);
+
+    return manifest;
+  }
+
+  async _writeChunk (chunk: Pick<SnapshotChunk, 'kind' | 'contractAddress' | 'entityType'>, records: any[]): Promise<void> {
+    const file = path.join(
+      SNAPSHOT_CHUNKS_DIR,
+      `${String(this._chunks.length).padStart(6, '0')}.ndjson${this._compress ? '.gz' : ''}`
+    );
+
+    const hash = crypto.createHash('sha256');
+    const output = fs.createWriteStream(path.join(this._dir, file));
+    let input: Writable = output;
+
+    if (this._compress) {
+      input = zlib.createGzip();
+      input.pipe(output);
+    }
+
+    const finished = new Promise((resolve, reject) => {
+      output.on('finish', resolve);
+      output.on('error', reject);
+      input.on('error', reject);
+    });
+
+    for (const record of records) {
+      const line = `${JSON.stringify(record, jsonBigIntStringReplacer)}\n`;
+      hash.update(line);
+
+      // Wait for the stream to drain to limit buffered data.
+      if (!input.write(line)) {
+        await new Promise(resolve => input.once('drain', resolve));
+      }
+    }
+
+    input.end();
+    await finished;
+
+    this._chunks.push({
+      file,
+      ...chunk,
+      count: records.length,
+      hash: hash.digest('hex')
+    });
+  }
+}
+
+/**
+ * Builds dag-cbor encoded data of a snapshot checkpoint from its chunks.
+ * Entities are kept encoded instead of rebuilding the checkpoint state object, which takes several times the memory.
+ * Encoded data is the same as that of the full checkpoint data, with map keys sorted length first as in dag-cbor.
+ */
+export class SnapshotCheckpointEncoder {
+  _data: any;
+  // Encoded [id, value] pairs of entity maps along with the id bytes for sorting.
+  _entities: Map<string, [Buffer, Buffer][]> = new Map();
+
+  constructor (data: any) {
+    this._data = data;
+  }
+
+  addEntities (entityType: string, records: [string, any][]): void {
+    let entries = this._entities.get(entityType);
+
+    if (!entries) {
+      entries = [];
+      this._entities.set(entityType, entries);
+    }
+
+    for (const [id, value] of records) {
+      entries.push([Buffer.from(id), Buffer.concat([codec.encode(id), codec.encode(value)])]);
+    }
+  }
+
+  encode (): Buffer {
+    const { state = {}, ...rest } = this._data;
+    const stateEntries: [Buffer, Buffer][] = [];
+
+    for (const [key, value] of Object.entries(state)) {
+      const entityEntries = this._entities.get(key);
+      stateEntries.push(encodeMapEntry(key, entityEntries ? encodeMap(entityEntries) : codec.encode(value)));
+    }
+
+    // Entity types without a map in the checkpoint chunk.
+    this._entities.forEach((entityEntries, entityType) => {
+      if (!(entityType in state)) {
+        stateEntries.push(encodeMapEntry(entityType, encodeMap(entityEntries)));
+      }
+    });
+
+    const entries = Object.entries(rest).map(([key, value]) => encodeMapEntry(key, codec.encode(value)));
+    entries.push(encodeMapEntry('state', encodeMap(stateEntries)));
+
+    return encodeMap(entries);
+  }
+}
+
+export const readSnapshotManifest = (dir: string): SnapshotManifest => {
+  const manifestPath = path.resolve(dir, SNAPSHOT_MANIFEST_FILE);
+
+  if (!fs.existsSync(manifestPath)) {
+    throw new Error(`Snapshot manifest not found at ${manifestPath}, export may be incomplete`);
+  }
+
+  const manifest: SnapshotManifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+
+  if (manifest.version !== SNAPSHOT_VERSION) {
+    throw new Error(`Unsupported snapshot version ${manifest.version}`);
+  }
+
+  return manifest;
+};
+
+/**
+ * Read records of a snapshot chunk.
+ * Throws if the chunk content does not match the count and hash in the manifest.
+ */
+export const readSnapshotChunk = async (dir: string, manifest: SnapshotManifest, chunk: SnapshotChunk): Promise<any[]> => {
+  // Chunks are bounded by the chunk size used for export and are read whole.
+  let content = fs.readFileSync(path.resolve(dir, chunk.file));
+
+  if (manifest.compressed) {
+    content = zlib.gunzipSync(content);
+  }
+
+  const hash = crypto.createHash('sha256').update(content).digest('hex');
+  const records = content.toString('utf-8')
+    .split('\n')
+    .filter(line => line.length)
+    .map(line => JSON.parse(line));
+
+  if (hash !== chunk.hash || records.length !== chunk.count) {
+    throw new Error(`Snapshot chunk ${chunk.file} is corrupted, content does not match manifest`);
+  }
+
+  return records;
+};
+
+/**
+ * Verify manifest signature, chain id and schema hash.
+ * Manifests are required to be signed by one of the trusted signers if configured.
+ */
+export const verifySnapshotManifest = (manifest: SnapshotManifest, { chainId, schemaHash, trustedSigners = [] }: SnapshotManifestOptions): void => {
+  if (manifest.signature) {
+    assert(manifest.signer, 'Missing signer in signed snapshot manifest');
+    const signer = utils.verifyMessage(utils.arrayify(getSnapshotManifestDigest(manifest)), manifest.signature);
+
+    if (signer !== utils.getAddress(manifest.signer)) {
+      throw new Error(`Invalid snapshot manifest signature, signed by ${signer} instead of ${manifest.signer}`);
+    }
+  }
+
+  if (trustedSigners.length) {
+    const { signer, signature } = manifest;
+
+    if (!signer || !signature) {
+      throw new Error('Snapshot manifest is not signed');
+    }
+
+    if (!trustedSigners.some(trustedSigner => utils.getAddress(trustedSigner) === utils.getAddress(signer))) {
+      throw new Error(`Snapshot manifest signer ${signer} is not trusted`);
+    }
+  }
+
+  if (manifest.chainId !== chainId) {
+    throw new Error(`Snapshot chain id ${manifest.chainId} does not match watcher chain id ${chainId}`);
+  }
+
+  if (schemaHash && manifest.schemaHash && manifest.schemaHash !== schemaHash) {
+    throw new Error(`Snapshot schema hash ${manifest.schemaHash} does not match watcher schema hash ${schemaHash}`);
+  }
+
+  const merkleRoot = getMerkleRoot(manifest.checkpoints.map(checkpoint => checkpoint.merkleRoot));
+
+  if (merkleRoot !== manifest.merkleRoot) {
+    throw new Error(`Snapshot Merkle root ${manifest.merkleRoot} does not match checkpoint Merkle roots`);
+  }
+};
+
+/**
+ * Verify checkpoint CIDs and entity Merkle roots in the manifest against the snapshot chunks.
+ * Checkpoint CIDs are computed from the checkpoint data built from the chunks.
+ * Returns the mismatches found for each entity type of the checkpoints.
+ */
+export const verifySnapshotData = async (dir: string, manifest: SnapshotManifest): Promise<SnapshotMismatch[]> => {
+  const mismatches: SnapshotMismatch[] = [];
+
+  for (const { contractAddress, cid, entityMerkleRoots, merkleRoot } of manifest.checkpoints) {
+    const chunks = manifest.chunks.filter(chunk => chunk.contractAddress === contractAddress);
+    const entityHashes: Map<string, string[]> = new Map();
+    const corruptedEntityTypes: Set<string> = new Set();
+    let checkpointEncoder: SnapshotCheckpointEncoder | undefined;
+    let isCorrupted = false;
+
+    for (const chunk of chunks) {
+      const { entityType } = chunk;
+      let records: any[];
+
+      try {
+        records = await readSnapshotChunk(dir, manifest, chunk);
+      } catch (error) {
+        mismatches.push({ contractAddress, entityType, reason: (error as Error).message });
+        isCorrupted = true;
+
+        if (entityType) {
+          corruptedEntityTypes.add(entityType);
+        }
+
+        continue;
+      }
+
+      if (chunk.kind === SnapshotChunkKind.Checkpoint) {
+        checkpointEncoder = new SnapshotCheckpointEncoder(records[0].data);
+        continue;
+      }
+
+      assert(entityType);
+      const hashes = entityHashes.get(entityType) ?? [];
+      records.forEach(([id, value]) => hashes.push(getSnapshotEntityHash(entityType, id, value)));
+      entityHashes.set(entityType, hashes);
+
+      checkpointEncoder?.addEntities(entityType, records);
+    }
+
+    for (const [entityType, entityMerkleRoot] of Object.entries(entityMerkleRoots)) {
+      // Corrupted chunks are already reported.
+      if (corruptedEntityTypes.has(entityType)) {
+        continue;
+      }
+
+      const computedRoot = getMerkleRoot(entityHashes.get(entityType) ?? []);
+
+      if (computedRoot !== entityMerkleRoot) {
+        mismatches.push({ contractAddress, entityType, reason: `Entity Merkle root ${computedRoot} does not match manifest Merkle root ${entityMerkleRoot}` });
+      }
+    }
+
+    entityHashes.forEach((hashes, entityType) => {
+      if (!(entityType in entityMerkleRoots)) {
+        mismatches.push({ contractAddress, entityType, reason: 'Entity type not found in manifest' });
+      }
+    });
+
+    if (getMerkleRoot(Object.values(entityMerkleRoots)) !== merkleRoot) {
+      mismatches.push({ contractAddress, reason: `Checkpoint Merkle root ${merkleRoot} does not match entity Merkle roots` });
+    }
+
+    // Skip computing CID of incomplete checkpoint data.
+    if (isCorrupted || !checkpointEncoder) {
+      continue;
+    }
+
+    const computedCid = await getBlockCID(checkpointEncoder.encode());
+
+    if (computedCid !== cid) {
+      mismatches.push({ contractAddress, reason: `Checkpoint CID ${computedCid} computed from data does not match manifest CID ${cid}` });
+    }
+  }
+
+  return mismatches;
+};
+
+/**
+ * Verify snapshot manifest and the snapshot data against it before importing.
+ */
+export const verifySnapshot = async (dir: string, manifest: SnapshotManifest, options: SnapshotManifestOptions): Promise<void> => {
+  verifySnapshotManifest(manifest, options);
+
+  const mismatches = await verifySnapshotData(dir, manifest);
+
+  if (mismatches.length) {
+    const details = mismatches
+      .map(({ contractAddress, entityType, reason }) => `${contractAddress}${entityType ? ` ${entityType}` : ''}: ${reason}`)
+      .join('\n');
+
+    throw new Error(`Snapshot data does not match manifest with ${mismatches.length} mismatches\n${details}`);
+  }
+};
+
+export const getSchemaHash = (schema: string): string => {
+  return utils.keccak256(utils.toUtf8Bytes(schema));
+};
+
+export const getSnapshotManifestDigest = (manifest: SnapshotManifest): string => {
+  return utils.keccak256(utils.toUtf8Bytes(toCanonicalJSON(_.omit(manifest, ['signer', 'signature']))));
+};
+
+export const getSnapshotEntityHash = (entityType: string, id: string, value: any): string => {
+  return utils.keccak256(utils.toUtf8Bytes(toCanonicalJSON([entityType, id, value])));
+};
+
+/**
+ * Compute Merkle root of hashes independent of their order.
+ * Leaves and pairs are sorted before hashing.
+ */
+export const getMerkleRoot = (hashes: string[]): string => {
+  if (!hashes.length) {
+    return constants.HashZero;
+  }
+
+  let level = [...hashes].sort();
+
+  while (level.length > 1) {
+    const nextLevel: string[] = [];
+
+    for (let i = 0; i < level.length; i += 2) {
+      if (i + 1 === level.length) {
+        // Carry odd node to the next level.
+        nextLevel.push(level[i]);
+        continue;
+      }
+
+      const pair = [level[i], level[i + 1]].sort();
+      nextLevel.push(utils.keccak256(utils.concat(pair)));
+    }
+
+    level = nextLevel;
+  }
+
+  return level[0];
+};
+
+const encodeMapEntry = (key: string, encodedValue: Uint8Array): [Buffer, Buffer] => {
+  return [Buffer.from(key), Buffer.concat([codec.encode(key), encodedValue])];
+};
+
+// Encode CBOR map from encoded entries, sorting them by key length first and then bytes (same as dag-cbor).
+const encodeMap = (entries: [Buffer, Buffer][]): Buffer => {
+  entries.sort(([key1], [key2]) => (key1.length - key2.length) || Buffer.compare(key1, key2));
+
+  return Buffer.concat([encodeMapHeader(entries.length), ...entries.map(([, entry]) => entry)]);
+};
+
+// Header of CBOR map (major type 5) with the number of entries.
+const encodeMapHeader = (length: number): Buffer => {
+  if (length < 24) {
+    return Buffer.from([0xa0 + length]);
+  }
+
+  if (length < 0x100) {
+    return Buffer.from([0xb8, length]);
+  }
+
+  if (length < 0x10000) {
+    const header = Buffer.alloc(3);
+    header[0] = 0xb9;
+    header.writeUInt16BE(length, 1);
+
+    return header;
+  }
+
+  const header = Buffer.alloc(5);
+  header[0] = 0xba;
+  header.writeUInt32BE(length, 1);
+
+  return header;
+};
+
+// JSON with sorted object keys to get the same hash for the same data.
+const toCanonicalJSON = (data: any): string => {
+  return JSON.stringify(data, (key, value) => {
+    value = jsonBigIntStringReplacer(key, value);
+
+    if (_.isPlainObject(value)) {
+      return Object.keys(value).sort().reduce((acc: any, field) => {
+        acc[field] = value[field];
+
+        return acc;
+      }, {});
+    }
+
+    return value;
+  });
+};
@@ -25,6 +25,15 @@ export interface StateDataMeta {
   }
 }
 
+export interface EntityMismatch {
+  entityName: string;
+  id: string;
+  // Field with different values (not set if the entity is missing in the database).
+  field?: string;
+  stateValue?: any;
+  dbValue?: any;
+}
+
 interface StateData {
   meta?: StateDataMeta;
   state: any
@@ -46,15 +55,42 @@ export const updateStateForMappingType = (initialObject: any, stateVariable: str
 };
 
 export const verifyCheckpointData = async (database: GraphDatabaseInterface, block: BlockProgressInterface, data: any): Promise<void> => {
+  const mismatches = await getCheckpointDataMismatches(database, block, data);
+
+  mismatches.forEach(mismatch => {
+    log(`Diff found for checkpoint at block ${block.blockNumber} in ${getEntityMismatchMessage(mismatch)}`);
+  });
+
+  if (mismatches.length) {
+    throw new Error(`Diff found for checkpoint at block ${block.blockNumber} in ${mismatches.length} entity fields`);
+  }
+};
+
+/**
+ * Compare entities in checkpoint data with entities in the database at the given block.
+ * Returns the entities missing in the database and the entity fields with different values.
+ */
+export const getCheckpointDataMismatches = async (database: GraphDatabaseInterface, block: BlockProgressInterface, data: any): Promise<EntityMismatch[]> => {
   const { state } = data;
+  const mismatches: EntityMismatch[] = [];
 
   for (const [entityName, idEntityMap] of Object.entries(state)) {
     for (const [id, stateEntity] of Object.entries(idEntityMap as {[key: string]: any})) {
+      // Skip entities removed in the state.
+      if (stateEntity === null) {
+        continue;
+      }
+
       const entityData = await database.getEntity(entityName, id, block.blockHash) as any;
 
+      if (!entityData) {
+        mismatches.push({ entityName, id });
+        continue;
+      }
+
       // Compare entities.
-      const diffFound = Object.keys(stateEntity)
-        .some(key => {
+      Object.keys(stateEntity)
+        .forEach(key => {
           let stateValue = stateEntity[key];
 
           if (key === 'blockNumber') {
@@ -81,16 +117,30 @@ export const verifyCheckpointData = async (database: GraphDatabaseInterface, blo
             entityData[key] = entityData[key].sort((a: string, b: string) => a.localeCompare(b));
           }
 
-          return JSON.stringify(stateValue) !== JSON.stringify(entityData[key], jsonBigIntStringReplacer);
-        });
+          const dbValue = JSON.stringify(entityData[key], jsonBigIntStringReplacer);
 
-      if (diffFound) {
-        const message = `Diff found for checkpoint at block ${block.blockNumber} in entity ${entityName} id ${id}`;
-        log(message);
-        throw new Error(message);
-      }
+          if (JSON.stringify(stateValue) !== dbValue) {
+            mismatches.push({
+              entityName,
+              id,
+              field: key,
+              stateValue,
+              dbValue: dbValue === undefined ? null : JSON.parse(dbValue)
+            });
+          }
+        });
     }
   }
+
+  return mismatches;
+};
+
+export const getEntityMismatchMessage = ({ entityName, id, field, stateValue, dbValue }: EntityMismatch): string => {
+  if (!field) {
+    return `entity ${entityName} id ${id} (missing in database)`;
+  }
+
+  return `entity ${entityName} id ${id} field ${field} (state ${JSON.stringify(stateValue)}, database ${JSON.stringify(dbValue)})`;
 };
 
 export const getResultState = (state: StateInterface): ResultState => {
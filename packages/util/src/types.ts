@@ -7,8 +7,9 @@ import { Connection, DeepPartial, EntityTarget, FindConditions, FindManyOptions,
 import { MappingKey, StorageLayout } from '@cerc-io/solidity-mapper';
 
 import { ServerConfig } from './config';
-import { Where, QueryOptions, Database } from './database';
-import { ValueResult, StateStatus } from './indexer';
+import { Where, QueryOptions, Database, BlockHeight } from './database';
+import { ValueResult, StateStatus, ResultBlockChangeset } from './indexer';
+import { EntityChange } from './graph/database';
 
 export enum StateKind {
   Diff = 'diff',
@@ -17,6 +18,29 @@ export enum StateKind {
   Checkpoint = 'checkpoint'
 }
 
+export enum StateIPFSStatus {
+  Pending = 'pending',
+  Published = 'published',
+  Failed = 'failed'
+}
+
+export enum WebhookDeliveryKind {
+  Events = 'events',
+  Retraction = 'retraction'
+}
+
+export enum WebhookDeliveryStatus {
+  Pending = 'pending',
+  Delivered = 'delivered',
+  Failed = 'failed',
+  Cancelled = 'cancelled'
+}
+
+export enum JobQueueBackendKind {
+  PgBoss = 'pg-boss',
+  InProcess = 'in-process'
+}
+
 export interface BlockProgressInterface {
   id: number;
   cid: string;
@@ -32,6 +56,28 @@ export interface BlockProgressInterface {
   createdAt: Date;
 }
 
+export interface BlockRangeProgressInterface {
+  id: number;
+  startBlock: number;
+  endBlock: number;
+  lastProcessedBlockNumber: number;
+  isComplete: boolean;
+}
+
+export interface WebhookDeliveryInterface {
+  id: number;
+  url: string;
+  kind: WebhookDeliveryKind;
+  blockHash: string;
+  blockNumber: number;
+  payload: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  lastError: string | null;
+  createdAt: Date;
+  deliveredAt: Date | null;
+}
+
 export interface SyncStatusInterface {
   id: number;
   chainHeadBlockHash: string;
@@ -48,6 +94,27 @@ export interface StateSyncStatusInterface {
   id: number;
   latestIndexedBlockNumber: number;
   latestCheckpointBlockNumber: number;
+  latestCompactedBlockNumber: number;
+}
+
+export interface FileDataSourceInterface {
+  id: number;
+  kind: string;
+  cid: string;
+  contractAddress: string;
+  context?: any;
+  blockHash: string;
+  blockNumber: number;
+  processedBlockNumber: number | null;
+}
+
+export interface IndexingErrorInterface {
+  id: number;
+  blockHash: string;
+  blockNumber: number;
+  dataSource: string;
+  handler: string;
+  message: string;
 }
 
 export interface EventInterface {
@@ -68,6 +135,7 @@ export interface ContractInterface {
   startingBlock: number;
   kind: string;
   checkpoint: boolean;
+  context?: any;
 }
 
 export interface StateInterface {
@@ -77,6 +145,16 @@ export interface StateInterface {
   cid: string;
   kind: StateKind;
   data: Buffer;
+  ipfsStatus?: StateIPFSStatus | null;
+}
+
+export interface StateCompactionResult {
+  contractAddress: string;
+  // Block number of the checkpoint till which diffs are compacted.
+  checkpointBlockNumber: number | null;
+  checkpointCreated: boolean;
+  removedDiffCount: number;
+  reclaimedBytes: number;
 }
 
 export interface IndexerInterface {
@@ -95,9 +173,22 @@ export interface IndexerInterface {
   getLatestStateIndexedBlock (): Promise<BlockProgressInterface>
   getBlockEvents (blockHash: string, where: Where, queryOptions: QueryOptions): Promise<Array<EventInterface>>
   getAncestorAtDepth (blockHash: string, depth: number): Promise<string>
+  getPruningDepth (latestIndexedBlockNumber: number): Promise<number>
   saveBlockAndFetchEvents (block: DeepPartial<BlockProgressInterface>): Promise<[BlockProgressInterface, DeepPartial<EventInterface>[]]>
+  fetchEventsAndSaveBlocks? (blocks: DeepPartial<BlockProgressInterface>[]): Promise<{ blockProgress: BlockProgressInterface, events: DeepPartial<EventInterface>[] }[]>
   removeUnknownEvents (block: BlockProgressInterface): Promise<void>
   updateBlockProgress (block: BlockProgressInterface, lastProcessedEventIndex: number): Promise<BlockProgressInterface>
+  getBlockRangeProgressEntities?: (where: FindConditions<BlockRangeProgressInterface>, options: FindManyOptions<BlockRangeProgressInterface>) => Promise<BlockRangeProgressInterface[]>
+  saveBlockRangeProgress?: (blockRange: DeepPartial<BlockRangeProgressInterface>) => Promise<BlockRangeProgressInterface>
+  updateBlockRangeProgress?: (blockRange: BlockRangeProgressInterface, blockNumber: number) => Promise<BlockRangeProgressInterface>
+  createWebhookDeliveries?: (block: BlockProgressInterface) => Promise<void>
+  createWebhookRetractions?: (blocks: BlockProgressInterface[]) => Promise<void>
+  processWebhookDelivery?: (deliveryId: number) => Promise<void>
+  replayWebhookDeliveries?: (fromBlockNumber: number, toBlockNumber: number, url?: string) => Promise<number>
+  publishState?: (cid: string) => Promise<void>
+  publishBlockStates?: (blockHash: string) => Promise<void>
+  processStateCompaction?: (blockNumber: number, maxReorgRollbackDepth?: number) => Promise<void>
+  compactStateDiffs?: (startBlockNumber: number, endBlockNumber: number, contractAddress?: string, dryRun?: boolean) => Promise<StateCompactionResult[]>
   updateSyncStatusChainHead (blockHash: string, blockNumber: number, force?: boolean): Promise<SyncStatusInterface>
   updateSyncStatusIndexedBlock (blockHash: string, blockNumber: number, force?: boolean): Promise<SyncStatusInterface>
   updateSyncStatusCanonicalBlock (blockHash: string, blockNumber: number, force?: boolean): Promise<SyncStatusInterface>
@@ -111,9 +202,11 @@ export interface IndexerInterface {
   getContractsByKind?: (kind: string) => ContractInterface[]
   addContracts?: () => Promise<void>
   cacheContract: (contract: ContractInterface) => void;
-  watchContract: (address: string, kind: string, checkpoint: boolean, startingBlock: number) => Promise<void>
+  watchContract: (address: string, kind: string, checkpoint: boolean, startingBlock: number, context?: any) => Promise<void>
   getEntityTypesMap?: () => Map<string, { [key: string]: string }>
   getRelationsMap?: () => Map<any, { [key: string]: any }>
+  getBlockEntityChanges?: (block: BlockProgressInterface) => Promise<EntityChange[]>
+  getBlockChangeset?: (block: BlockHeight, reverted?: boolean) => Promise<ResultBlockChangeset>
   processInitialState: (contractAddress: string, blockHash: string) => Promise<any>
   processStateCheckpoint: (contractAddress: string, blockHash: string) => Promise<boolean>
   processBlock: (blockProgres: BlockProgressInterface) => Promise<void>
@@ -128,6 +221,8 @@ export interface IndexerInterface {
   getStorageValue (storageLayout: StorageLayout, blockHash: string, contractAddress: string, variable: string, ...mappingKeys: MappingKey[]): Promise<ValueResult>
   updateSubgraphState?: (contractAddress: string, data: any) => void
   dumpSubgraphState?: (blockHash: string, isStateFinalized?: boolean) => Promise<void>
+  resetSubgraphState?: () => void
+  clearCachedEntities?: () => void
   updateStateStatusMap (address: string, stateStatus: StateStatus): void
   getStateData (state: StateInterface): any
   getStateByCID (cid: string): Promise<StateInterface | undefined>
@@ -158,6 +253,11 @@ export interface DatabaseInterface {
   markBlocksAsPruned (queryRunner: QueryRunner, blocks: BlockProgressInterface[]): Promise<void>;
   saveBlockProgress (queryRunner: QueryRunner, block: DeepPartial<BlockProgressInterface>): Promise<BlockProgressInterface>;
   updateBlockProgress (queryRunner: QueryRunner, block: BlockProgressInterface, lastProcessedEventIndex: number): Promise<BlockProgressInterface>
+  getBlockRangeProgressEntities (where: FindConditions<BlockRangeProgressInterface>, options: FindManyOptions<BlockRangeProgressInterface>): Promise<BlockRangeProgressInterface[]>
+  saveBlockRangeProgress (queryRunner: QueryRunner, blockRange: DeepPartial<BlockRangeProgressInterface>): Promise<BlockRangeProgressInterface>
+  updateBlockRangeProgress (queryRunner: QueryRunner, blockRange: BlockRangeProgressInterface, blockNumber: number): Promise<BlockRangeProgressInterface>
+  getWebhookDeliveries (where: FindConditions<WebhookDeliveryInterface>, options: FindManyOptions<WebhookDeliveryInterface>): Promise<WebhookDeliveryInterface[]>
+  saveWebhookDelivery (queryRunner: QueryRunner, delivery: DeepPartial<WebhookDeliveryInterface>): Promise<WebhookDeliveryInterface>
   updateSyncStatusIndexedBlock (queryRunner: QueryRunner, blockHash: string, blockNumber: number, force?: boolean): Promise<SyncStatusInterface>;
   updateSyncStatusChainHead (queryRunner: QueryRunner, blockHash: string, blockNumber: number, force?: boolean): Promise<SyncStatusInterface>;
   updateSyncStatusCanonicalBlock (queryRunner: QueryRunner, blockHash: string, blockNumber: number, force?: boolean): Promise<SyncStatusInterface>;
@@ -167,10 +267,13 @@ export interface DatabaseInterface {
   removeEntities<Entity> (queryRunner: QueryRunner, entity: new () => Entity, findConditions?: FindManyOptions<Entity> | FindConditions<Entity>): Promise<void>;
   deleteEntitiesByConditions<Entity> (queryRunner: QueryRunner, entity: EntityTarget<Entity>, findConditions: FindConditions<Entity>): Promise<void>
   getContracts: () => Promise<ContractInterface[]>
-  saveContract: (queryRunner: QueryRunner, contractAddress: string, kind: string, checkpoint: boolean, startingBlock: number) => Promise<ContractInterface>
+  saveContract: (queryRunner: QueryRunner, contractAddress: string, kind: string, checkpoint: boolean, startingBlock: number, context?: any) => Promise<ContractInterface>
   getLatestState (contractAddress: string, kind: StateKind | null, blockNumber?: number): Promise<StateInterface | undefined>
   getStates (where: FindConditions<StateInterface>): Promise<StateInterface[]>
+  updateStateIPFSStatus (queryRunner: QueryRunner, cid: string, ipfsStatus: StateIPFSStatus): Promise<void>
   getDiffStatesInRange (contractAddress: string, startBlock: number, endBlock: number): Promise<StateInterface[]>
+  getDiffStatesSize (contractAddress: string, startBlock: number, endBlock: number): Promise<{ count: number, bytes: number }>
+  removeDiffStatesInRange (queryRunner: QueryRunner, contractAddress: string, startBlock: number, endBlock: number): Promise<void>
   getNewState (): StateInterface
   removeStates(queryRunner: QueryRunner, blockNumber: number, kind: StateKind): Promise<void>
   removeStatesAfterBlock: (queryRunner: QueryRunner, blockNumber: number) => Promise<void>
@@ -178,6 +281,7 @@ export interface DatabaseInterface {
   getStateSyncStatus (): Promise<StateSyncStatusInterface | undefined>
   updateStateSyncStatusIndexedBlock (queryRunner: QueryRunner, blockNumber: number, force?: boolean): Promise<StateSyncStatusInterface>
   updateStateSyncStatusCheckpointBlock (queryRunner: QueryRunner, blockNumber: number, force?: boolean): Promise<StateSyncStatusInterface>
+  updateStateSyncStatusCompactedBlock (queryRunner: QueryRunner, blockNumber: number, force?: boolean): Promise<StateSyncStatusInterface>
 }
 
 export interface GraphDatabaseInterface {
@@ -189,6 +293,37 @@ export interface GraphWatcherInterface {
   setIndexer (indexer: IndexerInterface): void;
 }
 
+export type JobCallback = (job: any) => Promise<void>;
+
+export interface PushJobOptions {
+  priority?: number;
+  singletonKey?: string;
+  retryLimit?: number;
+  retryDelay?: number;
+  retryBackoff?: boolean;
+  expireInSeconds?: number;
+}
+
+export interface JobQueueBackendOptions {
+  retryLimit: number;
+  retryDelayInSecs: number;
+  retryBackoff: boolean;
+  expireInHours: number;
+  retentionDays: number;
+  deleteAfterHours: number;
+}
+
+export interface JobQueueBackend {
+  start (): Promise<void>;
+  stop (): Promise<void>;
+  subscribe (queue: string, callback: JobCallback): Promise<string>;
+  onComplete (queue: string, callback: JobCallback): Promise<string>;
+  markComplete (jobId: string): Promise<void>;
+  pushJob (queue: string, data: any, options: PushJobOptions): Promise<string | null>;
+  deleteJobsAfterBlock (queue: string, blockNumber: number, blockHashes: string[]): Promise<void>;
+  deleteAllJobs (): Promise<void>;
+}
+
 export interface EthClient {
   getStorageAt({ blockHash, contract, slot }: {
     blockHash: string;
@@ -219,6 +354,11 @@ export interface EthClient {
     blockNumber: string,
     addresses?: string[]
   }): Promise<any>;
+  getLogsForBlockRange?(vars: {
+    fromBlock: number,
+    toBlock: number,
+    addresses?: string[]
+  }): Promise<any>;
 }
 
 export type Clients = {
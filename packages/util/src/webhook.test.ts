@@ -0,0 +1,191 @@
+//
+// Copyright 2023 Vulcanize, Inc.
+//
+
+import { expect } from 'chai';
+import 'mocha';
+import http from 'http';
+import { AddressInfo } from 'net';
+import _ from 'lodash';
+
+import { Indexer } from './indexer';
+import { JobQueue } from './job-queue';
+import { JobRunner } from './job-runner';
+import { JobQueueConfig } from './config';
+import { BlockProgressInterface, IndexerInterface, WebhookDeliveryInterface, WebhookDeliveryKind, WebhookDeliveryStatus } from './types';
+import { QUEUE_WEBHOOK_DELIVERY } from './constants';
+import { WEBHOOK_DELIVERY_ID_HEADER } from './webhook';
+import { getTestBlockProgress, getTestDatabase, getTestIndexer } from '../test/utils';
+
+describe('indexer webhook deliveries', () => {
+  let server: http.Server;
+  let url: string;
+
+  // Status the test endpoint responds with and the delivery ids received.
+  let responseStatus: number;
+  let receivedDeliveryIds: number[];
+
+  let deliveries: WebhookDeliveryInterface[];
+  let pushedJobs: { queue: string, data: any, options: any }[];
+  let indexer: Indexer;
+
+  const block = getTestBlockProgress(10, '0xb10', '0xb9');
+
+  const getDelivery = (id: number, status: WebhookDeliveryStatus, values: Partial<WebhookDeliveryInterface> = {}): WebhookDeliveryInterface => {
+    return {
+      id,
+      url,
+      kind: WebhookDeliveryKind.Events,
+      blockHash: block.blockHash,
+      blockNumber: block.blockNumber,
+      payload: '{}',
+      status,
+      attempts: 0,
+      lastError: null,
+      createdAt: new Date(),
+      deliveredAt: null,
+      ...values
+    };
+  };
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      receivedDeliveryIds.push(Number(req.headers[WEBHOOK_DELIVERY_ID_HEADER.toLowerCase()]));
+
+      req.resume();
+      req.on('end', () => {
+        res.statusCode = responseStatus;
+        res.end();
+      });
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    responseStatus = 200;
+    receivedDeliveryIds = [];
+    deliveries = [];
+    pushedJobs = [];
+
+    const db = getTestDatabase({
+      getWebhookDeliveries: async (where: Partial<WebhookDeliveryInterface>, options: { take?: number }) => {
+        const matchingDeliveries = _.sortBy(_.filter(deliveries, where), 'id');
+
+        return matchingDeliveries.slice(0, options.take);
+      },
+      saveWebhookDelivery: async (queryRunner: unknown, delivery: WebhookDeliveryInterface) => {
+        if (!delivery.id) {
+          delivery.id = deliveries.length + 1;
+          deliveries.push(delivery);
+        }
+
+        return delivery;
+      }
+    });
+
+    const jobQueue = {
+      pushJob: async (queue: string, data: any, options: any) => { pushedJobs.push({ queue, data, options }); }
+    } as unknown as JobQueue;
+
+    indexer = getTestIndexer(db, { webhooks: [{ url, retryLimit: 1 }] }, jobQueue);
+  });
+
+  it('should retract only deliveries received by the endpoint', async () => {
+    deliveries = [
+      getDelivery(1, WebhookDeliveryStatus.Delivered),
+      getDelivery(2, WebhookDeliveryStatus.Failed),
+      getDelivery(3, WebhookDeliveryStatus.Cancelled),
+      getDelivery(4, WebhookDeliveryStatus.Pending, { url: `${url}/other` })
+    ];
+
+    await indexer.createWebhookRetractions([block]);
+
+    // Pending delivery is cancelled instead of being retracted.
+    expect(deliveries.map(({ status }) => status)).to.deep.equal([
+      WebhookDeliveryStatus.Delivered,
+      WebhookDeliveryStatus.Failed,
+      WebhookDeliveryStatus.Cancelled,
+      WebhookDeliveryStatus.Cancelled,
+      WebhookDeliveryStatus.Pending
+    ]);
+
+    const retraction = deliveries[4];
+    expect(retraction.kind).to.equal(WebhookDeliveryKind.Retraction);
+    expect(JSON.parse(retraction.payload)).to.include({ retractedDeliveryId: 1 });
+    expect(pushedJobs).to.deep.equal([
+      { queue: QUEUE_WEBHOOK_DELIVERY, data: { deliveryId: 5 }, options: { retryLimit: 1, retryDelay: 5, retryBackoff: true, singletonKey: '5' } }
+    ]);
+  });
+
+  it('should deliver to an endpoint in order', async () => {
+    deliveries = [
+      getDelivery(1, WebhookDeliveryStatus.Pending),
+      getDelivery(2, WebhookDeliveryStatus.Pending, { blockHash: '0xb11', blockNumber: 11 })
+    ];
+
+    // Later delivery waits for the earlier one.
+    await indexer.processWebhookDelivery(2);
+    expect(receivedDeliveryIds).to.have.lengthOf(0);
+    expect(deliveries[1].status).to.equal(WebhookDeliveryStatus.Pending);
+
+    // Job for the next delivery is pushed after the earlier one is delivered.
+    await indexer.processWebhookDelivery(1);
+    expect(receivedDeliveryIds).to.deep.equal([1]);
+    expect(deliveries[0].status).to.equal(WebhookDeliveryStatus.Delivered);
+    expect(pushedJobs.map(({ data }) => data)).to.deep.equal([{ deliveryId: 2 }]);
+
+    await indexer.processWebhookDelivery(2);
+    expect(receivedDeliveryIds).to.deep.equal([1, 2]);
+    expect(deliveries[1].status).to.equal(WebhookDeliveryStatus.Delivered);
+  });
+
+  it('should continue with the next delivery after retries are exhausted', async () => {
+    responseStatus = 500;
+
+    deliveries = [
+      getDelivery(1, WebhookDeliveryStatus.Pending),
+      getDelivery(2, WebhookDeliveryStatus.Pending, { blockHash: '0xb11', blockNumber: 11 })
+    ];
+
+    // Error is thrown for the job to be retried.
+    try {
+      await indexer.processWebhookDelivery(1);
+      expect.fail('should throw error');
+    } catch (error) {
+      expect((error as Error).message).to.include('responded with status 500');
+    }
+
+    expect(deliveries[0].status).to.equal(WebhookDeliveryStatus.Pending);
+    expect(pushedJobs).to.have.lengthOf(0);
+
+    await indexer.processWebhookDelivery(1);
+    expect(deliveries[0].status).to.equal(WebhookDeliveryStatus.Failed);
+    expect(deliveries[0].attempts).to.equal(2);
+    expect(pushedJobs.map(({ data }) => data)).to.deep.equal([{ deliveryId: 2 }]);
+  });
+});
+
+describe('job runner webhook deliveries', () => {
+  it('should create webhook deliveries for processed blocks', async () => {
+    const block = getTestBlockProgress(10, '0xb10', '0xb9', { isComplete: false });
+    const deliveryBlocks: BlockProgressInterface[] = [];
+
+    const indexer = {
+      getBlockProgress: async () => block,
+      updateBlockProgress: async (block: BlockProgressInterface) => block,
+      createWebhookDeliveries: async (block: BlockProgressInterface) => { deliveryBlocks.push(block); }
+    } as unknown as IndexerInterface;
+
+    const jobRunner = new JobRunner({} as JobQueueConfig, indexer, {} as JobQueue);
+    await jobRunner._processEvents({ data: { blockHash: block.blockHash } });
+
+    expect(deliveryBlocks).to.deep.equal([block]);
+    expect(deliveryBlocks[0].isComplete).to.equal(true);
+  });
+});
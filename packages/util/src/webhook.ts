@@ -0,0 +1,80 @@
+//
+// Copyright 2023 Vulcanize, Inc.
+//
+
+import crypto from 'crypto';
+import http from 'http';
+import https from 'https';
+
+import { WebhookConfig } from './config';
+import { EventInterface } from './types';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Webhook-Signature';
+export const WEBHOOK_DELIVERY_ID_HEADER = 'X-Webhook-Delivery-Id';
+
+export const DEFAULT_WEBHOOK_RETRY_LIMIT = 10;
+export const DEFAULT_WEBHOOK_RETRY_DELAY_IN_SECS = 5;
+const DEFAULT_WEBHOOK_TIMEOUT_IN_MS = 10000;
+
+/**
+ * Sign webhook payload using HMAC-SHA256 with the endpoint secret.
+ * Receivers verify the X-Webhook-Signature header by computing the same over the raw request body.
+ */
+export const signWebhookPayload = (secret: string, payload: string): string => {
+  return `sha256=${crypto.createHmac('sha256', secret).update(payload).digest('hex')}`;
+};
+
+export const isWebhookEvent = (webhook: WebhookConfig, event: EventInterface): boolean => {
+  if (webhook.events && !webhook.events.includes(event.eventName)) {
+    return false;
+  }
+
+  if (webhook.contracts && !webhook.contracts.some(contract => contract.toLowerCase() === event.contract.toLowerCase())) {
+    return false;
+  }
+
+  return true;
+};
+
+export const postWebhook = async (
+  url: string,
+  payload: string,
+  headers: { [key: string]: string } = {},
+  timeoutInMs = DEFAULT_WEBHOOK_TIMEOUT_IN_MS
+): Promise<void> => {
+  const { request } = new URL(url).protocol === 'https:' ? https : http;
+
+  return new Promise((resolve, reject) => {
+    const req = request(
+      url,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Content-Length': Buffer.byteLength(payload),
+          ...headers
+        },
+        timeout: timeoutInMs
+      },
+      (res) => {
+        // Consume response body to free up the socket.
+        res.resume();
+
+        res.on('end', () => {
+          if (res.statusCode && res.statusCode >= 200 && res.statusCode < 300) {
+            resolve();
+          } else {
+            reject(new Error(`Webhook endpoint ${new URL(url).host} responded with status ${res.statusCode}`));
+          }
+        });
+      }
+    );
+
+    req.on('timeout', () => {
+      req.destroy(new Error(`Webhook request to ${new URL(url).host} timed out`));
+    });
+
+    req.on('error', reject);
+    req.end(payload);
+  });
+};
@@ -0,0 +1,105 @@
+//
+// Copyright 2023 Vulcanize, Inc.
+//
+
+import { ethers } from 'ethers';
+import { Connection, EntitySchema } from 'typeorm';
+import { ConnectionMetadataBuilder } from 'typeorm/connection/ConnectionMetadataBuilder';
+import { EntityMetadataValidator } from 'typeorm/metadata-builder/EntityMetadataValidator';
+import { SnakeNamingStrategy } from 'typeorm-naming-strategies';
+
+import { Indexer } from '../../src/indexer';
+import { ServerConfig } from '../../src/config';
+import { JobQueue } from '../../src/job-queue';
+import { BlockProgressInterface, DatabaseInterface, EthClient, SyncStatusInterface } from '../../src/types';
+
+/**
+ * Get a connection with entity metadata built, without connecting to the database.
+ * Can be used to check the queries built for the entities.
+ * @param entities
+ */
+export const getTestConnection = async (entities: (EntitySchema | (new () => any))[]): Promise<Connection> => {
+  const conn = new Connection({ type: 'postgres', entities, namingStrategy: new SnakeNamingStrategy() });
+
+  // Build and validate entity metadatas as done by the connection on connect.
+  const entityMetadatas = new ConnectionMetadataBuilder(conn).buildEntityMetadatas(entities);
+  new EntityMetadataValidator().validateMany(entityMetadatas, conn.driver);
+  Object.assign(conn, { entityMetadatas });
+
+  return conn;
+};
+
+export const getTestServerConfig = (config: Partial<ServerConfig> = {}): ServerConfig => {
+  return {
+    host: '127.0.0.1',
+    port: 3008,
+    mode: 'eth_call',
+    kind: 'lazy',
+    checkpointing: false,
+    checkpointInterval: 2000,
+    ...config
+  } as ServerConfig;
+};
+
+/**
+ * Get a database with dummy transaction runners, methods used by a test are overridden using the given values.
+ * @param db
+ */
+export const getTestDatabase = (db: { [key: string]: any } = {}): DatabaseInterface => {
+  return {
+    createTransactionRunner: async () => ({
+      commitTransaction: async () => undefined,
+      rollbackTransaction: async () => undefined,
+      release: async () => undefined
+    }),
+    ...db
+  } as unknown as DatabaseInterface;
+};
+
+export const getTestIndexer = (db: DatabaseInterface, config: Partial<ServerConfig> = {}, jobQueue?: JobQueue, ethClientMethods: Partial<EthClient> = {}): Indexer => {
+  const ethClient = {
+    getStorageAt: async () => ({ value: '', proof: { data: '' } }),
+    ...ethClientMethods
+  } as unknown as EthClient;
+
+  return new Indexer(
+    getTestServerConfig(config),
+    db,
+    ethClient,
+    new ethers.providers.JsonRpcProvider(),
+    jobQueue ?? ({} as JobQueue)
+  );
+};
+
+export const getTestBlockProgress = (blockNumber: number, blockHash: string, parentHash: string, values: Partial<BlockProgressInterface> = {}): BlockProgressInterface => {
+  return {
+    id: blockNumber,
+    cid: '',
+    blockHash,
+    parentHash,
+    blockNumber,
+    blockTimestamp: blockNumber,
+    numEvents: 0,
+    numProcessedEvents: 0,
+    lastProcessedEventIndex: -1,
+    isComplete: true,
+    isPruned: false,
+    createdAt: new Date(),
+    ...values
+  };
+};
+
+export const getTestSyncStatus = (latestBlock: BlockProgressInterface, values: Partial<SyncStatusInterface> = {}): SyncStatusInterface => {
+  return {
+    id: 1,
+    chainHeadBlockHash: latestBlock.blockHash,
+    chainHeadBlockNumber: latestBlock.blockNumber,
+    latestIndexedBlockHash: latestBlock.blockHash,
+    latestIndexedBlockNumber: latestBlock.blockNumber,
+    latestCanonicalBlockHash: latestBlock.blockHash,
+    latestCanonicalBlockNumber: latestBlock.blockNumber,
+    initialIndexedBlockHash: latestBlock.blockHash,
+    initialIndexedBlockNumber: 0,
+    ...values
+  };
+};